@@ -0,0 +1,27 @@
+-- =========================================================
+-- Migration: Add chain_reorgs table for chain reorganization history
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+CREATE TABLE IF NOT EXISTS chain_reorgs (
+    id BIGSERIAL PRIMARY KEY,
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- 巻き戻したブロック数（旧チェーンの先端の高さ - 共通祖先の高さ）
+    depth INT NOT NULL,
+
+    common_ancestor_height BIGINT NOT NULL,
+    common_ancestor_hash VARCHAR(66),
+
+    old_tip_height BIGINT NOT NULL,
+    old_tip_hash VARCHAR(66) NOT NULL,
+    new_tip_height BIGINT NOT NULL,
+    new_tip_hash VARCHAR(66) NOT NULL,
+
+    -- 破棄したブロックのハッシュ（高さ順）
+    abandoned_block_hashes JSONB NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_reorgs_detected_at ON chain_reorgs(detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chain_reorgs_common_ancestor_height ON chain_reorgs(common_ancestor_height);
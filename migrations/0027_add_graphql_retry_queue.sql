@@ -0,0 +1,21 @@
+-- =========================================================
+-- Migration: Add graphql_retry_queue table for blocks missing from the GraphQL indexer
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+CREATE TABLE IF NOT EXISTS graphql_retry_queue (
+    height BIGINT PRIMARY KEY,
+
+    -- 失敗した取得・インポートの回数
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT,
+
+    -- 次に再試行する時刻（指数バックオフ）
+    next_retry_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_graphql_retry_queue_next_retry_at ON graphql_retry_queue(next_retry_at);
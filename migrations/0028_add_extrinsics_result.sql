@@ -0,0 +1,12 @@
+-- =========================================================
+-- Migration: Add execution result columns to extrinsics and index events by extrinsic
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+-- ExtrinsicSuccess / ExtrinsicFailed イベントによる実行結果（イベントが無い場合はNULL）
+ALTER TABLE extrinsics ADD COLUMN IF NOT EXISTS success BOOLEAN;
+ALTER TABLE extrinsics ADD COLUMN IF NOT EXISTS error JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_events_extrinsic_id ON events(extrinsic_id);
+CREATE INDEX IF NOT EXISTS idx_events_block_id ON events(block_id);
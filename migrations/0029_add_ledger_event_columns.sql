@@ -0,0 +1,45 @@
+-- =========================================================
+-- Migration: Add decoded columns to tx_dust_ledger_events and tx_zswap_ledger_events
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+-- DUSTレジャーイベント（DustInitialUtxo / DustGenerationDtimeUpdate / DustSpendProcessed / ParamChange）
+ALTER TABLE tx_dust_ledger_events
+    ADD COLUMN IF NOT EXISTS owner VARCHAR(66),
+    ADD COLUMN IF NOT EXISTS initial_value NUMERIC(39, 0),
+    ADD COLUMN IF NOT EXISTS generation_value NUMERIC(39, 0),
+    ADD COLUMN IF NOT EXISTS generation_index BIGINT,
+    ADD COLUMN IF NOT EXISTS backing_night VARCHAR(66),
+    ADD COLUMN IF NOT EXISTS mt_index BIGINT,
+    ADD COLUMN IF NOT EXISTS commitment VARCHAR(66),
+    ADD COLUMN IF NOT EXISTS commitment_index BIGINT,
+    ADD COLUMN IF NOT EXISTS nullifier VARCHAR(66),
+    ADD COLUMN IF NOT EXISTS v_fee NUMERIC(39, 0),
+    -- DUST生成の終了時刻（UNIX秒。終了しない場合は u64 の最大値）
+    ADD COLUMN IF NOT EXISTS dtime NUMERIC(20, 0),
+    ADD COLUMN IF NOT EXISTS event_time TIMESTAMPTZ,
+    -- デコードしたイベントの内容（ParamChange の場合はレジャーパラメーター）
+    ADD COLUMN IF NOT EXISTS decoded JSONB,
+    ADD COLUMN IF NOT EXISTS decode_error TEXT,
+    ADD COLUMN IF NOT EXISTS decoded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_tx_dust_ledger_events_owner ON tx_dust_ledger_events(owner);
+CREATE INDEX IF NOT EXISTS idx_tx_dust_ledger_events_backing_night ON tx_dust_ledger_events(backing_night);
+CREATE INDEX IF NOT EXISTS idx_tx_dust_ledger_events_commitment ON tx_dust_ledger_events(commitment);
+CREATE INDEX IF NOT EXISTS idx_tx_dust_ledger_events_nullifier ON tx_dust_ledger_events(nullifier);
+
+-- ZSwapレジャーイベント（ZswapInput / ZswapOutput）
+ALTER TABLE tx_zswap_ledger_events
+    ADD COLUMN IF NOT EXISTS event_type VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS commitment VARCHAR(66),
+    ADD COLUMN IF NOT EXISTS nullifier VARCHAR(66),
+    ADD COLUMN IF NOT EXISTS contract_address VARCHAR(66),
+    ADD COLUMN IF NOT EXISTS mt_index BIGINT,
+    ADD COLUMN IF NOT EXISTS decoded JSONB,
+    ADD COLUMN IF NOT EXISTS decode_error TEXT,
+    ADD COLUMN IF NOT EXISTS decoded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_tx_zswap_ledger_events_commitment ON tx_zswap_ledger_events(commitment);
+CREATE INDEX IF NOT EXISTS idx_tx_zswap_ledger_events_nullifier ON tx_zswap_ledger_events(nullifier);
+CREATE INDEX IF NOT EXISTS idx_tx_zswap_ledger_events_contract_address ON tx_zswap_ledger_events(contract_address);
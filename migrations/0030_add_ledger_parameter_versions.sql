@@ -0,0 +1,48 @@
+-- =========================================================
+-- Migration: Add ledger_parameter_versions table for the history of decoded ledger parameters
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+-- レジャーパラメーターの値ごとに1行（同じ値のブロックは同じ行を参照する）
+CREATE TABLE IF NOT EXISTS ledger_parameter_versions (
+    id BIGSERIAL PRIMARY KEY,
+
+    -- シリアライズされたレジャーパラメーターの SHA-256（0xなし）
+    params_hash CHAR(64) NOT NULL UNIQUE,
+    raw TEXT NOT NULL,
+
+    -- この値が使われていた最初と最後のブロック高さ
+    first_height BIGINT NOT NULL,
+    last_height BIGINT NOT NULL,
+
+    -- 手数料の価格
+    read_price NUMERIC,
+    compute_price NUMERIC,
+    block_usage_price NUMERIC,
+    write_price NUMERIC,
+
+    -- DUST生成のパラメーター
+    night_dust_ratio NUMERIC(39, 0),
+    generation_decay_rate NUMERIC(39, 0),
+    dust_grace_period_seconds BIGINT,
+
+    -- 制限
+    transaction_byte_limit BIGINT,
+    global_ttl_seconds BIGINT,
+
+    -- デコードしたレジャーパラメーターの内容
+    decoded JSONB,
+    decode_error TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_parameter_versions_first_height ON ledger_parameter_versions(first_height);
+
+-- ブロックが使用しているレジャーパラメーター
+ALTER TABLE blocks
+    ADD COLUMN IF NOT EXISTS ledger_parameter_version_id BIGINT REFERENCES ledger_parameter_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_blocks_ledger_parameter_version_id ON blocks(ledger_parameter_version_id);
@@ -0,0 +1,98 @@
+-- =========================================================
+-- Migration: Add unshielded_utxos table keyed by (creating transaction hash, output index)
+--
+-- これまでインポーターは unshieldedCreatedOutputs を tx_inputs に、unshieldedSpentOutputs を tx_outputs に
+-- 保存しており、作成と消費が逆になっていた上に、消費されたUTXOと作成した行が結び付いていなかった。
+-- 既存の行を unshielded_utxos に移し、インポーターが保存した行は tx_inputs / tx_outputs から削除する。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+CREATE TABLE IF NOT EXISTS unshielded_utxos (
+    id BIGSERIAL PRIMARY KEY,
+
+    -- UTXOを作成したトランザクションと、その中での出力インデックス
+    created_at_tx_hash VARCHAR(66) NOT NULL,
+    output_index INT NOT NULL,
+    created_at_transaction_id BIGINT REFERENCES transactions(id) ON DELETE CASCADE,
+    created_at_height BIGINT,
+
+    owner VARCHAR(128) NOT NULL,
+    address_id BIGINT REFERENCES addresses(id) ON DELETE CASCADE,
+    token_type VARCHAR(66) NOT NULL,
+    value NUMERIC(39, 0) NOT NULL,
+    intent_hash VARCHAR(66),
+    ctime TIMESTAMPTZ,
+    initial_nonce VARCHAR(66),
+    registered_for_dust_generation BOOLEAN NOT NULL DEFAULT FALSE,
+
+    -- UTXOを消費したトランザクション（transactions.id）
+    -- 上流から消費済みと分かっていても、消費したトランザクションをまだインポートしていない場合は spent_at_tx_hash のみ
+    spent_at_transaction_id BIGINT REFERENCES transactions(id) ON DELETE SET NULL,
+    spent_at_tx_hash VARCHAR(66),
+    spent_at_height BIGINT,
+
+    raw JSONB NOT NULL,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (created_at_tx_hash, output_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_unshielded_utxos_address_token ON unshielded_utxos(address_id, token_type);
+CREATE INDEX IF NOT EXISTS idx_unshielded_utxos_owner ON unshielded_utxos(owner);
+CREATE INDEX IF NOT EXISTS idx_unshielded_utxos_created_at_transaction_id ON unshielded_utxos(created_at_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_unshielded_utxos_spent_at_transaction_id ON unshielded_utxos(spent_at_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_unshielded_utxos_spent_at_tx_hash ON unshielded_utxos(spent_at_tx_hash);
+CREATE INDEX IF NOT EXISTS idx_unshielded_utxos_unspent
+    ON unshielded_utxos(address_id, token_type) WHERE spent_at_transaction_id IS NULL;
+
+-- 作成されたUTXO（インポーターは tx_inputs に保存していた）
+INSERT INTO unshielded_utxos
+    (created_at_tx_hash, output_index, created_at_transaction_id, created_at_height,
+     owner, address_id, token_type, value, intent_hash, ctime, initial_nonce, registered_for_dust_generation,
+     spent_at_tx_hash, raw)
+    SELECT COALESCE(i.created_at_tx_hash, t.hash), (i.raw->>'outputIndex')::INT, i.tx_id, t.block_height,
+           i.account_addr, i.address_id, i.token_type, COALESCE((i.raw->>'value')::NUMERIC, i.value),
+           i.intent_hash, i.ctime, i.initial_nonce, i.registered_for_dust_generation,
+           i.spent_at_tx_hash, i.raw
+        FROM tx_inputs i
+        JOIN transactions t ON t.id = i.tx_id
+        WHERE i.intent_hash IS NOT NULL AND i.raw->>'outputIndex' IS NOT NULL
+    ON CONFLICT (created_at_tx_hash, output_index) DO NOTHING;
+
+-- 消費されたUTXO（インポーターは tx_outputs に保存していた）
+INSERT INTO unshielded_utxos
+    (created_at_tx_hash, output_index,
+     owner, address_id, token_type, value, intent_hash, ctime, initial_nonce, registered_for_dust_generation,
+     spent_at_transaction_id, spent_at_tx_hash, spent_at_height, raw)
+    SELECT o.created_at_tx_hash, (o.raw->>'outputIndex')::INT,
+           o.account_addr, o.address_id, o.token_type, COALESCE((o.raw->>'value')::NUMERIC, o.value),
+           o.intent_hash, o.ctime, o.initial_nonce, o.registered_for_dust_generation,
+           o.tx_id, t.hash, t.block_height, o.raw
+        FROM tx_outputs o
+        JOIN transactions t ON t.id = o.tx_id
+        WHERE o.intent_hash IS NOT NULL AND o.created_at_tx_hash IS NOT NULL AND o.raw->>'outputIndex' IS NOT NULL
+    ON CONFLICT (created_at_tx_hash, output_index) DO UPDATE SET
+        spent_at_transaction_id = EXCLUDED.spent_at_transaction_id,
+        spent_at_tx_hash = EXCLUDED.spent_at_tx_hash,
+        spent_at_height = EXCLUDED.spent_at_height;
+
+-- ハッシュしか分からない作成・消費トランザクションを transactions.id に解決する
+UPDATE unshielded_utxos u
+    SET created_at_transaction_id = t.id, created_at_height = t.block_height
+    FROM transactions t
+    WHERE u.created_at_transaction_id IS NULL AND t.hash = u.created_at_tx_hash;
+
+UPDATE unshielded_utxos u
+    SET spent_at_transaction_id = t.id, spent_at_height = t.block_height
+    FROM transactions t
+    WHERE u.spent_at_transaction_id IS NULL AND t.hash = u.spent_at_tx_hash;
+
+DELETE FROM tx_inputs WHERE intent_hash IS NOT NULL;
+DELETE FROM tx_outputs WHERE intent_hash IS NOT NULL;
+
+-- 未使用のUTXO
+CREATE OR REPLACE VIEW unspent_utxos AS
+    SELECT * FROM unshielded_utxos WHERE spent_at_transaction_id IS NULL;
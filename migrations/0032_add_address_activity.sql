@@ -0,0 +1,53 @@
+-- =========================================================
+-- Migration: Add per-address transaction history and balance snapshots keyed on addresses.id
+--
+-- 0025 で accounts を削除したため、account_tx と account_balances は参照先の無いテーブルになっていた。
+-- これらを削除し、addresses を基にした address_transactions / address_balances に置き換える。
+-- 既存のデータは rebuild-addresses コマンドで unshielded_utxos から作成する。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+DROP TABLE IF EXISTS account_tx;
+DROP TABLE IF EXISTS account_balances;
+
+-- アドレスが最初と最後に現れたブロック高さと、関連するトランザクション数
+ALTER TABLE addresses
+    ADD COLUMN IF NOT EXISTS first_seen_height BIGINT,
+    ADD COLUMN IF NOT EXISTS last_seen_height BIGINT,
+    ADD COLUMN IF NOT EXISTS tx_count BIGINT NOT NULL DEFAULT 0;
+
+-- アドレスごとのトランザクション履歴（トークンの種類ごとに1行）
+CREATE TABLE IF NOT EXISTS address_transactions (
+    address_id BIGINT NOT NULL REFERENCES addresses(id) ON DELETE CASCADE,
+    transaction_id BIGINT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    token_type VARCHAR(66) NOT NULL,
+
+    block_height BIGINT NOT NULL,
+    index_in_block INT NOT NULL,
+
+    -- in: 受け取りのみ / out: 送信のみ / self: 両方
+    direction VARCHAR(4) NOT NULL CHECK (direction IN ('in', 'out', 'self')),
+    -- このアドレスが受け取った合計（作成されたUTXO）
+    received NUMERIC(39, 0) NOT NULL DEFAULT 0,
+    -- このアドレスが送信した合計（消費されたUTXO）
+    sent NUMERIC(39, 0) NOT NULL DEFAULT 0,
+
+    PRIMARY KEY (address_id, transaction_id, token_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_address_transactions_address_transaction
+    ON address_transactions(address_id, transaction_id DESC);
+CREATE INDEX IF NOT EXISTS idx_address_transactions_address_height
+    ON address_transactions(address_id, block_height);
+CREATE INDEX IF NOT EXISTS idx_address_transactions_transaction_id ON address_transactions(transaction_id);
+
+-- アドレスとトークンごとの残高のスナップショット（残高が変化したブロックごとに1行、そのブロック終了時点の残高）
+CREATE TABLE IF NOT EXISTS address_balances (
+    address_id BIGINT NOT NULL REFERENCES addresses(id) ON DELETE CASCADE,
+    token_type VARCHAR(66) NOT NULL,
+    block_height BIGINT NOT NULL,
+    balance NUMERIC(40, 0) NOT NULL,
+
+    PRIMARY KEY (address_id, token_type, block_height)
+);
@@ -0,0 +1,87 @@
+-- =========================================================
+-- Migration: Add token registry, per-token transaction totals and unshielded supply snapshots
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+-- トークンの登録情報（新しいトークンの種類を初めて見た時に自動で登録される）
+CREATE TABLE IF NOT EXISTS tokens (
+    token_type VARCHAR(66) PRIMARY KEY,
+
+    -- 表示用のメタデータ（未設定の場合はトークンの種類をそのまま表示する）
+    symbol VARCHAR(32),
+    name VARCHAR(128),
+    decimals INT NOT NULL DEFAULT 0,
+
+    first_seen_height BIGINT,
+    first_seen_transaction_id BIGINT REFERENCES transactions(id) ON DELETE SET NULL,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO tokens (token_type, symbol, name, decimals)
+    VALUES ('0000000000000000000000000000000000000000000000000000000000000000', 'NIGHT', 'Night', 6)
+    ON CONFLICT (token_type) DO NOTHING;
+
+-- トランザクションごと・トークンごとの入力（消費されたUTXO）と出力（作成されたUTXO）の合計
+CREATE TABLE IF NOT EXISTS transaction_token_totals (
+    transaction_id BIGINT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    token_type VARCHAR(66) NOT NULL REFERENCES tokens(token_type),
+    block_height BIGINT NOT NULL,
+    total_input NUMERIC(39, 0) NOT NULL DEFAULT 0,
+    total_output NUMERIC(39, 0) NOT NULL DEFAULT 0,
+
+    PRIMARY KEY (transaction_id, token_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_token_totals_token_type
+    ON transaction_token_totals(token_type, block_height);
+
+-- トークンごとのアンシールド供給量（未使用のUTXOの合計）のスナップショット
+-- 供給量が変化したブロックごとに1行、そのブロック終了時点の値
+CREATE TABLE IF NOT EXISTS token_supplies (
+    token_type VARCHAR(66) NOT NULL REFERENCES tokens(token_type),
+    block_height BIGINT NOT NULL,
+    supply NUMERIC(40, 0) NOT NULL,
+
+    PRIMARY KEY (token_type, block_height)
+);
+
+-- 保存済みのUTXOから作成する
+INSERT INTO tokens (token_type, first_seen_height)
+    SELECT token_type, MIN(COALESCE(created_at_height, spent_at_height))
+        FROM unshielded_utxos
+        GROUP BY token_type
+    ON CONFLICT (token_type) DO UPDATE SET
+        first_seen_height = EXCLUDED.first_seen_height;
+
+INSERT INTO transaction_token_totals (transaction_id, token_type, block_height, total_input, total_output)
+    SELECT x.transaction_id, x.token_type, t.block_height, SUM(x.total_input), SUM(x.total_output)
+        FROM (
+            SELECT created_at_transaction_id AS transaction_id, token_type, 0 AS total_input, value AS total_output
+                FROM unshielded_utxos WHERE created_at_transaction_id IS NOT NULL
+            UNION ALL
+            SELECT spent_at_transaction_id AS transaction_id, token_type, value AS total_input, 0 AS total_output
+                FROM unshielded_utxos WHERE spent_at_transaction_id IS NOT NULL
+        ) x
+        JOIN transactions t ON t.id = x.transaction_id
+        GROUP BY x.transaction_id, x.token_type, t.block_height
+    ON CONFLICT (transaction_id, token_type) DO NOTHING;
+
+UPDATE tokens k
+    SET first_seen_transaction_id = (
+        SELECT transaction_id FROM transaction_token_totals
+            WHERE token_type = k.token_type
+            ORDER BY block_height, transaction_id
+            LIMIT 1
+    );
+
+INSERT INTO token_supplies (token_type, block_height, supply)
+    SELECT token_type, block_height, SUM(delta) OVER (PARTITION BY token_type ORDER BY block_height)
+        FROM (
+            SELECT token_type, block_height, SUM(total_output - total_input) AS delta
+                FROM transaction_token_totals
+                GROUP BY token_type, block_height
+        ) d
+    ON CONFLICT (token_type, block_height) DO NOTHING;
@@ -0,0 +1,40 @@
+-- =========================================================
+-- Migration: Add contract registry keyed on contract address
+--
+-- これまでは ContractCall のみを tx_contract_actions に保存していたため、
+-- ContractDeploy / ContractUpdate も保存するようにし、コントラクトごとの集計を contracts に持つ。
+-- contracts は tx_contract_actions から作り直せる集計テーブルで、
+-- 既存のデータは rebuild-contracts コマンドで作成する。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+CREATE TABLE IF NOT EXISTS contracts (
+    id BIGSERIAL PRIMARY KEY,
+    address VARCHAR(66) NOT NULL UNIQUE,
+
+    -- デプロイしたトランザクション（ContractDeploy が無い場合は ContractCall の deploy から求める）
+    deploy_tx_hash VARCHAR(66),
+    deploy_transaction_id BIGINT REFERENCES transactions(id) ON DELETE SET NULL,
+    deploy_height BIGINT,
+    -- デプロイしたトランザクションが最初に消費したアンシールドUTXOの所有者
+    deployer VARCHAR(255),
+
+    -- 最新のアクション時点の状態
+    latest_action_id BIGINT REFERENCES tx_contract_actions(id) ON DELETE SET NULL,
+    latest_height BIGINT,
+    state TEXT,
+    zswap_state TEXT,
+
+    call_count BIGINT NOT NULL DEFAULT 0,
+    update_count BIGINT NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contracts_deploy_height ON contracts(deploy_height);
+CREATE INDEX IF NOT EXISTS idx_contracts_deployer ON contracts(deployer);
+
+-- コントラクトごとの履歴とエントリーポイントの集計用
+CREATE INDEX IF NOT EXISTS idx_tx_contract_actions_address ON tx_contract_actions(address, type_name, entry_point);
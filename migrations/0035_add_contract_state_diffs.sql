@@ -0,0 +1,28 @@
+-- =========================================================
+-- Migration: Store contract states as diffs against the previous action of the same contract
+--
+-- tx_contract_actions.state は呼び出しごとに状態の全体を保存していたため、
+-- 同じコントラクトの直前のアクションからの差分（state_diff）を保存し、
+-- 一定回数ごとにだけ状態の全体（スナップショット）を state に保存する。
+-- 既存のアクションは全てスナップショットとして扱われ、contract-state compact コマンドで差分に変換できる。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+ALTER TABLE tx_contract_actions
+    ALTER COLUMN state DROP NOT NULL,
+    -- 差分の基準にしたアクション（スナップショットの場合はNULL）
+    ADD COLUMN IF NOT EXISTS state_base_action_id BIGINT REFERENCES tx_contract_actions(id),
+    -- 基準の状態に対する置換の配列 [{ offset, remove, insert }]（スナップショットの場合はNULL）
+    ADD COLUMN IF NOT EXISTS state_diff JSONB,
+    -- 直前のスナップショットからの差分の数
+    ADD COLUMN IF NOT EXISTS state_depth INT NOT NULL DEFAULT 0,
+    -- 状態の全体のバイト数とハッシュ（復元した状態の検証用）
+    ADD COLUMN IF NOT EXISTS state_size INT,
+    ADD COLUMN IF NOT EXISTS state_hash CHAR(64);
+
+ALTER TABLE tx_contract_actions
+    ADD CONSTRAINT tx_contract_actions_state_check CHECK (state IS NOT NULL OR state_diff IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_tx_contract_actions_state_base_action_id
+    ON tx_contract_actions(state_base_action_id);
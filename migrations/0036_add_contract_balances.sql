@@ -0,0 +1,33 @@
+-- =========================================================
+-- Migration: Keep every token balance of a contract action and add a per-contract balance timeline
+--
+-- tx_contract_action_balances は (tx_contract_action_id, type_name) で一意だったため、
+-- 複数の種類のトークンを持つコントラクトは1つの残高しか保存されていなかった。
+-- (tx_contract_action_id, token_type) で一意にし、コントラクトごと・トークンごとの残高の推移を contract_balances に持つ。
+-- 既存のデータの推移は rebuild-contracts コマンドで作成する。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+DROP INDEX IF EXISTS idx_tx_contract_action_balances_tx_contract_action_id_type_name;
+
+ALTER TABLE tx_contract_action_balances
+    ALTER COLUMN token_type TYPE VARCHAR(66),
+    ALTER COLUMN amount TYPE NUMERIC(39, 0);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tx_contract_action_balances_tx_contract_action_id_token_type
+    ON tx_contract_action_balances(tx_contract_action_id, token_type);
+
+-- コントラクトの残高の推移（残高が変化したブロック高さごとに1行、その高さの最後のアクション後の残高）
+CREATE TABLE IF NOT EXISTS contract_balances (
+    contract_address VARCHAR(66) NOT NULL,
+    token_type VARCHAR(66) NOT NULL,
+    block_height BIGINT NOT NULL,
+    balance NUMERIC(39, 0) NOT NULL,
+    action_id BIGINT NOT NULL REFERENCES tx_contract_actions(id) ON DELETE CASCADE,
+
+    PRIMARY KEY (contract_address, token_type, block_height)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_balances_token_type ON contract_balances(token_type, block_height);
+CREATE INDEX IF NOT EXISTS idx_contract_balances_action_id ON contract_balances(action_id);
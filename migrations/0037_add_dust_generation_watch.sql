@@ -0,0 +1,54 @@
+-- =========================================================
+-- Migration: Add DUST generation watch-list and status snapshots
+--
+-- dust_watch_addresses に監視するCardanoのリワードアドレスを登録し、
+-- 定期的に Query.dustGenerationStatus を呼び出した結果を dust_generation_snapshots に時系列で保存する。
+-- DUSTアドレスから求めた公開鍵で DustInitialUtxo イベント（owner）と対応付け、
+-- イベントの backing_night でDUST生成に登録されたアンシールドUTXO（initial_nonce）と対応付ける。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+CREATE TABLE IF NOT EXISTS dust_watch_addresses (
+    id BIGSERIAL PRIMARY KEY,
+    -- Cardanoのリワードアドレス（stake_test1... / stake1...）
+    cardano_reward_address VARCHAR(255) NOT NULL UNIQUE,
+    label VARCHAR(255),
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+
+    last_polled_at TIMESTAMPTZ,
+    last_error TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS dust_generation_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    watch_address_id BIGINT NOT NULL REFERENCES dust_watch_addresses(id) ON DELETE CASCADE,
+    observed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- 取得した時点でインポート済みの最大のブロック高さ
+    block_height BIGINT,
+
+    registered BOOLEAN NOT NULL,
+    dust_address VARCHAR(255),
+    -- DUSTアドレスをデコードした公開鍵（0xなし・小文字）
+    dust_public_key VARCHAR(130),
+
+    -- NIGHT の数量は STAR、DUST の数量は SPECK 単位
+    night_balance NUMERIC(39, 0) NOT NULL,
+    generation_rate NUMERIC(39, 0) NOT NULL,
+    max_capacity NUMERIC(39, 0) NOT NULL,
+    current_capacity NUMERIC(39, 0) NOT NULL,
+
+    -- 登録を更新・解除するためのCardanoのUTXO
+    utxo_tx_hash VARCHAR(66),
+    utxo_output_index INT
+);
+
+CREATE INDEX IF NOT EXISTS idx_dust_generation_snapshots_watch_address ON dust_generation_snapshots(watch_address_id, observed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dust_generation_snapshots_dust_public_key ON dust_generation_snapshots(dust_public_key);
+
+-- DustInitialUtxo イベントの backing_night との対応付け用
+CREATE INDEX IF NOT EXISTS idx_unshielded_utxos_initial_nonce ON unshielded_utxos(initial_nonce)
+    WHERE registered_for_dust_generation;
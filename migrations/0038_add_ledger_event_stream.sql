@@ -0,0 +1,31 @@
+-- =========================================================
+-- Migration: Add ledger events received from the upstream subscriptions
+--
+-- ZSwap / DUST レジャーイベントは GetBlockByHeight の transactions に含まれる形でしか取得していなかったため、
+-- 上流の zswapLedgerEvents(id) / dustLedgerEvents(id) サブスクリプションで受信したイベントを保存する。
+-- 受信したイベントはトランザクションに含まれるイベント（tx_zswap_ledger_events / tx_dust_ledger_events）と
+-- event_id で突き合わせ、結果を check_status に記録する。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+CREATE TABLE IF NOT EXISTS ledger_event_stream (
+    -- 'zswap' または 'dust'
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('zswap', 'dust')),
+    event_id BIGINT NOT NULL,
+    type_name VARCHAR(50),
+    raw TEXT NOT NULL,
+    -- 受信した時点の上流の最大のイベントID
+    max_id BIGINT NOT NULL,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- トランザクションに含まれるイベントとの突き合わせ
+    -- matched: 一致 / raw_mismatch: 内容が異なる / missing_in_transactions: トランザクションに含まれていない
+    tx_id BIGINT REFERENCES transactions(id) ON DELETE SET NULL,
+    check_status VARCHAR(30),
+    checked_at TIMESTAMPTZ,
+
+    PRIMARY KEY (kind, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_event_stream_check_status ON ledger_event_stream(kind, check_status);
@@ -0,0 +1,50 @@
+-- =========================================================
+-- Migration: Add shielded wallet sessions and relevant transactions
+--
+-- wallets に登録したビューキーで上流のインデクサーに connect し、
+-- shieldedTransactions サブスクリプションで受信したウォレットに関係するトランザクションと
+-- インデックスの進捗をウォレットごとに保存する。
+-- セッションが期限切れになった場合は connect し直し、保存済みの end_index から購読を再開する。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+CREATE TABLE IF NOT EXISTS wallets (
+    id BIGSERIAL PRIMARY KEY,
+    label VARCHAR(255),
+    -- ビューキー（APIやログには出力しない）
+    viewing_key TEXT NOT NULL UNIQUE,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+
+    -- 現在のセッション
+    session_id VARCHAR(255),
+    session_started_at TIMESTAMPTZ,
+    session_count INT NOT NULL DEFAULT 0,
+
+    -- ShieldedTransactionsProgress で受信した進捗
+    highest_end_index BIGINT,
+    highest_checked_end_index BIGINT,
+    highest_relevant_end_index BIGINT,
+    progress_at TIMESTAMPTZ,
+
+    last_error TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS wallet_relevant_transactions (
+    wallet_id BIGINT NOT NULL REFERENCES wallets(id) ON DELETE CASCADE,
+    -- 上流のインデクサーのトランザクションID
+    upstream_transaction_id BIGINT NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    start_index BIGINT NOT NULL,
+    end_index BIGINT NOT NULL,
+    collapsed_merkle_tree JSONB,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    PRIMARY KEY (wallet_id, upstream_transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_relevant_transactions_end_index ON wallet_relevant_transactions(wallet_id, end_index);
+CREATE INDEX IF NOT EXISTS idx_wallet_relevant_transactions_tx_hash ON wallet_relevant_transactions(tx_hash);
@@ -0,0 +1,54 @@
+-- =========================================================
+-- Migration: Add watched unshielded addresses and their upstream per-address view
+--
+-- watched_addresses に登録したアドレスごとに上流の unshieldedTransactions(address, transactionId) を購読し、
+-- 受信したUTXOの作成・消費を watched_address_utxos に保存する。
+-- 保存した上流のビューと、ブロックからインポートした unshielded_utxos を突き合わせて検証に使う。
+-- =========================================================
+
+SET search_path TO mn_preview_indexer;
+
+CREATE TABLE IF NOT EXISTS watched_addresses (
+    id BIGSERIAL PRIMARY KEY,
+    -- mn_addr_preview 形式のアドレス（小文字）
+    address VARCHAR(255) NOT NULL UNIQUE,
+    label VARCHAR(255),
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+
+    -- 受信した最後のトランザクションの上流のID（購読の再開位置）
+    last_transaction_id BIGINT,
+    -- UnshieldedTransactionsProgress で受信した、アドレスの既知のトランザクションの最高ID
+    highest_transaction_id BIGINT,
+    progress_at TIMESTAMPTZ,
+
+    last_error TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS watched_address_utxos (
+    watched_address_id BIGINT NOT NULL REFERENCES watched_addresses(id) ON DELETE CASCADE,
+    -- UTXOを作成・消費したトランザクション
+    upstream_transaction_id BIGINT NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    -- 'created' または 'spent'
+    side VARCHAR(10) NOT NULL CHECK (side IN ('created', 'spent')),
+
+    -- UTXO（作成したトランザクションのハッシュと出力インデックスで識別）
+    created_at_tx_hash VARCHAR(66) NOT NULL,
+    output_index INT NOT NULL,
+    owner VARCHAR(255) NOT NULL,
+    token_type VARCHAR(66) NOT NULL,
+    value NUMERIC(39, 0) NOT NULL,
+    intent_hash VARCHAR(66),
+    ctime TIMESTAMPTZ,
+    initial_nonce VARCHAR(66),
+    registered_for_dust_generation BOOLEAN NOT NULL DEFAULT FALSE,
+
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    PRIMARY KEY (watched_address_id, side, created_at_tx_hash, output_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watched_address_utxos_transaction ON watched_address_utxos(watched_address_id, upstream_transaction_id);
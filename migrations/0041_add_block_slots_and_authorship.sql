@@ -0,0 +1,33 @@
+-- =========================================================
+-- Migration: Decode block slots and authors from the digest
+--
+-- これまで blocks.slot にはブロック高を保存していたため、ダイジェストのプレランタイムログから
+-- 復号した合意のスロット番号を保存するように変更する（未復号のブロックはNULL）。
+-- 作成者はスロットの担当オーソリティから導き、親ブロックとの間で作成されなかったスロットを
+-- 担当オーソリティごとに block_missed_slots に記録する。
+-- =========================================================
+
+SET search_path TO :schema;
+
+ALTER TABLE blocks ALTER COLUMN slot DROP NOT NULL;
+
+-- ブロック高を保存していた既存の値は、ダイジェストから復号し直すまでNULLにする
+UPDATE blocks SET slot = NULL WHERE slot = height;
+
+-- 作成したオーソリティのインデックス（親ブロックの時点のオーソリティ一覧での位置）
+ALTER TABLE blocks ADD COLUMN IF NOT EXISTS authority_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_blocks_slot ON blocks (slot);
+
+CREATE TABLE IF NOT EXISTS block_missed_slots (
+    -- 作成されなかったスロットの直後のブロック
+    block_id BIGINT NOT NULL REFERENCES blocks(id) ON DELETE CASCADE,
+    authority_index INTEGER NOT NULL,
+    -- 担当オーソリティの公開鍵（0xなし・小文字）
+    authority VARCHAR(66) NOT NULL,
+    -- 親ブロックとの間で、このオーソリティが作成しなかったスロットの数
+    missed_slots INTEGER NOT NULL,
+    PRIMARY KEY (block_id, authority_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_block_missed_slots_authority ON block_missed_slots (authority);
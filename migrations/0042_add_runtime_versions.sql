@@ -0,0 +1,53 @@
+-- =========================================================
+-- Migration: Track runtime versions, metadata and upgrades
+--
+-- ブロックごとにランタイムの specVersion / transactionVersion を記録し、
+-- ランタイムのメタデータは内容ごとに1件だけ runtime_metadata に保存する。
+-- 親ブロックと specVersion が変わったブロックを runtime_upgrades に記録する。
+-- =========================================================
+
+SET search_path TO :schema;
+
+ALTER TABLE blocks ADD COLUMN IF NOT EXISTS spec_version INTEGER;
+ALTER TABLE blocks ADD COLUMN IF NOT EXISTS transaction_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_blocks_spec_version ON blocks (spec_version);
+
+CREATE TABLE IF NOT EXISTS runtime_metadata (
+    -- メタデータ（SCALE）のsha256
+    metadata_hash VARCHAR(64) PRIMARY KEY,
+    metadata BYTEA NOT NULL,
+    -- メタデータのバージョン（v14, v15 など）
+    metadata_version INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS runtime_versions (
+    spec_name VARCHAR(64) NOT NULL,
+    spec_version INTEGER NOT NULL,
+    impl_version INTEGER NOT NULL,
+    transaction_version INTEGER NOT NULL,
+    metadata_hash VARCHAR(64) NOT NULL REFERENCES runtime_metadata(metadata_hash),
+    -- このランタイムで最初にインポートしたブロック
+    first_height BIGINT NOT NULL,
+    first_block_hash VARCHAR(66) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (spec_name, spec_version)
+);
+
+CREATE TABLE IF NOT EXISTS runtime_upgrades (
+    -- 新しいランタイムで作成された最初のブロック
+    block_id BIGINT PRIMARY KEY REFERENCES blocks(id) ON DELETE CASCADE,
+    height BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    spec_name VARCHAR(64) NOT NULL,
+    from_spec_version INTEGER NOT NULL,
+    to_spec_version INTEGER NOT NULL,
+    from_transaction_version INTEGER,
+    to_transaction_version INTEGER NOT NULL,
+    -- ランタイムのコードを更新した system.CodeUpdated イベントのブロック高（親ブロック）
+    code_updated_height BIGINT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_runtime_upgrades_height ON runtime_upgrades (height);
@@ -0,0 +1,21 @@
+-- =========================================================
+-- Migration: Page transactions by chain position
+--
+-- 並列バックフィルではトランザクションIDの順序がチェーン上の順序と一致しないため、
+-- トランザクション一覧は (block_height, index_in_block) の順に並べる。
+-- 旧インデクサーが block_height を保存していなかった行は blocks から補完する。
+-- =========================================================
+
+SET search_path TO :schema;
+
+UPDATE transactions t
+    SET block_height = b.height
+    FROM blocks b
+    WHERE b.id = t.block_id
+      AND t.block_height IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_txs_block_height_index
+    ON transactions (block_height DESC, index_in_block DESC);
+
+CREATE INDEX IF NOT EXISTS idx_address_transactions_address_position
+    ON address_transactions (address_id, block_height DESC, index_in_block DESC);
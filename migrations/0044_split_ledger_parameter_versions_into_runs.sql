@@ -0,0 +1,49 @@
+-- =========================================================
+-- Migration: Store one ledger parameter version per contiguous run of blocks
+--
+-- 値ごとに1行では、A → B → A と値が戻った場合に A の範囲が B の範囲を含んでしまうため、
+-- 同じ値が連続して使われたブロックの範囲ごとに1行にする。
+-- 既存の行は、参照しているブロックの連続した範囲ごとに分割する。
+-- =========================================================
+
+SET search_path TO :schema;
+
+ALTER TABLE ledger_parameter_versions DROP CONSTRAINT IF EXISTS ledger_parameter_versions_params_hash_key;
+
+CREATE INDEX IF NOT EXISTS idx_ledger_parameter_versions_params_hash ON ledger_parameter_versions(params_hash);
+CREATE INDEX IF NOT EXISTS idx_ledger_parameter_versions_last_height ON ledger_parameter_versions(last_height);
+
+-- 参照しているブロックの連続した範囲ごとに、同じ値の行を作成する
+INSERT INTO ledger_parameter_versions
+    (params_hash, raw, first_height, last_height,
+     read_price, compute_price, block_usage_price, write_price,
+     night_dust_ratio, generation_decay_rate, dust_grace_period_seconds,
+     transaction_byte_limit, global_ttl_seconds, decoded, decode_error, created_at)
+    SELECT v.params_hash, v.raw, r.first_height, r.last_height,
+           v.read_price, v.compute_price, v.block_usage_price, v.write_price,
+           v.night_dust_ratio, v.generation_decay_rate, v.dust_grace_period_seconds,
+           v.transaction_byte_limit, v.global_ttl_seconds, v.decoded, v.decode_error, v.created_at
+        FROM (
+            SELECT version_id, MIN(height) AS first_height, MAX(height) AS last_height
+                FROM (
+                    SELECT height, ledger_parameter_version_id AS version_id,
+                           height - ROW_NUMBER() OVER (PARTITION BY ledger_parameter_version_id ORDER BY height) AS run
+                        FROM blocks
+                        WHERE ledger_parameter_version_id IS NOT NULL
+                ) AS heights
+                GROUP BY version_id, run
+        ) AS r
+        JOIN ledger_parameter_versions v ON v.id = r.version_id;
+
+-- ブロックを、同じ値で自分の高さを含む新しい行に付け替える
+UPDATE blocks b
+    SET ledger_parameter_version_id = n.id
+    FROM ledger_parameter_versions o, ledger_parameter_versions n
+    WHERE o.id = b.ledger_parameter_version_id
+      AND n.params_hash = o.params_hash
+      AND n.id > o.id
+      AND b.height BETWEEN n.first_height AND n.last_height;
+
+-- どのブロックからも参照されなくなった以前の行を削除する
+DELETE FROM ledger_parameter_versions v
+    WHERE NOT EXISTS (SELECT 1 FROM blocks b WHERE b.ledger_parameter_version_id = v.id);
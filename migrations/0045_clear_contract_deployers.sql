@@ -0,0 +1,12 @@
+-- =========================================================
+-- Migration: Clear contract deployers
+--
+-- deployer はデプロイしたトランザクションが消費したUTXOの所有者から推測していたが、
+-- 署名者や手数料の支払者とは限らないため保存しない。
+-- =========================================================
+
+SET search_path TO :schema;
+
+UPDATE contracts SET deployer = NULL WHERE deployer IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_contracts_deployer;
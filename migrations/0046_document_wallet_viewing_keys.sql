@@ -0,0 +1,12 @@
+-- =========================================================
+-- Migration: Document that wallet viewing keys are stored in plaintext
+--
+-- wallets.viewing_key は上流のインデクサーに connect し直すために暗号化せずに保存している。
+-- ビューキーからはウォレットのシールドトランザクションを全て復号できるため、
+-- データベースとそのバックアップへのアクセスはビューキーそのものと同じように制限すること。
+-- =========================================================
+
+SET search_path TO :schema;
+
+COMMENT ON COLUMN wallets.viewing_key IS
+    'Plaintext viewing key used to reconnect wallet sessions. It can decrypt all shielded transactions of the wallet, so restrict access to this database and its backups accordingly.';
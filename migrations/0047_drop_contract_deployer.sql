@@ -0,0 +1,10 @@
+-- =========================================================
+-- Migration: Drop contract deployer
+--
+-- トランザクションからデプロイしたアドレスを特定できないため、deployer はサポートしない。
+-- 常に NULL だった列を削除する。
+-- =========================================================
+
+SET search_path TO :schema;
+
+ALTER TABLE contracts DROP COLUMN IF EXISTS deployer;
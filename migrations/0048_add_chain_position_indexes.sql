@@ -0,0 +1,37 @@
+-- =========================================================
+-- Migration: Page contracts and contract actions by chain position
+--
+-- 並列バックフィルではIDの順序がチェーン上の順序と一致しないため、
+-- コントラクトアクションは (block_height, index_in_block, index_in_tx) の順に、
+-- コントラクトはデプロイしたトランザクションの (block_height, index_in_block) の順に並べる。
+-- エクストリンジックとイベントは blocks.height の一意インデックスと
+-- (block_id, index_in_block) の一意制約で (height, index_in_block) の順に辿れるため、列を追加しない。
+-- =========================================================
+
+SET search_path TO :schema;
+
+ALTER TABLE tx_contract_actions
+    ADD COLUMN IF NOT EXISTS block_height BIGINT,
+    ADD COLUMN IF NOT EXISTS index_in_block INT;
+
+UPDATE tx_contract_actions a
+    SET block_height = t.block_height,
+        index_in_block = t.index_in_block
+    FROM transactions t
+    WHERE t.id = a.tx_id
+      AND a.block_height IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tx_contract_actions_address_position
+    ON tx_contract_actions (address, block_height DESC, index_in_block DESC, index_in_tx DESC);
+
+ALTER TABLE contracts
+    ADD COLUMN IF NOT EXISTS deploy_index_in_block INT;
+
+UPDATE contracts c
+    SET deploy_height = t.block_height,
+        deploy_index_in_block = t.index_in_block
+    FROM transactions t
+    WHERE t.hash = c.deploy_tx_hash;
+
+CREATE INDEX IF NOT EXISTS idx_contracts_deploy_position
+    ON contracts (deploy_height DESC NULLS LAST, deploy_index_in_block DESC NULLS LAST, address DESC);
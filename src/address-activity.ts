@@ -0,0 +1,245 @@
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+
+/**
+ * アドレスとトークンごとの残高のスナップショットの更新に使用するアドバイザリーロックの名前空間（'mnab'）
+ */
+const ADDRESS_BALANCE_LOCK_NAMESPACE = 0x6d6e6162;
+
+/**
+ * トランザクションがアドレスの残高に与えた変化
+ */
+type AddressDelta = {
+    address_id: string;
+    token_type: string;
+    block_height: string;
+    delta: string;
+};
+
+/**
+ * トランザクションが作成・消費したUTXOを、アドレスとトークンの種類ごとに集計するSQLを返します。
+ * @param transactionFilter 作成・消費トランザクションIDのカラムに対する条件
+ */
+function transactionUtxoTotals(transactionFilter: string): string {
+    return `
+        SELECT u.address_id, x.transaction_id, u.token_type,
+               t.block_height, t.index_in_block,
+               SUM(x.received) AS received, SUM(x.sent) AS sent
+            FROM (
+                SELECT id, created_at_transaction_id AS transaction_id, value AS received, 0 AS sent
+                    FROM unshielded_utxos WHERE created_at_transaction_id ${transactionFilter}
+                UNION ALL
+                SELECT id, spent_at_transaction_id AS transaction_id, 0 AS received, value AS sent
+                    FROM unshielded_utxos WHERE spent_at_transaction_id ${transactionFilter}
+            ) x
+            JOIN unshielded_utxos u ON u.id = x.id
+            JOIN transactions t ON t.id = x.transaction_id
+            WHERE u.address_id IS NOT NULL
+            GROUP BY u.address_id, x.transaction_id, u.token_type, t.block_height, t.index_in_block
+    `;
+}
+
+/**
+ * アドレスとトークンごとの残高のスナップショットを、トランザクションの終了までロックします。
+ * 並列のバックフィルで同時に更新されないよう、スナップショットを読み書きする前に取得します。
+ * 複数のトランザクションが互いの解放を待たないよう、常にキーの順に取得します。
+ * @param client トランザクション中の接続
+ * @param deltas 残高の変化
+ */
+async function lockBalances(client: PoolClient, deltas: AddressDelta[]): Promise<void> {
+    const keys = [...new Set(deltas.map((delta) => `${delta.address_id}:${delta.token_type}`))].sort();
+    for (const key of keys) {
+        await client.query('SELECT pg_advisory_xact_lock($1::INT, hashtext($2))', [ADDRESS_BALANCE_LOCK_NAMESPACE, key]);
+    }
+}
+
+/**
+ * アドレスの残高のスナップショットに変化を加えます。
+ * 指定した高さのスナップショットを（無ければ直前のスナップショットから）作成し、
+ * それより後のスナップショットにも同じ変化を加えるため、ブロックは高さの順にインポートしなくても構いません。
+ * 同じアドレスとトークンを更新するインポートが同時に実行されても変化を取りこぼさないよう、
+ * 読み書きの前にアドバイザリーロックで直列化します。
+ * @param client データベースクライアント
+ * @param delta 残高の変化
+ */
+async function applyBalanceDelta(client: PoolClient, delta: AddressDelta): Promise<void> {
+    await lockBalances(client, [delta]);
+    await client.query(`
+        INSERT INTO address_balances (address_id, token_type, block_height, balance)
+            VALUES ($1::BIGINT, $2::VARCHAR, $3::BIGINT, COALESCE((
+                SELECT balance FROM address_balances
+                    WHERE address_id = $1::BIGINT AND token_type = $2::VARCHAR AND block_height < $3::BIGINT
+                    ORDER BY block_height DESC
+                    LIMIT 1
+            ), 0) + $4::NUMERIC)
+            ON CONFLICT (address_id, token_type, block_height) DO UPDATE SET
+                balance = address_balances.balance + $4::NUMERIC
+    `, [delta.address_id, delta.token_type, delta.block_height, delta.delta]);
+
+    await client.query(`
+        UPDATE address_balances
+            SET balance = balance + $4::NUMERIC
+            WHERE address_id = $1 AND token_type = $2 AND block_height > $3
+    `, [delta.address_id, delta.token_type, delta.block_height, delta.delta]);
+}
+
+/**
+ * アドレスが最初と最後に現れたブロック高さを更新します。
+ * @param client データベースクライアント
+ * @param addressIds アドレスID
+ */
+async function refreshSeenHeights(client: PoolClient, addressIds: string[]): Promise<void> {
+    await client.query(`
+        UPDATE addresses a
+            SET first_seen_height = (SELECT MIN(block_height) FROM address_transactions WHERE address_id = a.id),
+                last_seen_height = (SELECT MAX(block_height) FROM address_transactions WHERE address_id = a.id)
+            WHERE a.id = ANY($1::BIGINT[])
+    `, [addressIds]);
+}
+
+/**
+ * トランザクションのアドレス履歴を削除し、残高のスナップショットから変化を取り消します。
+ * 再インポートやチェーン再編成でトランザクションを削除する前に呼び出します。
+ * @param client データベースクライアント
+ * @param transactionIds トランザクションID
+ */
+export async function removeAddressActivity(client: PoolClient, transactionIds: number[]): Promise<void> {
+    if (transactionIds.length === 0) {
+        return;
+    }
+
+    const removed = await client.query<AddressDelta & { transaction_id: string }>(`
+        DELETE FROM address_transactions
+            WHERE transaction_id = ANY($1::BIGINT[])
+            RETURNING address_id, transaction_id, token_type, block_height, (sent - received)::TEXT AS delta
+    `, [transactionIds]);
+    if (removed.rows.length === 0) {
+        return;
+    }
+
+    await lockBalances(client, removed.rows);
+    for (const row of removed.rows) {
+        await applyBalanceDelta(client, row);
+    }
+
+    // 取引が無くなった高さのスナップショットは残さない
+    await client.query(`
+        DELETE FROM address_balances b
+            USING (SELECT DISTINCT address_id, token_type, block_height FROM UNNEST($1::BIGINT[], $2::VARCHAR[], $3::BIGINT[])
+                AS r(address_id, token_type, block_height)) r
+            WHERE b.address_id = r.address_id AND b.token_type = r.token_type AND b.block_height = r.block_height
+              AND NOT EXISTS (
+                  SELECT 1 FROM address_transactions at
+                      WHERE at.address_id = r.address_id AND at.token_type = r.token_type AND at.block_height = r.block_height
+              )
+    `, [
+        removed.rows.map((row) => row.address_id),
+        removed.rows.map((row) => row.token_type),
+        removed.rows.map((row) => row.block_height),
+    ]);
+
+    const transactionsPerAddress = new Map<string, Set<string>>();
+    for (const row of removed.rows) {
+        const transactions = transactionsPerAddress.get(row.address_id) ?? new Set<string>();
+        transactions.add(row.transaction_id);
+        transactionsPerAddress.set(row.address_id, transactions);
+    }
+    for (const [addressId, transactions] of transactionsPerAddress) {
+        await client.query(
+            'UPDATE addresses SET tx_count = GREATEST(tx_count - $2, 0) WHERE id = $1',
+            [addressId, transactions.size]
+        );
+    }
+    await refreshSeenHeights(client, [...transactionsPerAddress.keys()]);
+}
+
+/**
+ * トランザクションが作成・消費したUTXOから、アドレスごとの履歴と残高のスナップショットを更新します。
+ * unshielded_utxos を保存した後に呼び出します。既に記録済みの場合は記録し直します。
+ * @param client データベースクライアント
+ * @param transactionId トランザクションID
+ */
+export async function recordAddressActivity(client: PoolClient, transactionId: number): Promise<void> {
+    await removeAddressActivity(client, [transactionId]);
+
+    const inserted = await client.query<AddressDelta>(`
+        INSERT INTO address_transactions
+            (address_id, transaction_id, token_type, block_height, index_in_block, direction, received, sent)
+            SELECT address_id, transaction_id, token_type, block_height, index_in_block,
+                   CASE WHEN received > 0 AND sent > 0 THEN 'self' WHEN sent > 0 THEN 'out' ELSE 'in' END,
+                   received, sent
+                FROM (${transactionUtxoTotals('= ANY($1::BIGINT[])')}) totals
+            RETURNING address_id, token_type, block_height, (received - sent)::TEXT AS delta
+    `, [[transactionId]]);
+    if (inserted.rows.length === 0) {
+        return;
+    }
+
+    await lockBalances(client, inserted.rows);
+    for (const row of inserted.rows) {
+        await applyBalanceDelta(client, row);
+    }
+
+    const addressIds = [...new Set(inserted.rows.map((row) => row.address_id))];
+    await client.query(
+        'UPDATE addresses SET tx_count = tx_count + 1 WHERE id = ANY($1::BIGINT[])',
+        [addressIds]
+    );
+    await refreshSeenHeights(client, addressIds);
+}
+
+/**
+ * 保存済みのUTXOから、全てのアドレスの履歴と残高のスナップショットを作り直します。
+ * @returns 作成した履歴の件数
+ */
+export async function rebuildAddressActivity(): Promise<number> {
+    return withPgClient(async (client) => {
+        await client.query('BEGIN');
+        try {
+            await client.query('TRUNCATE TABLE address_transactions, address_balances');
+
+            const inserted = await client.query(`
+                INSERT INTO address_transactions
+                    (address_id, transaction_id, token_type, block_height, index_in_block, direction, received, sent)
+                    SELECT address_id, transaction_id, token_type, block_height, index_in_block,
+                           CASE WHEN received > 0 AND sent > 0 THEN 'self' WHEN sent > 0 THEN 'out' ELSE 'in' END,
+                           received, sent
+                        FROM (${transactionUtxoTotals('IS NOT NULL')}) totals
+            `);
+
+            await client.query(`
+                INSERT INTO address_balances (address_id, token_type, block_height, balance)
+                    SELECT address_id, token_type, block_height,
+                           SUM(delta) OVER (PARTITION BY address_id, token_type ORDER BY block_height)
+                        FROM (
+                            SELECT address_id, token_type, block_height, SUM(received - sent) AS delta
+                                FROM address_transactions
+                                GROUP BY address_id, token_type, block_height
+                        ) d
+            `);
+
+            await client.query(`
+                UPDATE addresses a
+                    SET first_seen_height = s.first_seen_height,
+                        last_seen_height = s.last_seen_height,
+                        tx_count = s.tx_count
+                    FROM (
+                        SELECT a.id,
+                               MIN(at.block_height) AS first_seen_height,
+                               MAX(at.block_height) AS last_seen_height,
+                               COUNT(DISTINCT at.transaction_id) AS tx_count
+                            FROM addresses a
+                            LEFT JOIN address_transactions at ON at.address_id = a.id
+                            GROUP BY a.id
+                    ) s
+                    WHERE a.id = s.id
+            `);
+
+            await client.query('COMMIT');
+            return inserted.rowCount ?? 0;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        }
+    });
+}
@@ -0,0 +1,1183 @@
+import type { PoolClient } from 'pg';
+import { decodeFromMnAddr, encodeToMnAddr, TOKEN_TYPE } from './midnight-indexer';
+import { formatTokenValue } from './tokens';
+
+/**
+ * 1ページあたりのデフォルト件数
+ */
+export const DEFAULT_PAGE_LIMIT = 20;
+
+/**
+ * 1ページあたりの最大件数
+ */
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * カーソルページネーションの結果
+ */
+export type Page<T> = {
+    items: T[];
+    nextCursor: string | null;
+};
+
+/**
+ * ページネーションのパラメータ
+ */
+export type PageParams = {
+    cursor?: string | null;
+    limit?: number | null;
+};
+
+/**
+ * カーソルをエンコードします。
+ * @param value カーソル値（ブロック高やIDなど）
+ * @returns 不透明なカーソル文字列
+ */
+export function encodeCursor(value: number | string): string {
+    return Buffer.from(String(value), 'utf-8').toString('base64url');
+}
+
+/**
+ * カーソルをデコードします。
+ * @param cursor 不透明なカーソル文字列
+ * @returns カーソル値。カーソルが無効な場合はエラーを投げます。
+ */
+export function decodeCursor(cursor: string): number {
+    const value = Number(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (!Number.isSafeInteger(value) || value < 0) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+    }
+    return value;
+}
+
+/**
+ * ページ件数を正規化します。
+ * @param limit 指定された件数
+ * @returns 1以上MAX_PAGE_LIMIT以下の件数
+ */
+export function normalizeLimit(limit?: number | null): number {
+    if (!limit || !Number.isFinite(limit) || limit <= 0) {
+        return DEFAULT_PAGE_LIMIT;
+    }
+    return Math.min(Math.floor(limit), MAX_PAGE_LIMIT);
+}
+
+/**
+ * limit + 1件取得した行からページを組み立てます。
+ * @param rows 取得した行
+ * @param limit ページ件数
+ * @param cursorOf 行からカーソル値を取り出す関数
+ */
+function toPage<T>(rows: T[], limit: number, cursorOf: (row: T) => number | string): Page<T> {
+    const hasNext = rows.length > limit;
+    const items = hasNext ? rows.slice(0, limit) : rows;
+    const last = items[items.length - 1];
+    return {
+        items,
+        nextCursor: hasNext && last !== undefined ? encodeCursor(cursorOf(last)) : null,
+    };
+}
+
+/**
+ * トークンごとの残高（トークンのメタデータを含む）
+ */
+type TokenBalanceRow = {
+    token_type: string;
+    balance: string;
+    block_height: string | number;
+    symbol: string | null;
+    name: string | null;
+    decimals: number | null;
+};
+
+/**
+ * ハッシュを保存形式（0xなし・小文字）に正規化します。
+ * @param hash ハッシュ
+ */
+export function normalizeHash(hash: string): string {
+    const lower = hash.trim().toLowerCase();
+    return lower.startsWith('0x') ? lower.substring(2) : lower;
+}
+
+/**
+ * トークンのメタデータ（symbol, name, decimals）を含む行に、表示用の数量を追加します。
+ * @param row 行
+ * @param amountColumn 数量のカラム
+ */
+function withFormattedAmount<T extends Record<string, any>>(row: T, amountColumn: keyof T & string): T & { formatted: string } {
+    const metadata = row.decimals === null || row.decimals === undefined
+        ? undefined
+        : { tokenType: row.token_type, symbol: row.symbol, name: row.name, decimals: Number(row.decimals) };
+    return { ...row, formatted: formatTokenValue(row[amountColumn], row.token_type, metadata) };
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Blocks
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+const BLOCK_SUMMARY_COLUMNS = `
+    id, hash, height, parent_hash, slot, timestamp, tx_count, state_root,
+    is_finalized, author, authority_index, protocol_version, spec_version, transaction_version
+`;
+
+/**
+ * ブロック高またはハッシュでブロックを取得します。
+ * @param client データベースクライアント
+ * @param heightOrHash ブロック高（数値文字列）またはブロックハッシュ
+ * @returns ブロック。見つからない場合はnullを返します。
+ */
+export async function findBlock(client: PoolClient, heightOrHash: string): Promise<any | null> {
+    const byHeight = /^\d+$/.test(heightOrHash);
+    const result = await client.query(`
+        SELECT ${BLOCK_SUMMARY_COLUMNS}, ledger_parameters, raw
+            FROM blocks
+            WHERE ${byHeight ? 'height = $1' : 'hash = $1'}
+    `, [byHeight ? Number(heightOrHash) : normalizeHash(heightOrHash)]);
+    return result.rows[0] ?? null;
+}
+
+/**
+ * ブロック一覧を新しい順に取得します。
+ * @param client データベースクライアント
+ * @param params ページネーションのパラメータ（カーソルはブロック高）
+ */
+export async function listBlocks(client: PoolClient, params: PageParams): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT ${BLOCK_SUMMARY_COLUMNS}
+            FROM blocks
+            WHERE ($1::BIGINT IS NULL OR height < $1)
+            ORDER BY height DESC
+            LIMIT $2
+    `, [cursor, limit + 1]);
+    return toPage(result.rows, limit, (row) => Number(row.height));
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Authorities
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * ブロックの作成者ごとに、作成したブロック数と作成しなかったスロット数を取得します。
+ * @param client データベースクライアント
+ * @returns 作成者ごとの集計（作成したブロック数の多い順）
+ */
+export async function listAuthorityStats(client: PoolClient): Promise<any[]> {
+    const result = await client.query(`
+        WITH produced AS (
+            SELECT author, COUNT(*) AS produced_blocks, MIN(height) AS first_height, MAX(height) AS last_height
+                FROM blocks
+                WHERE slot IS NOT NULL AND author IS NOT NULL
+                GROUP BY author
+        ), missed AS (
+            SELECT authority AS author, SUM(missed_slots) AS missed_slots
+                FROM block_missed_slots
+                GROUP BY authority
+        )
+        SELECT
+            COALESCE(p.author, m.author) AS author,
+            COALESCE(p.produced_blocks, 0) AS produced_blocks,
+            COALESCE(m.missed_slots, 0) AS missed_slots,
+            p.first_height,
+            p.last_height
+            FROM produced p
+            FULL OUTER JOIN missed m ON m.author = p.author
+            ORDER BY produced_blocks DESC, author
+    `);
+    return result.rows;
+}
+
+/**
+ * オーソリティが作成しなかったスロットの記録を新しい順に取得します。
+ * @param client データベースクライアント
+ * @param authority オーソリティの公開鍵
+ * @param params ページネーションのパラメータ（カーソルは直後のブロックの高さ）
+ */
+export async function listAuthorityMissedSlots(
+    client: PoolClient,
+    authority: string,
+    params: PageParams
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT b.height, b.hash, b.slot, p.slot AS parent_slot, b.author, m.authority_index, m.missed_slots
+            FROM block_missed_slots m
+            JOIN blocks b ON b.id = m.block_id
+            LEFT JOIN blocks p ON p.hash = b.parent_hash
+            WHERE m.authority = $1
+              AND ($2::BIGINT IS NULL OR b.height < $2)
+            ORDER BY b.height DESC
+            LIMIT $3
+    `, [normalizeHash(authority), cursor, limit + 1]);
+    return toPage(result.rows, limit, (row) => Number(row.height));
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Transactions
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+const TRANSACTION_SUMMARY_COLUMNS = `
+    t.id, t.hash, t.transaction_id, t.block_id, t.block_height, t.block_hash, t.index_in_block,
+    t.timestamp, t.is_shielded, t.protocol_version, t.status, t.start_index, t.end_index,
+    t.paid_fees, t.estimated_fees, t.unshielded_total_input, t.unshielded_total_output
+`;
+
+const UTXO_COLUMNS = `
+    id, created_at_tx_hash, output_index, created_at_transaction_id, created_at_height,
+    owner, address_id, token_type, value, intent_hash, ctime, initial_nonce, registered_for_dust_generation,
+    spent_at_transaction_id, spent_at_tx_hash, spent_at_height
+`;
+
+/**
+ * 位置カーソルで、ブロック高に掛ける値（ブロック内のインデックスの上限）
+ */
+const POSITION_CURSOR_STRIDE = 2 ** 20;
+
+/**
+ * 行のチェーン上の位置（ブロック高とブロック内のインデックス）を1つのカーソル値にします。
+ * 並列バックフィルではIDの順序がチェーン上の順序と一致しないため、IDではなく位置でページを区切ります。
+ * @param row block_height と index_in_block を持つ行
+ * @returns カーソル値
+ */
+function positionCursorOf(row: { block_height: string | number; index_in_block: number }): number {
+    return Number(row.block_height) * POSITION_CURSOR_STRIDE + Number(row.index_in_block);
+}
+
+/**
+ * 位置カーソルの値をブロック高とブロック内のインデックスに分けます。
+ * @param cursor 不透明なカーソル文字列
+ * @returns [ブロック高, ブロック内のインデックス]。カーソルが無い場合は [null, null]
+ */
+function decodePositionCursor(cursor?: string | null): [number | null, number | null] {
+    if (!cursor) {
+        return [null, null];
+    }
+    const value = decodeCursor(cursor);
+    return [Math.floor(value / POSITION_CURSOR_STRIDE), value % POSITION_CURSOR_STRIDE];
+}
+
+/**
+ * 位置カーソルの値に「.」で区切った値を続けたカーソルを分けます。
+ * 位置だけでは順序が決まらない行（同じトランザクションのコントラクトアクションなど）に使用します。
+ * @param cursor 不透明なカーソル文字列
+ * @returns [ブロック高, ブロック内のインデックス, 続く値]。位置が空の場合はブロック高とインデックスがnull
+ */
+function splitPositionCursor(cursor: string): [number | null, number | null, string] {
+    const text = Buffer.from(cursor, 'base64url').toString('utf-8');
+    const separator = text.indexOf('.');
+    const rest = text.substring(separator + 1);
+    if (separator < 0 || rest === '') {
+        throw new Error(`Invalid cursor: ${cursor}`);
+    }
+    if (separator === 0) {
+        return [null, null, rest];
+    }
+    const value = Number(text.substring(0, separator));
+    if (!Number.isSafeInteger(value) || value < 0) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+    }
+    return [Math.floor(value / POSITION_CURSOR_STRIDE), value % POSITION_CURSOR_STRIDE, rest];
+}
+
+/**
+ * トランザクション一覧を新しい順（ブロック高とブロック内のインデックスの降順）に取得します。
+ * @param client データベースクライアント
+ * @param params ページネーションのパラメータ（カーソルはチェーン上の位置）
+ * @param blockId 指定した場合はそのブロックのトランザクションのみを返します
+ */
+export async function listTransactions(
+    client: PoolClient,
+    params: PageParams,
+    blockId: number | null = null
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const [cursorHeight, cursorIndex] = decodePositionCursor(params.cursor);
+    const result = await client.query(`
+        SELECT ${TRANSACTION_SUMMARY_COLUMNS}
+            FROM transactions t
+            WHERE ($1::BIGINT IS NULL OR (t.block_height, t.index_in_block) < ($1, $2::INT))
+              AND ($3::BIGINT IS NULL OR t.block_id = $3)
+            ORDER BY t.block_height DESC, t.index_in_block DESC
+            LIMIT $4
+    `, [cursorHeight, cursorIndex, blockId, limit + 1]);
+    return toPage(result.rows, limit, positionCursorOf);
+}
+
+/**
+ * トランザクションを関連データ（出力・入力・コントラクトアクション・レジャーイベント）と共に取得します。
+ * @param client データベースクライアント
+ * @param hash トランザクションハッシュ
+ * @returns トランザクション。見つからない場合はnullを返します。
+ */
+export async function findTransactionByHash(client: PoolClient, hash: string): Promise<any | null> {
+    const result = await client.query(`
+        SELECT ${TRANSACTION_SUMMARY_COLUMNS}, t.raw, t.block_ledger_parameters
+            FROM transactions t
+            WHERE t.hash = $1
+    `, [normalizeHash(hash)]);
+
+    const tx = result.rows[0];
+    if (!tx) {
+        return null;
+    }
+
+    const [identifiers, results, outputs, inputs, tokenTotals, contractActions, dustLedgerEvents, zswapLedgerEvents] =
+        await Promise.all([
+            client.query(`
+                SELECT index_in_tx, identifier FROM tx_identifiers WHERE tx_id = $1 ORDER BY index_in_tx
+            `, [tx.id]),
+            client.query(`
+                SELECT segment_id, success FROM tx_results WHERE tx_id = $1 ORDER BY segment_id
+            `, [tx.id]),
+            client.query(`
+                SELECT ${UTXO_COLUMNS} FROM unshielded_utxos
+                    WHERE created_at_transaction_id = $1 ORDER BY output_index
+            `, [tx.id]),
+            client.query(`
+                SELECT ${UTXO_COLUMNS} FROM unshielded_utxos
+                    WHERE spent_at_transaction_id = $1 ORDER BY created_at_tx_hash, output_index
+            `, [tx.id]),
+            client.query(`
+                SELECT tt.token_type, tt.total_input, tt.total_output, k.symbol, k.name, k.decimals
+                    FROM transaction_token_totals tt
+                    JOIN tokens k ON k.token_type = tt.token_type
+                    WHERE tt.transaction_id = $1
+                    ORDER BY tt.token_type
+            `, [tx.id]),
+            client.query(`
+                SELECT a.id, a.index_in_tx, a.type_name, a.address, a.zswap_state, a.entry_point,
+                       ${CONTRACT_STATE_COLUMNS},
+                       COALESCE(
+                           json_agg(json_build_object('token_type', b.token_type, 'amount', b.amount))
+                               FILTER (WHERE b.id IS NOT NULL),
+                           '[]'
+                       ) AS balances
+                    FROM tx_contract_actions a
+                    LEFT JOIN tx_contract_action_balances b ON b.tx_contract_action_id = a.id
+                    WHERE a.tx_id = $1
+                    GROUP BY a.id
+                    ORDER BY a.index_in_tx
+            `, [tx.id]),
+            client.query(`
+                SELECT index_in_tx, event_id, event_name, event_raw, output_nonce
+                    FROM tx_dust_ledger_events WHERE tx_id = $1 ORDER BY index_in_tx
+            `, [tx.id]),
+            client.query(`
+                SELECT index_in_tx, type_name, event_id, max_id, raw
+                    FROM tx_zswap_ledger_events WHERE tx_id = $1 ORDER BY index_in_tx
+            `, [tx.id]),
+        ]);
+
+    return {
+        ...tx,
+        identifiers: identifiers.rows.map((row) => row.identifier),
+        segments: results.rows,
+        outputs: outputs.rows,
+        inputs: inputs.rows,
+        tokenTotals: tokenTotals.rows.map((row) => ({
+            ...row,
+            formatted_input: withFormattedAmount(row, 'total_input').formatted,
+            formatted_output: withFormattedAmount(row, 'total_output').formatted,
+        })),
+        contractActions: contractActions.rows,
+        dustLedgerEvents: dustLedgerEvents.rows,
+        zswapLedgerEvents: zswapLedgerEvents.rows,
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Addresses
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * アドレス（Bech32mまたは16進数）を解析します。
+ * @param address mn_addr形式または16進数形式のアドレス
+ * @returns Bech32m形式と16進数形式のアドレス。解析できない場合はエラーを投げます。
+ */
+export function parseAddress(address: string): { bech32: string; hex: string } {
+    const trimmed = address.trim().toLowerCase();
+    if (trimmed.startsWith('mn_')) {
+        return { bech32: trimmed, hex: decodeFromMnAddr(trimmed, false) };
+    }
+
+    const hex = normalizeHash(trimmed);
+    if (!/^[0-9a-f]+$/.test(hex) || hex.length % 2 !== 0) {
+        throw new Error(`Invalid address: ${address}`);
+    }
+    return { bech32: encodeToMnAddr(hex), hex };
+}
+
+/**
+ * アドレス（Bech32mまたは16進数）でアドレスを、トークンごとの現在の残高と共に取得します。
+ * @param client データベースクライアント
+ * @param address mn_addr形式または16進数形式のアドレス
+ * @returns アドレス。見つからない場合はnullを返します。
+ */
+export async function findAddress(client: PoolClient, address: string): Promise<any | null> {
+    const { bech32, hex } = parseAddress(address);
+    const result = await client.query(`
+        SELECT a.id, a.unshielded_address, a.unshielded_address_hex, a.created_at, a.updated_at,
+               a.first_seen_height, a.last_seen_height, a.tx_count,
+               COALESCE((
+                   SELECT json_agg(json_build_object(
+                       'token_type', b.token_type, 'balance', b.balance::TEXT, 'block_height', b.block_height,
+                       'symbol', k.symbol, 'name', k.name, 'decimals', k.decimals
+                   ) ORDER BY b.token_type)
+                       FROM (
+                           SELECT DISTINCT ON (token_type) token_type, balance, block_height
+                               FROM address_balances
+                               WHERE address_id = a.id
+                               ORDER BY token_type, block_height DESC
+                       ) b
+                       LEFT JOIN tokens k ON k.token_type = b.token_type
+               ), '[]') AS balances
+            FROM addresses a
+            WHERE a.unshielded_address_hex = $1 OR a.unshielded_address = $2
+    `, [hex, bech32]);
+
+    const row = result.rows[0];
+    if (!row) {
+        return null;
+    }
+    return {
+        ...row,
+        balances: (row.balances as TokenBalanceRow[]).map((balance) => withFormattedAmount(balance, 'balance')),
+    };
+}
+
+/**
+ * アドレスに関連するトランザクションを、トークンごとの受け取り・送信額と共に新しい順に取得します。
+ * @param client データベースクライアント
+ * @param addressId アドレスID
+ * @param params ページネーションのパラメータ（カーソルはチェーン上の位置）
+ */
+export async function listAddressTransactions(
+    client: PoolClient,
+    addressId: number,
+    params: PageParams
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const [cursorHeight, cursorIndex] = decodePositionCursor(params.cursor);
+    const result = await client.query(`
+        SELECT ${TRANSACTION_SUMMARY_COLUMNS},
+               json_agg(json_build_object(
+                   'token_type', at.token_type, 'direction', at.direction,
+                   'received', at.received::TEXT, 'sent', at.sent::TEXT
+               ) ORDER BY at.token_type) AS amounts
+            FROM address_transactions at
+            JOIN transactions t ON t.id = at.transaction_id
+            WHERE at.address_id = $1
+              AND ($2::BIGINT IS NULL OR (at.block_height, at.index_in_block) < ($2, $3::INT))
+            GROUP BY t.id
+            ORDER BY t.block_height DESC, t.index_in_block DESC
+            LIMIT $4
+    `, [addressId, cursorHeight, cursorIndex, limit + 1]);
+    return toPage(result.rows, limit, positionCursorOf);
+}
+
+/**
+ * アドレスの未使用のアンシールドUTXOを新しい順に取得します。
+ * @param client データベースクライアント
+ * @param addressId アドレスID
+ * @param params ページネーションのパラメータ（カーソルはUTXOのID）
+ * @param tokenType 指定した場合はそのトークンのUTXOのみを返します
+ */
+export async function listAddressUtxos(
+    client: PoolClient,
+    addressId: number,
+    params: PageParams,
+    tokenType: string | null = null
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT ${UTXO_COLUMNS}
+            FROM unspent_utxos
+            WHERE address_id = $1
+              AND ($2::VARCHAR IS NULL OR token_type = $2)
+              AND ($3::BIGINT IS NULL OR id < $3)
+            ORDER BY id DESC
+            LIMIT $4
+    `, [addressId, tokenType ? normalizeHash(tokenType) : null, cursor, limit + 1]);
+    return toPage(result.rows, limit, (row) => Number(row.id));
+}
+
+/**
+ * 指定したブロック高さ時点でのアドレスの残高を計算します。
+ * その高さまでに作成され、その高さまでに消費されていないUTXOの合計です。
+ * @param client データベースクライアント
+ * @param addressId アドレスID
+ * @param height ブロック高さ。省略した場合は保存済みの最新のブロック高さ
+ * @param tokenType トークンの種類（省略時はNIGHT）
+ * @returns 残高（u128のため文字列）とUTXO数
+ */
+export async function getAddressBalance(
+    client: PoolClient,
+    addressId: number,
+    height: number | null = null,
+    tokenType: string = TOKEN_TYPE.NIGHT
+): Promise<{ height: number; tokenType: string; balance: string; utxoCount: number }> {
+    if (height === null) {
+        const latest = await client.query('SELECT MAX(height) AS height FROM blocks');
+        height = Number(latest.rows[0]?.height ?? 0);
+    }
+
+    const normalizedTokenType = normalizeHash(tokenType);
+    const result = await client.query(`
+        SELECT COALESCE(SUM(value), 0)::TEXT AS balance, COUNT(*) AS utxo_count
+            FROM unshielded_utxos
+            WHERE address_id = $1
+              AND token_type = $2
+              AND created_at_height <= $3
+              AND (spent_at_height IS NULL OR spent_at_height > $3)
+    `, [addressId, normalizedTokenType, height]);
+
+    return {
+        height,
+        tokenType: normalizedTokenType,
+        balance: result.rows[0].balance,
+        utxoCount: Number(result.rows[0].utxo_count),
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Tokens
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+const TOKEN_COLUMNS = `
+    k.token_type, k.symbol, k.name, k.decimals, k.first_seen_height, k.first_seen_transaction_id,
+    COALESCE((
+        SELECT s.supply FROM token_supplies s
+            WHERE s.token_type = k.token_type
+            ORDER BY s.block_height DESC
+            LIMIT 1
+    ), 0)::TEXT AS supply
+`;
+
+/**
+ * 登録されているトークンを、現在のアンシールド供給量と共に初出の順に取得します。
+ * @param client データベースクライアント
+ */
+export async function listTokens(client: PoolClient): Promise<any[]> {
+    const result = await client.query(`
+        SELECT ${TOKEN_COLUMNS}
+            FROM tokens k
+            ORDER BY k.first_seen_height NULLS FIRST, k.token_type
+    `);
+    return result.rows.map((row) => withFormattedAmount(row, 'supply'));
+}
+
+/**
+ * トークンを、現在のアンシールド供給量と共に取得します。
+ * @param client データベースクライアント
+ * @param tokenType トークンの種類（16進数）
+ * @returns トークン。見つからない場合はnullを返します。
+ */
+export async function findToken(client: PoolClient, tokenType: string): Promise<any | null> {
+    const result = await client.query(`
+        SELECT ${TOKEN_COLUMNS} FROM tokens k WHERE k.token_type = $1
+    `, [normalizeHash(tokenType)]);
+    return result.rows[0] ? withFormattedAmount(result.rows[0], 'supply') : null;
+}
+
+/**
+ * トークンのアンシールド供給量の推移を新しい順に取得します。
+ * @param client データベースクライアント
+ * @param tokenType トークンの種類（16進数）
+ * @param params ページネーションのパラメータ（カーソルはブロック高）
+ */
+export async function listTokenSupplies(
+    client: PoolClient,
+    tokenType: string,
+    params: PageParams
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT s.token_type, s.block_height, s.supply::TEXT AS supply, k.symbol, k.name, k.decimals
+            FROM token_supplies s
+            JOIN tokens k ON k.token_type = s.token_type
+            WHERE s.token_type = $1
+              AND ($2::BIGINT IS NULL OR s.block_height < $2)
+            ORDER BY s.block_height DESC
+            LIMIT $3
+    `, [normalizeHash(tokenType), cursor, limit + 1]);
+    const page = toPage(result.rows, limit, (row) => Number(row.block_height));
+    return { ...page, items: page.items.map((row) => withFormattedAmount(row, 'supply')) };
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Contracts
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * コントラクトアクションの状態のカラム
+ * state はスナップショットの場合のみ値があり、それ以外は state_base_action_id のアクションからの差分が state_diff に入ります。
+ */
+const CONTRACT_STATE_COLUMNS = `
+    a.state, a.state_diff, a.state_base_action_id, a.state_size, a.state_hash
+`;
+
+const CONTRACT_COLUMNS = `
+    c.id, c.address, c.deploy_tx_hash, c.deploy_transaction_id, c.deploy_height,
+    c.latest_action_id, c.latest_height, c.call_count, c.update_count
+`;
+
+/**
+ * コントラクト一覧を新しくデプロイされた順（デプロイしたトランザクションのチェーン上の位置の降順）に取得します。
+ * デプロイしたトランザクションが未インポートのコントラクトは最後に返します。
+ * @param client データベースクライアント
+ * @param params ページネーションのパラメータ（カーソルはデプロイの位置とコントラクトアドレス）
+ */
+export async function listContracts(client: PoolClient, params: PageParams): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const [cursorHeight, cursorIndex, cursorAddress] = params.cursor
+        ? splitPositionCursor(params.cursor)
+        : [null, null, null];
+    const result = await client.query(`
+        SELECT ${CONTRACT_COLUMNS}, c.deploy_index_in_block
+            FROM contracts c
+            WHERE $3::TEXT IS NULL
+               OR ($1::BIGINT IS NULL AND c.deploy_height IS NULL AND c.address < $3)
+               OR ($1::BIGINT IS NOT NULL AND (
+                   c.deploy_height IS NULL
+                   OR (c.deploy_height, c.deploy_index_in_block, c.address) < ($1, $2::INT, $3)
+               ))
+            ORDER BY c.deploy_height DESC NULLS LAST, c.deploy_index_in_block DESC NULLS LAST, c.address DESC
+            LIMIT $4
+    `, [cursorHeight, cursorIndex, cursorAddress, limit + 1]);
+    return toPage(result.rows, limit, (row) => row.deploy_height === null
+        ? `.${row.address}`
+        : `${positionCursorOf({ block_height: row.deploy_height, index_in_block: row.deploy_index_in_block })}.${row.address}`);
+}
+
+/**
+ * コントラクトを最新の状態と共に取得します。
+ * @param client データベースクライアント
+ * @param address コントラクトアドレス（16進数）
+ * @returns コントラクト。見つからない場合はnullを返します。
+ */
+export async function findContract(client: PoolClient, address: string): Promise<any | null> {
+    const result = await client.query(`
+        SELECT ${CONTRACT_COLUMNS}, c.state, c.zswap_state
+            FROM contracts c
+            WHERE c.address = $1
+    `, [normalizeHash(address)]);
+
+    const row = result.rows[0];
+    if (!row) {
+        return null;
+    }
+    return { ...row, balances: await getContractBalances(client, row.address) };
+}
+
+/**
+ * 指定したブロック高さ時点でのコントラクトのトークンごとの残高を取得します。残高が0のトークンは含みません。
+ * @param client データベースクライアント
+ * @param address コントラクトアドレス（16進数）
+ * @param height ブロック高さ（省略時は最新）
+ */
+export async function getContractBalances(
+    client: PoolClient,
+    address: string,
+    height: number | null = null
+): Promise<any[]> {
+    const result = await client.query(`
+        SELECT b.token_type, b.balance::TEXT AS balance, b.block_height, k.symbol, k.name, k.decimals
+            FROM (
+                SELECT DISTINCT ON (token_type) token_type, balance, block_height
+                    FROM contract_balances
+                    WHERE contract_address = $1
+                      AND ($2::BIGINT IS NULL OR block_height <= $2)
+                    ORDER BY token_type, block_height DESC
+            ) b
+            LEFT JOIN tokens k ON k.token_type = b.token_type
+            WHERE b.balance <> 0
+            ORDER BY b.token_type
+    `, [normalizeHash(address), height]);
+    return result.rows.map((row) => withFormattedAmount(row, 'balance'));
+}
+
+/**
+ * コントラクトの残高の推移を新しい順に取得します。
+ * @param client データベースクライアント
+ * @param address コントラクトアドレス（16進数）
+ * @param params ページネーションのパラメータ（カーソルはブロック高）
+ * @param tokenType トークンの種類（省略時はNIGHT）
+ */
+export async function listContractBalanceHistory(
+    client: PoolClient,
+    address: string,
+    params: PageParams,
+    tokenType: string = TOKEN_TYPE.NIGHT
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT b.token_type, b.block_height, b.balance::TEXT AS balance, b.action_id, a.tx_hash,
+               k.symbol, k.name, k.decimals
+            FROM contract_balances b
+            JOIN tx_contract_actions a ON a.id = b.action_id
+            LEFT JOIN tokens k ON k.token_type = b.token_type
+            WHERE b.contract_address = $1
+              AND b.token_type = $2
+              AND ($3::BIGINT IS NULL OR b.block_height < $3)
+            ORDER BY b.block_height DESC
+            LIMIT $4
+    `, [normalizeHash(address), normalizeHash(tokenType), cursor, limit + 1]);
+    const page = toPage(result.rows, limit, (row) => Number(row.block_height));
+    return { ...page, items: page.items.map((row) => withFormattedAmount(row, 'balance')) };
+}
+
+/**
+ * 指定したトークンの残高が多いコントラクトを取得します。
+ * @param client データベースクライアント
+ * @param tokenType トークンの種類（省略時はNIGHT）
+ * @param limit 取得する件数
+ * @param height ブロック高さ（省略時は最新）
+ */
+export async function listTopContractsByBalance(
+    client: PoolClient,
+    tokenType: string = TOKEN_TYPE.NIGHT,
+    limit: number | null = null,
+    height: number | null = null
+): Promise<any[]> {
+    const result = await client.query(`
+        SELECT b.contract_address AS address, b.token_type, b.balance::TEXT AS balance, b.block_height,
+               c.deploy_height, c.call_count, k.symbol, k.name, k.decimals
+            FROM (
+                SELECT DISTINCT ON (contract_address) contract_address, token_type, balance, block_height
+                    FROM contract_balances
+                    WHERE token_type = $1
+                      AND ($2::BIGINT IS NULL OR block_height <= $2)
+                    ORDER BY contract_address, block_height DESC
+            ) b
+            LEFT JOIN contracts c ON c.address = b.contract_address
+            LEFT JOIN tokens k ON k.token_type = b.token_type
+            WHERE b.balance > 0
+            ORDER BY b.balance DESC, b.contract_address
+            LIMIT $3
+    `, [normalizeHash(tokenType), height, normalizeLimit(limit)]);
+    return result.rows.map((row) => withFormattedAmount(row, 'balance'));
+}
+
+/**
+ * コントラクトのエントリーポイントごとの呼び出し回数を、多い順に取得します。
+ * @param client データベースクライアント
+ * @param address コントラクトアドレス（16進数）
+ */
+export async function listContractEntryPoints(client: PoolClient, address: string): Promise<any[]> {
+    const result = await client.query(`
+        SELECT a.entry_point, COUNT(*)::INT AS call_count,
+               MIN(t.block_height) AS first_height, MAX(t.block_height) AS last_height
+            FROM tx_contract_actions a
+            JOIN transactions t ON t.id = a.tx_id
+            WHERE a.address = $1 AND a.type_name = 'ContractCall'
+            GROUP BY a.entry_point
+            ORDER BY call_count DESC, a.entry_point
+    `, [normalizeHash(address)]);
+    return result.rows;
+}
+
+/**
+ * コントラクトアドレスのコントラクトアクションを新しい順に取得します。
+ * @param client データベースクライアント
+ * @param address コントラクトアドレス（16進数）
+ * @param params ページネーションのパラメータ（カーソルはチェーン上の位置とトランザクション内のインデックス）
+ * @param filter アクションの種類（ContractDeploy / ContractCall / ContractUpdate）・エントリーポイントによる絞り込み
+ */
+export async function listContractActions(
+    client: PoolClient,
+    address: string,
+    params: PageParams,
+    filter: { typeName?: string | null; entryPoint?: string | null } = {}
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const [cursorHeight, cursorIndex, cursorIndexInTx] = params.cursor
+        ? splitPositionCursor(params.cursor)
+        : [null, null, null];
+    if (cursorIndexInTx !== null && (cursorHeight === null || !/^\d+$/.test(cursorIndexInTx))) {
+        throw new Error(`Invalid cursor: ${params.cursor}`);
+    }
+    const result = await client.query(`
+        SELECT a.id, a.tx_id, a.index_in_tx, a.type_name, a.address, a.zswap_state,
+               a.entry_point, a.deploy, a.tx_hash, a.block_height, a.index_in_block,
+               ${CONTRACT_STATE_COLUMNS}
+            FROM tx_contract_actions a
+            WHERE a.address = $1
+              AND ($2::BIGINT IS NULL OR (a.block_height, a.index_in_block, a.index_in_tx) < ($2, $3::INT, $4::INT))
+              AND ($5::TEXT IS NULL OR a.type_name = $5)
+              AND ($6::TEXT IS NULL OR a.entry_point = $6)
+            ORDER BY a.block_height DESC, a.index_in_block DESC, a.index_in_tx DESC
+            LIMIT $7
+    `, [
+        normalizeHash(address),
+        cursorHeight,
+        cursorIndex,
+        cursorIndexInTx === null ? null : Number(cursorIndexInTx),
+        filter.typeName ?? null,
+        filter.entryPoint ?? null,
+        limit + 1,
+    ]);
+    return toPage(result.rows, limit, (row) => `${positionCursorOf(row)}.${row.index_in_tx}`);
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// DUST generation
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+const DUST_WATCH_COLUMNS = `
+    w.id, w.cardano_reward_address, w.label, w.enabled, w.last_polled_at, w.last_error, w.created_at
+`;
+
+const DUST_SNAPSHOT_COLUMNS = `
+    s.id, s.observed_at, s.block_height, s.registered, s.dust_address, s.dust_public_key,
+    s.night_balance::TEXT AS night_balance, s.generation_rate::TEXT AS generation_rate,
+    s.max_capacity::TEXT AS max_capacity, s.current_capacity::TEXT AS current_capacity,
+    s.utxo_tx_hash, s.utxo_output_index
+`;
+
+/**
+ * 監視しているリワードアドレスを、最新の DUST 生成状況とともに取得するSQLを返します。
+ * @param filter dust_watch_addresses に対する条件
+ */
+function dustWatchQuery(filter: string): string {
+    return `
+        SELECT ${DUST_WATCH_COLUMNS},
+               TO_JSONB(l) - 'id' AS latest
+            FROM dust_watch_addresses w
+            LEFT JOIN LATERAL (
+                SELECT ${DUST_SNAPSHOT_COLUMNS}
+                    FROM dust_generation_snapshots s
+                    WHERE s.watch_address_id = w.id
+                    ORDER BY s.observed_at DESC, s.id DESC
+                    LIMIT 1
+            ) l ON TRUE
+            WHERE ${filter}
+            ORDER BY w.id
+    `;
+}
+
+/**
+ * 監視しているリワードアドレスの一覧を、最新の DUST 生成状況とともに取得します。
+ * @param client データベースクライアント
+ */
+export async function listDustWatches(client: PoolClient): Promise<any[]> {
+    const result = await client.query(dustWatchQuery('TRUE'));
+    return result.rows;
+}
+
+/**
+ * 監視しているリワードアドレスを、最新の DUST 生成状況とともに取得します。
+ * @param client データベースクライアント
+ * @param cardanoRewardAddress Cardanoのリワードアドレス
+ */
+export async function findDustWatch(client: PoolClient, cardanoRewardAddress: string): Promise<any | null> {
+    const result = await client.query(
+        dustWatchQuery('w.cardano_reward_address = $1'),
+        [cardanoRewardAddress.trim()]
+    );
+    return result.rows[0] ?? null;
+}
+
+/**
+ * リワードアドレスの DUST 生成状況のスナップショットを新しい順に取得します。
+ * @param client データベースクライアント
+ * @param watchAddressId 監視しているリワードアドレスのID
+ * @param params ページネーション
+ */
+export async function listDustGenerationSnapshots(
+    client: PoolClient,
+    watchAddressId: number,
+    params: PageParams
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT ${DUST_SNAPSHOT_COLUMNS}
+            FROM dust_generation_snapshots s
+            WHERE s.watch_address_id = $1
+              AND ($2::BIGINT IS NULL OR s.id < $2)
+            ORDER BY s.id DESC
+            LIMIT $3
+    `, [watchAddressId, cursor, limit + 1]);
+    return toPage(result.rows, limit, (row) => Number(row.id));
+}
+
+/**
+ * リワードアドレスの DUST アドレスが受け取った DustInitialUtxo イベントを、
+ * DUST 生成に登録されたアンシールドUTXOと対応付けて取得します。
+ * イベントの owner をスナップショットの DUST 公開鍵と、backing_night をUTXOの initial_nonce と突き合わせます。
+ * @param client データベースクライアント
+ * @param watchAddressId 監視しているリワードアドレスのID
+ * @param params ページネーション
+ */
+export async function listDustGenerationRegistrations(
+    client: PoolClient,
+    watchAddressId: number,
+    params: PageParams
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT e.id, e.owner AS dust_public_key, e.output_nonce, e.backing_night,
+               e.initial_value::TEXT AS initial_value, e.dtime::TEXT AS dtime, e.event_time,
+               t.hash AS tx_hash, t.block_height,
+               u.created_at_tx_hash AS night_utxo_tx_hash, u.output_index AS night_utxo_output_index,
+               u.owner AS night_owner, u.value::TEXT AS night_value,
+               u.created_at_height AS night_created_at_height, u.spent_at_height AS night_spent_at_height
+            FROM tx_dust_ledger_events e
+            JOIN transactions t ON t.id = e.tx_id
+            LEFT JOIN unshielded_utxos u
+                ON u.initial_nonce = e.backing_night AND u.registered_for_dust_generation
+            WHERE e.event_name = 'DustInitialUtxo'
+              AND e.owner IN (
+                  SELECT DISTINCT dust_public_key FROM dust_generation_snapshots
+                      WHERE watch_address_id = $1 AND dust_public_key IS NOT NULL
+              )
+              AND ($2::BIGINT IS NULL OR e.id < $2)
+            ORDER BY e.id DESC
+            LIMIT $3
+    `, [watchAddressId, cursor, limit + 1]);
+    return toPage(result.rows, limit, (row) => Number(row.id));
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Wallets
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+// ビューキーは含めない
+const WALLET_COLUMNS = `
+    w.id, w.label, w.enabled, w.session_id IS NOT NULL AS connected, w.session_started_at, w.session_count,
+    w.highest_end_index, w.highest_checked_end_index, w.highest_relevant_end_index, w.progress_at,
+    w.last_error, w.created_at,
+    (SELECT COUNT(*) FROM wallet_relevant_transactions r WHERE r.wallet_id = w.id) AS relevant_transaction_count
+`;
+
+/**
+ * ウォレットの一覧を取得します。
+ * @param client データベースクライアント
+ */
+export async function listWalletSummaries(client: PoolClient): Promise<any[]> {
+    const result = await client.query(`SELECT ${WALLET_COLUMNS} FROM wallets w ORDER BY w.id`);
+    return result.rows;
+}
+
+/**
+ * ウォレットを取得します。
+ * @param client データベースクライアント
+ * @param walletId ウォレットID
+ */
+export async function findWallet(client: PoolClient, walletId: number): Promise<any | null> {
+    const result = await client.query(`SELECT ${WALLET_COLUMNS} FROM wallets w WHERE w.id = $1`, [walletId]);
+    return result.rows[0] ?? null;
+}
+
+/**
+ * ウォレットに関係するトランザクションを新しい順に取得します。
+ * インポート済みのトランザクションはブロック高さを含みます。
+ * @param client データベースクライアント
+ * @param walletId ウォレットID
+ * @param params ページネーション
+ */
+export async function listWalletTransactions(
+    client: PoolClient,
+    walletId: number,
+    params: PageParams
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT r.upstream_transaction_id, r.tx_hash, r.start_index, r.end_index, r.received_at,
+               t.id AS transaction_id, t.block_height
+            FROM wallet_relevant_transactions r
+            LEFT JOIN transactions t ON t.hash = r.tx_hash
+            WHERE r.wallet_id = $1
+              AND ($2::BIGINT IS NULL OR r.upstream_transaction_id < $2)
+            ORDER BY r.upstream_transaction_id DESC
+            LIMIT $3
+    `, [walletId, cursor, limit + 1]);
+    return toPage(result.rows, limit, (row) => Number(row.upstream_transaction_id));
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Watched addresses
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+const WATCHED_ADDRESS_COLUMNS = `
+    w.id, w.address, w.label, w.enabled, w.last_transaction_id, w.highest_transaction_id, w.progress_at,
+    w.last_error, w.created_at,
+    (SELECT COUNT(*) FROM watched_address_utxos u WHERE u.watched_address_id = w.id AND u.side = 'created') AS created_utxo_count,
+    (SELECT COUNT(*) FROM watched_address_utxos u WHERE u.watched_address_id = w.id AND u.side = 'spent') AS spent_utxo_count
+`;
+
+/**
+ * 監視するアドレスの一覧を取得します。
+ * @param client データベースクライアント
+ */
+export async function listWatchedAddressSummaries(client: PoolClient): Promise<any[]> {
+    const result = await client.query(`SELECT ${WATCHED_ADDRESS_COLUMNS} FROM watched_addresses w ORDER BY w.id`);
+    return result.rows;
+}
+
+/**
+ * 監視するアドレスを取得します。
+ * @param client データベースクライアント
+ * @param address mn_addr形式または16進数形式のアドレス
+ */
+export async function findWatchedAddressSummary(client: PoolClient, address: string): Promise<any | null> {
+    const { bech32 } = parseAddress(address);
+    const result = await client.query(
+        `SELECT ${WATCHED_ADDRESS_COLUMNS} FROM watched_addresses w WHERE w.address = $1`,
+        [bech32]
+    );
+    return result.rows[0] ?? null;
+}
+
+/**
+ * 上流の unshieldedTransactions で受信したトランザクションを新しい順に取得します。
+ * トランザクションごとに作成・消費したUTXOを含み、インポート済みのトランザクションはブロック高さを含みます。
+ * @param client データベースクライアント
+ * @param watchedAddressId 監視するアドレスのID
+ * @param params ページネーション
+ */
+export async function listWatchedAddressTransactions(
+    client: PoolClient,
+    watchedAddressId: number,
+    params: PageParams
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+    const result = await client.query(`
+        SELECT u.upstream_transaction_id, u.tx_hash, t.id AS transaction_id, t.block_height,
+               COALESCE(json_agg(json_build_object(
+                   'created_at_tx_hash', u.created_at_tx_hash, 'output_index', u.output_index,
+                   'owner', u.owner, 'token_type', u.token_type, 'value', u.value::TEXT,
+                   'intent_hash', u.intent_hash, 'ctime', u.ctime, 'initial_nonce', u.initial_nonce,
+                   'registered_for_dust_generation', u.registered_for_dust_generation
+               ) ORDER BY u.created_at_tx_hash, u.output_index) FILTER (WHERE u.side = 'created'), '[]') AS created_utxos,
+               COALESCE(json_agg(json_build_object(
+                   'created_at_tx_hash', u.created_at_tx_hash, 'output_index', u.output_index,
+                   'owner', u.owner, 'token_type', u.token_type, 'value', u.value::TEXT
+               ) ORDER BY u.created_at_tx_hash, u.output_index) FILTER (WHERE u.side = 'spent'), '[]') AS spent_utxos
+            FROM watched_address_utxos u
+            LEFT JOIN transactions t ON t.hash = u.tx_hash
+            WHERE u.watched_address_id = $1
+              AND ($2::BIGINT IS NULL OR u.upstream_transaction_id < $2)
+            GROUP BY u.upstream_transaction_id, u.tx_hash, t.id, t.block_height
+            ORDER BY u.upstream_transaction_id DESC
+            LIMIT $3
+    `, [watchedAddressId, cursor, limit + 1]);
+    return toPage(result.rows, limit, (row) => Number(row.upstream_transaction_id));
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Extrinsics
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+const EXTRINSIC_COLUMNS = `
+    e.id, e.hash, e.block_id, b.height AS block_height, b.hash AS block_hash,
+    e.index_in_block, e.section, e.method, e.signer, e.args, e.success, e.error
+`;
+
+/**
+ * エクストリンジック一覧を新しい順（ブロック高とブロック内のインデックスの降順）に取得します。
+ * @param client データベースクライアント
+ * @param params ページネーションのパラメータ（カーソルはチェーン上の位置）
+ * @param filter セクション・メソッド・ブロックID・引数の値による絞り込み（引数の値は文字列として比較します）
+ */
+export async function listExtrinsics(
+    client: PoolClient,
+    params: PageParams,
+    filter: { section?: string | null; method?: string | null; blockId?: number | null; args?: Record<string, string> | null } = {}
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const [cursorHeight, cursorIndex] = decodePositionCursor(params.cursor);
+    const result = await client.query(`
+        SELECT ${EXTRINSIC_COLUMNS}
+            FROM extrinsics e
+            JOIN blocks b ON b.id = e.block_id
+            WHERE ($1::BIGINT IS NULL OR (b.height, e.index_in_block) < ($1, $7::INT))
+              AND ($2::TEXT IS NULL OR e.section = $2)
+              AND ($3::TEXT IS NULL OR e.method = $3)
+              AND ($4::BIGINT IS NULL OR e.block_id = $4)
+              AND ($6::JSONB IS NULL OR NOT EXISTS (
+                  SELECT 1 FROM jsonb_each_text($6::JSONB) f
+                      WHERE (e.args->'args'->>f.key) IS DISTINCT FROM f.value
+              ))
+            ORDER BY b.height DESC, e.index_in_block DESC
+            LIMIT $5
+    `, [
+        cursorHeight,
+        filter.section ?? null,
+        filter.method ?? null,
+        filter.blockId ?? null,
+        limit + 1,
+        filter.args && Object.keys(filter.args).length > 0 ? JSON.stringify(filter.args) : null,
+        cursorIndex,
+    ]);
+    return toPage(result.rows, limit, positionCursorOf);
+}
+
+/**
+ * ハッシュでエクストリンジックを取得します。
+ * @param client データベースクライアント
+ * @param hash エクストリンジックハッシュ
+ * @returns エクストリンジック。見つからない場合はnullを返します。
+ */
+export async function findExtrinsicByHash(client: PoolClient, hash: string): Promise<any | null> {
+    const result = await client.query(`
+        SELECT ${EXTRINSIC_COLUMNS}, e.data
+            FROM extrinsics e
+            JOIN blocks b ON b.id = e.block_id
+            WHERE e.hash = $1
+            ORDER BY b.height DESC, e.index_in_block DESC
+            LIMIT 1
+    `, [normalizeHash(hash)]);
+    return result.rows[0] ?? null;
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Events
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * ランタイムイベント一覧をチェーン上の順（ブロック高とブロック内のインデックスの昇順）に取得します。
+ * @param client データベースクライアント
+ * @param params ページネーションのパラメータ（カーソルはチェーン上の位置）
+ * @param filter ブロックID・エクストリンジックID・セクション・メソッドによる絞り込み
+ */
+export async function listEvents(
+    client: PoolClient,
+    params: PageParams,
+    filter: { blockId?: number | null; extrinsicId?: number | null; section?: string | null; method?: string | null } = {}
+): Promise<Page<any>> {
+    const limit = normalizeLimit(params.limit);
+    const [cursorHeight, cursorIndex] = decodePositionCursor(params.cursor);
+    const result = await client.query(`
+        SELECT ev.id, ev.block_id, b.height AS block_height, b.hash AS block_hash,
+               ev.extrinsic_id, e.index_in_block AS extrinsic_index, ev.index_in_block,
+               ev.section, ev.method, ev.data, ev.topics
+            FROM events ev
+            JOIN blocks b ON b.id = ev.block_id
+            LEFT JOIN extrinsics e ON e.id = ev.extrinsic_id
+            WHERE ($1::BIGINT IS NULL OR (b.height, ev.index_in_block) > ($1, $7::INT))
+              AND ($2::BIGINT IS NULL OR ev.block_id = $2)
+              AND ($3::BIGINT IS NULL OR ev.extrinsic_id = $3)
+              AND ($4::TEXT IS NULL OR ev.section = $4)
+              AND ($5::TEXT IS NULL OR ev.method = $5)
+            ORDER BY b.height, ev.index_in_block
+            LIMIT $6
+    `, [
+        cursorHeight,
+        filter.blockId ?? null,
+        filter.extrinsicId ?? null,
+        filter.section ?? null,
+        filter.method ?? null,
+        limit + 1,
+        cursorIndex,
+    ]);
+    return toPage(result.rows, limit, positionCursorOf);
+}
@@ -0,0 +1,686 @@
+import { timingSafeEqual } from 'node:crypto';
+import * as http from 'node:http';
+import { withPgClient } from './database';
+import { toErrorMessage } from './errors';
+import {
+    findAddress,
+    findBlock,
+    findContract,
+    findDustWatch,
+    findExtrinsicByHash,
+    findToken,
+    findTransactionByHash,
+    findWallet,
+    findWatchedAddressSummary,
+    getAddressBalance,
+    getContractBalances,
+    listAddressTransactions,
+    listAddressUtxos,
+    listAuthorityMissedSlots,
+    listAuthorityStats,
+    listBlocks,
+    listEvents,
+    listContractActions,
+    listContractBalanceHistory,
+    listContractEntryPoints,
+    listContracts,
+    listDustGenerationRegistrations,
+    listDustGenerationSnapshots,
+    listDustWatches,
+    listExtrinsics,
+    listTokens,
+    listTopContractsByBalance,
+    listTokenSupplies,
+    listTransactions,
+    listWalletSummaries,
+    listWalletTransactions,
+    listWatchedAddressSummaries,
+    listWatchedAddressTransactions,
+    decodeCursor,
+    normalizeHash,
+    parseAddress,
+    type PageParams,
+} from './api-queries';
+import { executeGraphQL, type GraphQLRequest } from './graphql-server';
+import { getContractStateAt } from './contract-states';
+import { attachSubscriptionServer, closeSubscriptionServer } from './graphql-subscriptions';
+import { verifyWatchedAddress } from './watched-addresses';
+import { NETWORK } from './network';
+import { listRuntimeUpgrades, listRuntimeVersions } from './runtime-versions';
+
+const API_HOST = process.env.API_HOST || '0.0.0.0';
+const API_PORT = Number(process.env.API_PORT || 3000);
+const API_CORS_ORIGIN = process.env.API_CORS_ORIGIN || '*';
+
+/**
+ * ウォレットのAPI（/api/wallets）の呼び出しに必要なトークン（`Authorization: Bearer <トークン>`）
+ * シールドウォレットのトランザクションを返すため、未設定の場合はウォレットのAPIを公開しません。
+ */
+const API_WALLET_TOKEN = process.env.API_WALLET_TOKEN || '';
+
+/**
+ * GraphQLリクエストボディの最大サイズ（バイト）
+ */
+const MAX_GRAPHQL_BODY_BYTES = 1024 * 1024;
+
+/**
+ * ルートハンドラー
+ */
+type RouteHandler = (params: Record<string, string>, query: URLSearchParams) => Promise<unknown>;
+
+/**
+ * ルートのオプション
+ */
+type RouteOptions = {
+    /** API_WALLET_TOKEN による認証が必要かどうか */
+    requireWalletToken?: boolean;
+};
+
+type Route = {
+    pattern: RegExp;
+    keys: string[];
+    handler: RouteHandler;
+    options: RouteOptions;
+};
+
+/**
+ * HTTPエラー（ステータスコード付き）
+ */
+export class HttpError extends Error {
+    constructor(public readonly status: number, public readonly code: string, message: string) {
+        super(message);
+    }
+}
+
+const routes: Route[] = [];
+
+/**
+ * GETルートを登録します。
+ * @param path パス（`:name` でパラメータを表します）
+ * @param handler ルートハンドラー
+ * @param options ルートのオプション
+ */
+export function get(path: string, handler: RouteHandler, options: RouteOptions = {}): void {
+    const keys: string[] = [];
+    const pattern = new RegExp('^' + path.replace(/:(\w+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+    }) + '/?$');
+    routes.push({ pattern, keys, handler, options });
+}
+
+/**
+ * クエリ文字列からページネーションのパラメータを取得します。
+ * @param query クエリ文字列
+ */
+function pageParams(query: URLSearchParams): PageParams {
+    const limit = query.get('limit');
+    const cursor = query.get('cursor');
+    if (cursor) {
+        badRequestOnError(() => decodeCursor(cursor));
+    }
+    if (limit && !/^\d+$/.test(limit)) {
+        throw new HttpError(400, 'bad_request', `Invalid limit: ${limit}`);
+    }
+    return {
+        cursor: query.get('cursor'),
+        limit: limit ? Number(limit) : null,
+    };
+}
+
+/**
+ * クエリ文字列からブロック高さを取得します。
+ * @param query クエリ文字列
+ * @returns ブロック高さ。指定されていない場合はnullを返します。
+ */
+function heightParam(query: URLSearchParams): number | null {
+    const height = query.get('height');
+    if (height && !/^\d+$/.test(height)) {
+        throw new HttpError(400, 'bad_request', `Invalid height: ${height}`);
+    }
+    return height ? Number(height) : null;
+}
+
+/**
+ * クエリ文字列から、`arg.<引数名>=<値>` で指定した引数の値による絞り込みを取得します。
+ * @param query クエリ文字列
+ * @returns 引数名ごとの値
+ */
+function argsParam(query: URLSearchParams): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (const [key, value] of query) {
+        if (key.startsWith('arg.') && key.length > 'arg.'.length) {
+            args[key.substring('arg.'.length)] = value;
+        }
+    }
+    return args;
+}
+
+/**
+ * パスのウォレットIDを検証します。
+ * @param id ウォレットID
+ */
+function walletIdParam(id: string): number {
+    if (!/^\d+$/.test(id)) {
+        throw new HttpError(400, 'bad_request', `Invalid wallet id: ${id}`);
+    }
+    return Number(id);
+}
+
+/**
+ * パスのパラメータをURLデコードします。
+ * @param value エンコードされたパラメータ
+ * @returns デコードしたパラメータ。不正なエスケープの場合は400を投げます。
+ */
+function decodePathParam(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        throw new HttpError(400, 'bad_request', `Malformed path parameter: ${value}`);
+    }
+}
+
+/**
+ * 入力値の検証エラーを400として投げ直します。
+ * @param fn 検証処理
+ */
+function badRequestOnError<T>(fn: () => T): T {
+    try {
+        return fn();
+    } catch (error) {
+        throw new HttpError(400, 'bad_request', toErrorMessage(error));
+    }
+}
+
+/**
+ * 見つからなかった場合に404を投げます。
+ * @param value 値
+ * @param what 対象の名前（エラーメッセージ用）
+ */
+function orNotFound<T>(value: T | null, what: string): T {
+    if (value === null || value === undefined) {
+        throw new HttpError(404, 'not_found', `${what} not found`);
+    }
+    return value;
+}
+
+get('/health', async () => {
+    await withPgClient((client) => client.query('SELECT 1'));
+    return { status: 'ok', network: NETWORK.name };
+});
+
+get('/api/blocks', async (_, query) => {
+    return withPgClient((client) => listBlocks(client, pageParams(query)));
+});
+
+get('/api/blocks/:id', async ({ id }) => {
+    return orNotFound(await withPgClient((client) => findBlock(client, id)), 'Block');
+});
+
+get('/api/blocks/:id/transactions', async ({ id }, query) => {
+    return withPgClient(async (client) => {
+        const block = orNotFound(await findBlock(client, id), 'Block');
+        return listTransactions(client, pageParams(query), Number(block.id));
+    });
+});
+
+get('/api/blocks/:id/extrinsics', async ({ id }, query) => {
+    return withPgClient(async (client) => {
+        const block = orNotFound(await findBlock(client, id), 'Block');
+        return listExtrinsics(client, pageParams(query), { blockId: Number(block.id) });
+    });
+});
+
+get('/api/blocks/:id/events', async ({ id }, query) => {
+    return withPgClient(async (client) => {
+        const block = orNotFound(await findBlock(client, id), 'Block');
+        return listEvents(client, pageParams(query), { blockId: Number(block.id) });
+    });
+});
+
+get('/api/authorities', async () => {
+    return withPgClient((client) => listAuthorityStats(client));
+});
+
+get('/api/authorities/:authority/missed-slots', async ({ authority }, query) => {
+    return withPgClient((client) => listAuthorityMissedSlots(client, authority, pageParams(query)));
+});
+
+get('/api/runtime/versions', async () => {
+    return withPgClient((client) => listRuntimeVersions(client));
+});
+
+get('/api/runtime/upgrades', async () => {
+    return withPgClient((client) => listRuntimeUpgrades(client));
+});
+
+get('/api/transactions', async (_, query) => {
+    return withPgClient((client) => listTransactions(client, pageParams(query)));
+});
+
+get('/api/transactions/:hash', async ({ hash }) => {
+    return orNotFound(await withPgClient((client) => findTransactionByHash(client, hash)), 'Transaction');
+});
+
+get('/api/addresses/:address', async ({ address }) => {
+    badRequestOnError(() => parseAddress(address));
+    return orNotFound(await withPgClient((client) => findAddress(client, address)), 'Address');
+});
+
+get('/api/addresses/:address/transactions', async ({ address }, query) => {
+    badRequestOnError(() => parseAddress(address));
+    return withPgClient(async (client) => {
+        const found = orNotFound(await findAddress(client, address), 'Address');
+        return listAddressTransactions(client, Number(found.id), pageParams(query));
+    });
+});
+
+get('/api/addresses/:address/utxos', async ({ address }, query) => {
+    badRequestOnError(() => parseAddress(address));
+    return withPgClient(async (client) => {
+        const found = orNotFound(await findAddress(client, address), 'Address');
+        return listAddressUtxos(client, Number(found.id), pageParams(query), query.get('tokenType'));
+    });
+});
+
+get('/api/addresses/:address/balance', async ({ address }, query) => {
+    badRequestOnError(() => parseAddress(address));
+    const height = heightParam(query);
+    return withPgClient(async (client) => {
+        const found = orNotFound(await findAddress(client, address), 'Address');
+        const balance = await getAddressBalance(
+            client,
+            Number(found.id),
+            height,
+            query.get('tokenType') ?? undefined
+        );
+        return { address: found.unshielded_address, ...balance };
+    });
+});
+
+get('/api/tokens', async () => {
+    return withPgClient((client) => listTokens(client));
+});
+
+get('/api/tokens/:tokenType', async ({ tokenType }) => {
+    return orNotFound(await withPgClient((client) => findToken(client, tokenType)), 'Token');
+});
+
+get('/api/tokens/:tokenType/supply', async ({ tokenType }, query) => {
+    return withPgClient(async (client) => {
+        orNotFound(await findToken(client, tokenType), 'Token');
+        return listTokenSupplies(client, tokenType, pageParams(query));
+    });
+});
+
+get('/api/contracts', async (_, query) => {
+    return withPgClient((client) => listContracts(client, pageParams(query)));
+});
+
+get('/api/contracts/top', async (_, query) => {
+    const height = heightParam(query);
+    const limit = query.get('limit');
+    if (limit && !/^\d+$/.test(limit)) {
+        throw new HttpError(400, 'bad_request', `Invalid limit: ${limit}`);
+    }
+    return withPgClient((client) => listTopContractsByBalance(
+        client,
+        query.get('tokenType') ?? undefined,
+        limit ? Number(limit) : null,
+        height
+    ));
+});
+
+get('/api/contracts/:address', async ({ address }) => {
+    return orNotFound(await withPgClient((client) => findContract(client, address)), 'Contract');
+});
+
+get('/api/contracts/:address/actions', async ({ address }, query) => {
+    const type = query.get('type');
+    if (type && !['ContractDeploy', 'ContractCall', 'ContractUpdate'].includes(type)) {
+        throw new HttpError(400, 'bad_request', `Invalid type: ${type}`);
+    }
+    return withPgClient(async (client) => {
+        orNotFound(await findContract(client, address), 'Contract');
+        return listContractActions(client, address, pageParams(query), {
+            typeName: type,
+            entryPoint: query.get('entryPoint'),
+        });
+    });
+});
+
+get('/api/contracts/:address/state', async ({ address }, query) => {
+    const height = heightParam(query);
+    return withPgClient(async (client) => {
+        orNotFound(await findContract(client, address), 'Contract');
+        return orNotFound(
+            await getContractStateAt(client, normalizeHash(address), height),
+            'Contract state'
+        );
+    });
+});
+
+get('/api/contracts/:address/balances', async ({ address }, query) => {
+    const height = heightParam(query);
+    return withPgClient(async (client) => {
+        orNotFound(await findContract(client, address), 'Contract');
+        return getContractBalances(client, address, height);
+    });
+});
+
+get('/api/contracts/:address/balances/history', async ({ address }, query) => {
+    return withPgClient(async (client) => {
+        orNotFound(await findContract(client, address), 'Contract');
+        return listContractBalanceHistory(client, address, pageParams(query), query.get('tokenType') ?? undefined);
+    });
+});
+
+get('/api/contracts/:address/entry-points', async ({ address }) => {
+    return withPgClient(async (client) => {
+        orNotFound(await findContract(client, address), 'Contract');
+        return listContractEntryPoints(client, address);
+    });
+});
+
+get('/api/dust/watches', async () => {
+    return withPgClient((client) => listDustWatches(client));
+});
+
+get('/api/dust/watches/:rewardAddress', async ({ rewardAddress }) => {
+    return orNotFound(await withPgClient((client) => findDustWatch(client, rewardAddress)), 'DUST watch address');
+});
+
+get('/api/dust/watches/:rewardAddress/snapshots', async ({ rewardAddress }, query) => {
+    return withPgClient(async (client) => {
+        const watch = orNotFound(await findDustWatch(client, rewardAddress), 'DUST watch address');
+        return listDustGenerationSnapshots(client, Number(watch.id), pageParams(query));
+    });
+});
+
+get('/api/dust/watches/:rewardAddress/registrations', async ({ rewardAddress }, query) => {
+    return withPgClient(async (client) => {
+        const watch = orNotFound(await findDustWatch(client, rewardAddress), 'DUST watch address');
+        return listDustGenerationRegistrations(client, Number(watch.id), pageParams(query));
+    });
+});
+
+get('/api/wallets', async () => {
+    return withPgClient((client) => listWalletSummaries(client));
+}, { requireWalletToken: true });
+
+get('/api/wallets/:id', async ({ id }) => {
+    const walletId = walletIdParam(id);
+    return orNotFound(await withPgClient((client) => findWallet(client, walletId)), 'Wallet');
+}, { requireWalletToken: true });
+
+get('/api/wallets/:id/transactions', async ({ id }, query) => {
+    const walletId = walletIdParam(id);
+    return withPgClient(async (client) => {
+        orNotFound(await findWallet(client, walletId), 'Wallet');
+        return listWalletTransactions(client, walletId, pageParams(query));
+    });
+}, { requireWalletToken: true });
+
+get('/api/watched-addresses', async () => {
+    return withPgClient((client) => listWatchedAddressSummaries(client));
+});
+
+get('/api/watched-addresses/:address', async ({ address }) => {
+    badRequestOnError(() => parseAddress(address));
+    return orNotFound(await withPgClient((client) => findWatchedAddressSummary(client, address)), 'Watched address');
+});
+
+get('/api/watched-addresses/:address/transactions', async ({ address }, query) => {
+    badRequestOnError(() => parseAddress(address));
+    return withPgClient(async (client) => {
+        const watched = orNotFound(await findWatchedAddressSummary(client, address), 'Watched address');
+        return listWatchedAddressTransactions(client, Number(watched.id), pageParams(query));
+    });
+});
+
+get('/api/watched-addresses/:address/verify', async ({ address }) => {
+    badRequestOnError(() => parseAddress(address));
+    return withPgClient(async (client) => {
+        const watched = orNotFound(await findWatchedAddressSummary(client, address), 'Watched address');
+        return verifyWatchedAddress(client, Number(watched.id));
+    });
+});
+
+get('/api/extrinsics', async (_, query) => {
+    return withPgClient((client) => listExtrinsics(client, pageParams(query), {
+        section: query.get('section'),
+        method: query.get('method'),
+        args: argsParam(query),
+    }));
+});
+
+get('/api/extrinsics/:hash', async ({ hash }) => {
+    return orNotFound(await withPgClient((client) => findExtrinsicByHash(client, hash)), 'Extrinsic');
+});
+
+get('/api/extrinsics/:hash/events', async ({ hash }, query) => {
+    return withPgClient(async (client) => {
+        const extrinsic = orNotFound(await findExtrinsicByHash(client, hash), 'Extrinsic');
+        return listEvents(client, pageParams(query), { extrinsicId: Number(extrinsic.id) });
+    });
+});
+
+get('/api/events', async (_, query) => {
+    return withPgClient((client) => listEvents(client, pageParams(query), {
+        section: query.get('section'),
+        method: query.get('method'),
+    }));
+});
+
+/**
+ * JSONレスポンスを送信します。
+ * @param res レスポンス
+ * @param status ステータスコード
+ * @param body レスポンスボディ
+ */
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    const json = JSON.stringify(body, (_, value) => typeof value === 'bigint' ? value.toString() : value);
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Access-Control-Allow-Origin': API_CORS_ORIGIN,
+    });
+    res.end(json);
+}
+
+/**
+ * リクエストボディを読み込みます。
+ * @param req リクエスト
+ * @param maxBytes 最大サイズ（バイト）
+ */
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                reject(new HttpError(413, 'payload_too_large', `Request body exceeds ${maxBytes} bytes`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * GraphQLリクエストを取り出します。
+ * POSTの場合はJSONボディ、GETの場合はクエリ文字列から読み込みます。
+ * @param req リクエスト
+ * @param url リクエストURL
+ */
+async function parseGraphQLRequest(req: http.IncomingMessage, url: URL): Promise<GraphQLRequest> {
+    let body: any;
+    if (req.method === 'POST') {
+        try {
+            body = JSON.parse(await readBody(req, MAX_GRAPHQL_BODY_BYTES));
+        } catch (error) {
+            if (error instanceof HttpError) {
+                throw error;
+            }
+            throw new HttpError(400, 'bad_request', 'Request body must be JSON');
+        }
+    } else {
+        const variables = url.searchParams.get('variables');
+        try {
+            body = {
+                query: url.searchParams.get('query'),
+                variables: variables ? JSON.parse(variables) : null,
+                operationName: url.searchParams.get('operationName'),
+            };
+        } catch {
+            throw new HttpError(400, 'bad_request', 'variables must be JSON');
+        }
+    }
+
+    if (!body || typeof body.query !== 'string') {
+        throw new HttpError(400, 'bad_request', 'query is required');
+    }
+    return {
+        query: body.query,
+        variables: body.variables ?? null,
+        operationName: body.operationName ?? null,
+    };
+}
+
+/**
+ * GraphQLエンドポイントへのリクエストを処理します。
+ * @param req リクエスト
+ * @param res レスポンス
+ * @param url リクエストURL
+ */
+async function handleGraphQL(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+    try {
+        const result = await executeGraphQL(await parseGraphQLRequest(req, url));
+        sendJson(res, 200, result);
+    } catch (error) {
+        if (error instanceof HttpError) {
+            sendJson(res, error.status, { errors: [{ message: error.message }] });
+        } else {
+            console.error(`[api-server] ❌ ${req.method} ${url.pathname} failed:`, error);
+            sendJson(res, 500, { errors: [{ message: 'Internal server error' }] });
+        }
+    }
+}
+
+/**
+ * ウォレットのAPIのリクエストを認証します。
+ * API_WALLET_TOKEN が未設定の場合は、ルートが存在しないものとして扱います。
+ * @param req リクエスト
+ */
+function authorizeWalletRequest(req: http.IncomingMessage): void {
+    if (!API_WALLET_TOKEN) {
+        throw new HttpError(404, 'not_found', 'Wallet API is disabled');
+    }
+    const authorization = req.headers.authorization ?? '';
+    const token = Buffer.from(authorization.startsWith('Bearer ') ? authorization.substring('Bearer '.length) : '');
+    const expected = Buffer.from(API_WALLET_TOKEN);
+    if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+        throw new HttpError(401, 'unauthorized', 'Invalid or missing wallet API token');
+    }
+}
+
+/**
+ * リクエストを処理します。
+ * @param req リクエスト
+ * @param res レスポンス
+ */
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+            'Access-Control-Allow-Origin': API_CORS_ORIGIN,
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        });
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/graphql' && (req.method === 'GET' || req.method === 'POST')) {
+        await handleGraphQL(req, res, url);
+        return;
+    }
+
+    if (req.method !== 'GET') {
+        sendJson(res, 405, { error: 'method_not_allowed', message: `${req.method} is not allowed` });
+        return;
+    }
+
+    for (const route of routes) {
+        const match = route.pattern.exec(url.pathname);
+        if (!match) {
+            continue;
+        }
+
+        try {
+            if (route.options.requireWalletToken) {
+                authorizeWalletRequest(req);
+            }
+            const params: Record<string, string> = {};
+            route.keys.forEach((key, index) => {
+                params[key] = decodePathParam(match[index + 1]);
+            });
+            sendJson(res, 200, await route.handler(params, url.searchParams));
+        } catch (error) {
+            if (error instanceof HttpError) {
+                sendJson(res, error.status, { error: error.code, message: error.message });
+            } else {
+                console.error(`[api-server] ❌ ${req.method} ${url.pathname} failed:`, error);
+                sendJson(res, 500, { error: 'internal_error', message: 'Internal server error' });
+            }
+        }
+        return;
+    }
+
+    sendJson(res, 404, { error: 'not_found', message: `No route for ${url.pathname}` });
+}
+
+/**
+ * HTTP APIサーバーを起動します。
+ * @param port ポート番号（デフォルト: 環境変数 API_PORT または 3000）
+ * @returns 起動したHTTPサーバー
+ */
+export async function startApiServer(port: number = API_PORT): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        handleRequest(req, res).catch((error) => {
+            console.error('[api-server] ❌ Unhandled error:', error);
+            if (!res.headersSent) {
+                sendJson(res, 500, { error: 'internal_error', message: 'Internal server error' });
+            } else {
+                res.end();
+            }
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, API_HOST, () => resolve());
+    });
+
+    await attachSubscriptionServer(server, '/graphql');
+
+    console.log(`[api-server] 🌐 Listening on http://${API_HOST}:${port}`);
+
+    return server;
+}
+
+/**
+ * HTTP APIサーバーを停止します。
+ * @param server startApiServerで起動したHTTPサーバー
+ */
+export async function stopApiServer(server: http.Server): Promise<void> {
+    await closeSubscriptionServer();
+    await new Promise<void>((resolve, reject) => {
+        server.close((error) => error ? reject(error) : resolve());
+        server.closeIdleConnections();
+    });
+}
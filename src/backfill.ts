@@ -0,0 +1,232 @@
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import { recordPendingLedgerParameters } from './ledger-parameters';
+import { importBlocks, verifyNetwork } from './midnight-importer';
+
+/**
+ * ブロック高ごとのリースに使用するアドバイザリーロックの名前空間（'mnbf'）
+ */
+const BACKFILL_LOCK_NAMESPACE = 0x6d6e6266;
+
+/**
+ * デッドロックで中断したバッチを再実行する回数
+ * 並列のワーカーが同じアドレスやトークンを異なる順序で更新すると、PostgreSQLがデッドロックを検出して片方を中断します。
+ */
+const BACKFILL_DEADLOCK_RETRIES = 3;
+
+/**
+ * バックフィルのオプション
+ */
+export type BackfillOptions = {
+    /** 開始ブロック高さ（この高さを含む） */
+    from: number;
+    /** 終了ブロック高さ（この高さを含む） */
+    to: number;
+    /** 同時に処理するワーカー数 */
+    workers: number;
+    /** 1チャンクのブロック数 */
+    chunkSize: number;
+    /** 1トランザクションで保存するブロック数 */
+    batchSize: number;
+};
+
+/**
+ * バックフィルの処理単位（両端の高さを含む）
+ */
+export type BackfillChunk = {
+    start: number;
+    end: number;
+};
+
+/**
+ * バックフィルの結果
+ */
+export type BackfillResult = {
+    /** 今回の実行で処理を完了したチャンク数 */
+    completed: number;
+    /** すべてのブロックが保存済みのためスキップしたチャンク数 */
+    skipped: number;
+    /** 他のプロセスが処理中のためスキップしたブロック数 */
+    leased: number;
+    /** エラーで完了できなかったチャンク */
+    failed: BackfillChunk[];
+};
+
+/**
+ * 範囲をチャンクに分割します。
+ * @param from 開始ブロック高さ
+ * @param to 終了ブロック高さ
+ * @param chunkSize 1チャンクのブロック数
+ */
+export function splitIntoChunks(from: number, to: number, chunkSize: number): BackfillChunk[] {
+    const chunks: BackfillChunk[] = [];
+    for (let start = from; start <= to; start += chunkSize) {
+        chunks.push({ start, end: Math.min(start + chunkSize - 1, to) });
+    }
+    return chunks;
+}
+
+/**
+ * チャンク内でまだ保存されていないブロック高さを取得します。
+ * 進捗はブロックの有無で判断するため、前回と異なる範囲やチャンクサイズで再実行しても保存済みのブロックは処理しません。
+ * @param client データベースクライアント
+ * @param chunk チャンク
+ * @returns 未保存のブロック高さ（昇順）
+ */
+async function findMissingHeights(client: PoolClient, chunk: BackfillChunk): Promise<number[]> {
+    const result = await client.query<{ height: number }>(`
+        SELECT h AS height
+            FROM generate_series($1::INT, $2::INT) AS h
+            WHERE NOT EXISTS (SELECT 1 FROM blocks b WHERE b.height = h)
+            ORDER BY h
+    `, [chunk.start, chunk.end]);
+    return result.rows.map((row) => Number(row.height));
+}
+
+/**
+ * ブロック高さごとのリースを取得し、まだ保存されていない高さだけを返します。
+ * トランザクション単位のアドバイザリーロックのため、COMMIT / ROLLBACK や接続の切断で自動的に解放されます。
+ * 他のプロセスが保存を終えている場合に備え、ロックを取得してからブロックの有無を確認し直します。
+ * @param client トランザクション中の接続
+ * @param heights ブロック高さ
+ * @returns リースを取得でき、まだ保存されていないブロック高さと、他のプロセスがリース中のブロック数
+ */
+async function leaseHeights(client: PoolClient, heights: number[]): Promise<{ heights: number[]; leased: number }> {
+    const locked = await client.query<{ height: number }>(`
+        SELECT h AS height
+            FROM unnest($2::INT[]) AS h
+            WHERE pg_try_advisory_xact_lock($1::INT, h)
+    `, [BACKFILL_LOCK_NAMESPACE, heights]);
+    const lockedHeights = locked.rows.map((row) => Number(row.height));
+
+    const missing = await client.query<{ height: number }>(`
+        SELECT h AS height
+            FROM unnest($1::INT[]) AS h
+            WHERE NOT EXISTS (SELECT 1 FROM blocks b WHERE b.height = h)
+            ORDER BY h
+    `, [lockedHeights]);
+    return {
+        heights: missing.rows.map((row) => Number(row.height)),
+        leased: heights.length - lockedHeights.length,
+    };
+}
+
+/**
+ * 1つのチャンクの未保存のブロックを、バッチごとにリースを取得して保存します。
+ * @param client データベースクライアント
+ * @param heights チャンク内の未保存のブロック高さ
+ * @param batchSize 1トランザクションで保存するブロック数
+ * @returns 保存したブロック数と、他のプロセスがリース中のためスキップしたブロック数
+ */
+async function backfillChunk(
+    client: PoolClient,
+    heights: number[],
+    batchSize: number
+): Promise<{ imported: number; leased: number }> {
+    let imported = 0;
+    let leased = 0;
+
+    for (let i = 0; i < heights.length; i += batchSize) {
+        for (let attempt = 0; ; attempt++) {
+            await client.query('BEGIN');
+            try {
+                const batch = await leaseHeights(client, heights.slice(i, i + batchSize));
+                if (batch.heights.length > 0) {
+                    await importBlocks(client, batch.heights);
+                }
+                await client.query('COMMIT');
+                imported += batch.heights.length;
+                leased += batch.leased;
+                break;
+            } catch (error: any) {
+                await client.query('ROLLBACK');
+                // 40P01: deadlock_detected
+                if (error?.code !== '40P01' || attempt >= BACKFILL_DEADLOCK_RETRIES) {
+                    throw error;
+                }
+                console.warn(`[backfill] ⚠️ デッドロックを検出したため、ブロック ${heights[i]} からのバッチを再実行します (${attempt + 1}/${BACKFILL_DEADLOCK_RETRIES})`);
+            }
+        }
+        // レジャーパラメーターの履歴はロックの保持を短くするため、バッチのCOMMIT後に記録する
+        await recordPendingLedgerParameters(client, heights.slice(i, i + batchSize));
+    }
+    return { imported, leased };
+}
+
+/**
+ * 指定した範囲のブロックを複数のワーカーで並列にインポートします。
+ *
+ * 最初にブロックソースがインデックスするネットワークのものか確認します。
+ * 範囲はチャンクに分割され、各ワーカーはチャンク内の未保存のブロックを、ブロック高さごとに
+ * アドバイザリーロックでリースしてから保存します。複数のプロセスで重なる範囲を実行しても、
+ * 同じブロックを同時に処理することはありません。
+ * 進捗は保存済みのブロックで判断するため、再実行すると未保存のブロックだけを処理します。
+ *
+ * 各ワーカーは接続を1つだけ使用します。
+ *
+ * @param options オプション
+ */
+export async function runBackfill(options: BackfillOptions): Promise<BackfillResult> {
+    const { from, to, workers, chunkSize, batchSize } = options;
+    const chunks = splitIntoChunks(from, to, chunkSize);
+    const result: BackfillResult = { completed: 0, skipped: 0, leased: 0, failed: [] };
+
+    await verifyNetwork();
+
+    console.log(`[backfill] 🚀 バックフィルを開始します: ${from.toLocaleString()} - ${to.toLocaleString()}`);
+    console.log(`[backfill] 📦 チャンク数: ${chunks.length} | チャンクサイズ: ${chunkSize} | ワーカー数: ${workers}`);
+
+    const startTime = Date.now();
+    let processedBlocks = 0;
+    let nextChunk = 0;
+
+    const worker = async (workerId: number): Promise<void> => {
+        while (nextChunk < chunks.length) {
+            const chunk = chunks[nextChunk++];
+
+            await withPgClient(async (client) => {
+                try {
+                    const missing = await findMissingHeights(client, chunk);
+                    if (missing.length === 0) {
+                        result.skipped++;
+                        return;
+                    }
+                    if (missing.length < chunk.end - chunk.start + 1) {
+                        console.log(`[backfill] ⏯️ チャンク ${chunk.start}-${chunk.end} の未保存の ${missing.length} ブロックを処理します`);
+                    }
+
+                    const { imported, leased } = await backfillChunk(client, missing, batchSize);
+                    result.completed++;
+                    result.leased += leased;
+                    processedBlocks += imported;
+                    if (leased > 0) {
+                        console.log(`[backfill] 🔒 チャンク ${chunk.start}-${chunk.end} の ${leased} ブロックは他のプロセスが処理中のためスキップしました`);
+                    }
+
+                    const elapsed = (Date.now() - startTime) / 1000;
+                    const speed = processedBlocks / elapsed;
+                    const finished = result.completed + result.skipped;
+                    console.log(
+                        `[backfill] ✅ チャンク ${chunk.start}-${chunk.end} 完了 (ワーカー ${workerId}) | ` +
+                        `進捗: ${finished}/${chunks.length} チャンク | ` +
+                        `速度: ${speed.toFixed(2)} ブロック/秒`
+                    );
+                } catch (error) {
+                    console.error(`[backfill] ❌ チャンク ${chunk.start}-${chunk.end} の処理に失敗しました:`, error);
+                    result.failed.push(chunk);
+                }
+            });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, workers) }, (_, i) => worker(i + 1)));
+
+    const totalTime = (Date.now() - startTime) / 1000;
+    console.log(
+        `[backfill] 📊 完了: ${result.completed} | 保存済み: ${result.skipped} | ` +
+        `他のプロセスが処理中のブロック: ${result.leased} | 失敗: ${result.failed.length} | ` +
+        `処理時間: ${Math.floor(totalTime / 60)}分${Math.floor(totalTime % 60)}秒`
+    );
+
+    return result;
+}
@@ -0,0 +1,145 @@
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import { getBlockConsensus, getHeaderFromHash } from './midnight-indexer';
+import type { BlockConsensus } from './types/chain';
+
+/**
+ * スロットと作成者の作り直しの結果
+ */
+export type BlockAuthorshipRebuildResult = {
+    /**
+     * スロットと作成者を保存したブロック数
+     */
+    blocks: number;
+    /**
+     * 記録した作成されなかったスロットの合計
+     */
+    missedSlots: number;
+    /**
+     * ダイジェストからスロットを復号できなかったブロックの高さ
+     */
+    undecodedBlocks: number[];
+};
+
+/**
+ * 親ブロックとの間で作成されなかったスロットを、担当オーソリティごとに数えます。
+ * Auraではスロット番号をオーソリティ数で割った余りが担当のため、スロットを1つずつ数えずに求めます。
+ * BABEは担当がVRFで決まり求められないため、空の結果を返します。
+ * @param consensus ブロックのスロットと作成者
+ * @param parentSlot 親ブロックのスロット番号
+ * @returns オーソリティのインデックスと、作成されなかったスロット数の対応
+ */
+export function countMissedSlots(consensus: BlockConsensus, parentSlot: number): Map<number, number> {
+    const missed = new Map<number, number>();
+    const gap = consensus.slot - parentSlot - 1;
+    const count = consensus.authorities.length;
+    if (consensus.engine !== 'aura' || gap <= 0 || count === 0) {
+        return missed;
+    }
+
+    const first = (parentSlot + 1) % count;
+    for (let offset = 0; offset < Math.min(gap, count); offset++) {
+        const authorityIndex = (first + offset) % count;
+        // 周回数分に、端数のスロットが含まれる場合は1を加える
+        missed.set(authorityIndex, Math.floor(gap / count) + (offset < gap % count ? 1 : 0));
+    }
+    return missed;
+}
+
+/**
+ * ブロックのスロットと作成者を保存し、親ブロックとの間で作成されなかったスロットを記録します。
+ * 親ブロックのスロットが未保存の場合、作成されなかったスロットは記録しません
+ * （親ブロックを後からインポートした場合は rebuildBlockAuthorship で記録し直します）。
+ * @param client データベースクライアント
+ * @param blockId ブロックID
+ * @param parentHash 親ブロックのハッシュ（0xなし）
+ * @param consensus ブロックのスロットと作成者。nullの場合はスロットと作成者を消去します
+ * @returns 記録した作成されなかったスロットの合計
+ */
+export async function recordBlockAuthorship(
+    client: PoolClient,
+    blockId: number,
+    parentHash: string,
+    consensus: BlockConsensus | null
+): Promise<number> {
+    await client.query(`
+        UPDATE blocks SET
+            slot = $2,
+            authority_index = $3,
+            author = COALESCE($4, author)
+            WHERE id = $1
+    `, [blockId, consensus?.slot ?? null, consensus?.authorityIndex ?? null, consensus?.author ?? null]);
+
+    // 同じ高さのブロックが置き換わった場合に備え、以前の記録を消してから記録する
+    await client.query('DELETE FROM block_missed_slots WHERE block_id = $1', [blockId]);
+    if (!consensus) {
+        return 0;
+    }
+
+    const parent = await client.query('SELECT slot FROM blocks WHERE hash = $1', [parentHash]);
+    const parentSlot = parent.rows[0]?.slot;
+    if (parentSlot === null || parentSlot === undefined) {
+        return 0;
+    }
+
+    let total = 0;
+    for (const [authorityIndex, missedSlots] of countMissedSlots(consensus, Number(parentSlot))) {
+        await client.query(`
+            INSERT INTO block_missed_slots (block_id, authority_index, authority, missed_slots)
+                VALUES ($1, $2, $3, $4)
+        `, [blockId, authorityIndex, consensus.authorities[authorityIndex], missedSlots]);
+        total += missedSlots;
+    }
+    return total;
+}
+
+/**
+ * スロットが未保存のブロックと、親ブロックとの間にスロットの空きがあるのに作成されなかったスロットが未記録のブロック
+ * （親ブロックより先にインポートしたブロック）について、ダイジェストからスロットと作成者を求め直します。
+ * 親ブロックのスロットを先に保存するため、ブロック高の昇順に処理します。
+ * rawデータにダイジェストが無いブロックはノードからヘッダーを取得し直します。
+ * @param all trueの場合は保存済みのブロックも含めてすべて作り直します
+ * @returns 作り直したブロック数と、作成されなかったスロットの合計
+ */
+export async function rebuildBlockAuthorship(all: boolean = false): Promise<BlockAuthorshipRebuildResult> {
+    const rows = await withPgClient(async (client) => {
+        const result = await client.query(`
+            SELECT b.id, b.height, b.hash, b.parent_hash, b.raw->'header'->>'digest' AS digest
+                FROM blocks b
+                WHERE b.height > 0 ${all ? '' : `AND (
+                    b.slot IS NULL
+                    OR EXISTS (
+                        SELECT 1 FROM blocks p
+                            WHERE p.hash = b.parent_hash AND b.slot - p.slot > 1
+                              AND NOT EXISTS (SELECT 1 FROM block_missed_slots m WHERE m.block_id = b.id)
+                    )
+                )`}
+                ORDER BY b.height
+        `);
+        return result.rows;
+    });
+
+    const result: BlockAuthorshipRebuildResult = { blocks: 0, missedSlots: 0, undecodedBlocks: [] };
+    for (const row of rows) {
+        const height = Number(row.height);
+        try {
+            const digest: string = row.digest ?? (await getHeaderFromHash(row.hash)).digest.toString();
+            const consensus = await getBlockConsensus(digest, row.parent_hash);
+            if (!consensus) {
+                result.undecodedBlocks.push(height);
+                continue;
+            }
+            result.missedSlots += await withPgClient((client) =>
+                recordBlockAuthorship(client, Number(row.id), row.parent_hash, consensus)
+            );
+            result.blocks++;
+            if (result.blocks % 1000 === 0) {
+                console.log(`[block-authorship] 🔁 ${result.blocks.toLocaleString()} blocks rebuilt (height ${height.toLocaleString()})`);
+            }
+        } catch (error) {
+            console.error(`[block-authorship] ❌ Failed to decode slot of block ${height}:`, error);
+            result.undecodedBlocks.push(height);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,349 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Block } from './types/chain';
+import { GetBlockByHeightQuery } from './graphql/generated';
+import {
+    getBlockDataByHeight,
+    getBlockByHeight,
+    getFinalizedBlockHeight,
+    getMaxBlockHeightFromGraphQL,
+} from './midnight-indexer';
+
+/**
+ * GraphQLから取得したブロック
+ */
+export type GraphQLBlock = NonNullable<GetBlockByHeightQuery['block']>;
+
+/**
+ * ブロックソースが提供するデータの種類
+ * - polkadot: Polkadot RPCのブロック（エクストリンジック等）
+ * - graphql: Midnight GraphQLのブロック（トランザクション等）
+ */
+export type BlockDataKind = 'polkadot' | 'graphql';
+
+/**
+ * ブロックソースから取得したデータ
+ * 提供していない種類・見つからなかった種類は null または undefined になります。
+ */
+export type BlockSourceData = {
+    polkadot?: Block | null;
+    graphql?: GraphQLBlock | null;
+};
+
+/**
+ * ブロックソース
+ */
+export interface BlockSource {
+    /** ソース名（ログ表示用） */
+    readonly name: string;
+    /** 提供するデータの種類 */
+    readonly kinds: BlockDataKind[];
+    /**
+     * 指定した高さのブロックを取得します。
+     * @param height ブロック高さ
+     */
+    fetch(height: number): Promise<BlockSourceData>;
+    /**
+     * 取得可能な最新のブロック高さを返します。
+     */
+    getLatestHeight?(): Promise<number>;
+}
+
+/**
+ * 複数のソースから取得したデータの扱い
+ * - require-all: 設定したソースが提供する全ての種類が揃わない場合はエラーにします。
+ * - best-effort: いずれかの種類が取得できれば、取得できたデータだけを返します。
+ */
+export type BlockSourcePolicy = 'require-all' | 'best-effort';
+
+/**
+ * 各ソースから集めたブロック
+ */
+export type FetchedBlock = {
+    height: number;
+    polkadotBlock: Block | null;
+    graphqlBlock: GraphQLBlock | null;
+    /** 取得できなかった種類 */
+    missing: BlockDataKind[];
+};
+
+/**
+ * 使用するブロックソース（カンマ区切り、先に書いたソースを優先）
+ */
+const BLOCK_SOURCES = process.env.BLOCK_SOURCES || 'rpc,graphql';
+
+/**
+ * ブロックソースのマージポリシー
+ */
+const BLOCK_SOURCE_POLICY = process.env.BLOCK_SOURCE_POLICY || 'require-all';
+
+/**
+ * ファイルアーカイブのディレクトリ
+ */
+const BLOCK_ARCHIVE_DIR = process.env.BLOCK_ARCHIVE_DIR || './block-archive';
+
+/**
+ * true の場合、リモートのソースから取得したブロックをファイルアーカイブに保存します。
+ */
+const BLOCK_ARCHIVE_RECORD = process.env.BLOCK_ARCHIVE_RECORD === 'true';
+
+let sources: BlockSource[] | null = null;
+let policy: BlockSourcePolicy | null = null;
+
+/**
+ * Polkadot RPCのブロックソースを作成します。
+ */
+export function createPolkadotRpcSource(): BlockSource {
+    return {
+        name: 'rpc',
+        kinds: ['polkadot'],
+        async fetch(height) {
+            return { polkadot: await getBlockDataByHeight(height) };
+        },
+        getLatestHeight: getFinalizedBlockHeight,
+    };
+}
+
+/**
+ * Midnight GraphQLのブロックソースを作成します。
+ */
+export function createMidnightGraphQLSource(): BlockSource {
+    return {
+        name: 'graphql',
+        kinds: ['graphql'],
+        async fetch(height) {
+            return { graphql: await getBlockByHeight(height) };
+        },
+        getLatestHeight: () => getMaxBlockHeightFromGraphQL(),
+    };
+}
+
+/**
+ * ファイルアーカイブのブロックのパスを返します。
+ * @param dir アーカイブのディレクトリ
+ * @param height ブロック高さ
+ */
+function archivePath(dir: string, height: number): string {
+    return path.join(dir, `${height}.json`);
+}
+
+/**
+ * ローカルのファイルアーカイブのブロックソースを作成します。
+ * ブロックは `<dir>/<高さ>.json` に { polkadot, graphql } の形式で保存されています。
+ * @param dir アーカイブのディレクトリ
+ */
+export function createFileArchiveSource(dir: string = BLOCK_ARCHIVE_DIR): BlockSource {
+    return {
+        name: 'archive',
+        kinds: ['polkadot', 'graphql'],
+        async fetch(height) {
+            try {
+                return JSON.parse(await fs.readFile(archivePath(dir, height), 'utf8')) as BlockSourceData;
+            } catch (error: any) {
+                if (error.code === 'ENOENT') {
+                    return {};
+                }
+                throw error;
+            }
+        },
+        async getLatestHeight() {
+            const files = await fs.readdir(dir);
+            const heights = files
+                .map((file) => /^(\d+)\.json$/.exec(file)?.[1])
+                .filter((height): height is string => height !== undefined)
+                .map(Number);
+            return heights.length > 0 ? Math.max(...heights) : 0;
+        },
+    };
+}
+
+/**
+ * ブロックをファイルアーカイブに保存します。
+ * @param dir アーカイブのディレクトリ
+ * @param height ブロック高さ
+ * @param data ブロックデータ
+ */
+export async function writeArchivedBlock(dir: string, height: number, data: BlockSourceData): Promise<void> {
+    await fs.mkdir(dir, { recursive: true });
+    const file = archivePath(dir, height);
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(data));
+    await fs.rename(`${file}.tmp`, file);
+}
+
+/**
+ * メモリ上のブロックを返すブロックソースを作成します（テスト用）。
+ * @param name ソース名
+ * @param blocks ブロック高さとブロックデータ
+ * @param kinds 提供するデータの種類
+ */
+export function createStaticBlockSource(
+    name: string,
+    blocks: Map<number, BlockSourceData>,
+    kinds: BlockDataKind[] = ['polkadot', 'graphql']
+): BlockSource {
+    return {
+        name,
+        kinds,
+        async fetch(height) {
+            return blocks.get(height) ?? {};
+        },
+        async getLatestHeight() {
+            return blocks.size > 0 ? Math.max(...blocks.keys()) : 0;
+        },
+    };
+}
+
+/**
+ * 環境変数 BLOCK_SOURCES からブロックソースを作成します。
+ */
+function createSourcesFromEnv(): BlockSource[] {
+    return BLOCK_SOURCES.split(',').map((name) => name.trim()).filter(Boolean).map((name) => {
+        switch (name) {
+            case 'rpc':
+                return createPolkadotRpcSource();
+            case 'graphql':
+                return createMidnightGraphQLSource();
+            case 'archive':
+                return createFileArchiveSource();
+            default:
+                throw new Error(`Unknown block source: ${name}`);
+        }
+    });
+}
+
+/**
+ * 使用するブロックソースとマージポリシーを設定します。
+ * @param newSources ブロックソース（先に指定したソースを優先）
+ * @param newPolicy マージポリシー
+ */
+export function setBlockSources(newSources: BlockSource[], newPolicy?: BlockSourcePolicy): void {
+    if (newSources.length === 0) {
+        throw new Error('At least one block source is required');
+    }
+    sources = newSources;
+    if (newPolicy) {
+        policy = newPolicy;
+    }
+}
+
+/**
+ * 使用するブロックソースを返します。
+ */
+export function getBlockSources(): BlockSource[] {
+    if (!sources) {
+        setBlockSources(createSourcesFromEnv());
+    }
+    return sources!;
+}
+
+/**
+ * ブロックソースのマージポリシーを返します。
+ */
+export function getBlockSourcePolicy(): BlockSourcePolicy {
+    if (!policy) {
+        if (BLOCK_SOURCE_POLICY !== 'require-all' && BLOCK_SOURCE_POLICY !== 'best-effort') {
+            throw new Error(`Unknown block source policy: ${BLOCK_SOURCE_POLICY}`);
+        }
+        policy = BLOCK_SOURCE_POLICY;
+    }
+    return policy;
+}
+
+/**
+ * 設定したブロックソースが指定した種類のデータを提供するかを返します。
+ * @param kind データの種類
+ */
+export function providesBlockData(kind: BlockDataKind): boolean {
+    return getBlockSources().some((source) => source.kinds.includes(kind));
+}
+
+/**
+ * 設定したブロックソースからブロックを取得します。
+ *
+ * 種類ごとに、提供するソースを優先順に試し、最初に見つかったデータを使用します。
+ * 種類の異なるソース（RPCとGraphQLなど）は並列に問い合わせます。
+ *
+ * @param height ブロック高さ
+ * @returns ブロック。マージポリシーを満たさない場合はエラーになります。
+ */
+export async function fetchBlock(height: number): Promise<FetchedBlock> {
+    const allSources = getBlockSources();
+    const kinds = [...new Set(allSources.flatMap((source) => source.kinds))];
+    const merged: BlockSourceData = {};
+    const tried = new Set<BlockSource>();
+    const errors: string[] = [];
+    const fetchedFrom: BlockSource[] = [];
+
+    const missingKinds = () => kinds.filter((kind) => !merged[kind]);
+
+    while (missingKinds().length > 0) {
+        // 足りない種類ごとに、まだ試していない最優先のソースを選ぶ
+        const round = new Set<BlockSource>();
+        for (const kind of missingKinds()) {
+            const source = allSources.find((s) => s.kinds.includes(kind) && !tried.has(s));
+            if (source) {
+                round.add(source);
+            }
+        }
+        if (round.size === 0) {
+            break;
+        }
+
+        const results = await Promise.allSettled([...round].map((source) => {
+            tried.add(source);
+            return source.fetch(height);
+        }));
+
+        [...round].forEach((source, i) => {
+            const result = results[i];
+            if (result.status === 'rejected') {
+                const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+                errors.push(`${source.name}: ${reason}`);
+                return;
+            }
+            for (const kind of source.kinds) {
+                if (!merged[kind] && result.value[kind]) {
+                    (merged as Record<BlockDataKind, unknown>)[kind] = result.value[kind];
+                    if (!fetchedFrom.includes(source)) {
+                        fetchedFrom.push(source);
+                    }
+                }
+            }
+        });
+    }
+
+    const missing = missingKinds();
+    if (missing.length === kinds.length || (missing.length > 0 && getBlockSourcePolicy() === 'require-all')) {
+        const detail = errors.length > 0 ? ` (${errors.join('; ')})` : '';
+        throw new Error(`Block ${height} is not available from block sources: missing ${missing.join(', ')}${detail}`);
+    }
+
+    if (BLOCK_ARCHIVE_RECORD && fetchedFrom.some((source) => source.name !== 'archive')) {
+        await writeArchivedBlock(BLOCK_ARCHIVE_DIR, height, merged);
+    }
+
+    return {
+        height,
+        polkadotBlock: merged.polkadot ?? null,
+        graphqlBlock: merged.graphql ?? null,
+        missing,
+    };
+}
+
+/**
+ * 設定したブロックソースから取得可能な最新のブロック高さを返します。
+ * 最新の高さを返せる最初のソースの値を使用します。
+ */
+export async function getLatestSourceHeight(): Promise<number> {
+    for (const source of getBlockSources()) {
+        if (!source.getLatestHeight) {
+            continue;
+        }
+        try {
+            return await source.getLatestHeight();
+        } catch (error) {
+            console.warn(`[block-source] ⚠️ Failed to get latest height from ${source.name}:`, error);
+        }
+    }
+    throw new Error('No block source could provide the latest block height');
+}
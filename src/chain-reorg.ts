@@ -0,0 +1,232 @@
+import type { PoolClient } from 'pg';
+import type { Header } from '@polkadot/types/interfaces';
+import { Block } from './types/chain';
+import { getBlockData, getHeaderFromHash } from './midnight-indexer';
+import { removeAddressActivity } from './address-activity';
+import { removeTransactionTokens } from './tokens';
+import { findContractAddresses, refreshContracts } from './contracts';
+import { detachContractStates } from './contract-states';
+import { removeLedgerParameterBlocks } from './ledger-parameters';
+
+/**
+ * 巻き戻しを許可する最大ブロック数
+ * これを超えるチェーン再編成は異常とみなしてインポートを中止します。
+ */
+const REORG_MAX_DEPTH = Number(process.env.REORG_MAX_DEPTH || 100);
+
+/**
+ * 保存済みのブロック
+ */
+type StoredBlock = {
+    id: number;
+    height: number;
+    hash: string;
+    parent_hash: string;
+    is_finalized: boolean;
+};
+
+/**
+ * 検出したチェーン再編成
+ */
+export type ChainReorg = {
+    depth: number;
+    commonAncestorHeight: number;
+    commonAncestorHash: string | null;
+    oldTip: { height: number; hash: string };
+    newTip: { height: number; hash: string };
+    abandonedBlocks: StoredBlock[];
+    canonicalHeaders: Header[];
+};
+
+/**
+ * ハッシュを保存形式（0xなし・小文字）に変換します。
+ * @param hash ハッシュ
+ */
+function toStoredHash(hash: string): string {
+    const lower = hash.toLowerCase();
+    return lower.startsWith('0x') ? lower.substring(2) : lower;
+}
+
+/**
+ * 指定した高さの保存済みブロックを取得します。
+ * @param client データベースクライアント
+ * @param height ブロック高さ
+ */
+async function getStoredBlock(client: PoolClient, height: number): Promise<StoredBlock | null> {
+    const result = await client.query(`
+        SELECT id, height, hash, parent_hash, is_finalized FROM blocks WHERE height = $1
+    `, [height]);
+    const row = result.rows[0];
+    return row ? { ...row, id: Number(row.id), height: Number(row.height) } : null;
+}
+
+/**
+ * 新しいブロックと保存済みのブロックを比較し、チェーン再編成を検出します。
+ *
+ * 1. 新しいブロックの親ハッシュと保存済みの親ブロックを比較し、一致するまで
+ *    RPCから新しいチェーンのヘッダーを取得しながら遡ります（共通祖先の探索）。
+ * 2. 新しいブロックと同じ高さの別ブロック、および新しいブロックに繋がらない
+ *    それより上のブロックも破棄対象とします。
+ *
+ * @param client データベースクライアント
+ * @param data 新しいブロック
+ * @returns チェーン再編成。再編成が無い場合はnullを返します。
+ */
+export async function detectChainReorg(client: PoolClient, data: Block): Promise<ChainReorg | null> {
+    const abandoned: StoredBlock[] = [];
+    const canonicalHeaders: Header[] = [];
+
+    // 共通祖先を探す
+    let height = data.height - 1;
+    let parentHash = toStoredHash(data.parentHash);
+    let ancestor: StoredBlock | null = null;
+    while (height >= 0) {
+        const stored = await getStoredBlock(client, height);
+        if (!stored || stored.hash === parentHash) {
+            ancestor = stored;
+            break;
+        }
+
+        abandoned.unshift(stored);
+        if (abandoned.length > REORG_MAX_DEPTH) {
+            throw new Error(
+                `Chain reorganization deeper than ${REORG_MAX_DEPTH} blocks at height ${data.height}`
+            );
+        }
+
+        const header = await getHeaderFromHash(parentHash);
+        canonicalHeaders.unshift(header);
+        parentHash = toStoredHash(header.parentHash.toString());
+        height--;
+    }
+
+    // 同じ高さ以上で、新しいブロックに繋がらないブロック
+    const result = await client.query(`
+        SELECT id, height, hash, parent_hash, is_finalized
+            FROM blocks
+            WHERE height >= $1
+            ORDER BY height
+    `, [data.height]);
+
+    const descendants = new Set<string>([data.hash]);
+    for (const row of result.rows) {
+        const stored: StoredBlock = { ...row, id: Number(row.id), height: Number(row.height) };
+        if (stored.hash === data.hash) {
+            continue;
+        }
+        if (stored.height > data.height && descendants.has(stored.parent_hash)) {
+            descendants.add(stored.hash);
+            continue;
+        }
+        abandoned.push(stored);
+    }
+
+    if (abandoned.length === 0) {
+        return null;
+    }
+
+    const finalized = abandoned.find((block) => block.is_finalized);
+    if (finalized) {
+        throw new Error(
+            `Finalized block ${finalized.height} (${finalized.hash}) conflicts with block ${data.height} (${data.hash})`
+        );
+    }
+
+    const commonAncestorHeight = height;
+    const oldTip = abandoned.reduce((tip, block) => block.height > tip.height ? block : tip);
+
+    return {
+        depth: oldTip.height - commonAncestorHeight,
+        commonAncestorHeight,
+        commonAncestorHash: ancestor?.hash ?? null,
+        oldTip: { height: oldTip.height, hash: oldTip.hash },
+        newTip: { height: data.height, hash: data.hash },
+        abandonedBlocks: abandoned,
+        canonicalHeaders,
+    };
+}
+
+/**
+ * 破棄するブランチのブロックを削除し、チェーン再編成を記録します。
+ * ブロックに紐づくエクストリンジック・トランザクション等はカスケード削除されます。
+ * 削除したトランザクションを消費先として参照しているUTXOの消費記録と、アドレスの残高・トークンの供給量への変化も取り消し、
+ * コントラクトの集計とレジャーパラメーターのバージョンの範囲を更新します。
+ * @param client データベースクライアント
+ * @param reorg チェーン再編成
+ */
+export async function rollbackChainReorg(client: PoolClient, reorg: ChainReorg): Promise<void> {
+    const blockIds = reorg.abandonedBlocks.map((block) => block.id);
+
+    // アドレスの残高とトークンの供給量のスナップショットから、破棄するトランザクションの変化を取り消す
+    const transactions = await client.query(
+        'SELECT id FROM transactions WHERE block_id = ANY($1::BIGINT[])',
+        [blockIds]
+    );
+    const transactionIds = transactions.rows.map((row) => Number(row.id));
+    await removeAddressActivity(client, transactionIds);
+    await removeTransactionTokens(client, transactionIds);
+    const contractAddresses = await findContractAddresses(client, transactionIds);
+    // 破棄するアクションを差分の基準にしている、残すアクションの状態はスナップショットにする
+    await detachContractStates(client, transactionIds);
+
+    await client.query(`
+        UPDATE unshielded_utxos
+            SET spent_at_transaction_id = NULL,
+                spent_at_tx_hash = NULL,
+                spent_at_height = NULL,
+                updated_at = NOW()
+            WHERE spent_at_tx_hash IN (SELECT hash FROM transactions WHERE block_id = ANY($1::BIGINT[]))
+               OR spent_at_transaction_id IN (SELECT id FROM transactions WHERE block_id = ANY($1::BIGINT[]))
+    `, [blockIds]);
+
+    // レジャーパラメーターのバージョンの範囲から、削除するブロックを取り除く
+    await removeLedgerParameterBlocks(client, blockIds);
+    await client.query(`DELETE FROM blocks WHERE id = ANY($1::BIGINT[])`, [blockIds]);
+
+    // 削除したアクションを除いて、コントラクトの最新の状態とアクション数を集計し直す
+    await refreshContracts(client, contractAddresses);
+
+    await client.query(`
+        INSERT INTO chain_reorgs
+            (depth, common_ancestor_height, common_ancestor_hash, old_tip_height, old_tip_hash,
+             new_tip_height, new_tip_hash, abandoned_block_hashes)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [
+        reorg.depth,
+        reorg.commonAncestorHeight,
+        reorg.commonAncestorHash,
+        reorg.oldTip.height,
+        reorg.oldTip.hash,
+        reorg.newTip.height,
+        reorg.newTip.hash,
+        JSON.stringify(reorg.abandonedBlocks.map((block) => block.hash)),
+    ]);
+
+    console.log(
+        `[chain-reorg] 🔀 Reorg detected: depth ${reorg.depth}, ` +
+        `common ancestor ${reorg.commonAncestorHeight}, ` +
+        `old tip ${reorg.oldTip.height} (${reorg.oldTip.hash}) -> new tip ${reorg.newTip.height} (${reorg.newTip.hash})`
+    );
+}
+
+/**
+ * チェーン再編成を検出した場合は破棄するブランチを削除し、
+ * 共通祖先から新しいブロックの親までの正規チェーンのブロックデータを返します。
+ * @param client データベースクライアント
+ * @param data 新しいブロック
+ * @returns 再インポートが必要な正規チェーンのブロック（高さ順）。再編成が無い場合はnullを返します。
+ */
+export async function resolveChainReorg(client: PoolClient, data: Block): Promise<Block[] | null> {
+    const reorg = await detectChainReorg(client, data);
+    if (!reorg) {
+        return null;
+    }
+
+    await rollbackChainReorg(client, reorg);
+
+    const canonicalBlocks: Block[] = [];
+    for (const header of reorg.canonicalHeaders) {
+        canonicalBlocks.push(await getBlockData(header));
+    }
+    return canonicalBlocks;
+}
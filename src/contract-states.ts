@@ -0,0 +1,590 @@
+import { createHash } from 'node:crypto';
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import {
+    decodeContractState,
+    encodeContractState,
+    type ContractStateValue,
+    type DecodedContractState,
+} from './ledger-event-decoder';
+
+/**
+ * 全体のスナップショットを保存する間隔（アクション数）
+ * この回数ごとに差分ではなく状態の全体を保存し、復元時に適用する差分の数を抑えます。
+ */
+const CONTRACT_STATE_SNAPSHOT_INTERVAL = Number(process.env.CONTRACT_STATE_SNAPSHOT_INTERVAL || 16);
+
+/**
+ * 以前の形式の差分の1つの置換（元の状態のoffsetバイト目からremoveバイトを削除し、insertを挿入）
+ */
+export type ContractStateHunk = {
+    offset: number;
+    remove: number;
+    insert: string;
+};
+
+/**
+ * 状態のデータの木の節（Merkle木の葉は16進数のハッシュ）
+ */
+type StateNode = ContractStateValue | string;
+
+/**
+ * 状態の差分の1つの変更
+ * pathの位置の値をvalueに置き換えます（valueがnullの場合は削除）。
+ * pathは根から順に、マップのキー（正規化したJSON）・配列の添字・Merkle木の葉の位置を並べたものです。
+ */
+export type ContractStateChange = {
+    path: string[];
+    value: StateNode | null;
+};
+
+/**
+ * 状態の差分（データの変更と、変わった場合は新しい残高）
+ */
+export type ContractStateDiff = {
+    changes: ContractStateChange[];
+    balance?: DecodedContractState['balance'];
+};
+
+/**
+ * 復元したコントラクトの状態
+ */
+export type ContractStateAt = {
+    actionId: number;
+    typeName: string;
+    height: number;
+    txHash: string;
+    state: string;
+};
+
+/**
+ * 差分の基準にするアクション
+ */
+type StateBase = {
+    id: number;
+    depth: number;
+};
+
+/**
+ * 16進数の状態をバイト列に変換します。
+ * @param state 16進数でシリアライズされた状態
+ */
+function toStateBytes(state: string): Buffer {
+    return Buffer.from(state.startsWith('0x') ? state.substring(2) : state, 'hex');
+}
+
+/**
+ * 状態のハッシュを返します。
+ * @param bytes 状態
+ */
+function hashState(bytes: Buffer): string {
+    return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * オブジェクトのキーを並べ替えたJSONを返します。
+ * JSONBに保存するとキーの順序が変わるため、マップのキーの比較にはこの形式を使います。
+ * @param value 値
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * 節の子を、pathで使うキーごとに返します。
+ * @param node 節
+ * @returns 子（子を持たない節の場合はnull）
+ */
+function childrenOf(node: StateNode): Map<string, StateNode> | null {
+    if (typeof node === 'string') {
+        return null;
+    }
+    switch (node.tag) {
+        case 'map':
+            return new Map(node.content.map(([key, value]) => [canonicalJson(key), value]));
+        case 'array':
+            return new Map(node.content.map((value, index) => [String(index), value]));
+        case 'boundedMerkleTree':
+            return new Map(node.content[1]);
+        default:
+            return null;
+    }
+}
+
+/**
+ * 2つの節を子ごとに比較できるかどうかを判定します。
+ * 配列の長さやMerkle木の高さが変わった場合は、節全体を置き換えます。
+ * @param base 元の節
+ * @param target 新しい節
+ */
+function isSameShape(base: StateNode, target: StateNode): boolean {
+    if (typeof base === 'string' || typeof target === 'string' || base.tag !== target.tag) {
+        return false;
+    }
+    if (base.tag === 'array' && target.tag === 'array') {
+        return base.content.length === target.content.length;
+    }
+    if (base.tag === 'boundedMerkleTree' && target.tag === 'boundedMerkleTree') {
+        return base.content[0] === target.content[0];
+    }
+    return base.tag === 'map';
+}
+
+/**
+ * 2つの節の差分を、変化した子ごとの変更として追加します。
+ * @param base 元の節
+ * @param target 新しい節
+ * @param path 節の位置
+ * @param changes 変更の追加先
+ */
+function diffNodes(base: StateNode, target: StateNode, path: string[], changes: ContractStateChange[]): void {
+    if (canonicalJson(base) === canonicalJson(target)) {
+        return;
+    }
+    const baseChildren = isSameShape(base, target) ? childrenOf(base) : null;
+    const targetChildren = baseChildren ? childrenOf(target) : null;
+    if (!baseChildren || !targetChildren) {
+        changes.push({ path, value: target });
+        return;
+    }
+
+    for (const [key, child] of targetChildren) {
+        const baseChild = baseChildren.get(key);
+        if (baseChild === undefined) {
+            changes.push({ path: [...path, key], value: child });
+        } else {
+            diffNodes(baseChild, child, [...path, key], changes);
+        }
+    }
+    for (const key of baseChildren.keys()) {
+        if (!targetChildren.has(key)) {
+            changes.push({ path: [...path, key], value: null });
+        }
+    }
+}
+
+/**
+ * 2つの状態の差分を、データの木のマップのキー・配列の要素・Merkle木の葉ごとに計算します。
+ * @param base 元の状態
+ * @param target 新しい状態
+ * @returns 差分
+ */
+export function diffContractStates(base: DecodedContractState, target: DecodedContractState): ContractStateDiff {
+    const changes: ContractStateChange[] = [];
+    diffNodes(base.data, target.data, [], changes);
+    return canonicalJson(base.balance) === canonicalJson(target.balance)
+        ? { changes }
+        : { changes, balance: target.balance };
+}
+
+/**
+ * キーと値の組の配列の1つの要素に変更を適用します。
+ * @param entries キーと値の組の配列（マップの要素またはMerkle木の葉）
+ * @param keyOf 要素のキーをpathのキーに変換する関数
+ * @param parseKey pathのキーを要素のキーに戻す関数
+ * @param path 変更する位置（先頭が要素のキー）
+ * @param value 新しい値（削除する場合はnull）
+ */
+function applyEntryChange<K, V extends StateNode>(
+    entries: [K, V][],
+    keyOf: (key: K) => string,
+    parseKey: (key: string) => K,
+    path: string[],
+    value: StateNode | null
+): void {
+    const [key, ...rest] = path;
+    const index = entries.findIndex(([entryKey]) => keyOf(entryKey) === key);
+    if (rest.length === 0 && value === null) {
+        if (index < 0) {
+            throw new Error(`Invalid contract state diff: ${key} does not exist`);
+        }
+        entries.splice(index, 1);
+    } else if (index >= 0) {
+        entries[index][1] = applyChange(entries[index][1], rest, value) as V;
+    } else if (rest.length === 0) {
+        entries.push([parseKey(key), value as V]);
+    } else {
+        throw new Error(`Invalid contract state diff: ${key} does not exist`);
+    }
+}
+
+/**
+ * 節に1つの変更を適用します。
+ * @param node 節（子は直接書き換えます）
+ * @param path 変更する位置
+ * @param value 新しい値（削除する場合はnull）
+ * @returns 変更後の節
+ */
+function applyChange(node: StateNode, path: string[], value: StateNode | null): StateNode {
+    if (path.length === 0) {
+        if (value === null) {
+            throw new Error('Invalid contract state diff: the root cannot be removed');
+        }
+        return value;
+    }
+    if (typeof node !== 'string') {
+        switch (node.tag) {
+            case 'map':
+                applyEntryChange(node.content, canonicalJson, (key) => JSON.parse(key), path, value);
+                return node;
+            case 'boundedMerkleTree':
+                applyEntryChange(node.content[1], (key) => key, (key) => key, path, value);
+                return node;
+            case 'array': {
+                const index = Number(path[0]);
+                if (value === null || !(index in node.content)) {
+                    throw new Error(`Invalid contract state diff: array index ${path[0]}`);
+                }
+                node.content[index] = applyChange(node.content[index], path.slice(1), value) as ContractStateValue;
+                return node;
+            }
+        }
+    }
+    throw new Error(`Invalid contract state diff: ${path[0]} does not exist`);
+}
+
+/**
+ * 状態に差分を適用します。
+ * @param base 元の状態（データの木は直接書き換えます）
+ * @param diff 差分
+ * @returns 新しい状態
+ */
+export function applyContractStateDiff(base: DecodedContractState, diff: ContractStateDiff): DecodedContractState {
+    let data: StateNode = base.data;
+    for (const change of diff.changes) {
+        data = applyChange(data, change.path, change.value);
+    }
+    return { data: data as ContractStateValue, balance: diff.balance ?? base.balance };
+}
+
+/**
+ * 以前の形式の差分（バイト列の置換）を状態に適用します。
+ * @param base 元の状態
+ * @param hunks 置換（offsetの昇順）
+ * @returns 新しい状態
+ */
+function applyContractStateHunks(base: Buffer, hunks: ContractStateHunk[]): Buffer {
+    const parts: Buffer[] = [];
+    let position = 0;
+    for (const hunk of hunks) {
+        if (hunk.offset < position || hunk.offset + hunk.remove > base.length) {
+            throw new Error(`Invalid contract state diff at offset ${hunk.offset}`);
+        }
+        parts.push(base.subarray(position, hunk.offset), Buffer.from(hunk.insert, 'hex'));
+        position = hunk.offset + hunk.remove;
+    }
+    parts.push(base.subarray(position));
+    return Buffer.concat(parts);
+}
+
+/**
+ * コントラクトアクション時点の状態を、直前のスナップショットから差分を適用して復元します。
+ * @param client データベースクライアント
+ * @param actionId コントラクトアクションID
+ * @returns 16進数でシリアライズされた状態
+ */
+export async function reconstructActionState(client: PoolClient, actionId: number): Promise<string> {
+    const result = await client.query(`
+        WITH RECURSIVE chain AS (
+            SELECT id, state, state_diff, state_base_action_id, state_hash, 0 AS depth
+                FROM tx_contract_actions
+                WHERE id = $1
+            UNION ALL
+            SELECT a.id, a.state, a.state_diff, a.state_base_action_id, a.state_hash, chain.depth + 1
+                FROM tx_contract_actions a
+                JOIN chain ON a.id = chain.state_base_action_id
+                WHERE chain.state IS NULL
+        )
+        SELECT * FROM chain ORDER BY depth DESC
+    `, [actionId]);
+
+    const [snapshot, ...diffs] = result.rows;
+    if (!snapshot || snapshot.state === null) {
+        throw new Error(`Contract state of action ${actionId} cannot be reconstructed: no snapshot found`);
+    }
+
+    // 差分を適用してもデータと残高以外は変わらないため、デコードした状態に続けて適用し、最後にシリアライズし直す
+    let state: string = snapshot.state;
+    let decoded: DecodedContractState | null = null;
+    for (const row of diffs) {
+        if (Array.isArray(row.state_diff)) {
+            if (decoded) {
+                state = await encodeContractState(state, decoded);
+                decoded = null;
+            }
+            state = applyContractStateHunks(toStateBytes(state), row.state_diff).toString('hex');
+        } else {
+            decoded = applyContractStateDiff(decoded ?? await decodeContractState(state), row.state_diff);
+        }
+    }
+    if (decoded) {
+        state = await encodeContractState(state, decoded);
+    }
+
+    const bytes = toStateBytes(state);
+    const expected = result.rows[result.rows.length - 1].state_hash;
+    if (expected && hashState(bytes) !== expected) {
+        throw new Error(`Contract state of action ${actionId} does not match its hash`);
+    }
+    return bytes.toString('hex');
+}
+
+/**
+ * 基準のアクションの状態から新しい状態への差分を計算します。
+ * @param client データベースクライアント
+ * @param baseId 基準のアクションID
+ * @param state 16進数でシリアライズされた新しい状態
+ * @returns 差分。デコードできない場合や、差分を適用しても新しい状態を再現できない場合
+ *          （オペレーションやメンテナンス権限が変わった場合など）はnullを返します。
+ */
+async function diffFromBase(client: PoolClient, baseId: number, state: string): Promise<ContractStateDiff | null> {
+    const baseState = await reconstructActionState(client, baseId);
+    try {
+        const base = await decodeContractState(baseState);
+        const diff = diffContractStates(base, await decodeContractState(state));
+        const applied = await encodeContractState(baseState, applyContractStateDiff(base, diff));
+        return applied === toStateBytes(state).toString('hex') ? diff : null;
+    } catch (error) {
+        console.warn(`[contract-states] ⚠️ Failed to diff contract state against action ${baseId}:`, error);
+        return null;
+    }
+}
+
+/**
+ * コントラクトアクションの状態を、基準のアクションからの差分またはスナップショットとして保存します。
+ * @param client データベースクライアント
+ * @param actionId コントラクトアクションID
+ * @param state 16進数でシリアライズされた状態
+ * @param base 差分の基準にするアクション（nullの場合はスナップショット）
+ * @returns 保存したアクション
+ */
+async function storeActionState(
+    client: PoolClient,
+    actionId: number,
+    state: string,
+    base: StateBase | null
+): Promise<StateBase> {
+    const bytes = toStateBytes(state);
+
+    let diff: ContractStateDiff | null = null;
+    if (base && base.depth + 1 < CONTRACT_STATE_SNAPSHOT_INTERVAL) {
+        diff = await diffFromBase(client, base.id, state);
+        // 差分の方が大きい場合は全体を保存する
+        if (diff && JSON.stringify(diff).length >= bytes.length * 2) {
+            diff = null;
+        }
+    }
+
+    const depth = diff ? base!.depth + 1 : 0;
+    await client.query(`
+        UPDATE tx_contract_actions
+            SET state = $2,
+                state_diff = $3,
+                state_base_action_id = $4,
+                state_depth = $5,
+                state_size = $6,
+                state_hash = $7
+            WHERE id = $1
+    `, [
+        actionId,
+        diff ? null : bytes.toString('hex'),
+        diff ? JSON.stringify(diff) : null,
+        diff ? base!.id : null,
+        depth,
+        bytes.length,
+        hashState(bytes),
+    ]);
+    return { id: actionId, depth };
+}
+
+/**
+ * アクションを基準にしている後続のアクションの差分の数（state_depth）を計算し直します。
+ * 基準の差分の数が変わった後に呼び出し、CONTRACT_STATE_SNAPSHOT_INTERVAL に達したアクションはスナップショットに置き換えます。
+ * @param client データベースクライアント
+ * @param base 差分の数が変わったアクション
+ */
+async function updateDependentDepths(client: PoolClient, base: StateBase): Promise<void> {
+    const pending = [base];
+    for (let current = pending.pop(); current; current = pending.pop()) {
+        const dependents = await client.query(
+            'SELECT id, state_depth FROM tx_contract_actions WHERE state_base_action_id = $1',
+            [current.id]
+        );
+        for (const row of dependents.rows) {
+            const actionId = Number(row.id);
+            const depth = current.depth + 1;
+            if (Number(row.state_depth) === depth) {
+                continue;
+            }
+            if (depth < CONTRACT_STATE_SNAPSHOT_INTERVAL) {
+                await client.query('UPDATE tx_contract_actions SET state_depth = $2 WHERE id = $1', [actionId, depth]);
+                pending.push({ id: actionId, depth });
+            } else {
+                pending.push(await storeActionState(client, actionId, await reconstructActionState(client, actionId), null));
+            }
+        }
+    }
+}
+
+/**
+ * 同じコントラクトの、チェーン上で指定したアクションの直前または直後のアクションを取得します。
+ * @param client データベースクライアント
+ * @param actionId コントラクトアクションID
+ * @param direction 'previous': 直前 / 'next': 直後
+ */
+async function findAdjacentAction(
+    client: PoolClient,
+    actionId: number,
+    direction: 'previous' | 'next'
+): Promise<StateBase | null> {
+    const [comparison, order] = direction === 'previous' ? ['<', 'DESC'] : ['>', 'ASC'];
+    const result = await client.query(`
+        SELECT a.id, a.state_depth
+            FROM tx_contract_actions self
+            JOIN transactions st ON st.id = self.tx_id
+            JOIN tx_contract_actions a ON a.address = self.address
+            JOIN transactions t ON t.id = a.tx_id
+            WHERE self.id = $1
+              AND (t.block_height, t.index_in_block, a.index_in_tx)
+                  ${comparison} (st.block_height, st.index_in_block, self.index_in_tx)
+            ORDER BY t.block_height ${order}, t.index_in_block ${order}, a.index_in_tx ${order}
+            LIMIT 1
+    `, [actionId]);
+    const row = result.rows[0];
+    return row ? { id: Number(row.id), depth: Number(row.state_depth) } : null;
+}
+
+/**
+ * コントラクトアクションの状態を、同じコントラクトの直前のアクションからの差分として保存します。
+ * スナップショットから CONTRACT_STATE_SNAPSHOT_INTERVAL 回ごとに全体を保存します。
+ * ブロックを前後してインポートした場合は、直後のアクションの差分もこのアクションを基準に計算し直し、
+ * それ以降のアクションの差分の数も更新します。
+ * @param client データベースクライアント
+ * @param actionId コントラクトアクションID
+ * @param state 16進数でシリアライズされた状態
+ */
+export async function recordContractState(client: PoolClient, actionId: number, state: string): Promise<void> {
+    const previous = await findAdjacentAction(client, actionId, 'previous');
+    const next = await findAdjacentAction(client, actionId, 'next');
+    // 基準が変わる前に直後のアクションの状態を復元しておく
+    const nextState = next ? await reconstructActionState(client, next.id) : null;
+
+    const stored = await storeActionState(client, actionId, state, previous);
+    if (next && nextState !== null) {
+        await updateDependentDepths(client, await storeActionState(client, next.id, nextState, stored));
+    }
+}
+
+/**
+ * 削除するトランザクションのアクションを基準にしている、他のトランザクションのアクションをスナップショットに置き換えます。
+ * チェーン再編成でトランザクションを削除する前に呼び出します。
+ * @param client データベースクライアント
+ * @param transactionIds 削除するトランザクションID
+ */
+export async function detachContractStates(client: PoolClient, transactionIds: number[]): Promise<void> {
+    if (transactionIds.length === 0) {
+        return;
+    }
+    const dependents = await client.query(`
+        SELECT a.id
+            FROM tx_contract_actions a
+            JOIN tx_contract_actions base ON base.id = a.state_base_action_id
+            WHERE base.tx_id = ANY($1::BIGINT[])
+              AND NOT (a.tx_id = ANY($1::BIGINT[]))
+    `, [transactionIds]);
+    for (const row of dependents.rows) {
+        const actionId = Number(row.id);
+        await updateDependentDepths(
+            client,
+            await storeActionState(client, actionId, await reconstructActionState(client, actionId), null)
+        );
+    }
+}
+
+/**
+ * 指定したブロック高さ時点のコントラクトの状態を復元します。
+ * @param client データベースクライアント
+ * @param address コントラクトアドレス（16進数）
+ * @param height ブロック高さ（省略時は最新）
+ * @returns 状態。その高さまでにアクションが無い場合はnullを返します。
+ */
+export async function getContractStateAt(
+    client: PoolClient,
+    address: string,
+    height: number | null = null
+): Promise<ContractStateAt | null> {
+    const result = await client.query(`
+        SELECT a.id, a.type_name, a.tx_hash, t.block_height
+            FROM tx_contract_actions a
+            JOIN transactions t ON t.id = a.tx_id
+            WHERE a.address = $1
+              AND ($2::BIGINT IS NULL OR t.block_height <= $2)
+            ORDER BY t.block_height DESC, t.index_in_block DESC, a.index_in_tx DESC
+            LIMIT 1
+    `, [address, height]);
+
+    const row = result.rows[0];
+    if (!row) {
+        return null;
+    }
+    return {
+        actionId: Number(row.id),
+        typeName: row.type_name,
+        height: Number(row.block_height),
+        txHash: row.tx_hash,
+        state: await reconstructActionState(client, Number(row.id)),
+    };
+}
+
+/**
+ * 状態の全体を保存しているコントラクトアクションを、差分とスナップショットの形式に変換します。
+ * 差分を保存するようになる前にインポートしたアクションに使います。
+ * @param address コントラクトアドレス（省略時は全てのコントラクト）
+ * @returns 差分に変換したアクション数
+ */
+export async function compactContractStates(address: string | null = null): Promise<number> {
+    return withPgClient(async (client) => {
+        const contracts = await client.query(`
+            SELECT DISTINCT address FROM tx_contract_actions
+                WHERE $1::TEXT IS NULL OR address = $1
+                ORDER BY address
+        `, [address]);
+
+        let compacted = 0;
+        for (const { address: contractAddress } of contracts.rows) {
+            await client.query('BEGIN');
+            try {
+                const actions = await client.query(`
+                    SELECT a.id
+                        FROM tx_contract_actions a
+                        JOIN transactions t ON t.id = a.tx_id
+                        WHERE a.address = $1
+                        ORDER BY t.block_height, t.index_in_block, a.index_in_tx
+                `, [contractAddress]);
+
+                // 基準にするアクションは書き換えても状態の全体は変わらないため、古い順に復元して保存し直す
+                let base: StateBase | null = null;
+                for (const row of actions.rows) {
+                    const actionId = Number(row.id);
+                    base = await storeActionState(client, actionId, await reconstructActionState(client, actionId), base);
+                    if (base.depth > 0) {
+                        compacted++;
+                    }
+                }
+
+                await client.query('COMMIT');
+            } catch (error) {
+                await client.query('ROLLBACK');
+                throw error;
+            }
+        }
+        return compacted;
+    });
+}
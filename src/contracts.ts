@@ -0,0 +1,324 @@
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import { reconstructActionState } from './contract-states';
+
+/**
+ * tx_contract_actions からコントラクトごとの集計を作り、contracts に保存するSQL
+ * $1 が NULL の場合は全てのコントラクトを対象にします。
+ * デプロイしたアドレス（deployer）は、トランザクションから署名者を特定できないため扱いません。
+ */
+const REFRESH_CONTRACTS_SQL = `
+    INSERT INTO contracts
+        (address, deploy_tx_hash, deploy_transaction_id, deploy_height, deploy_index_in_block,
+         latest_action_id, latest_height, state, zswap_state, call_count, update_count)
+        SELECT s.address, d.deploy_tx_hash, dt.id, dt.block_height, dt.index_in_block,
+               l.id, l.block_height, l.state, l.zswap_state, s.call_count, s.update_count
+            FROM (
+                SELECT address,
+                       COUNT(*) FILTER (WHERE type_name = 'ContractCall') AS call_count,
+                       COUNT(*) FILTER (WHERE type_name = 'ContractUpdate') AS update_count
+                    FROM tx_contract_actions
+                    WHERE $1::VARCHAR[] IS NULL OR address = ANY($1::VARCHAR[])
+                    GROUP BY address
+            ) s
+            CROSS JOIN LATERAL (
+                SELECT a.id, a.state, a.zswap_state, t.block_height
+                    FROM tx_contract_actions a
+                    JOIN transactions t ON t.id = a.tx_id
+                    WHERE a.address = s.address
+                    ORDER BY t.block_height DESC, t.index_in_block DESC, a.index_in_tx DESC
+                    LIMIT 1
+            ) l
+            CROSS JOIN LATERAL (
+                SELECT LOWER(REGEXP_REPLACE(COALESCE(
+                    (
+                        SELECT a.tx_hash FROM tx_contract_actions a
+                            WHERE a.address = s.address AND a.type_name = 'ContractDeploy'
+                            ORDER BY a.id
+                            LIMIT 1
+                    ),
+                    (
+                        SELECT a.deploy::JSONB #>> '{transaction,hash}' FROM tx_contract_actions a
+                            WHERE a.address = s.address AND a.type_name = 'ContractCall' AND a.deploy LIKE '{%'
+                            ORDER BY a.id
+                            LIMIT 1
+                    )
+                ), '^0x', '')) AS deploy_tx_hash
+            ) d
+            LEFT JOIN transactions dt ON dt.hash = d.deploy_tx_hash
+        ON CONFLICT (address) DO UPDATE SET
+            deploy_tx_hash = EXCLUDED.deploy_tx_hash,
+            deploy_transaction_id = EXCLUDED.deploy_transaction_id,
+            deploy_height = EXCLUDED.deploy_height,
+            deploy_index_in_block = EXCLUDED.deploy_index_in_block,
+            latest_action_id = EXCLUDED.latest_action_id,
+            latest_height = EXCLUDED.latest_height,
+            state = EXCLUDED.state,
+            zswap_state = EXCLUDED.zswap_state,
+            call_count = EXCLUDED.call_count,
+            update_count = EXCLUDED.update_count,
+            updated_at = NOW()
+`;
+
+/**
+ * トランザクションの中で、コントラクトの最後のアクションを返すSQL（$1: コントラクトアドレス, $2: トランザクションID）
+ */
+const TRANSACTION_LATEST_ACTION_SQL = `
+    SELECT a.id, a.state, a.zswap_state, t.block_height, t.index_in_block, a.index_in_tx
+        FROM tx_contract_actions a
+        JOIN transactions t ON t.id = a.tx_id
+        WHERE a.address = $1::VARCHAR AND a.tx_id = $2::BIGINT
+        ORDER BY a.index_in_tx DESC
+        LIMIT 1
+`;
+
+/**
+ * トランザクションのコントラクトアクションから、コントラクトのアクション数に変化を加え、デプロイ情報を求めるSQL
+ * デプロイしたトランザクションが未インポートの場合は、インポートされるまで求め直します。
+ * $1: コントラクトアドレス, $2: トランザクションID, $3: 呼び出し数の変化, $4: 更新数の変化
+ */
+const RECORD_CONTRACT_ACTIONS_SQL = `
+    WITH latest AS (${TRANSACTION_LATEST_ACTION_SQL}),
+    deploy AS (
+        SELECT LOWER(REGEXP_REPLACE(COALESCE(
+            (
+                SELECT a.tx_hash FROM tx_contract_actions a
+                    WHERE a.address = $1::VARCHAR AND a.type_name = 'ContractDeploy'
+                    ORDER BY a.id
+                    LIMIT 1
+            ),
+            (
+                SELECT a.deploy::JSONB #>> '{transaction,hash}' FROM tx_contract_actions a
+                    WHERE a.address = $1::VARCHAR AND a.tx_id = $2::BIGINT
+                      AND a.type_name = 'ContractCall' AND a.deploy LIKE '{%'
+                    ORDER BY a.index_in_tx
+                    LIMIT 1
+            )
+        ), '^0x', '')) AS deploy_tx_hash
+    )
+    INSERT INTO contracts
+        (address, deploy_tx_hash, deploy_transaction_id, deploy_height, deploy_index_in_block,
+         latest_action_id, latest_height, state, zswap_state, call_count, update_count)
+        SELECT $1::VARCHAR, d.deploy_tx_hash, dt.id, dt.block_height, dt.index_in_block,
+               l.id, l.block_height, l.state, l.zswap_state, GREATEST($3::BIGINT, 0), GREATEST($4::BIGINT, 0)
+            FROM deploy d
+            LEFT JOIN latest l ON TRUE
+            LEFT JOIN transactions dt ON dt.hash = d.deploy_tx_hash
+    ON CONFLICT (address) DO UPDATE SET
+        deploy_tx_hash = COALESCE(contracts.deploy_tx_hash, EXCLUDED.deploy_tx_hash),
+        deploy_transaction_id = COALESCE(contracts.deploy_transaction_id, EXCLUDED.deploy_transaction_id),
+        deploy_height = COALESCE(contracts.deploy_height, EXCLUDED.deploy_height),
+        deploy_index_in_block = COALESCE(contracts.deploy_index_in_block, EXCLUDED.deploy_index_in_block),
+        call_count = GREATEST(contracts.call_count + $3::BIGINT, 0),
+        update_count = GREATEST(contracts.update_count + $4::BIGINT, 0),
+        updated_at = NOW()
+`;
+
+/**
+ * トランザクションの最後のアクションが、保存済みの最新のアクション以降の場合に、コントラクトの最新の状態を置き換えるSQL
+ * $1: コントラクトアドレス, $2: トランザクションID
+ */
+const UPDATE_LATEST_CONTRACT_ACTION_SQL = `
+    UPDATE contracts c
+        SET latest_action_id = l.id,
+            latest_height = l.block_height,
+            state = l.state,
+            zswap_state = l.zswap_state
+        FROM (${TRANSACTION_LATEST_ACTION_SQL}) l
+        WHERE c.address = $1::VARCHAR
+          AND NOT EXISTS (
+              SELECT 1 FROM tx_contract_actions a
+                  JOIN transactions t ON t.id = a.tx_id
+                  WHERE a.id = c.latest_action_id
+                    AND (t.block_height, t.index_in_block, a.index_in_tx) > (l.block_height, l.index_in_block, l.index_in_tx)
+          )
+`;
+
+/**
+ * トランザクションに含まれるコントラクトアクションの数を、コントラクトごとに数えます。
+ * @param client データベースクライアント
+ * @param transactionId トランザクションID
+ * @returns コントラクトアドレスごとの呼び出し数と更新数
+ */
+export async function countContractActions(
+    client: PoolClient,
+    transactionId: number
+): Promise<Map<string, { calls: number; updates: number }>> {
+    const result = await client.query(`
+        SELECT address,
+               COUNT(*) FILTER (WHERE type_name = 'ContractCall') AS call_count,
+               COUNT(*) FILTER (WHERE type_name = 'ContractUpdate') AS update_count
+            FROM tx_contract_actions
+            WHERE tx_id = $1
+            GROUP BY address
+    `, [transactionId]);
+    return new Map(result.rows.map((row) => [
+        row.address,
+        { calls: Number(row.call_count), updates: Number(row.update_count) },
+    ]));
+}
+
+/**
+ * 最新のアクションの状態が差分として保存されているコントラクトの状態を復元します。
+ * @param client データベースクライアント
+ * @param addresses コントラクトアドレス（nullの場合は全てのコントラクト）
+ */
+async function restoreLatestStates(client: PoolClient, addresses: string[] | null): Promise<void> {
+    const diffs = await client.query(`
+        SELECT address, latest_action_id FROM contracts
+            WHERE state IS NULL AND latest_action_id IS NOT NULL
+              AND ($1::VARCHAR[] IS NULL OR address = ANY($1::VARCHAR[]))
+    `, [addresses]);
+    for (const row of diffs.rows) {
+        await client.query(
+            'UPDATE contracts SET state = $2 WHERE address = $1',
+            [row.address, await reconstructActionState(client, Number(row.latest_action_id))]
+        );
+    }
+}
+
+/**
+ * トランザクションのコントラクトアクションを、コントラクトの集計に反映します。
+ * アクション数は記録し直す前との差分だけを加えるため、コントラクトの全てのアクションを集計し直しません。
+ * 最新の状態は、このトランザクションのアクションが保存済みの最新のアクション以降の場合だけ置き換えるため、
+ * ブロックは高さの順にインポートしなくても構いません。
+ * @param client データベースクライアント
+ * @param transactionId トランザクションID
+ * @param previous 記録し直す前のアクション数（countContractActions の結果）
+ */
+export async function recordContractActions(
+    client: PoolClient,
+    transactionId: number,
+    previous: Map<string, { calls: number; updates: number }>
+): Promise<void> {
+    const current = await countContractActions(client, transactionId);
+    const addresses = [...new Set([...previous.keys(), ...current.keys()])];
+
+    for (const address of addresses) {
+        const before = previous.get(address) ?? { calls: 0, updates: 0 };
+        const after = current.get(address) ?? { calls: 0, updates: 0 };
+        await client.query(
+            RECORD_CONTRACT_ACTIONS_SQL,
+            [address, transactionId, after.calls - before.calls, after.updates - before.updates]
+        );
+        await client.query(UPDATE_LATEST_CONTRACT_ACTION_SQL, [address, transactionId]);
+    }
+    await restoreLatestStates(client, addresses);
+}
+
+/**
+ * 保存済みのコントラクトアクションから、コントラクトのデプロイ情報・最新の状態・アクション数を集計し直します。
+ * コントラクトの全てのアクションを集計するため、チェーン再編成で削除されたアクションがある場合や、作り直す場合に使用します。
+ * アクションが無くなったコントラクトは削除します。
+ * @param client データベースクライアント
+ * @param addresses コントラクトアドレス（nullの場合は全てのコントラクト）
+ * @returns 更新したコントラクト数
+ */
+export async function refreshContracts(client: PoolClient, addresses: string[] | null): Promise<number> {
+    if (addresses !== null && addresses.length === 0) {
+        return 0;
+    }
+
+    const result = await client.query(REFRESH_CONTRACTS_SQL, [addresses]);
+    await restoreLatestStates(client, addresses);
+    await client.query(`
+        DELETE FROM contracts c
+            WHERE ($1::VARCHAR[] IS NULL OR c.address = ANY($1::VARCHAR[]))
+              AND NOT EXISTS (SELECT 1 FROM tx_contract_actions a WHERE a.address = c.address)
+    `, [addresses]);
+    return result.rowCount ?? 0;
+}
+
+/**
+ * コントラクトの残高の推移を、指定したブロック高さ以降について作り直します。
+ * 各ブロック高さの最後のアクションの残高を使い、前の高さから変化したトークンだけを保存します。
+ * アクションの残高に含まれないトークンは残高0として扱います。
+ * @param client データベースクライアント
+ * @param address コントラクトアドレス
+ * @param fromHeight 作り直す最初のブロック高さ
+ */
+export async function refreshContractBalances(client: PoolClient, address: string, fromHeight: number): Promise<void> {
+    await client.query(
+        'DELETE FROM contract_balances WHERE contract_address = $1 AND block_height >= $2',
+        [address, fromHeight]
+    );
+
+    await client.query(`
+        WITH last_actions AS (
+            SELECT DISTINCT ON (t.block_height) a.id, t.block_height
+                FROM tx_contract_actions a
+                JOIN transactions t ON t.id = a.tx_id
+                WHERE a.address = $1::VARCHAR AND t.block_height >= $2::BIGINT
+                ORDER BY t.block_height, t.index_in_block DESC, a.index_in_tx DESC
+        ),
+        previous AS (
+            SELECT DISTINCT ON (token_type) token_type, balance
+                FROM contract_balances
+                WHERE contract_address = $1::VARCHAR AND block_height < $2::BIGINT
+                ORDER BY token_type, block_height DESC
+        ),
+        token_types AS (
+            SELECT token_type FROM previous
+            UNION
+            SELECT b.token_type
+                FROM last_actions l
+                JOIN tx_contract_action_balances b ON b.tx_contract_action_id = l.id
+        ),
+        balances AS (
+            SELECT k.token_type, l.block_height, l.id AS action_id, COALESCE(b.amount, 0) AS balance,
+                   LAG(COALESCE(b.amount, 0)) OVER (PARTITION BY k.token_type ORDER BY l.block_height) AS previous_balance
+                FROM last_actions l
+                CROSS JOIN token_types k
+                LEFT JOIN tx_contract_action_balances b
+                    ON b.tx_contract_action_id = l.id AND b.token_type = k.token_type
+        )
+        INSERT INTO contract_balances (contract_address, token_type, block_height, balance, action_id)
+            SELECT $1::VARCHAR, x.token_type, x.block_height, x.balance, x.action_id
+                FROM balances x
+                LEFT JOIN previous p ON p.token_type = x.token_type
+                WHERE x.balance <> COALESCE(x.previous_balance, p.balance, 0)
+    `, [address, fromHeight]);
+}
+
+/**
+ * トランザクションに含まれるコントラクトアクションのコントラクトアドレスを取得します。
+ * チェーン再編成でトランザクションを削除する前に、更新が必要なコントラクトを調べるために使います。
+ * @param client データベースクライアント
+ * @param transactionIds トランザクションID
+ */
+export async function findContractAddresses(client: PoolClient, transactionIds: number[]): Promise<string[]> {
+    if (transactionIds.length === 0) {
+        return [];
+    }
+    const result = await client.query(
+        'SELECT DISTINCT address FROM tx_contract_actions WHERE tx_id = ANY($1::BIGINT[])',
+        [transactionIds]
+    );
+    return result.rows.map((row) => row.address);
+}
+
+/**
+ * 保存済みのコントラクトアクションから、全てのコントラクトと残高の推移を作り直します。
+ * @returns 作成したコントラクト数
+ */
+export async function rebuildContracts(): Promise<number> {
+    return withPgClient(async (client) => {
+        await client.query('BEGIN');
+        try {
+            await client.query('DELETE FROM contracts');
+            const count = await refreshContracts(client, null);
+
+            await client.query('TRUNCATE TABLE contract_balances');
+            const addresses = await client.query('SELECT address FROM contracts');
+            for (const row of addresses.rows) {
+                await refreshContractBalances(client, row.address, 0);
+            }
+
+            await client.query('COMMIT');
+            return count;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        }
+    });
+}
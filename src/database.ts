@@ -1,6 +1,7 @@
 
 import { Pool, type PoolClient, type PoolConfig } from "pg";
 import { Block, Extrinsic } from "./types/chain";
+import { NETWORK } from "./network";
 
 export interface Event {
   blockId: number;
@@ -83,6 +84,8 @@ function buildPoolConfig(): PoolConfig {
     host: PG_HOST,
     user: PG_USER,
     database: PG_DB,
+    // プールの全ての接続で、インデックスしているネットワークのスキーマを使う
+    options: `-c search_path=${NETWORK.schema}`,
   };
 
   const password = PG_PASSWORD;
@@ -141,10 +144,10 @@ export async function connectPostgres(): Promise<Pool> {
   try {
     await pool.query("SELECT 1");
     console.log(
-      `🗄️ PostgreSQL に接続しました: ${config.host}:${config.port ?? 5432}/${config.database}`
+      `🗄️ PostgreSQL に接続しました: ${config.host}:${config.port ?? 5432}/${config.database} (${NETWORK.name}: ${NETWORK.schema})`
     );
     
-    await pool.query('SET search_path TO mn_preview_indexer');
+    await pool.query(`SET search_path TO ${NETWORK.schema}`);
     // データベースレベルでタイムゾーンをUTCに設定
     try {
       await pool.query(`ALTER DATABASE ${config.database} SET timezone TO 'UTC'`);
@@ -178,7 +181,7 @@ export function getPostgresPool(): Pool {
 export async function withPgClient<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
   const activePool = await connectPostgres();
   const client = await activePool.connect();
-  await client.query('SET search_path TO mn_preview_indexer');
+  await client.query(`SET search_path TO ${NETWORK.schema}`);
   await client.query("SET timezone = 'UTC'");
 
   try {
@@ -236,11 +239,17 @@ export async function clearAllData(): Promise<void> {
             await client.query(`
                 TRUNCATE TABLE 
                     blocks,
+                    block_missed_slots,
+                    runtime_upgrades,
                     transactions,
                     tx_outputs,
                     tx_inputs,
-                    account_balances,
-                    account_tx,
+                    address_transactions,
+                    address_balances,
+                    tokens,
+                    transaction_token_totals,
+                    token_supplies,
+                    contracts,
                     shielded_notes,
                     extrinsics,
                     events,
@@ -249,9 +258,21 @@ export async function clearAllData(): Promise<void> {
                     tx_results,
                     tx_dust_ledger_events,
                     tx_zswap_ledger_events,
+                    graphql_retry_queue,
+                    unshielded_utxos,
+                    ledger_parameter_versions,
+                    dust_generation_snapshots,
+                    ledger_event_stream,
+                    wallet_relevant_transactions,
+                    watched_address_utxos,
                     indexer_state
                 RESTART IDENTITY CASCADE
             `);
+            // 監視するアドレスは残し、上流のビューの購読を最初からやり直す
+            await client.query(`
+                UPDATE watched_addresses
+                    SET last_transaction_id = NULL, highest_transaction_id = NULL, progress_at = NULL, updated_at = NOW()
+            `);
             
             await client.query('COMMIT');
             console.log('✅ 全てのデータをクリアしました');
@@ -0,0 +1,248 @@
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import { toErrorMessage } from './errors';
+import { decodeDustAddress, getDustGenerationStatus } from './midnight-indexer';
+
+/**
+ * DUST 生成状況を取得する間隔（ミリ秒）
+ * 0 の場合は定期的な取得を行いません。
+ */
+const DUST_GENERATION_POLL_INTERVAL_MS = Number(process.env.DUST_GENERATION_POLL_INTERVAL_MS || 300000);
+
+/**
+ * 1回のリクエストで問い合わせるリワードアドレスの最大数
+ */
+const DUST_GENERATION_POLL_BATCH_SIZE = Number(process.env.DUST_GENERATION_POLL_BATCH_SIZE || 20);
+
+/**
+ * 監視するCardanoのリワードアドレス
+ */
+export type DustWatchAddress = {
+    id: number;
+    cardanoRewardAddress: string;
+    label: string | null;
+    enabled: boolean;
+    lastPolledAt: Date | null;
+    lastError: string | null;
+    createdAt: Date;
+};
+
+let pollTimer: NodeJS.Timeout | null = null;
+let stopped = true;
+
+/**
+ * データベースの行を監視するリワードアドレスに変換します。
+ * @param row dust_watch_addresses の行
+ */
+function toWatchAddress(row: any): DustWatchAddress {
+    return {
+        id: Number(row.id),
+        cardanoRewardAddress: row.cardano_reward_address,
+        label: row.label,
+        enabled: row.enabled,
+        lastPolledAt: row.last_polled_at,
+        lastError: row.last_error,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * 監視するリワードアドレスを追加します。既に登録されている場合はラベルを更新し、監視を再開します。
+ * @param client データベースクライアント
+ * @param cardanoRewardAddress Cardanoのリワードアドレス
+ * @param label ラベル
+ */
+export async function addDustWatchAddress(
+    client: PoolClient,
+    cardanoRewardAddress: string,
+    label: string | null = null
+): Promise<DustWatchAddress> {
+    const address = cardanoRewardAddress.trim();
+    if (!/^stake(_test)?1[02-9ac-hj-np-z]+$/.test(address)) {
+        throw new Error(`Invalid Cardano reward address: ${cardanoRewardAddress}`);
+    }
+
+    const result = await client.query(`
+        INSERT INTO dust_watch_addresses (cardano_reward_address, label)
+            VALUES ($1, $2)
+            ON CONFLICT (cardano_reward_address) DO UPDATE SET
+                label = COALESCE(EXCLUDED.label, dust_watch_addresses.label),
+                enabled = TRUE,
+                updated_at = NOW()
+            RETURNING *
+    `, [address, label]);
+    return toWatchAddress(result.rows[0]);
+}
+
+/**
+ * 監視するリワードアドレスを削除します。保存済みのスナップショットも削除されます。
+ * @param client データベースクライアント
+ * @param cardanoRewardAddress Cardanoのリワードアドレス
+ * @returns 削除した場合はtrue
+ */
+export async function removeDustWatchAddress(client: PoolClient, cardanoRewardAddress: string): Promise<boolean> {
+    const result = await client.query(
+        'DELETE FROM dust_watch_addresses WHERE cardano_reward_address = $1',
+        [cardanoRewardAddress.trim()]
+    );
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * 監視するリワードアドレスの一覧を取得します。
+ * @param client データベースクライアント
+ * @param enabledOnly 監視が有効なアドレスのみ取得する場合はtrue
+ */
+export async function listDustWatchAddresses(client: PoolClient, enabledOnly: boolean = false): Promise<DustWatchAddress[]> {
+    const result = await client.query(`
+        SELECT * FROM dust_watch_addresses
+            WHERE NOT $1::BOOLEAN OR enabled
+            ORDER BY id
+    `, [enabledOnly]);
+    return result.rows.map(toWatchAddress);
+}
+
+/**
+ * 取得した DUST 生成状況をスナップショットとして保存します。
+ * @param client データベースクライアント
+ * @param watchAddresses 問い合わせたリワードアドレス
+ * @param statuses DUST 生成状況
+ * @returns 保存したスナップショット数
+ */
+async function saveDustGenerationSnapshots(
+    client: PoolClient,
+    watchAddresses: DustWatchAddress[],
+    statuses: Awaited<ReturnType<typeof getDustGenerationStatus>>
+): Promise<number> {
+    const ids = new Map(watchAddresses.map((watch) => [watch.cardanoRewardAddress, watch.id]));
+    const heightResult = await client.query('SELECT MAX(height) AS height FROM blocks');
+    const height = heightResult.rows[0]?.height ?? null;
+
+    let saved = 0;
+    for (const status of statuses) {
+        const watchAddressId = ids.get(String(status.cardanoRewardAddress));
+        if (watchAddressId === undefined) {
+            continue;
+        }
+
+        let dustPublicKey: string | null = null;
+        if (status.dustAddress) {
+            try {
+                dustPublicKey = decodeDustAddress(String(status.dustAddress));
+            } catch (error) {
+                console.warn(`[dust-generation] ⚠️ Failed to decode DUST address ${status.dustAddress}:`, toErrorMessage(error));
+            }
+        }
+
+        await client.query(`
+            INSERT INTO dust_generation_snapshots
+                (watch_address_id, block_height, registered, dust_address, dust_public_key,
+                 night_balance, generation_rate, max_capacity, current_capacity, utxo_tx_hash, utxo_output_index)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        `, [
+            watchAddressId,
+            height,
+            status.registered,
+            status.dustAddress ?? null,
+            dustPublicKey,
+            status.nightBalance,
+            status.generationRate,
+            status.maxCapacity,
+            status.currentCapacity,
+            status.utxoTxHash ? String(status.utxoTxHash).toLowerCase().replace(/^0x/, '') : null,
+            status.utxoOutputIndex ?? null,
+        ]);
+        saved++;
+    }
+
+    await client.query(`
+        UPDATE dust_watch_addresses
+            SET last_polled_at = NOW(), last_error = NULL, updated_at = NOW()
+            WHERE id = ANY($1::BIGINT[])
+    `, [watchAddresses.map((watch) => watch.id)]);
+    return saved;
+}
+
+/**
+ * 監視が有効な全てのリワードアドレスの DUST 生成状況を取得し、スナップショットとして保存します。
+ * 取得に失敗したアドレスはエラーを記録し、残りのアドレスの取得を続けます。
+ * @returns 保存したスナップショット数
+ */
+export async function pollDustGenerationStatus(): Promise<number> {
+    const watchAddresses = await withPgClient((client) => listDustWatchAddresses(client, true));
+
+    let saved = 0;
+    for (let i = 0; i < watchAddresses.length; i += DUST_GENERATION_POLL_BATCH_SIZE) {
+        const batch = watchAddresses.slice(i, i + DUST_GENERATION_POLL_BATCH_SIZE);
+        try {
+            const statuses = await getDustGenerationStatus(batch.map((watch) => watch.cardanoRewardAddress));
+            saved += await withPgClient(async (client) => {
+                await client.query('BEGIN');
+                try {
+                    const count = await saveDustGenerationSnapshots(client, batch, statuses);
+                    await client.query('COMMIT');
+                    return count;
+                } catch (error) {
+                    await client.query('ROLLBACK');
+                    throw error;
+                }
+            });
+        } catch (error) {
+            console.error(`[dust-generation] ❌ Failed to poll DUST generation status:`, toErrorMessage(error));
+            await withPgClient((client) => client.query(`
+                UPDATE dust_watch_addresses
+                    SET last_polled_at = NOW(), last_error = $2, updated_at = NOW()
+                    WHERE id = ANY($1::BIGINT[])
+            `, [batch.map((watch) => watch.id), toErrorMessage(error)]));
+        }
+    }
+    return saved;
+}
+
+/**
+ * 次回の DUST 生成状況の取得を予約します。
+ * @param delayMs 取得するまでの待ち時間（ミリ秒）
+ */
+function schedulePoll(delayMs: number = DUST_GENERATION_POLL_INTERVAL_MS): void {
+    if (stopped) {
+        return;
+    }
+    pollTimer = setTimeout(() => {
+        pollTimer = null;
+        pollDustGenerationStatus()
+            .then((saved) => {
+                if (saved > 0) {
+                    console.log(`[dust-generation] 📸 Saved ${saved} DUST generation snapshot(s)`);
+                }
+            })
+            .catch((error) => {
+                console.error('[dust-generation] ❌ DUST generation poll failed:', error);
+            })
+            .finally(() => schedulePoll());
+    }, delayMs);
+    pollTimer.unref();
+}
+
+/**
+ * DUST 生成状況の定期的な取得を開始します。
+ * DUST_GENERATION_POLL_INTERVAL_MS が 0 の場合は何もしません。
+ */
+export function startDustGenerationWatcher(): void {
+    if (!stopped || DUST_GENERATION_POLL_INTERVAL_MS <= 0) {
+        return;
+    }
+    stopped = false;
+    console.log(`[dust-generation] 👀 Polling DUST generation status every ${DUST_GENERATION_POLL_INTERVAL_MS}ms`);
+    schedulePoll(0);
+}
+
+/**
+ * DUST 生成状況の定期的な取得を停止します。
+ */
+export function stopDustGenerationWatcher(): void {
+    stopped = true;
+    if (pollTimer) {
+        clearTimeout(pollTimer);
+        pollTimer = null;
+    }
+}
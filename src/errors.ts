@@ -0,0 +1,19 @@
+/**
+ * エラーを保存・表示するメッセージに変換します。
+ * @param error エラー
+ */
+export function toErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+        return error.message;
+    }
+    // GraphQLのエラーの配列
+    if (Array.isArray(error)) {
+        return error.map((item) => item?.message ?? String(item)).join(', ');
+    }
+    // WebSocketのCloseEvent
+    if (error && typeof error === 'object' && 'code' in error) {
+        const { code, reason } = error as { code: number; reason?: string };
+        return `Connection closed (${code})${reason ? `: ${reason}` : ''}`;
+    }
+    return String(error);
+}
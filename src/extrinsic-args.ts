@@ -0,0 +1,142 @@
+import type { AnyTuple, CallBase } from '@polkadot/types/types';
+import type { Codec } from '@polkadot/types-codec/types';
+import { withPgClient } from './database';
+import { decodeMidnightTransaction, decodeSystemTransaction } from './ledger-event-decoder';
+import { getBlockFromHash } from './midnight-indexer';
+
+/**
+ * 呼び出しの引数（引数名ごとの値と型）
+ */
+export type CallArgs = {
+    args: Record<string, unknown>;
+    argTypes: Record<string, string>;
+};
+
+/**
+ * 引数の作り直しの結果
+ */
+export type ExtrinsicArgsRebuildResult = {
+    blocks: number;
+    extrinsics: number;
+    /**
+     * ノードから取得し直せなかったブロックの高さ
+     */
+    failedBlocks: number[];
+};
+
+/**
+ * Midnightのトランザクションを運ぶ呼び出しの、バイト列の引数のデコーダー（`section.method` ごと）
+ */
+const MIDNIGHT_ARG_DECODERS: Record<string, (raw: string) => Promise<unknown>> = {
+    'midnight.sendMnTransaction': decodeMidnightTransaction,
+    'midnightSystem.sendMnSystemTransaction': decodeSystemTransaction,
+};
+
+/**
+ * 値が呼び出し（utility.batch や sudo.sudo の中の呼び出し）かどうかを判定します。
+ * @param value 値
+ */
+function isCall(value: unknown): value is CallBase<AnyTuple> {
+    const call = value as CallBase<AnyTuple>;
+    return !!call && call.callIndex instanceof Uint8Array && typeof call.section === 'string' && Array.isArray(call.args);
+}
+
+/**
+ * 引数の値をJSONに変換します。
+ * 大きな整数は精度を保つため10進数の文字列になります。中の呼び出しは名前付きの引数に展開します。
+ * @param value 引数の値
+ */
+async function toArgValue(value: Codec): Promise<unknown> {
+    if (isCall(value)) {
+        return { section: value.section, method: value.method, ...await decodeCallArgs(value) };
+    }
+    if (Array.isArray(value) && value.length > 0 && value.every(isCall)) {
+        return Promise.all(value.map((call: CallBase<AnyTuple>) => toArgValue(call)));
+    }
+    return value.toPrimitive();
+}
+
+/**
+ * 呼び出しの引数を、メタデータの引数名と型を使って名前付きのJSONにデコードします。
+ * Midnightのトランザクションを運ぶ呼び出しは、バイト列をレジャーのトランザクションとしてデコードした概要に置き換えます
+ * （バイト列そのものは extrinsics.data に残ります）。
+ * @param call 呼び出し
+ * @returns 引数名ごとの値と型
+ */
+export async function decodeCallArgs(call: CallBase<AnyTuple>): Promise<CallArgs> {
+    const args: Record<string, unknown> = {};
+    const argTypes: Record<string, string> = {};
+    const decoder = MIDNIGHT_ARG_DECODERS[`${call.section}.${call.method}`];
+
+    for (let i = 0; i < call.meta.args.length; i++) {
+        const meta = call.meta.args[i];
+        const value = call.args[i];
+        if (!meta || !value) continue;
+
+        const name = meta.name.toString();
+        argTypes[name] = meta.type.toString();
+
+        if (decoder && value instanceof Uint8Array) {
+            try {
+                args[name] = { size: value.length, ...(await decoder(value.toHex()) as object) };
+            } catch (error) {
+                args[name] = { size: value.length, decodeError: error instanceof Error ? error.message : String(error) };
+            }
+            continue;
+        }
+        args[name] = await toArgValue(value);
+    }
+
+    return { args, argTypes };
+}
+
+/**
+ * 以前の形式（文字列の配列）で引数を保存したエクストリンジックを、ノードからブロックを取得し直してデコードし直します。
+ * @returns 作り直したブロック数とエクストリンジック数
+ */
+export async function rebuildExtrinsicArgs(): Promise<ExtrinsicArgsRebuildResult> {
+    const blocks = await withPgClient(async (client) => {
+        const result = await client.query(`
+            SELECT DISTINCT b.id, b.height, b.hash
+                FROM extrinsics e
+                JOIN blocks b ON b.id = e.block_id
+                WHERE jsonb_typeof(e.args->'args') = 'array'
+                ORDER BY b.height
+        `);
+        return result.rows;
+    });
+
+    const result: ExtrinsicArgsRebuildResult = { blocks: 0, extrinsics: 0, failedBlocks: [] };
+    for (const row of blocks) {
+        const height = Number(row.height);
+        try {
+            const block = await getBlockFromHash(row.hash);
+            const decoded: CallArgs[] = [];
+            for (const extrinsic of block.block.extrinsics) {
+                decoded.push(await decodeCallArgs(extrinsic.method));
+            }
+
+            await withPgClient(async (client) => {
+                await client.query('BEGIN');
+                try {
+                    for (let index = 0; index < decoded.length; index++) {
+                        const updated = await client.query(
+                            'UPDATE extrinsics SET args = $3 WHERE block_id = $1 AND index_in_block = $2',
+                            [row.id, index, { args: decoded[index]!.args, types: decoded[index]!.argTypes }]
+                        );
+                        result.extrinsics += updated.rowCount ?? 0;
+                    }
+                    await client.query('COMMIT');
+                } catch (error) {
+                    await client.query('ROLLBACK');
+                    throw error;
+                }
+            });
+            result.blocks++;
+        } catch (error) {
+            console.error(`[extrinsic-args] ❌ Failed to decode extrinsic args of block ${height}:`, error);
+            result.failedBlocks.push(height);
+        }
+    }
+    return result;
+}
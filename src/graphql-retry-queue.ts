@@ -0,0 +1,127 @@
+import type { PoolClient } from 'pg';
+import { toErrorMessage } from './errors';
+
+/**
+ * 再試行間隔の初期値（ミリ秒）
+ * 失敗するたびに2倍になります。
+ */
+const RETRY_BASE_DELAY_MS = Number(process.env.GRAPHQL_RETRY_BASE_DELAY_MS || 5000);
+
+/**
+ * 再試行間隔の上限（ミリ秒）
+ */
+const RETRY_MAX_DELAY_MS = Number(process.env.GRAPHQL_RETRY_MAX_DELAY_MS || 600000);
+
+/**
+ * 1回の処理で再試行する最大件数
+ */
+const RETRY_BATCH_SIZE = Number(process.env.GRAPHQL_RETRY_BATCH_SIZE || 100);
+
+/**
+ * 再試行キューのエントリ
+ */
+export type GraphQLRetryEntry = {
+    height: number;
+    attempts: number;
+    lastError: string | null;
+    nextRetryAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+/**
+ * GraphQLからのインポートに失敗したブロックを再試行キューに追加します。
+ * 既にキューにある場合は試行回数を増やし、次の再試行時刻を指数バックオフで延長します。
+ * @param client データベースクライアント
+ * @param height ブロック高さ
+ * @param error 失敗した理由
+ */
+export async function enqueueGraphQLRetry(client: PoolClient, height: number, error: unknown): Promise<void> {
+    await client.query(`
+        INSERT INTO graphql_retry_queue (height, attempts, last_error, next_retry_at)
+            VALUES ($1, 1, $2, NOW() + LEAST($3::FLOAT8, $4::FLOAT8) * INTERVAL '1 millisecond')
+            ON CONFLICT (height) DO UPDATE SET
+                attempts = graphql_retry_queue.attempts + 1,
+                last_error = EXCLUDED.last_error,
+                next_retry_at = NOW()
+                    + LEAST($3::FLOAT8 * POWER(2, LEAST(graphql_retry_queue.attempts, 30)), $4::FLOAT8)
+                    * INTERVAL '1 millisecond',
+                updated_at = NOW()
+    `, [height, toErrorMessage(error), RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS]);
+}
+
+/**
+ * 再試行時刻を過ぎたブロック高さを取得します。
+ * @param client データベースクライアント
+ * @param limit 最大件数
+ * @returns ブロック高さ（昇順）
+ */
+export async function getDueGraphQLRetries(client: PoolClient, limit: number = RETRY_BATCH_SIZE): Promise<number[]> {
+    const result = await client.query<{ height: string }>(`
+        SELECT height FROM graphql_retry_queue
+            WHERE next_retry_at <= NOW()
+            ORDER BY height
+            LIMIT $1
+    `, [limit]);
+    return result.rows.map((row) => Number(row.height));
+}
+
+/**
+ * インポートに成功したブロックを再試行キューから削除します。
+ * @param client データベースクライアント
+ * @param height ブロック高さ
+ */
+export async function completeGraphQLRetry(client: PoolClient, height: number): Promise<void> {
+    await client.query('DELETE FROM graphql_retry_queue WHERE height = $1', [height]);
+}
+
+/**
+ * 再試行キューの内容を取得します。
+ * @param client データベースクライアント
+ * @returns エントリ（高さ順）
+ */
+export async function listGraphQLRetries(client: PoolClient): Promise<GraphQLRetryEntry[]> {
+    const result = await client.query(`
+        SELECT height, attempts, last_error, next_retry_at, created_at, updated_at
+            FROM graphql_retry_queue
+            ORDER BY height
+    `);
+    return result.rows.map((row) => ({
+        height: Number(row.height),
+        attempts: Number(row.attempts),
+        lastError: row.last_error,
+        nextRetryAt: row.next_retry_at,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    }));
+}
+
+/**
+ * 再試行キューのエントリを直ちに再試行するように戻します。
+ * 試行回数もリセットされ、バックオフは初期値からやり直します。
+ * @param client データベースクライアント
+ * @param heights ブロック高さ。省略した場合は全てのエントリが対象です。
+ * @returns 更新した件数
+ */
+export async function requeueGraphQLRetries(client: PoolClient, heights?: number[]): Promise<number> {
+    const result = await client.query(`
+        UPDATE graphql_retry_queue
+            SET attempts = 0, next_retry_at = NOW(), updated_at = NOW()
+            WHERE $1::BIGINT[] IS NULL OR height = ANY($1::BIGINT[])
+    `, [heights ?? null]);
+    return result.rowCount ?? 0;
+}
+
+/**
+ * 再試行キューからエントリを削除します。
+ * @param client データベースクライアント
+ * @param heights ブロック高さ。省略した場合は全てのエントリが対象です。
+ * @returns 削除した件数
+ */
+export async function dropGraphQLRetries(client: PoolClient, heights?: number[]): Promise<number> {
+    const result = await client.query(`
+        DELETE FROM graphql_retry_queue
+            WHERE $1::BIGINT[] IS NULL OR height = ANY($1::BIGINT[])
+    `, [heights ?? null]);
+    return result.rowCount ?? 0;
+}
@@ -0,0 +1,679 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+    GraphQLError,
+    GraphQLNonNull,
+    GraphQLObjectType,
+    GraphQLScalarType,
+    GraphQLSchema,
+    buildSchema,
+    graphql,
+    type ExecutionResult,
+} from 'graphql';
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import {
+    findAddress,
+    getAddressBalance,
+    listAddressTransactions,
+    listBlocks,
+    listContractActions,
+    listTransactions,
+    normalizeHash,
+    type Page,
+} from './api-queries';
+import { reconstructActionState } from './contract-states';
+
+/**
+ * 上流のMidnightインデクサーのスキーマ
+ */
+const UPSTREAM_SCHEMA_FILE = 'midnight-indexer-preview.graphql';
+
+/**
+ * 本インデクサー独自のスキーマ拡張
+ */
+const EXTENSIONS_SCHEMA_FILE = 'midnight-indexer-extensions.graphql';
+
+/**
+ * GraphQLリクエスト
+ */
+export type GraphQLRequest = {
+    query: string;
+    variables?: Record<string, unknown> | null;
+    operationName?: string | null;
+};
+
+/**
+ * リゾルバーのコンテキスト
+ * 1リクエスト内では同じデータベースクライアントを使い、同じ行の読み込みをキャッシュします。
+ */
+export type GraphQLContext = {
+    client: PoolClient;
+    cache: Map<string, Promise<any>>;
+};
+
+let schema: GraphQLSchema | null = null;
+
+/**
+ * スキーマファイルを読み込みます。
+ * ts-nodeでの実行時（src/）とビルド後の実行時（src/dist/）の両方に対応します。
+ * @param name ファイル名
+ */
+function readSchemaFile(name: string): string {
+    const candidates = [
+        path.join(__dirname, name),
+        path.join(__dirname, '..', name),
+    ];
+    for (const candidate of candidates) {
+        if (fs.existsSync(candidate)) {
+            return fs.readFileSync(candidate, 'utf-8');
+        }
+    }
+    throw new Error(`GraphQL schema file not found: ${name}`);
+}
+
+/**
+ * 上流スキーマと独自拡張を合わせたGraphQLスキーマを取得します。
+ * @returns GraphQLスキーマ
+ */
+export function getIndexerSchema(): GraphQLSchema {
+    if (schema) {
+        return schema;
+    }
+
+    const built = buildSchema(
+        readSchemaFile(UPSTREAM_SCHEMA_FILE) + '\n' + readSchemaFile(EXTENSIONS_SCHEMA_FILE)
+    );
+
+    // 上流はミリ秒のタイムスタンプを Int として返すが、graphql-js の Int は32ビットに制限されるため
+    // Block.timestamp のみ UnixTimestamp スカラーに差し替える
+    const blockType = built.getType('Block') as GraphQLObjectType;
+    const unixTimestamp = built.getType('UnixTimestamp') as GraphQLScalarType;
+    blockType.getFields().timestamp.type = new GraphQLNonNull(unixTimestamp);
+
+    schema = built;
+    return schema;
+}
+
+/**
+ * GraphQLリクエストを実行します。
+ * @param request GraphQLリクエスト
+ * @returns 実行結果
+ */
+export async function executeGraphQL(request: GraphQLRequest): Promise<ExecutionResult> {
+    const indexerSchema = getIndexerSchema();
+    return withPgClient((client) => graphql({
+        schema: indexerSchema,
+        source: request.query,
+        rootValue,
+        contextValue: createContext(client),
+        variableValues: request.variables ?? undefined,
+        operationName: request.operationName ?? undefined,
+    }));
+}
+
+/**
+ * リゾルバーのコンテキストを作成します。
+ * @param client データベースクライアント
+ */
+export function createContext(client: PoolClient): GraphQLContext {
+    return { client, cache: new Map() };
+}
+
+/**
+ * 同じリクエスト内での読み込みをキャッシュします。
+ * @param ctx コンテキスト
+ * @param key キャッシュキー
+ * @param load 読み込み処理
+ */
+function cached<T>(ctx: GraphQLContext, key: string, load: () => Promise<T>): Promise<T> {
+    let value = ctx.cache.get(key);
+    if (!value) {
+        value = load();
+        ctx.cache.set(key, value);
+    }
+    return value;
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Loaders
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+const BLOCK_COLUMNS = `
+    id, hash, height, parent_hash, timestamp, author, protocol_version, ledger_parameters
+`;
+
+const TRANSACTION_COLUMNS = `
+    t.id, t.hash, t.transaction_id, t.block_id, t.protocol_version, t.raw, t.status,
+    t.start_index, t.end_index, t.paid_fees, t.estimated_fees
+`;
+
+/**
+ * ブロックを取得します。
+ * @param ctx コンテキスト
+ * @param column 検索するカラム
+ * @param value 値
+ */
+export function loadBlock(
+    ctx: GraphQLContext,
+    column: 'id' | 'height' | 'hash',
+    value: number | string
+): Promise<any | null> {
+    return cached(ctx, `block:${column}:${value}`, async () => {
+        const result = await ctx.client.query(
+            `SELECT ${BLOCK_COLUMNS} FROM blocks WHERE ${column} = $1`,
+            [value]
+        );
+        return result.rows[0] ?? null;
+    });
+}
+
+/**
+ * 最新のブロックを取得します。
+ * @param ctx コンテキスト
+ */
+function loadLatestBlock(ctx: GraphQLContext): Promise<any | null> {
+    return cached(ctx, 'block:latest', async () => {
+        const result = await ctx.client.query(
+            `SELECT ${BLOCK_COLUMNS} FROM blocks ORDER BY height DESC LIMIT 1`
+        );
+        return result.rows[0] ?? null;
+    });
+}
+
+/**
+ * BlockOffsetに該当するブロックを取得します。
+ * @param ctx コンテキスト
+ * @param offset ブロックハッシュまたはブロック高
+ */
+export async function loadBlockByOffset(
+    ctx: GraphQLContext,
+    offset: { hash?: string | null; height?: number | null }
+): Promise<any | null> {
+    const hasHash = offset.hash !== undefined && offset.hash !== null;
+    const hasHeight = offset.height !== undefined && offset.height !== null;
+    if (hasHash === hasHeight) {
+        throw new GraphQLError('Exactly one of hash or height must be given for BlockOffset');
+    }
+    return hasHash
+        ? loadBlock(ctx, 'hash', normalizeHash(offset.hash!))
+        : loadBlock(ctx, 'height', offset.height!);
+}
+
+/**
+ * トランザクションを取得します。
+ * @param ctx コンテキスト
+ * @param column 検索するカラム
+ * @param value 値
+ */
+export function loadTransaction(
+    ctx: GraphQLContext,
+    column: 'id' | 'hash',
+    value: number | string
+): Promise<any | null> {
+    return cached(ctx, `transaction:${column}:${value}`, async () => {
+        const result = await ctx.client.query(
+            `SELECT ${TRANSACTION_COLUMNS} FROM transactions t WHERE t.${column} = $1`,
+            [value]
+        );
+        return result.rows[0] ?? null;
+    });
+}
+
+/**
+ * TransactionOffsetに該当するトランザクションを取得します。
+ * @param ctx コンテキスト
+ * @param offset トランザクションハッシュまたはトランザクション識別子
+ */
+export async function loadTransactionsByOffset(
+    ctx: GraphQLContext,
+    offset: { hash?: string | null; identifier?: string | null }
+): Promise<any[]> {
+    const hasHash = offset.hash !== undefined && offset.hash !== null;
+    const hasIdentifier = offset.identifier !== undefined && offset.identifier !== null;
+    if (hasHash === hasIdentifier) {
+        throw new GraphQLError('Exactly one of hash or identifier must be given for TransactionOffset');
+    }
+
+    const result = hasHash
+        ? await ctx.client.query(`
+            SELECT ${TRANSACTION_COLUMNS} FROM transactions t WHERE t.hash = $1
+        `, [normalizeHash(offset.hash!)])
+        : await ctx.client.query(`
+            SELECT ${TRANSACTION_COLUMNS}
+                FROM transactions t
+                WHERE t.id IN (SELECT tx_id FROM tx_identifiers WHERE identifier = $1)
+                ORDER BY t.transaction_id
+        `, [normalizeHash(offset.identifier!)]);
+    return result.rows;
+}
+
+/**
+ * ブロックに含まれるトランザクションを取得します。
+ * @param ctx コンテキスト
+ * @param blockId ブロックID
+ */
+function loadBlockTransactions(ctx: GraphQLContext, blockId: number): Promise<any[]> {
+    return cached(ctx, `block-transactions:${blockId}`, async () => {
+        const result = await ctx.client.query(`
+            SELECT ${TRANSACTION_COLUMNS}
+                FROM transactions t
+                WHERE t.block_id = $1
+                ORDER BY t.index_in_block
+        `, [blockId]);
+        return result.rows;
+    });
+}
+
+/**
+ * トランザクションに紐づく行を取得します。
+ * @param ctx コンテキスト
+ * @param sql クエリ（$1 にトランザクションIDが入ります）
+ * @param txId トランザクションID
+ */
+function loadTransactionRows(ctx: GraphQLContext, sql: string, txId: number): Promise<any[]> {
+    return cached(ctx, `${sql}:${txId}`, async () => (await ctx.client.query(sql, [txId])).rows);
+}
+
+/**
+ * コントラクトアクションの残高を取得します。
+ * @param ctx コンテキスト
+ * @param actionId コントラクトアクションID
+ */
+function loadContractBalances(ctx: GraphQLContext, actionId: number): Promise<any[]> {
+    return cached(ctx, `contract-balances:${actionId}`, async () => {
+        const result = await ctx.client.query(`
+            SELECT token_type, amount
+                FROM tx_contract_action_balances
+                WHERE tx_contract_action_id = $1
+                ORDER BY id
+        `, [actionId]);
+        return result.rows;
+    });
+}
+
+/**
+ * DUSTレジャーイベントの最大IDを取得します。
+ * @param ctx コンテキスト
+ */
+function loadDustLedgerEventMaxId(ctx: GraphQLContext): Promise<number> {
+    return cached(ctx, 'dust-ledger-events:max-id', async () => {
+        const result = await ctx.client.query(`SELECT MAX(event_id) AS max_id FROM tx_dust_ledger_events`);
+        return Number(result.rows[0]?.max_id ?? 0);
+    });
+}
+
+/**
+ * コントラクトアドレスのコントラクトアクションを取得します。
+ * オフセットを指定した場合は、そのブロック・トランザクション時点での最新のアクションを返します。
+ * @param ctx コンテキスト
+ * @param address コントラクトアドレス
+ * @param offset ブロックオフセットまたはトランザクションオフセット
+ */
+async function loadContractAction(
+    ctx: GraphQLContext,
+    address: string,
+    offset: {
+        blockOffset?: { hash?: string | null; height?: number | null } | null;
+        transactionOffset?: { hash?: string | null; identifier?: string | null } | null;
+    } | null
+): Promise<any | null> {
+    let maxHeight: number | null = null;
+    let maxTransactionId: number | null = null;
+
+    if (offset?.blockOffset && offset?.transactionOffset) {
+        throw new GraphQLError('Only one of blockOffset or transactionOffset may be given');
+    }
+    if (offset?.blockOffset) {
+        const block = await loadBlockByOffset(ctx, offset.blockOffset);
+        if (!block) {
+            return null;
+        }
+        maxHeight = Number(block.height);
+    }
+    if (offset?.transactionOffset) {
+        const transactions = await loadTransactionsByOffset(ctx, offset.transactionOffset);
+        if (transactions.length === 0) {
+            return null;
+        }
+        maxTransactionId = Math.max(...transactions.map((tx) => Number(tx.transaction_id)));
+    }
+
+    const result = await ctx.client.query(`
+        SELECT a.*
+            FROM tx_contract_actions a
+            JOIN transactions t ON t.id = a.tx_id
+            WHERE a.address = $1
+              AND ($2::BIGINT IS NULL OR t.block_height <= $2)
+              AND ($3::BIGINT IS NULL OR t.transaction_id <= $3)
+            ORDER BY t.transaction_id DESC, a.index_in_tx DESC
+            LIMIT 1
+    `, [normalizeHash(address), maxHeight, maxTransactionId]);
+    return result.rows[0] ?? null;
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Mappers
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * ブロックの行をGraphQLのBlockに変換します。
+ * @param ctx コンテキスト
+ * @param row blocksテーブルの行
+ */
+export function toBlock(ctx: GraphQLContext, row: any): any {
+    return {
+        hash: row.hash,
+        height: Number(row.height),
+        protocolVersion: Number(row.protocol_version),
+        timestamp: new Date(row.timestamp).getTime(),
+        author: row.author ?? null,
+        ledgerParameters: async () => {
+            const ledgerParameters = row.ledger_parameters !== undefined
+                ? row.ledger_parameters
+                : (await loadBlock(ctx, 'id', Number(row.id)))?.ledger_parameters;
+            return ledgerParameters ?? '';
+        },
+        parent: async () => {
+            if (Number(row.height) === 0) {
+                return null;
+            }
+            const parent = await loadBlock(ctx, 'hash', row.parent_hash);
+            return parent ? toBlock(ctx, parent) : null;
+        },
+        transactions: async () => {
+            const transactions = await loadBlockTransactions(ctx, Number(row.id));
+            return transactions.map((tx) => toTransaction(ctx, tx));
+        },
+    };
+}
+
+/**
+ * トランザクションの行をGraphQLのTransactionに変換します。
+ * statusが無いトランザクションはシステムトランザクションとして扱います。
+ * @param ctx コンテキスト
+ * @param row transactionsテーブルの行
+ */
+export function toTransaction(ctx: GraphQLContext, row: any): any {
+    const txId = Number(row.id);
+    const transaction: any = {
+        __typename: row.status === null ? 'SystemTransaction' : 'RegularTransaction',
+        id: Number(row.transaction_id),
+        hash: row.hash,
+        protocolVersion: Number(row.protocol_version),
+        raw: async () => row.raw !== undefined
+            ? row.raw
+            : (await loadTransaction(ctx, 'id', txId))?.raw,
+        block: async () => toBlock(ctx, await loadBlock(ctx, 'id', Number(row.block_id))),
+        contractActions: async () => {
+            const actions = await loadTransactionRows(ctx, `
+                SELECT * FROM tx_contract_actions WHERE tx_id = $1 ORDER BY index_in_tx
+            `, txId);
+            return actions.map((action) => toContractAction(ctx, action));
+        },
+        unshieldedCreatedOutputs: async () => {
+            const outputs = await loadTransactionRows(ctx, `
+                SELECT * FROM unshielded_utxos WHERE created_at_transaction_id = $1 ORDER BY output_index
+            `, txId);
+            return outputs.map((output) => toUnshieldedUtxo(ctx, output));
+        },
+        unshieldedSpentOutputs: async () => {
+            const outputs = await loadTransactionRows(ctx, `
+                SELECT * FROM unshielded_utxos
+                    WHERE spent_at_transaction_id = $1 ORDER BY created_at_tx_hash, output_index
+            `, txId);
+            return outputs.map((output) => toUnshieldedUtxo(ctx, output));
+        },
+        zswapLedgerEvents: async () => {
+            const events = await loadTransactionRows(ctx, `
+                SELECT event_id, max_id, raw FROM tx_zswap_ledger_events WHERE tx_id = $1 ORDER BY index_in_tx
+            `, txId);
+            return events.map((event) => ({
+                id: Number(event.event_id),
+                raw: event.raw,
+                maxId: Number(event.max_id),
+            }));
+        },
+        dustLedgerEvents: async () => {
+            const events = await loadTransactionRows(ctx, `
+                SELECT event_id, event_name, event_raw, output_nonce
+                    FROM tx_dust_ledger_events WHERE tx_id = $1 ORDER BY index_in_tx
+            `, txId);
+            return events.map((event) => toDustLedgerEvent(ctx, event));
+        },
+    };
+
+    if (transaction.__typename === 'RegularTransaction') {
+        transaction.transactionResult = {
+            status: row.status,
+            segments: async () => {
+                const segments = await loadTransactionRows(ctx, `
+                    SELECT segment_id, success FROM tx_results WHERE tx_id = $1 ORDER BY segment_id
+                `, txId);
+                return segments.length > 0
+                    ? segments.map((segment) => ({ id: Number(segment.segment_id), success: segment.success }))
+                    : null;
+            },
+        };
+        transaction.identifiers = async () => {
+            const identifiers = await loadTransactionRows(ctx, `
+                SELECT identifier FROM tx_identifiers WHERE tx_id = $1 ORDER BY index_in_tx
+            `, txId);
+            return identifiers.map((identifier) => identifier.identifier);
+        };
+        // マークルツリーのルートは保存していないため空文字を返す
+        transaction.merkleTreeRoot = '';
+        transaction.startIndex = Number(row.start_index ?? 0);
+        transaction.endIndex = Number(row.end_index ?? 0);
+        transaction.fees = {
+            paidFees: String(row.paid_fees ?? '0'),
+            estimatedFees: String(row.estimated_fees ?? '0'),
+        };
+    }
+
+    return transaction;
+}
+
+/**
+ * アンシールドUTXOの行をGraphQLのUnshieldedUtxoに変換します。
+ * @param ctx コンテキスト
+ * @param row unshielded_utxos テーブルの行
+ */
+export function toUnshieldedUtxo(ctx: GraphQLContext, row: any): any {
+    const raw = typeof row.raw === 'string' ? JSON.parse(row.raw) : (row.raw ?? {});
+    return {
+        owner: row.owner,
+        tokenType: row.token_type,
+        value: String(row.value),
+        intentHash: row.intent_hash,
+        outputIndex: Number(row.output_index),
+        ctime: raw.ctime ?? null,
+        initialNonce: row.initial_nonce,
+        registeredForDustGeneration: row.registered_for_dust_generation,
+        createdAtTransaction: async () => {
+            const created = row.created_at_transaction_id
+                ? await loadTransaction(ctx, 'id', Number(row.created_at_transaction_id))
+                : await loadTransaction(ctx, 'hash', row.created_at_tx_hash);
+            return created ? toTransaction(ctx, created) : null;
+        },
+        spentAtTransaction: async () => {
+            if (!row.spent_at_transaction_id) {
+                return null;
+            }
+            const spent = await loadTransaction(ctx, 'id', Number(row.spent_at_transaction_id));
+            return spent ? toTransaction(ctx, spent) : null;
+        },
+    };
+}
+
+/**
+ * コントラクトアクションの行をGraphQLのContractActionに変換します。
+ * @param ctx コンテキスト
+ * @param row tx_contract_actionsテーブルの行
+ */
+export function toContractAction(ctx: GraphQLContext, row: any): any {
+    return {
+        __typename: row.type_name,
+        address: row.address,
+        state: async () => row.state ?? reconstructActionState(ctx.client, Number(row.id)),
+        zswapState: row.zswap_state,
+        entryPoint: row.entry_point,
+        transaction: async () => toTransaction(ctx, await loadTransaction(ctx, 'id', Number(row.tx_id))),
+        unshieldedBalances: async () => {
+            const balances = await loadContractBalances(ctx, Number(row.id));
+            return balances.map((balance) => ({
+                tokenType: balance.token_type,
+                amount: String(balance.amount),
+            }));
+        },
+        deploy: () => toContractDeploy(ctx, row),
+    };
+}
+
+/**
+ * コントラクト呼び出しに保存されているデプロイ情報をGraphQLのContractDeployに変換します。
+ * @param ctx コンテキスト
+ * @param row tx_contract_actionsテーブルの行（ContractCall）
+ */
+function toContractDeploy(ctx: GraphQLContext, row: any): any {
+    if (!row.deploy) {
+        return null;
+    }
+
+    const deploy = typeof row.deploy === 'string' ? JSON.parse(row.deploy) : row.deploy;
+    return {
+        __typename: 'ContractDeploy',
+        address: deploy.address,
+        state: deploy.state,
+        zswapState: deploy.zswapState,
+        transaction: async () => {
+            const tx = await loadTransaction(ctx, 'hash', normalizeHash(deploy.transaction.hash));
+            return tx ? toTransaction(ctx, tx) : null;
+        },
+        unshieldedBalances: (deploy.unshieldedBalances ?? []).map((balance: any) => ({
+            tokenType: balance.tokenType,
+            amount: String(balance.amount),
+        })),
+    };
+}
+
+/**
+ * DUSTレジャーイベントの行をGraphQLのDustLedgerEventに変換します。
+ * @param ctx コンテキスト
+ * @param row tx_dust_ledger_eventsテーブルの行
+ */
+export function toDustLedgerEvent(ctx: GraphQLContext, row: any): any {
+    return {
+        __typename: row.event_name,
+        id: Number(row.event_id),
+        raw: row.event_raw,
+        maxId: () => loadDustLedgerEventMaxId(ctx),
+        output: row.output_nonce ? { nonce: row.output_nonce } : null,
+    };
+}
+
+/**
+ * ページをGraphQLのページ型に変換します。
+ * @param page ページ
+ * @param map 行の変換関数
+ */
+function toGraphQLPage(page: Page<any>, map: (row: any) => any): { items: any[]; nextCursor: string | null } {
+    return {
+        items: page.items.map(map),
+        nextCursor: page.nextCursor,
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Root resolvers
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * 上流と同じQueryと独自拡張のQueryのリゾルバー
+ */
+export const rootValue = {
+
+    block: async (args: { offset?: { hash?: string | null; height?: number | null } | null }, ctx: GraphQLContext) => {
+        const row = args.offset ? await loadBlockByOffset(ctx, args.offset) : await loadLatestBlock(ctx);
+        return row ? toBlock(ctx, row) : null;
+    },
+
+    transactions: async (args: { offset: { hash?: string | null; identifier?: string | null } }, ctx: GraphQLContext) => {
+        const rows = await loadTransactionsByOffset(ctx, args.offset);
+        return rows.map((row) => toTransaction(ctx, row));
+    },
+
+    contractAction: async (args: { address: string; offset?: any }, ctx: GraphQLContext) => {
+        const row = await loadContractAction(ctx, args.address, args.offset ?? null);
+        return row ? toContractAction(ctx, row) : null;
+    },
+
+    dustGenerationStatus: () => {
+        throw new GraphQLError('dustGenerationStatus is not supported by this indexer');
+    },
+
+    connect: () => {
+        throw new GraphQLError('Wallet sessions are not supported by this indexer');
+    },
+
+    disconnect: () => {
+        throw new GraphQLError('Wallet sessions are not supported by this indexer');
+    },
+
+    blockList: async (args: { cursor?: string | null; limit?: number | null }, ctx: GraphQLContext) => {
+        const page = await listBlocks(ctx.client, args);
+        return toGraphQLPage(page, (row) => toBlock(ctx, row));
+    },
+
+    transactionList: async (args: { cursor?: string | null; limit?: number | null }, ctx: GraphQLContext) => {
+        const page = await listTransactions(ctx.client, args);
+        return toGraphQLPage(page, (row) => toTransaction(ctx, row));
+    },
+
+    addressHistory: async (
+        args: { address: string; cursor?: string | null; limit?: number | null },
+        ctx: GraphQLContext
+    ) => {
+        let address: any;
+        try {
+            address = await findAddress(ctx.client, args.address);
+        } catch (error: any) {
+            throw new GraphQLError(error?.message ?? String(error));
+        }
+        if (!address) {
+            return { items: [], nextCursor: null };
+        }
+        const page = await listAddressTransactions(ctx.client, Number(address.id), args);
+        return toGraphQLPage(page, (row) => toTransaction(ctx, row));
+    },
+
+    unshieldedBalance: async (
+        args: { address: string; height?: number | null; tokenType?: string | null },
+        ctx: GraphQLContext
+    ) => {
+        let address: any;
+        try {
+            address = await findAddress(ctx.client, args.address);
+        } catch (error: any) {
+            throw new GraphQLError(error?.message ?? String(error));
+        }
+        if (!address) {
+            return null;
+        }
+        const balance = await getAddressBalance(
+            ctx.client,
+            Number(address.id),
+            args.height ?? null,
+            args.tokenType ?? undefined
+        );
+        return { address: address.unshielded_address, ...balance };
+    },
+
+    contractActionList: async (
+        args: { address: string; cursor?: string | null; limit?: number | null },
+        ctx: GraphQLContext
+    ) => {
+        const page = await listContractActions(ctx.client, args.address, args);
+        return toGraphQLPage(page, (row) => toContractAction(ctx, row));
+    },
+};
@@ -0,0 +1,484 @@
+import type * as http from 'node:http';
+import {
+    GraphQLError,
+    createSourceEventStream,
+    execute,
+    type ExecutionArgs,
+    type ExecutionResult,
+} from 'graphql';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/lib/use/ws';
+import { withPgClient } from './database';
+import { normalizeHash, parseAddress } from './api-queries';
+import { providesBlockData } from './block-source';
+import {
+    createContext,
+    getIndexerSchema,
+    loadBlockByOffset,
+    rootValue,
+    toBlock,
+    toContractAction,
+    toDustLedgerEvent,
+    toTransaction,
+    toUnshieldedUtxo,
+    type GraphQLContext,
+} from './graphql-server';
+import { startNotificationListener, stopNotificationListener, waitForBlockImported } from './notifications';
+
+/**
+ * 通知を取りこぼした場合に備えたポーリング間隔（ミリ秒）
+ */
+const SUBSCRIPTION_POLL_INTERVAL_MS = Number(process.env.SUBSCRIPTION_POLL_INTERVAL_MS || 10000);
+
+/**
+ * 1回のクエリで読み込むブロック数の上限
+ */
+const SUBSCRIPTION_BATCH_BLOCKS = 100;
+
+let wsServer: WebSocketServer | null = null;
+
+/**
+ * サブスクリプションのペイロード
+ * フィールド名をキーに、イベントごとのコンテキストで値を組み立てる関数を持ちます。
+ */
+type SubscriptionPayload = Record<string, (args: unknown, ctx: GraphQLContext) => unknown>;
+
+/**
+ * サブスクリプションのソースに渡すコンテキスト
+ * クライアントが購読を終了すると signal が中断されます。
+ */
+type SourceContext = {
+    signal: AbortSignal;
+};
+
+/**
+ * 連続してインポート済みのブロック高さの範囲
+ */
+type HeightRange = {
+    from: number;
+    to: number;
+};
+
+/**
+ * インポートが完了したブロックの条件を返します。
+ * GraphQLのブロックソースを使う場合はトランザクション等の保存後（ledger_parameters の保存後）、
+ * RPCのブロックソースだけの場合はブロックの保存後をインポート完了とします。
+ * @returns blocks に対するWHERE句の条件
+ */
+function importedBlockCondition(): string {
+    return providesBlockData('graphql') ? 'ledger_parameters IS NOT NULL' : 'TRUE';
+}
+
+/**
+ * インポートが完了した最新のブロック高さを取得します。
+ * @returns ブロック高さ。ブロックが無い場合は-1を返します。
+ */
+async function getLatestImportedHeight(): Promise<number> {
+    return withPgClient(async (client) => {
+        const result = await client.query(`
+            SELECT MAX(height) AS height FROM blocks WHERE ${importedBlockCondition()}
+        `);
+        const height = result.rows[0]?.height;
+        return height === null || height === undefined ? -1 : Number(height);
+    });
+}
+
+/**
+ * 指定した高さから、インポートが完了したブロックの範囲を順番に返します。
+ * 取りこぼしを防ぐため、途中のブロックが未インポートの場合はインポートされるまで待機します。
+ * @param fromHeight 開始ブロック高さ
+ * @param signal 中断されると終了します
+ */
+async function* importedHeightRanges(fromHeight: number, signal: AbortSignal): AsyncGenerator<HeightRange> {
+    let next = Math.max(fromHeight, 0);
+
+    while (!signal.aborted) {
+        const heights = await withPgClient(async (client) => {
+            const result = await client.query(`
+                SELECT height
+                    FROM blocks
+                    WHERE height >= $1 AND ${importedBlockCondition()}
+                    ORDER BY height
+                    LIMIT $2
+            `, [next, SUBSCRIPTION_BATCH_BLOCKS]);
+            return result.rows.map((row) => Number(row.height));
+        });
+
+        let to = next - 1;
+        for (const height of heights) {
+            if (height !== to + 1) {
+                break;
+            }
+            to = height;
+        }
+
+        if (to >= next) {
+            yield { from: next, to };
+            next = to + 1;
+            continue;
+        }
+
+        await waitForBlockImported(SUBSCRIPTION_POLL_INTERVAL_MS, signal);
+    }
+}
+
+/**
+ * 条件に一致する最初のトランザクションのブロック高さを取得します。
+ * 見つからない場合は、次にインポートされるブロックの高さを返します。
+ * @param sql 最小ブロック高さを `height` として返すクエリ
+ * @param values クエリのパラメータ
+ */
+async function findStartHeight(sql: string, values: unknown[]): Promise<number> {
+    const height = await withPgClient(async (client) => (await client.query(sql, values)).rows[0]?.height);
+    if (height !== null && height !== undefined) {
+        return Number(height);
+    }
+    return (await getLatestImportedHeight()) + 1;
+}
+
+/**
+ * BlockOffsetから開始ブロック高さを取得します。省略時は最新ブロックです。
+ * @param offset ブロックオフセット
+ */
+async function resolveStartHeight(offset: { hash?: string | null; height?: number | null } | null | undefined): Promise<number> {
+    if (!offset) {
+        return Math.max(await getLatestImportedHeight(), 0);
+    }
+
+    const block = await withPgClient((client) => loadBlockByOffset(createContext(client), offset));
+    if (block) {
+        return Number(block.height);
+    }
+    if (offset.height !== undefined && offset.height !== null) {
+        // まだインポートされていないブロックから購読を開始する
+        return offset.height;
+    }
+    throw new GraphQLError(`Block not found: ${offset.hash}`);
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Subscriptions
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * blocks サブスクリプション
+ * @param offset 開始ブロック
+ * @param signal 購読の終了
+ */
+async function* subscribeBlocks(
+    offset: { hash?: string | null; height?: number | null } | null,
+    signal: AbortSignal
+): AsyncGenerator<SubscriptionPayload> {
+    for await (const range of importedHeightRanges(await resolveStartHeight(offset), signal)) {
+        const blocks = await withPgClient(async (client) => (await client.query(`
+            SELECT id, hash, height, parent_hash, timestamp, author, protocol_version, ledger_parameters
+                FROM blocks
+                WHERE height BETWEEN $1 AND $2
+                ORDER BY height
+        `, [range.from, range.to])).rows);
+
+        for (const block of blocks) {
+            yield { blocks: (_, ctx) => toBlock(ctx, block) };
+        }
+    }
+}
+
+/**
+ * contractActions サブスクリプション
+ * @param address コントラクトアドレス
+ * @param offset 開始ブロック
+ * @param signal 購読の終了
+ */
+async function* subscribeContractActions(
+    address: string,
+    offset: { hash?: string | null; height?: number | null } | null,
+    signal: AbortSignal
+): AsyncGenerator<SubscriptionPayload> {
+    const contractAddress = normalizeHash(address);
+
+    for await (const range of importedHeightRanges(await resolveStartHeight(offset), signal)) {
+        const actions = await withPgClient(async (client) => (await client.query(`
+            SELECT a.*
+                FROM tx_contract_actions a
+                JOIN transactions t ON t.id = a.tx_id
+                WHERE a.address = $1
+                  AND t.block_height BETWEEN $2 AND $3
+                ORDER BY t.block_height, t.index_in_block, a.index_in_tx
+        `, [contractAddress, range.from, range.to])).rows);
+
+        for (const action of actions) {
+            yield { contractActions: (_, ctx) => toContractAction(ctx, action) };
+        }
+    }
+}
+
+/**
+ * unshieldedTransactions サブスクリプション
+ * アドレスに関連するトランザクションを返した後、進捗（最大トランザクションID）を返します。
+ * @param address Bech32m形式のアンシールドアドレス
+ * @param transactionId 開始トランザクションID
+ * @param signal 購読の終了
+ */
+async function* subscribeUnshieldedTransactions(
+    address: string,
+    transactionId: number,
+    signal: AbortSignal
+): AsyncGenerator<SubscriptionPayload> {
+    const addressRows = `
+        SELECT created_at_transaction_id FROM unshielded_utxos WHERE owner = $1
+        UNION
+        SELECT spent_at_transaction_id FROM unshielded_utxos WHERE owner = $1
+    `;
+    const startHeight = await findStartHeight(`
+        SELECT MIN(block_height) AS height
+            FROM transactions
+            WHERE transaction_id >= $2 AND id IN (${addressRows})
+    `, [address, transactionId]);
+
+    let highestTransactionId = -1;
+    let progressSent = false;
+
+    for await (const range of importedHeightRanges(startHeight, signal)) {
+        const rows = await withPgClient(async (client) => {
+            const transactions = (await client.query(`
+                SELECT t.id, t.hash, t.transaction_id, t.block_id, t.protocol_version, t.status,
+                       t.start_index, t.end_index, t.paid_fees, t.estimated_fees
+                    FROM transactions t
+                    WHERE t.transaction_id >= $2
+                      AND t.block_height BETWEEN $3 AND $4
+                      AND t.id IN (${addressRows})
+                    ORDER BY t.transaction_id
+            `, [address, transactionId, range.from, range.to])).rows;
+
+            const utxosOf = async (column: string, txId: number) => (await client.query(`
+                SELECT * FROM unshielded_utxos
+                    WHERE ${column} = $1 AND owner = $2
+                    ORDER BY created_at_tx_hash, output_index
+            `, [txId, address])).rows;
+
+            const result = [];
+            for (const tx of transactions) {
+                result.push({
+                    tx,
+                    created: await utxosOf('created_at_transaction_id', Number(tx.id)),
+                    spent: await utxosOf('spent_at_transaction_id', Number(tx.id)),
+                });
+            }
+            return result;
+        });
+
+        for (const { tx, created, spent } of rows) {
+            highestTransactionId = Math.max(highestTransactionId, Number(tx.transaction_id));
+            yield {
+                unshieldedTransactions: (_, ctx) => ({
+                    __typename: 'UnshieldedTransaction',
+                    transaction: toTransaction(ctx, tx),
+                    createdUtxos: created.map((utxo) => toUnshieldedUtxo(ctx, utxo)),
+                    spentUtxos: spent.map((utxo) => toUnshieldedUtxo(ctx, utxo)),
+                }),
+            };
+        }
+
+        if (rows.length > 0 || !progressSent) {
+            progressSent = true;
+            const highest = Math.max(highestTransactionId, 0);
+            yield {
+                unshieldedTransactions: () => ({
+                    __typename: 'UnshieldedTransactionsProgress',
+                    highestTransactionId: highest,
+                }),
+            };
+        }
+    }
+}
+
+/**
+ * dustLedgerEvents サブスクリプション
+ * @param id 開始イベントID
+ * @param signal 購読の終了
+ */
+async function* subscribeDustLedgerEvents(id: number, signal: AbortSignal): AsyncGenerator<SubscriptionPayload> {
+    const startHeight = await findStartHeight(`
+        SELECT MIN(t.block_height) AS height
+            FROM tx_dust_ledger_events e
+            JOIN transactions t ON t.id = e.tx_id
+            WHERE e.event_id >= $1
+    `, [id]);
+
+    for await (const range of importedHeightRanges(startHeight, signal)) {
+        const events = await withPgClient(async (client) => (await client.query(`
+            SELECT e.event_id, e.event_name, e.event_raw, e.output_nonce
+                FROM tx_dust_ledger_events e
+                JOIN transactions t ON t.id = e.tx_id
+                WHERE e.event_id >= $1
+                  AND t.block_height BETWEEN $2 AND $3
+                ORDER BY e.event_id
+        `, [id, range.from, range.to])).rows);
+
+        for (const event of events) {
+            yield { dustLedgerEvents: (_, ctx) => toDustLedgerEvent(ctx, event) };
+        }
+    }
+}
+
+/**
+ * zswapLedgerEvents サブスクリプション
+ * @param id 開始イベントID
+ * @param signal 購読の終了
+ */
+async function* subscribeZswapLedgerEvents(id: number, signal: AbortSignal): AsyncGenerator<SubscriptionPayload> {
+    const startHeight = await findStartHeight(`
+        SELECT MIN(t.block_height) AS height
+            FROM tx_zswap_ledger_events e
+            JOIN transactions t ON t.id = e.tx_id
+            WHERE e.event_id >= $1
+    `, [id]);
+
+    for await (const range of importedHeightRanges(startHeight, signal)) {
+        const events = await withPgClient(async (client) => (await client.query(`
+            SELECT e.event_id, e.max_id, e.raw
+                FROM tx_zswap_ledger_events e
+                JOIN transactions t ON t.id = e.tx_id
+                WHERE e.event_id >= $1
+                  AND t.block_height BETWEEN $2 AND $3
+                ORDER BY e.event_id
+        `, [id, range.from, range.to])).rows);
+
+        for (const event of events) {
+            yield {
+                zswapLedgerEvents: () => ({
+                    id: Number(event.event_id),
+                    raw: event.raw,
+                    maxId: Number(event.max_id),
+                }),
+            };
+        }
+    }
+}
+
+/**
+ * Subscriptionのリゾルバー
+ */
+const subscriptionRootValue = {
+
+    blocks: (args: { offset?: { hash?: string | null; height?: number | null } | null }, ctx: SourceContext) =>
+        subscribeBlocks(args.offset ?? null, ctx.signal),
+
+    contractActions: (
+        args: { address: string; offset?: { hash?: string | null; height?: number | null } | null },
+        ctx: SourceContext
+    ) => subscribeContractActions(args.address, args.offset ?? null, ctx.signal),
+
+    dustLedgerEvents: (args: { id?: number | null }, ctx: SourceContext) =>
+        subscribeDustLedgerEvents(args.id ?? 0, ctx.signal),
+
+    unshieldedTransactions: (args: { address: string; transactionId?: number | null }, ctx: SourceContext) => {
+        let address: string;
+        try {
+            address = parseAddress(args.address).bech32;
+        } catch (error: any) {
+            throw new GraphQLError(error?.message ?? String(error));
+        }
+        return subscribeUnshieldedTransactions(address, args.transactionId ?? 0, ctx.signal);
+    },
+
+    zswapLedgerEvents: (args: { id?: number | null }, ctx: SourceContext) =>
+        subscribeZswapLedgerEvents(args.id ?? 0, ctx.signal),
+
+    shieldedTransactions: () => {
+        throw new GraphQLError('shieldedTransactions is not supported by this indexer');
+    },
+};
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Server
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * ソースイベントごとに、データベースクライアントを取得してペイロードを実行します。
+ * 購読が終了した場合は、待機中のソースもすぐに終了させます。
+ * @param args 実行引数
+ */
+async function subscribe(
+    args: ExecutionArgs
+): Promise<AsyncIterableIterator<ExecutionResult> | ExecutionResult> {
+    const controller = new AbortController();
+    const sourceContext: SourceContext = { signal: controller.signal };
+    const stream = await createSourceEventStream({
+        ...args,
+        rootValue: subscriptionRootValue,
+        contextValue: sourceContext,
+    });
+    if (!(Symbol.asyncIterator in stream)) {
+        return stream as ExecutionResult;
+    }
+
+    const source = (stream as AsyncIterable<SubscriptionPayload>)[Symbol.asyncIterator]();
+    const close = async (): Promise<IteratorResult<ExecutionResult>> => {
+        controller.abort();
+        await source.return?.();
+        return { done: true, value: undefined };
+    };
+
+    const iterator: AsyncIterableIterator<ExecutionResult> = {
+        [Symbol.asyncIterator]() {
+            return iterator;
+        },
+        async next() {
+            const result = await source.next();
+            if (result.done) {
+                return { done: true, value: undefined };
+            }
+            const value = await withPgClient((client) => execute({
+                ...args,
+                rootValue: result.value,
+                contextValue: createContext(client),
+            }) as Promise<ExecutionResult>);
+            return { done: false, value };
+        },
+        return: close,
+        async throw(error: unknown) {
+            await close();
+            throw error;
+        },
+    };
+    return iterator;
+}
+
+/**
+ * HTTPサーバーにgraphql-wsのエンドポイントを追加します。
+ * @param server HTTPサーバー
+ * @param path エンドポイントのパス
+ */
+export async function attachSubscriptionServer(server: http.Server, path: string = '/graphql'): Promise<void> {
+    await startNotificationListener();
+
+    wsServer = new WebSocketServer({ server, path });
+    useServer({
+        schema: getIndexerSchema(),
+        // クエリ・ミューテーションはリクエストごとにデータベースクライアントを取得して実行する
+        execute: (args: ExecutionArgs) => withPgClient((client) => execute({
+            ...args,
+            rootValue,
+            contextValue: createContext(client),
+        }) as Promise<ExecutionResult>),
+        subscribe,
+    }, wsServer);
+
+    console.log(`[graphql-subscriptions] 📡 graphql-ws endpoint ready on ${path}`);
+}
+
+/**
+ * graphql-wsのエンドポイントを停止し、接続中のクライアントを切断します。
+ */
+export async function closeSubscriptionServer(): Promise<void> {
+    const server = wsServer;
+    wsServer = null;
+    if (server) {
+        for (const socket of server.clients) {
+            socket.terminate();
+        }
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    await stopNotificationListener();
+}
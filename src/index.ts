@@ -1,6 +1,6 @@
 import 'dotenv/config';
 import { startIndexing, startWatchingGraphQL, indexBlock, connectToChain } from './indexer';
-import { connectPostgres, clearAllData, backfillExtrinsicHashes } from './database';
+import { connectPostgres, withPgClient, clearAllData, backfillExtrinsicHashes } from './database';
 import {
   getBlockByHeight,
   isContractCall,
@@ -11,12 +11,61 @@ import {
   isDustSpendProcessed,
   isParamChange,
   isContractBalance,
-  decodeFromMnAddrPreview,
-  TOKEN_TYPE,
-  encodeToMnAddr
+  decodeFromMnAddr,
+  encodeToMnAddr,
+  LEGACY_FALLBACK_TIMESTAMPS,
 } from './midnight-indexer';
 import { runMigrations } from './migrate';
-import { processBlock, startImporting, detectAndImportMissingBlocks } from './midnight-importer';
+import { processBlock, startImporting, detectAndImportMissingBlocks, redecodeLedgerEvents } from './midnight-importer';
+import { startApiServer, stopApiServer } from './api-server';
+import { listTokens } from './api-queries';
+import { listGraphQLRetries, requeueGraphQLRetries, dropGraphQLRetries } from './graphql-retry-queue';
+import { runBackfill } from './backfill';
+import { getLatestSourceHeight } from './block-source';
+import { decodeLedgerParameters } from './ledger-event-decoder';
+import {
+  getLedgerParameterVersionAt,
+  listLedgerParameterVersions,
+  rebuildLedgerParameterVersions,
+} from './ledger-parameters';
+import { rebuildAddressActivity } from './address-activity';
+import { rebuildContracts } from './contracts';
+import { repairTimestamps } from './timestamp-repair';
+import { rebuildBlockAuthorship } from './block-authorship';
+import { rebuildExtrinsicArgs } from './extrinsic-args';
+import { listRuntimeUpgrades, listRuntimeVersions, rebuildRuntimeVersions } from './runtime-versions';
+import { compactContractStates, getContractStateAt } from './contract-states';
+import {
+  addDustWatchAddress,
+  listDustWatchAddresses,
+  pollDustGenerationStatus,
+  removeDustWatchAddress,
+  startDustGenerationWatcher,
+} from './dust-generation';
+import {
+  crossCheckLedgerEvents,
+  fillLedgerEventGaps,
+  getLedgerEventStreamStatus,
+  startLedgerEventStream,
+  type LedgerEventKind,
+} from './ledger-event-stream';
+import { addWallet, listWallets, removeWallet, startWalletSessions } from './wallet-sessions';
+import {
+  addWatchedAddress,
+  findWatchedAddress,
+  listWatchedAddresses,
+  removeWatchedAddress,
+  startWatchedAddressConsumers,
+  verifyWatchedAddress,
+} from './watched-addresses';
+import {
+  formatTokenValue,
+  getKnownToken,
+  loadTokenMetadata,
+  setTokenMetadata,
+  sumTokenTotals,
+  TokenMetadata,
+} from './tokens';
 
 async function main() {
   // コマンドライン引数からブロック番号を取得
@@ -119,8 +168,53 @@ async function main() {
             console.log(`親ブロック:  高さ ${block.parent.height.toString()}, ハッシュ ${block.parent.hash}`);
           }
           
-          console.log(`レジャーパラメータ: ${block.ledgerParameters}`);
+          if (block.ledgerParameters) {
+            console.log('\nレジャーパラメータ:');
+            try {
+              const params = await decodeLedgerParameters(block.ledgerParameters);
+              console.log(`  手数料価格: read ${params.feePrices.readPrice} / compute ${params.feePrices.computePrice} / block usage ${params.feePrices.blockUsagePrice} / write ${params.feePrices.writePrice}`);
+              console.log(`  DUST生成: NIGHT/DUST比率 ${params.dust.nightDustRatio} / 減衰率 ${params.dust.generationDecayRate} / 猶予期間 ${params.dust.dustGracePeriod}秒`);
+              console.log(`  トランザクション上限: ${params.limits.transactionByteLimit} bytes / 破棄までの時間 ${params.limits.minTimeToDismiss} + ${params.limits.timeToDismissPerByte}/byte`);
+              console.log(`  ブロック上限: read ${params.limits.block.readTime} / compute ${params.limits.block.computeTime} / usage ${params.limits.block.blockUsage} / written ${params.limits.block.bytesWritten} / churned ${params.limits.block.bytesChurned}`);
+              console.log(`  グローバルTTL: ${params.globalTtl}秒`);
+              console.log(`  ブリッジ: 手数料 ${params.cardanoToMidnightBridgeFeeBasisPoints} bps / 最小額 ${params.cardanoToMidnightBridgeMinAmount}`);
+            } catch (error) {
+              console.log(`  ⚠️ デコードに失敗しました: ${error instanceof Error ? error.message : error}`);
+              console.log(`  ${block.ledgerParameters}`);
+            }
+
+            // インポート済みの場合は、同じパラメータが使われていた期間も表示する
+            try {
+              await connectPostgres();
+              const version = await withPgClient((client) => getLedgerParameterVersionAt(client, height));
+              if (version) {
+                console.log(`  使用期間: 高さ ${version.firstHeight.toLocaleString()} - ${version.lastHeight.toLocaleString()} (バージョン #${version.id})`);
+              }
+            } catch {
+              // データベースに接続できない場合は表示しない
+            }
+          }
           
+          // 登録済みのトークンのメタデータを表示に使う（データベースに接続できない場合は既知のトークンのみ）
+          const tokenTypes = block.transactions.flatMap((tx) => [
+            ...(tx.unshieldedSpentOutputs ?? []).map((output) => output.tokenType),
+            ...(tx.unshieldedCreatedOutputs ?? []).map((output) => output.tokenType),
+          ]);
+          let tokenMetadata = new Map<string, TokenMetadata>();
+          if (tokenTypes.length > 0) {
+            try {
+              await connectPostgres();
+              tokenMetadata = await withPgClient((client) => loadTokenMetadata(client, tokenTypes));
+            } catch {
+              // データベースに接続できない場合は既知のトークンのみ
+            }
+          }
+          const formatValue = (amount: string | number, tokenType: string) => formatTokenValue(
+            amount,
+            tokenType,
+            tokenMetadata.get(tokenType.toLowerCase().replace(/^0x/, '')) ?? getKnownToken(tokenType)
+          );
+
           console.log(`\nトランザクション数: ${block.transactions.length}`);
           
           if (block.transactions.length > 0) {
@@ -158,15 +252,12 @@ async function main() {
                   })
                 }
 
-                let totalInput = 0;
-                let totalOutput = 0;
                 if (tx.unshieldedSpentOutputs && tx.unshieldedSpentOutputs.length > 0) {
                   console.log(`    使用されたアンシールド出力数: ${tx.unshieldedSpentOutputs.length}`);
                   tx.unshieldedSpentOutputs.forEach((output) => {
-                    totalInput += Number(output.value);
                     console.log(`    (${index + 1}): ${output.__typename}`);
                     console.log(`        IO: ${output.outputIndex}: Number(${output.value})`);
-                    console.log(`        アドレス: ${output.owner} => ${decodeFromMnAddrPreview(output.owner, false)}`);
+                    console.log(`        アドレス: ${output.owner} => ${decodeFromMnAddr(output.owner, false)}`);
                     console.log(`        ハッシュ: ${output.createdAtTransaction?.hash}`);
                     console.log(`        ハッシュ: ${output.spentAtTransaction?.hash}`);
                     console.log(`        意図ハッシュ: ${output.intentHash}`);
@@ -174,16 +265,15 @@ async function main() {
                     console.log(`        ノンス: ${output.initialNonce}`);
                     console.log(`        登録されているか: ${output.registeredForDustGeneration}`);
                     console.log(`        トランザクションID: ${output.spentAtTransaction?.id}: ${output.spentAtTransaction?.hash}`);
-                    console.log(`        トークンタイプ: ${output.tokenType} (${output.tokenType == TOKEN_TYPE.NIGHT ? 'NIGHT' : 'unknown'})`);
+                    console.log(`        トークンタイプ: ${output.tokenType} (${formatValue(output.value, output.tokenType)})`);
                   });
                 }
                 if (tx.unshieldedCreatedOutputs && tx.unshieldedCreatedOutputs.length > 0) {
                   console.log(`    作成されたアンシールド出力数: ${tx.unshieldedCreatedOutputs.length}`);
                   tx.unshieldedCreatedOutputs.forEach((output) => {
-                    totalOutput += Number(output.value);
                     console.log(`    (${index + 1}): ${output.__typename}`);
                     console.log(`        IO: ${output.outputIndex}: Number(${output.value})`);
-                    console.log(`        アドレス: ${output.owner} => ${decodeFromMnAddrPreview(output.owner, false)}`);
+                    console.log(`        アドレス: ${output.owner} => ${decodeFromMnAddr(output.owner, false)}`);
                     console.log(`        ハッシュ: ${output.createdAtTransaction?.hash}`);
                     console.log(`        ハッシュ: ${output.spentAtTransaction?.hash ?? ''}`);
                     console.log(`        意図ハッシュ: ${output.intentHash}`);
@@ -191,12 +281,14 @@ async function main() {
                     console.log(`        ノンス: ${output.initialNonce}`);
                     console.log(`        登録されているか: ${output.registeredForDustGeneration}`);
                     console.log(`        トランザクションID: ${output.spentAtTransaction?.id ?? ''}: ${output.spentAtTransaction?.hash ?? ''}`);
-                    console.log(`        トークンタイプ: ${output.tokenType} (${output.tokenType == TOKEN_TYPE.NIGHT ? 'NIGHT' : 'unknown'})`);
+                    console.log(`        トークンタイプ: ${output.tokenType} (${formatValue(output.value, output.tokenType)})`);
                   });
                 }
 
-                console.log(`    合計入力: ${(totalInput / 1000000).toLocaleString(undefined, { minimumFractionDigits: 6, maximumFractionDigits: 6, useGrouping: true })} (${totalInput} lovelace)`);
-                console.log(`    合計出力: ${(totalOutput / 1000000).toLocaleString(undefined, { minimumFractionDigits: 6, maximumFractionDigits: 6, useGrouping: true })} (${totalOutput} lovelace)`);
+                for (const [tokenType, totals] of sumTokenTotals(tx)) {
+                  console.log(`    合計入力: ${formatValue(totals.input.toString(), tokenType)} (${totals.input})`);
+                  console.log(`    合計出力: ${formatValue(totals.output.toString(), tokenType)} (${totals.output})`);
+                }
 
                 console.log(`    コントラクトアクション数: ${tx.contractActions.length}`);
                 if (tx.contractActions && tx.contractActions.length > 0) {
@@ -209,8 +301,8 @@ async function main() {
                     for (const balance of action.unshieldedBalances) {
                       if (isContractBalance(balance)) {
                         console.log(`        (${index + 1}): ${balance.__typename}`);
-                        console.log(`        Token Type: ${balance.tokenType} (${balance.tokenType == TOKEN_TYPE.NIGHT ? 'NIGHT' : 'unknown'})`);
-                        console.log(`        Balance: ${balance.amount}`);
+                        console.log(`        Token Type: ${balance.tokenType}`);
+                        console.log(`        Balance: ${balance.amount} (${formatValue(balance.amount, balance.tokenType)})`);
                       }
                     }
                     console.log(`        Zswap State: ${action.zswapState}`);
@@ -371,6 +463,738 @@ async function main() {
       return;
     }
     
+    // 指定した範囲を並列でインポートするモード
+    if (command === '--backfill' || command === 'backfill') {
+      // --from / --to / --workers / --chunk-size / --batch-size
+      const options: Record<string, number> = {};
+      for (let i = 1; i < args.length; i += 2) {
+        const name = args[i].replace(/^--/, '');
+        const value = parseInt(args[i + 1], 10);
+        if (!['from', 'to', 'workers', 'chunk-size', 'batch-size'].includes(name) || isNaN(value) || value < 0) {
+          console.error(`❌ 無効なオプションです: ${args[i]} ${args[i + 1] ?? ''}`);
+          console.error('使用方法: npm run dev backfill [--from 高さ] [--to 高さ] [--workers 数] [--chunk-size 数] [--batch-size 数]');
+          process.exit(1);
+        }
+        options[name] = value;
+      }
+
+      try {
+        await connectPostgres();
+
+        // 終了高さはブロックソースから取得可能な最新のブロック（RPCの場合はファイナライズされたブロック）まで
+        const latestHeight = await getLatestSourceHeight();
+        let to = options['to'] ?? latestHeight;
+        if (to > latestHeight) {
+          console.warn(`⚠️ 終了高さ ${to} はまだ取得できないため、${latestHeight} までをインポートします`);
+          to = latestHeight;
+        }
+        const from = options['from'] ?? 0;
+        if (from > to) {
+          console.error(`❌ 開始高さ ${from} が終了高さ ${to} を超えています`);
+          process.exit(1);
+        }
+
+        const result = await runBackfill({
+          from,
+          to,
+          workers: options['workers'] || 4,
+          chunkSize: options['chunk-size'] || 1000,
+          batchSize: options['batch-size'] || 10,
+        });
+
+        process.exit(result.failed.length > 0 ? 1 : 0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // 保存済みのレジャーイベントを再デコードするモード
+    if (command === '--redecode' || command === 'redecode') {
+      const target = (args.find((arg, i) => i > 0 && !arg.startsWith('--')) || 'all').toLowerCase();
+      const onlyMissing = args.includes('--missing');
+      if (target !== 'dust' && target !== 'zswap' && target !== 'all') {
+        console.error(`❌ 無効な対象です: ${target}（dust / zswap / all）`);
+        process.exit(1);
+      }
+
+      console.log(`🔍 レジャーイベントを再デコードします (対象: ${target}${onlyMissing ? '、未デコードのみ' : ''})...`);
+
+      try {
+        await connectPostgres();
+        const result = await redecodeLedgerEvents(target, onlyMissing);
+        console.log(`✅ 再デコードが完了しました (成功: ${result.decoded}, 失敗: ${result.failed})`);
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // レジャーパラメータの履歴を表示するモード
+    if (command === '--ledger-params' || command === 'ledger-params') {
+      const action = (args[1] || 'list').toLowerCase();
+      if (action !== 'list' && action !== 'rebuild') {
+        console.error(`❌ 不明な操作です: ${args[1]}（list / rebuild）`);
+        process.exit(1);
+      }
+
+      try {
+        await connectPostgres();
+
+        if (action === 'rebuild') {
+          console.log('🔄 保存済みのブロックからレジャーパラメータの履歴を作り直します...');
+          const count = await rebuildLedgerParameterVersions();
+          console.log(`✅ ${count}件のバージョンを作成しました`);
+        }
+
+        const versions = await withPgClient((client) => listLedgerParameterVersions(client));
+        if (versions.length === 0) {
+          console.log('✅ レジャーパラメータの履歴はありません');
+          process.exit(0);
+        }
+
+        console.log('\n' + '='.repeat(80));
+        console.log(`📜 レジャーパラメータの履歴 (${versions.length}件)`);
+        console.log('='.repeat(80));
+        for (const version of versions) {
+          const params = version.decoded;
+          console.log(`\n#${version.id} 高さ ${version.firstHeight.toLocaleString()} - ${version.lastHeight.toLocaleString()}`);
+          if (!params) {
+            console.log(`  ⚠️ デコードに失敗しました: ${version.decodeError ?? '-'}`);
+            continue;
+          }
+          console.log(`  手数料価格: read ${params.feePrices.readPrice} / compute ${params.feePrices.computePrice} / block usage ${params.feePrices.blockUsagePrice} / write ${params.feePrices.writePrice}`);
+          console.log(`  DUST生成: NIGHT/DUST比率 ${params.dust.nightDustRatio} / 減衰率 ${params.dust.generationDecayRate} / 猶予期間 ${params.dust.dustGracePeriod}秒`);
+          console.log(`  トランザクション上限: ${params.limits.transactionByteLimit} bytes / グローバルTTL: ${params.globalTtl}秒`);
+        }
+        console.log('='.repeat(80));
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // アドレスごとの履歴と残高のスナップショットを作り直すモード
+    if (command === '--rebuild-addresses' || command === 'rebuild-addresses') {
+      console.log('🔄 保存済みのUTXOからアドレスの履歴と残高を作り直します...');
+
+      try {
+        await connectPostgres();
+        const count = await rebuildAddressActivity();
+        console.log(`✅ アドレスの履歴を ${count.toLocaleString()} 件作成しました`);
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // 以前の形式で保存したエクストリンジックの引数を、ブロックのメタデータでデコードし直すモード
+    if (command === '--rebuild-extrinsic-args' || command === 'rebuild-extrinsic-args') {
+      console.log('🔄 以前の形式で保存したエクストリンジックの引数をデコードし直します...');
+
+      try {
+        await connectPostgres();
+        const result = await rebuildExtrinsicArgs();
+
+        console.log(`✅ ${result.blocks.toLocaleString()} ブロックの ${result.extrinsics.toLocaleString()} 件のエクストリンジックの引数をデコードし直しました`);
+        if (result.failedBlocks.length > 0) {
+          console.log(`⚠️ デコードし直せなかったブロック: ${result.failedBlocks.join(', ')}`);
+        }
+        process.exit(result.failedBlocks.length > 0 ? 1 : 0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+
+    // ランタイムのバージョンとアップグレードの履歴を表示するモード
+    if (command === '--runtime-versions' || command === 'runtime-versions') {
+      const action = (args[1] || 'list').toLowerCase();
+      if (action !== 'list' && action !== 'rebuild') {
+        console.error(`❌ 不明な操作です: ${args[1]}（list / rebuild）`);
+        process.exit(1);
+      }
+
+      try {
+        await connectPostgres();
+
+        if (action === 'rebuild') {
+          console.log('🔄 バージョンが未保存のブロックのランタイムのバージョンを求め直します...');
+          const result = await rebuildRuntimeVersions();
+          console.log(`✅ ${result.blocks.toLocaleString()} ブロックのバージョンを保存しました（問い合わせ: ${result.queriedBlocks.toLocaleString()} ブロック、アップグレード: ${result.upgrades}件）`);
+        }
+
+        const versions = await withPgClient((client) => listRuntimeVersions(client));
+        const upgrades = await withPgClient((client) => listRuntimeUpgrades(client));
+        if (versions.length === 0) {
+          console.log('✅ ランタイムのバージョンの記録はありません');
+          process.exit(0);
+        }
+
+        console.log('\n' + '='.repeat(80));
+        console.log(`🧩 ランタイムのバージョン (${versions.length}件)`);
+        console.log('='.repeat(80));
+        for (const version of versions) {
+          console.log(`  ${version.specName} v${version.specVersion} (impl ${version.implVersion} / tx ${version.transactionVersion}) 高さ ${version.firstHeight.toLocaleString()} から / メタデータ v${version.metadataVersion} ${version.metadataHash.substring(0, 16)}...`);
+        }
+        console.log(`\n⬆️ アップグレード (${upgrades.length}件)`);
+        for (const upgrade of upgrades) {
+          const codeUpdated = upgrade.codeUpdatedHeight !== null ? `（コード更新: 高さ ${upgrade.codeUpdatedHeight.toLocaleString()}）` : '';
+          console.log(`  高さ ${upgrade.height.toLocaleString()}: v${upgrade.fromSpecVersion} → v${upgrade.toSpecVersion}${codeUpdated}`);
+        }
+        console.log('='.repeat(80));
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+
+    // ダイジェストからブロックのスロットと作成者を求め直すモード
+    if (command === '--rebuild-slots' || command === 'rebuild-slots') {
+      const all = args.includes('--all');
+      console.log(`🎰 ${all ? 'すべてのブロック' : 'スロットまたは作成されなかったスロットが未保存のブロック'}のスロットと作成者をダイジェストから求め直します...`);
+
+      try {
+        await connectPostgres();
+        const result = await rebuildBlockAuthorship(all);
+
+        console.log(`✅ ${result.blocks.toLocaleString()} ブロックのスロットと作成者を保存しました（作成されなかったスロット: ${result.missedSlots.toLocaleString()}）`);
+        if (result.undecodedBlocks.length > 0) {
+          console.log(`⚠️ スロットを復号できなかったブロック: ${result.undecodedBlocks.join(', ')}`);
+        }
+        process.exit(result.undecodedBlocks.length > 0 ? 1 : 0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+
+    // 以前の変換で代わりの日時が保存されたタイムスタンプを修復するモード
+    if (command === '--repair-timestamps' || command === 'repair-timestamps') {
+      const dryRun = args.includes('--dry-run');
+      // 代わりの日時を保存したプロセスのタイムゾーンが分かっている場合は、その日時だけを対象にする
+      const fallbackArg = args.find((arg) => arg.startsWith('--fallback='))?.substring('--fallback='.length);
+      const fallback = fallbackArg ? new Date(fallbackArg) : null;
+      if (fallback && isNaN(fallback.getTime())) {
+        console.error(`❌ 無効な日時です: ${fallbackArg}（例: --fallback=2025-09-05T03:00:00Z）`);
+        process.exit(1);
+      }
+      console.log(`🔧 代わりの日時が保存されたタイムスタンプを${dryRun ? '探します' : '修復します'}...`);
+
+      try {
+        await connectPostgres();
+        const result = await repairTimestamps(dryRun, fallback ? [fallback] : LEGACY_FALLBACK_TIMESTAMPS);
+
+        console.log('\n' + '='.repeat(80));
+        console.log(fallback
+          ? `🕒 代わりの日時 (${fallback.toISOString()}) が保存されていた行数`
+          : '🕒 代わりの日時 (2025-09-05 12:00 のいずれかのローカル時刻) が保存されていた行数');
+        console.log('='.repeat(80));
+        console.log(`  blocks: ${result.blocks.toLocaleString()}`);
+        console.log(`  transactions: ${result.transactions.toLocaleString()}`);
+        console.log(`  unshielded_utxos: ${result.unshieldedUtxos.toLocaleString()}`);
+        console.log(`  watched_address_utxos: ${result.watchedAddressUtxos.toLocaleString()}`);
+        console.log(`  addresses: ${result.addresses.toLocaleString()}`);
+        if (result.unresolvedBlocks.length > 0) {
+          console.log(`  ⚠️ 修復できなかったブロック: ${result.unresolvedBlocks.join(', ')}`);
+        }
+        if (result.outOfOrderBlocks.length > 0) {
+          console.log(`  ⚠️ 親ブロックより前のタイムスタンプを持つブロック: ${result.outOfOrderBlocks.join(', ')}`);
+        }
+        console.log('='.repeat(80));
+        process.exit(result.unresolvedBlocks.length > 0 ? 1 : 0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+
+    // コントラクトの集計を作り直すモード
+    if (command === '--rebuild-contracts' || command === 'rebuild-contracts') {
+      console.log('🔄 保存済みのコントラクトアクションからコントラクトの集計と残高の推移を作り直します...');
+
+      try {
+        await connectPostgres();
+        const count = await rebuildContracts();
+        console.log(`✅ コントラクトを ${count.toLocaleString()} 件作成しました`);
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // コントラクトの状態を復元・差分に変換するモード
+    if (command === '--contract-state' || command === 'contract-state') {
+      const action = (args[1] || '').toLowerCase();
+
+      try {
+        await connectPostgres();
+
+        if (action === 'show' && args[2]) {
+          const address = args[2].toLowerCase().replace(/^0x/, '');
+          const height = args[3] ? parseInt(args[3], 10) : null;
+          if (height !== null && (isNaN(height) || height < 0)) {
+            console.error(`❌ 無効なブロック高です: ${args[3]}`);
+            process.exit(1);
+          }
+          const state = await withPgClient((client) => getContractStateAt(client, address, height));
+          if (!state) {
+            console.error(`❌ コントラクト ${address} の${height !== null ? `高さ ${height.toLocaleString()} までの` : ''}アクションが見つかりません`);
+            process.exit(1);
+          }
+          console.log(`コントラクト: ${address}`);
+          console.log(`  アクション: #${state.actionId} ${state.typeName} (高さ ${state.height.toLocaleString()}, ${state.txHash})`);
+          console.log(`  サイズ: ${(state.state.length / 2).toLocaleString()} bytes`);
+          console.log(state.state);
+        } else if (action === 'compact') {
+          console.log('🔄 コントラクトの状態を差分の形式に変換します...');
+          const count = await compactContractStates(args[2] ? args[2].toLowerCase().replace(/^0x/, '') : null);
+          console.log(`✅ ${count.toLocaleString()} 件のアクションの状態を差分に変換しました`);
+        } else {
+          console.error('❌ 使用方法: npm run dev --contract-state show <コントラクトアドレス> [高さ] | compact [コントラクトアドレス]');
+          process.exit(1);
+        }
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // トークンの一覧の表示・メタデータの設定を行うモード
+    if (command === '--tokens' || command === 'tokens') {
+      const action = (args[1] || 'list').toLowerCase();
+
+      try {
+        await connectPostgres();
+
+        if (action === 'set') {
+          const [tokenType, symbol, decimalsArg, ...nameParts] = args.slice(2);
+          const decimals = parseInt(decimalsArg, 10);
+          if (!tokenType || !symbol || isNaN(decimals) || decimals < 0) {
+            console.error('❌ 使用方法: npm run dev --tokens set <トークンタイプ> <シンボル> <小数点以下の桁数> [名前]');
+            process.exit(1);
+          }
+          await withPgClient((client) => setTokenMetadata(client, {
+            tokenType,
+            symbol,
+            name: nameParts.length > 0 ? nameParts.join(' ') : null,
+            decimals,
+          }));
+          console.log(`✅ トークン ${tokenType} のメタデータを設定しました: ${symbol} (小数点以下 ${decimals} 桁)`);
+        } else if (action === 'list') {
+          const tokens = await withPgClient((client) => listTokens(client));
+          if (tokens.length === 0) {
+            console.log('✅ 登録されているトークンはありません');
+          }
+          for (const token of tokens) {
+            console.log(`${token.token_type}`);
+            console.log(`  シンボル: ${token.symbol ?? '(未設定)'} / 名前: ${token.name ?? '(未設定)'} / 小数点以下: ${token.decimals} 桁`);
+            console.log(`  初出: ${token.first_seen_height !== null ? `高さ ${Number(token.first_seen_height).toLocaleString()}` : '-'}`);
+            console.log(`  供給量（アンシールド）: ${token.formatted} (${token.supply})`);
+          }
+        } else {
+          console.error(`❌ 不明な操作です: ${action} (list / set)`);
+          process.exit(1);
+        }
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // 上流のレジャーイベントのサブスクリプションを購読するモード
+    if (command === '--ledger-events' || command === 'ledger-events') {
+      const action = (args[1] || 'status').toLowerCase();
+      const target = (args[2] || 'all').toLowerCase();
+      if (!['zswap', 'dust', 'all'].includes(target)) {
+        console.error(`❌ 不明なレジャーイベントの種類です: ${args[2]}（zswap / dust / all）`);
+        process.exit(1);
+      }
+      const kinds: LedgerEventKind[] = target === 'all' ? ['zswap', 'dust'] : [target as LedgerEventKind];
+
+      try {
+        await connectPostgres();
+
+        if (action === 'stream') {
+          const controller = new AbortController();
+          const stop = () => controller.abort();
+          process.on('SIGINT', stop);
+          process.on('SIGTERM', stop);
+
+          console.log(`📡 上流のレジャーイベントを購読します: ${kinds.join(', ')}`);
+          await startLedgerEventStream(kinds, controller.signal);
+        } else if (action === 'status') {
+          for (const kind of kinds) {
+            const status = await withPgClient((client) => getLedgerEventStreamStatus(client, kind));
+            console.log('\n' + '='.repeat(80));
+            console.log(`📡 ${kind} レジャーイベント`);
+            console.log('='.repeat(80));
+            console.log(`受信数:        ${status.count.toLocaleString()}`);
+            console.log(`イベントID:    ${status.minId ?? '-'} 〜 ${status.maxId ?? '-'}`);
+            console.log(`上流の最大ID:  ${status.upstreamMaxId ?? '-'}`);
+            console.log(`最終受信:      ${status.lastReceivedAt ? status.lastReceivedAt.toISOString() : '-'}`);
+            console.log(`欠落:          ${status.gaps.length === 0 ? 'なし' : status.gaps.map((gap) => `${gap.fromId}..${gap.toId}`).join(', ')}`);
+          }
+        } else if (action === 'check') {
+          for (const kind of kinds) {
+            const check = await withPgClient((client) => crossCheckLedgerEvents(client, kind));
+            console.log(
+              `🔎 ${kind}: 一致 ${check.matched} | 不一致 ${check.rawMismatch} | ` +
+              `トランザクションに無い ${check.missingInTransactions} | 購読に無い ${check.missingInStream} | 未確認 ${check.pending}`
+            );
+          }
+        } else if (action === 'fill-gaps') {
+          for (const kind of kinds) {
+            const received = await fillLedgerEventGaps(kind);
+            console.log(`✅ ${kind}: 欠落していた範囲から${received}件のイベントを受信しました`);
+          }
+        } else {
+          console.error(`❌ 不明な操作です: ${args[1]}（stream / status / check / fill-gaps）`);
+          process.exit(1);
+        }
+
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // シールドウォレットのセッションを操作するモード
+    if (command === '--wallets' || command === 'wallets') {
+      const action = (args[1] || 'list').toLowerCase();
+
+      try {
+        await connectPostgres();
+
+        if (action === 'list') {
+          const wallets = await withPgClient((client) => listWallets(client));
+          if (wallets.length === 0) {
+            console.log('✅ 登録されているウォレットはありません');
+            process.exit(0);
+          }
+
+          console.log('\n' + '='.repeat(80));
+          console.log(`🔑 登録されているウォレット (${wallets.length}件)`);
+          console.log('='.repeat(80));
+          for (const wallet of wallets) {
+            console.log(
+              `[${wallet.id}]${wallet.label ? ` ${wallet.label}` : ''} | ` +
+              `${wallet.enabled ? '有効' : '無効'} | ` +
+              `進捗: ${wallet.highestCheckedEndIndex ?? '-'}/${wallet.highestEndIndex ?? '-'} | ` +
+              `最終関係インデックス: ${wallet.highestRelevantEndIndex ?? '-'} | ` +
+              `セッション数: ${wallet.sessionCount} | ` +
+              `エラー: ${wallet.lastError ?? '-'}`
+            );
+          }
+          console.log('='.repeat(80));
+        } else if (action === 'add') {
+          if (!args[2]) {
+            console.error('❌ 使用方法: npm run dev --wallets add <ビューキー> [ラベル]');
+            process.exit(1);
+          }
+          const wallet = await withPgClient((client) => addWallet(client, args[2], args.slice(3).join(' ') || null));
+          console.log(`✅ ウォレット [${wallet.id}] を登録しました`);
+        } else if (action === 'remove') {
+          const walletId = parseInt(args[2], 10);
+          if (isNaN(walletId)) {
+            console.error('❌ 使用方法: npm run dev --wallets remove <ウォレットID>');
+            process.exit(1);
+          }
+          const removed = await withPgClient((client) => removeWallet(client, walletId));
+          if (!removed) {
+            console.error(`❌ ウォレットが見つかりません: ${args[2]}`);
+            process.exit(1);
+          }
+          console.log(`🗑️ ウォレット [${walletId}] を削除しました`);
+        } else if (action === 'sync') {
+          const controller = new AbortController();
+          const stop = () => controller.abort();
+          process.on('SIGINT', stop);
+          process.on('SIGTERM', stop);
+
+          console.log('🔑 ウォレットのセッションを開始します...');
+          await startWalletSessions(controller.signal);
+        } else {
+          console.error(`❌ 不明な操作です: ${args[1]}（list / add / remove / sync）`);
+          process.exit(1);
+        }
+
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+
+    // 上流のアドレスごとのアンシールドトランザクションを購読するアドレスを操作するモード
+    if (command === '--watch-addresses' || command === 'watch-addresses') {
+      const action = (args[1] || 'list').toLowerCase();
+
+      try {
+        await connectPostgres();
+
+        if (action === 'list') {
+          const watched = await withPgClient((client) => listWatchedAddresses(client));
+          if (watched.length === 0) {
+            console.log('✅ 監視しているアドレスはありません');
+            process.exit(0);
+          }
+
+          console.log('\n' + '='.repeat(80));
+          console.log(`👂 監視しているアドレス (${watched.length}件)`);
+          console.log('='.repeat(80));
+          for (const entry of watched) {
+            console.log(
+              `[${entry.id}] ${entry.address}${entry.label ? ` (${entry.label})` : ''} | ` +
+              `${entry.enabled ? '有効' : '無効'} | ` +
+              `進捗: ${entry.lastTransactionId ?? '-'}/${entry.highestTransactionId ?? '-'} | ` +
+              `エラー: ${entry.lastError ?? '-'}`
+            );
+          }
+          console.log('='.repeat(80));
+        } else if (action === 'add') {
+          if (!args[2]) {
+            console.error('❌ 使用方法: npm run dev --watch-addresses add <アドレス> [ラベル]');
+            process.exit(1);
+          }
+          const entry = await withPgClient((client) => addWatchedAddress(client, args[2], args.slice(3).join(' ') || null));
+          console.log(`✅ ${entry.address} を監視します`);
+        } else if (action === 'remove') {
+          if (!args[2]) {
+            console.error('❌ 使用方法: npm run dev --watch-addresses remove <アドレス>');
+            process.exit(1);
+          }
+          const removed = await withPgClient((client) => removeWatchedAddress(client, args[2]));
+          if (!removed) {
+            console.error(`❌ 監視しているアドレスが見つかりません: ${args[2]}`);
+            process.exit(1);
+          }
+          console.log(`🗑️ ${args[2]} の監視を削除しました`);
+        } else if (action === 'sync') {
+          const controller = new AbortController();
+          const stop = () => controller.abort();
+          process.on('SIGINT', stop);
+          process.on('SIGTERM', stop);
+
+          console.log('👂 監視しているアドレスの購読を開始します...');
+          await startWatchedAddressConsumers(controller.signal);
+        } else if (action === 'verify') {
+          if (!args[2]) {
+            console.error('❌ 使用方法: npm run dev --watch-addresses verify <アドレス>');
+            process.exit(1);
+          }
+          const result = await withPgClient(async (client) => {
+            const entry = await findWatchedAddress(client, args[2]);
+            return entry ? verifyWatchedAddress(client, entry.id) : null;
+          });
+          if (!result) {
+            console.error(`❌ 監視しているアドレスが見つかりません: ${args[2]}`);
+            process.exit(1);
+          }
+
+          console.log('\n' + '='.repeat(80));
+          console.log(`🔍 ${result.address} の突き合わせ結果`);
+          console.log('='.repeat(80));
+          for (const [status, count] of Object.entries(result.counts)) {
+            console.log(`  ${status}: ${count.toLocaleString()}`);
+          }
+          for (const row of result.discrepancies.filter((row) => row.status !== 'pending')) {
+            console.log(
+              `  ⚠️ ${row.status} ${row.created_at_tx_hash}#${row.output_index} | ` +
+              `数量: ${row.upstream_value ?? '-'} / ${row.local_value ?? '-'} | ` +
+              `消費: ${row.upstream_spent_tx_hash ?? '-'} / ${row.local_spent_tx_hash ?? '-'}`
+            );
+          }
+          console.log('='.repeat(80));
+          if (result.discrepancies.some((row) => row.status !== 'pending')) {
+            process.exit(1);
+          }
+        } else {
+          console.error(`❌ 不明な操作です: ${args[1]}（list / add / remove / sync / verify）`);
+          process.exit(1);
+        }
+
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // DUST生成状況を監視するリワードアドレスを操作するモード
+    if (command === '--dust-watch' || command === 'dust-watch') {
+      const action = (args[1] || 'list').toLowerCase();
+
+      try {
+        await connectPostgres();
+
+        if (action === 'list') {
+          const watches = await withPgClient((client) => listDustWatchAddresses(client));
+          if (watches.length === 0) {
+            console.log('✅ 監視しているリワードアドレスはありません');
+            process.exit(0);
+          }
+
+          console.log('\n' + '='.repeat(80));
+          console.log(`👀 DUST生成状況を監視しているリワードアドレス (${watches.length}件)`);
+          console.log('='.repeat(80));
+          for (const watch of watches) {
+            console.log(
+              `${watch.cardanoRewardAddress}${watch.label ? ` (${watch.label})` : ''} | ` +
+              `${watch.enabled ? '有効' : '無効'} | ` +
+              `最終取得: ${watch.lastPolledAt ? watch.lastPolledAt.toISOString() : '-'} | ` +
+              `エラー: ${watch.lastError ?? '-'}`
+            );
+          }
+          console.log('='.repeat(80));
+        } else if (action === 'add') {
+          if (!args[2]) {
+            console.error('❌ 使用方法: npm run dev --dust-watch add <リワードアドレス> [ラベル]');
+            process.exit(1);
+          }
+          const watch = await withPgClient((client) => addDustWatchAddress(client, args[2], args.slice(3).join(' ') || null));
+          console.log(`✅ ${watch.cardanoRewardAddress} を監視対象に追加しました`);
+        } else if (action === 'remove') {
+          if (!args[2]) {
+            console.error('❌ 使用方法: npm run dev --dust-watch remove <リワードアドレス>');
+            process.exit(1);
+          }
+          const removed = await withPgClient((client) => removeDustWatchAddress(client, args[2]));
+          if (!removed) {
+            console.error(`❌ 監視対象ではありません: ${args[2]}`);
+            process.exit(1);
+          }
+          console.log(`🗑️ ${args[2]} を監視対象から削除しました`);
+        } else if (action === 'poll') {
+          const saved = await pollDustGenerationStatus();
+          console.log(`✅ ${saved}件のDUST生成状況を保存しました`);
+        } else {
+          console.error(`❌ 不明な操作です: ${args[1]}（list / add / remove / poll）`);
+          process.exit(1);
+        }
+
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // GraphQLインポートの再試行キューを操作するモード
+    if (command === '--retry-queue' || command === 'retry-queue') {
+      const action = (args[1] || 'list').toLowerCase();
+
+      // 対象のブロック高さ（"all" または省略時は全て）
+      let heights: number[] | undefined;
+      if (args[2] && args[2].toLowerCase() !== 'all') {
+        heights = args.slice(2).map((arg) => parseInt(arg, 10));
+        if (heights.some((height) => isNaN(height) || height < 0)) {
+          console.error(`❌ 無効なブロック高です: ${args.slice(2).join(' ')}`);
+          process.exit(1);
+        }
+      }
+
+      try {
+        await connectPostgres();
+
+        await withPgClient(async (client) => {
+          if (action === 'list') {
+            const entries = await listGraphQLRetries(client);
+            if (entries.length === 0) {
+              console.log('✅ 再試行キューは空です');
+              return;
+            }
+
+            console.log('\n' + '='.repeat(80));
+            console.log(`⏳ GraphQLインポートの再試行キュー (${entries.length}件)`);
+            console.log('='.repeat(80));
+            for (const entry of entries) {
+              console.log(
+                `ブロック ${entry.height.toLocaleString()} | ` +
+                `試行回数: ${entry.attempts} | ` +
+                `次回: ${entry.nextRetryAt.toISOString()} | ` +
+                `エラー: ${entry.lastError ?? '-'}`
+              );
+            }
+            console.log('='.repeat(80));
+          } else if (action === 'requeue') {
+            const count = await requeueGraphQLRetries(client, heights);
+            console.log(`✅ ${count}件のブロックを直ちに再試行するように戻しました`);
+          } else if (action === 'drop') {
+            if (!heights && args[2]?.toLowerCase() !== 'all') {
+              console.error('❌ 削除するブロック高を指定してください（全て削除する場合は all）');
+              process.exit(1);
+            }
+            const count = await dropGraphQLRetries(client, heights);
+            console.log(`🗑️ ${count}件のブロックを再試行キューから削除しました`);
+          } else {
+            console.error(`❌ 不明な操作です: ${args[1]}（list / requeue / drop）`);
+            process.exit(1);
+          }
+        });
+
+        process.exit(0);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
+    // HTTP APIサーバーを起動するモード
+    if (command === '--serve' || command === 'serve') {
+      console.log('🌐 HTTP APIサーバーを起動します...');
+
+      try {
+        await connectPostgres();
+
+        let port: number | undefined;
+        if (args[1]) {
+          port = parseInt(args[1], 10);
+          if (isNaN(port) || port <= 0) {
+            console.error(`❌ 無効なポート番号です: ${args[1]}`);
+            process.exit(1);
+          }
+        }
+
+        const server = await startApiServer(port);
+
+        const cleanup = () => {
+          stopApiServer(server).finally(() => process.exit(0));
+        };
+
+        process.on('SIGINT', cleanup);
+        process.on('SIGTERM', cleanup);
+      } catch (err) {
+        console.error('[indexer] fatal error', err);
+        process.exit(1);
+      }
+      return;
+    }
+    
     // 特定のブロック番号を指定した場合
     const blockNumber = parseInt(args[0], 10);
     
@@ -386,6 +1210,24 @@ async function main() {
       console.error('  npm run dev --watch-graphql    # GraphQLを使用して最新のブロックを購読');
       console.error('  npm run dev --latest           # Polkadot APIから最新のブロック高を表示');
       console.error('  npm run dev --detect-missing [バッチサイズ]  # 抜けているブロックを検出してインポート');
+      console.error('  npm run dev --serve [ポート]   # HTTP API・GraphQLサーバーを起動');
+      console.error('  npm run dev --backfill [--from 高さ] [--to 高さ] [--workers 数] [--chunk-size 数]  # 範囲内の未保存のブロックを並列でインポート');
+      console.error('  npm run dev --redecode [dust|zswap|all] [--missing]  # 保存済みのレジャーイベントを再デコード');
+      console.error('  npm run dev --ledger-params [list|rebuild]  # レジャーパラメータの履歴を表示（rebuild: 保存済みのブロックから作り直す）');
+      console.error('  npm run dev --rebuild-addresses  # 保存済みのUTXOからアドレスの履歴と残高を作り直す');
+      console.error('  npm run dev --rebuild-contracts  # 保存済みのコントラクトアクションからコントラクトの集計と残高の推移を作り直す');
+      console.error('  npm run dev --rebuild-extrinsic-args  # 以前の形式（文字列の配列）で保存したエクストリンジックの引数を、引数名ごとの値にデコードし直す');
+      console.error('  npm run dev --runtime-versions [list|rebuild]  # ランタイムのバージョンとアップグレードの履歴を表示（rebuild: バージョンが未保存のブロックを求め直す）');
+      console.error('  npm run dev --rebuild-slots [--all]  # ダイジェストからブロックのスロットと作成者、作成されなかったスロットを求め直す（--all: 保存済みのブロックも含める）');
+      console.error('  npm run dev --repair-timestamps [--dry-run] [--fallback=<日時>]  # 以前の変換で代わりの日時が保存されたタイムスタンプを修復（--dry-run: 対象の行数を表示するだけ, --fallback: 代わりの日時を指定）');
+      console.error('  npm run dev --contract-state show <コントラクトアドレス> [高さ]  # 指定した高さ時点のコントラクトの状態を復元');
+      console.error('  npm run dev --contract-state compact [コントラクトアドレス]  # 保存済みのコントラクトの状態を差分の形式に変換');
+      console.error('  npm run dev --tokens [list|set <トークンタイプ> <シンボル> <桁数> [名前]]  # トークンの一覧を表示（set: 表示名と小数点以下の桁数を設定）');
+      console.error('  npm run dev --retry-queue [list|requeue|drop] [高さ...|all]  # GraphQLインポートの再試行キューを操作');
+      console.error('  npm run dev --ledger-events [stream|status|check|fill-gaps] [zswap|dust|all]  # 上流のレジャーイベントのサブスクリプションを購読（status: 受信状況、check: トランザクションのイベントと突き合わせ）');
+      console.error('  npm run dev --wallets [list|add <ビューキー> [ラベル]|remove <ウォレットID>|sync]  # シールドウォレットを操作（sync: セッションを接続して関係するトランザクションを同期）');
+      console.error('  npm run dev --watch-addresses [list|add <アドレス> [ラベル]|remove <アドレス>|sync|verify <アドレス>]  # 上流のアドレスごとのビューを購読するアドレスを操作（verify: インポートしたUTXOと突き合わせ）');
+      console.error('  npm run dev --dust-watch [list|add <リワードアドレス> [ラベル]|remove <リワードアドレス>|poll]  # DUST生成状況を監視するリワードアドレスを操作（poll: 今すぐ取得）');
       process.exit(1);
     }
     
@@ -402,6 +1244,7 @@ async function main() {
   } else {
     // 通常のインデックス処理を開始
     // await startIndexing();
+    startDustGenerationWatcher();
     await startImporting();
   }
 }
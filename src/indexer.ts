@@ -4,9 +4,10 @@ import type { ProviderInterface } from "@polkadot/rpc-provider/types";
 import { connectPostgres, getLastBlockNumber, getState, initializeDatabase, setState, withPgClient } from "./database";
 import type { BlocksSubscription } from "./graphql/generated";
 import type { SignedBlock, Header } from "@polkadot/types/interfaces";
-import { subscribe } from './midnight-indexer';
+import { decodePreRuntimeDigest, subscribe, toDate } from './midnight-indexer';
+import { NETWORK } from './network';
 
-const WS_RPC_ENDPOINT = process.env.MIDNIGHT_WS_ENDPOINT || 'wss://rpc.preview.midnight.network';
+const WS_RPC_ENDPOINT = process.env.MIDNIGHT_WS_ENDPOINT || NETWORK.rpcUrl;
 const BATCH_SIZE = 2;
 
 let api: ApiPromise | null = null;
@@ -164,8 +165,8 @@ export async function indexBlock(api: ApiPromise, blockNumber: number, retryCoun
                     blockHash.toString().substring(2).toLowerCase(),
                     blockNumber,
                     header.parentHash.toString().substring(2).toLowerCase(),
-                    blockNumber,
-                    toDate(timestamp),
+                    decodePreRuntimeDigest(header.digest.toString())?.slot ?? null,
+                    toDate(timestamp, 'milliseconds'),
                     block.extrinsics.length,
                     stateRoot.substring(2).toLowerCase(),
                     isFinalized,
@@ -715,12 +716,13 @@ export async function indexBlock(api: ApiPromise, blockNumber: number, retryCoun
                         // Transactionを保存
                         const txResult = await client.query<{ id: number }>(`
                             INSERT INTO transactions (
-                                hash, block_id, index_in_block, timestamp,
+                                hash, block_id, block_height, index_in_block, timestamp,
                                 is_shielded, fee, total_input, total_output,
                                 status, raw
-                            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                            ) VALUES ($1, $2, (SELECT height FROM blocks WHERE id = $2), $3, $4, $5, $6, $7, $8, $9, $10)
                             ON CONFLICT (hash) DO UPDATE SET
                                 block_id = EXCLUDED.block_id,
+                                block_height = EXCLUDED.block_height,
                                 index_in_block = EXCLUDED.index_in_block,
                                 timestamp = EXCLUDED.timestamp,
                                 is_shielded = EXCLUDED.is_shielded,
@@ -734,7 +736,7 @@ export async function indexBlock(api: ApiPromise, blockNumber: number, retryCoun
                             hash.substring(2).toLowerCase(),
                             blockId,
                             i,
-                            toDate(timestamp),
+                            toDate(timestamp, 'milliseconds'),
                             isShielded,
                             fee,
                             totalInputStr, // total_input (イベントから取得)
@@ -1595,7 +1597,7 @@ async function updateAccountsAndRelatedTables(
                 blockId,
                 {
                     output_id: note.outputId,
-                    created_at: toDate(timestamp).toISOString()
+                    created_at: toDate(timestamp, 'milliseconds').toISOString()
                 }
             ]);
         }
@@ -1606,22 +1608,6 @@ async function updateAccountsAndRelatedTables(
     }
 }
 
-/**
- * timestampをDateに変換
- * @param timestamp Unix timestamp (ミリ秒単位)
- * @returns Dateオブジェクト（UTC）
- */
-function toDate(timestamp: number): Date {
-    const dt = new Date(timestamp);
-    if (isNaN(dt.getTime()) || dt.getFullYear() < 2025 || dt.getFullYear() > 2026) {
-        return new Date(timestamp * 1000);
-    }
-    if (dt.getMilliseconds() !== 0) {
-        dt.setMilliseconds(0);
-    }
-    return dt;
-}
-
 /**
  * ファイナライズ状態を更新する
  */
@@ -1844,7 +1830,6 @@ export async function indexBlockFromGraphQL(block: BlocksSubscription['blocks'])
                     ON CONFLICT (height) DO UPDATE SET
                         hash = EXCLUDED.hash,
                         parent_hash = EXCLUDED.parent_hash,
-                        slot = EXCLUDED.slot,
                         timestamp = EXCLUDED.timestamp,
                         tx_count = EXCLUDED.tx_count,
                         state_root = EXCLUDED.state_root,
@@ -1854,7 +1839,7 @@ export async function indexBlockFromGraphQL(block: BlocksSubscription['blocks'])
                 blockHash,
                 block.height,
                 parentHash || null,
-                block.height, // slotはheightと同じ値
+                null, // slotはノードのダイジェストから求める
                 new Date(block.timestamp * 1000),
                 txCount,
                 null, // GraphQLからはstate_rootが取得できない
@@ -1889,10 +1874,11 @@ export async function indexBlockFromGraphQL(block: BlocksSubscription['blocks'])
 
                 await client.query(`
                     INSERT INTO transactions
-                        (hash, block_id, index_in_block, timestamp, is_shielded, fee, total_input, total_output, status, raw)
-                        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                        (hash, block_id, block_height, index_in_block, timestamp, is_shielded, fee, total_input, total_output, status, raw)
+                        VALUES ($1, $2, (SELECT height FROM blocks WHERE id = $2), $3, $4, $5, $6, $7, $8, $9, $10)
                         ON CONFLICT (hash) DO UPDATE SET
                             block_id = EXCLUDED.block_id,
+                            block_height = EXCLUDED.block_height,
                             index_in_block = EXCLUDED.index_in_block,
                             timestamp = EXCLUDED.timestamp,
                             raw = EXCLUDED.raw
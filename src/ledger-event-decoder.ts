@@ -0,0 +1,667 @@
+import type * as Ledger from '@midnight-ntwrk/ledger-v6';
+
+/**
+ * Rustの Debug 表記を解析した値
+ * - 構造体は `__type` に型名を持つオブジェクト
+ * - 要素が1つのタプル構造体（`Commitment(…)`, `Some(…)` 等）は中身の値
+ * - 数値・ハッシュ等はそのままの文字列、`None` は null
+ */
+export type DebugValue = string | null | DebugValue[] | { [key: string]: DebugValue };
+
+/**
+ * デコードしたレジャーイベント
+ */
+export type DecodedLedgerEvent = {
+    /** イベントの種類（ZswapInput, ZswapOutput, DustInitialUtxo, ParamChange 等） */
+    type: string;
+    /** イベントを発生させたトランザクションのハッシュ */
+    transactionHash: string | null;
+    logicalSegment: number | null;
+    physicalSegment: number | null;
+    /** イベントの内容 */
+    content: DebugValue;
+};
+
+/**
+ * DUSTレジャーイベントの型付きカラム
+ */
+export type DustLedgerEventColumns = {
+    owner: string | null;
+    nonce: string | null;
+    initialValue: string | null;
+    generationValue: string | null;
+    generationIndex: string | null;
+    backingNight: string | null;
+    mtIndex: string | null;
+    commitment: string | null;
+    commitmentIndex: string | null;
+    nullifier: string | null;
+    vFee: string | null;
+    /** DUST生成の終了時刻（UNIX秒。終了しない場合は u64 の最大値） */
+    dtime: string | null;
+    /** イベントの時刻（block_time / time） */
+    eventTime: Date | null;
+};
+
+/**
+ * ZSwapレジャーイベントの型付きカラム
+ */
+export type ZswapLedgerEventColumns = {
+    commitment: string | null;
+    nullifier: string | null;
+    contractAddress: string | null;
+    mtIndex: string | null;
+};
+
+/**
+ * デコードしたレジャーパラメーター
+ * 数値は精度を保つため文字列で保持します（時間は `2.000μs` のような表記のまま）。
+ */
+export type DecodedLedgerParameters = {
+    feePrices: {
+        readPrice: string | null;
+        computePrice: string | null;
+        blockUsagePrice: string | null;
+        writePrice: string | null;
+    };
+    dust: {
+        nightDustRatio: string | null;
+        generationDecayRate: string | null;
+        /** 秒 */
+        dustGracePeriod: string | null;
+    };
+    limits: {
+        transactionByteLimit: string | null;
+        timeToDismissPerByte: string | null;
+        minTimeToDismiss: string | null;
+        blockWithdrawalMinimumMultiple: string | null;
+        block: {
+            readTime: string | null;
+            computeTime: string | null;
+            blockUsage: string | null;
+            bytesWritten: string | null;
+            bytesChurned: string | null;
+        };
+    };
+    /** 秒 */
+    globalTtl: string | null;
+    costDimensionMinRatio: string | null;
+    priceAdjustmentAParameter: string | null;
+    cardanoToMidnightBridgeFeeBasisPoints: string | null;
+    cardanoToMidnightBridgeMinAmount: string | null;
+    /** コストモデル等を含む全ての内容 */
+    content: DebugValue;
+};
+
+/**
+ * デコードしたMidnightのトランザクション（midnight.sendMnTransaction の引数）の概要
+ */
+export type DecodedMidnightTransaction = {
+    /** トランザクションハッシュ（0xなし・小文字） */
+    transactionHash: string;
+    /** トランザクションの識別子（0xなし・小文字） */
+    identifiers: string[];
+    /** インテントのセグメント番号 */
+    intentSegments: number[];
+    /** インテントに含まれるコントラクトのアクション数 */
+    contractActions: number;
+    hasGuaranteedOffer: boolean;
+    /** フォーラブルなオファーのセグメント番号 */
+    fallibleSegments: number[];
+    isRewardsClaim: boolean;
+};
+
+/**
+ * デコードしたシステムトランザクション（midnightSystem.sendMnSystemTransaction の引数）
+ */
+export type DecodedSystemTransaction = {
+    /** システムトランザクションの種類（OverwriteParameters, DistributeNight 等） */
+    type: string;
+    content: DebugValue;
+};
+
+/**
+ * コントラクトの状態のセルの値（バイト列は16進数）
+ */
+export type ContractStateCell = {
+    value: string[];
+    alignment: Ledger.Alignment;
+};
+
+/**
+ * コントラクトの状態の値（StateValue のエンコード形式を、JSONで扱える形にしたもの）
+ * マップはキーと値の組の配列、Merkle木は高さと（葉の位置, 葉のハッシュ）の配列になります。
+ */
+export type ContractStateValue =
+    | { tag: 'null' }
+    | { tag: 'cell'; content: ContractStateCell }
+    | { tag: 'map'; content: [ContractStateCell, ContractStateValue][] }
+    | { tag: 'array'; content: ContractStateValue[] }
+    | { tag: 'boundedMerkleTree'; content: [number, [string, string][]] };
+
+/**
+ * デコードしたコントラクトの状態のうち、アクションごとに変化する部分
+ */
+export type DecodedContractState = {
+    data: ContractStateValue;
+    /** トークンの種類ごとの残高（10進数の文字列） */
+    balance: [Ledger.TokenType, string][];
+};
+
+/**
+ * u64 の最大値（終了しないことを表すタイムスタンプ）
+ */
+const U64_MAX = '18446744073709551615';
+
+let ledger: Promise<typeof Ledger> | null = null;
+
+/**
+ * レジャーのWASMモジュールを読み込みます。
+ * ESMのみのパッケージのため、CommonJSに変換されない動的importで読み込みます。
+ */
+function loadLedger(): Promise<typeof Ledger> {
+    if (!ledger) {
+        const importModule = new Function('specifier', 'return import(specifier)') as
+            (specifier: string) => Promise<typeof Ledger>;
+        ledger = importModule('@midnight-ntwrk/ledger-v6').catch((error) => {
+            ledger = null;
+            throw error;
+        });
+    }
+    return ledger;
+}
+
+/**
+ * Rustの Debug 表記（1行形式）を解析します。
+ * @param text Debug 表記
+ * @returns 解析した値
+ */
+export function parseDebug(text: string): DebugValue {
+    let pos = 0;
+
+    const skipSpaces = () => {
+        while (pos < text.length && /\s/.test(text[pos])) {
+            pos++;
+        }
+    };
+
+    const expect = (char: string) => {
+        skipSpaces();
+        if (text[pos] !== char) {
+            throw new Error(`Expected '${char}' at ${pos}: ${text.substring(pos, pos + 40)}`);
+        }
+        pos++;
+    };
+
+    // 区切り文字が来るまで、または閉じ括弧が来るまで要素を読む
+    const parseSequence = <T>(close: string, parseItem: () => T): T[] => {
+        const items: T[] = [];
+        skipSpaces();
+        while (text[pos] !== close) {
+            if (text.startsWith('..', pos)) {
+                // 非網羅的な構造体（`Foo { a: 1, .. }`）
+                pos += 2;
+            } else {
+                items.push(parseItem());
+            }
+            skipSpaces();
+            if (text[pos] === ',') {
+                pos++;
+                skipSpaces();
+            } else if (text[pos] !== close) {
+                throw new Error(`Expected ',' or '${close}' at ${pos}: ${text.substring(pos, pos + 40)}`);
+            }
+        }
+        pos++;
+        return items;
+    };
+
+    const parseString = (): string => {
+        let value = '';
+        pos++;
+        while (pos < text.length && text[pos] !== '"') {
+            if (text[pos] === '\\') {
+                pos++;
+            }
+            value += text[pos++];
+        }
+        pos++;
+        return value;
+    };
+
+    const parseAtom = (): string => {
+        const start = pos;
+        while (pos < text.length && !/[\s,:()[\]{}]/.test(text[pos])) {
+            pos++;
+        }
+        if (start === pos) {
+            throw new Error(`Unexpected '${text[pos]}' at ${pos}: ${text.substring(pos, pos + 40)}`);
+        }
+        return text.substring(start, pos);
+    };
+
+    const parseValue = (): DebugValue => {
+        skipSpaces();
+        const char = text[pos];
+
+        if (char === '[') {
+            pos++;
+            return parseSequence(']', parseValue);
+        }
+        if (char === '(') {
+            pos++;
+            const items = parseSequence(')', parseValue);
+            return items.length === 1 ? items[0] : items;
+        }
+        if (char === '{') {
+            pos++;
+            const entries = parseSequence('}', () => {
+                const key = parseValue();
+                expect(':');
+                return [typeof key === 'string' ? key : JSON.stringify(key), parseValue()] as const;
+            });
+            return Object.fromEntries(entries);
+        }
+        if (char === '"') {
+            return parseString();
+        }
+
+        const name = parseAtom();
+        skipSpaces();
+
+        // 構造体
+        if (text[pos] === '{') {
+            pos++;
+            const fields = parseSequence('}', () => {
+                skipSpaces();
+                const field = parseAtom();
+                expect(':');
+                return [field, parseValue()] as const;
+            });
+            return { __type: name, ...Object.fromEntries(fields) };
+        }
+
+        // タプル構造体・列挙型のバリアント
+        if (text[pos] === '(') {
+            pos++;
+            const items = parseSequence(')', parseValue);
+            return items.length === 1 ? items[0] : items;
+        }
+
+        return name === 'None' ? null : name;
+    };
+
+    const value = parseValue();
+    skipSpaces();
+    if (pos < text.length) {
+        throw new Error(`Unexpected trailing input at ${pos}: ${text.substring(pos, pos + 40)}`);
+    }
+    return value;
+}
+
+/**
+ * 構造体のフィールドを取得します。
+ * @param value 構造体
+ * @param field フィールド名
+ */
+function fieldOf(value: DebugValue | undefined, field: string): DebugValue | undefined {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return value[field];
+    }
+    return undefined;
+}
+
+/**
+ * 指定した型名の構造体を再帰的に探します。
+ * @param value 探索する値
+ * @param type 型名
+ */
+function findStruct(value: DebugValue | undefined, type: string): { [key: string]: DebugValue } | null {
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+    if (!Array.isArray(value) && value.__type === type) {
+        return value;
+    }
+    for (const child of Object.values(value)) {
+        const found = findStruct(child, type);
+        if (found) {
+            return found;
+        }
+    }
+    return null;
+}
+
+/**
+ * 値を文字列として取得します。
+ * @param value 値
+ */
+function asString(value: DebugValue | undefined): string | null {
+    return typeof value === 'string' ? value : null;
+}
+
+/**
+ * 値を数値として取得します。
+ * @param value 値
+ */
+function asNumber(value: DebugValue | undefined): number | null {
+    const text = asString(value);
+    return text !== null && /^\d+$/.test(text) ? Number(text) : null;
+}
+
+/**
+ * 値をハッシュ等の16進数文字列（0xなし・小文字）として取得します。
+ * @param value 値
+ */
+function asHex(value: DebugValue | undefined): string | null {
+    const text = asString(value);
+    if (!text) {
+        return null;
+    }
+    const lower = text.toLowerCase();
+    return lower.startsWith('0x') ? lower.substring(2) : lower;
+}
+
+/**
+ * レジャーのタイムスタンプ（UNIX秒）をDateに変換します。
+ * 終了しないことを表す u64 の最大値は null になります。
+ * @param value 値
+ */
+function asTimestamp(value: DebugValue | undefined): Date | null {
+    const text = asString(value);
+    if (!text || text === U64_MAX || !/^\d+$/.test(text)) {
+        return null;
+    }
+    const date = new Date(Number(text) * 1000);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * シリアライズされたレジャーイベントをデコードします。
+ * @param raw 16進数でシリアライズされたイベント（0xあり・なしのどちらでも可）
+ * @returns デコードしたイベント
+ */
+export async function decodeLedgerEvent(raw: string): Promise<DecodedLedgerEvent> {
+    const { Event } = await loadLedger();
+    const hex = raw.startsWith('0x') ? raw.substring(2) : raw;
+    const event = Event.deserialize(Buffer.from(hex, 'hex'));
+    const text = event.toString(true);
+    const parsed = parseDebug(text);
+
+    const source = fieldOf(parsed, 'source');
+    const content = fieldOf(parsed, 'content') ?? null;
+    // タプルのバリアント（`ParamChange(…)`）は解析時に中身だけになるため、種類は表記から取得する
+    const type = /content: (\w+)/.exec(text)?.[1];
+
+    return {
+        type: type ?? 'Unknown',
+        transactionHash: asHex(fieldOf(source, 'transaction_hash')),
+        logicalSegment: asNumber(fieldOf(source, 'logical_segment')),
+        physicalSegment: asNumber(fieldOf(source, 'physical_segment')),
+        content,
+    };
+}
+
+/**
+ * デコードしたDUSTレジャーイベントから型付きカラムの値を取り出します。
+ * @param event デコードしたイベント
+ */
+export function toDustLedgerEventColumns(event: DecodedLedgerEvent): DustLedgerEventColumns {
+    const content = event.content ?? undefined;
+    const columns: DustLedgerEventColumns = {
+        owner: null,
+        nonce: null,
+        initialValue: null,
+        generationValue: null,
+        generationIndex: null,
+        backingNight: null,
+        mtIndex: null,
+        commitment: null,
+        commitmentIndex: null,
+        nullifier: null,
+        vFee: null,
+        dtime: null,
+        eventTime: null,
+    };
+
+    const generation = findStruct(content, 'DustGenerationInfo');
+    if (generation) {
+        columns.owner = asHex(generation.owner);
+        columns.generationValue = asString(generation.value);
+        columns.backingNight = asHex(generation.nonce);
+        columns.dtime = asString(generation.dtime);
+    }
+
+    switch (event.type) {
+        case 'DustInitialUtxo': {
+            const output = fieldOf(content, 'output');
+            columns.owner = asHex(fieldOf(output, 'owner')) ?? columns.owner;
+            columns.nonce = asHex(fieldOf(output, 'nonce'));
+            columns.initialValue = asString(fieldOf(output, 'initial_value'));
+            columns.backingNight = asHex(fieldOf(output, 'backing_night')) ?? columns.backingNight;
+            columns.mtIndex = asString(fieldOf(output, 'mt_index'));
+            columns.generationIndex = asString(fieldOf(content, 'generation_index'));
+            columns.eventTime = asTimestamp(fieldOf(content, 'block_time'));
+            break;
+        }
+        case 'DustGenerationDtimeUpdate':
+            columns.eventTime = asTimestamp(fieldOf(content, 'block_time'));
+            break;
+        case 'DustSpendProcessed':
+            columns.commitment = asHex(fieldOf(content, 'commitment'));
+            columns.commitmentIndex = asString(fieldOf(content, 'commitment_index'));
+            columns.nullifier = asHex(fieldOf(content, 'nullifier'));
+            columns.vFee = asString(fieldOf(content, 'v_fee'));
+            columns.eventTime = asTimestamp(fieldOf(content, 'time') ?? fieldOf(content, 'block_time'));
+            break;
+    }
+
+    return columns;
+}
+
+/**
+ * デコードしたZSwapレジャーイベントから型付きカラムの値を取り出します。
+ * @param event デコードしたイベント
+ */
+export function toZswapLedgerEventColumns(event: DecodedLedgerEvent): ZswapLedgerEventColumns {
+    const content = event.content ?? undefined;
+    return {
+        commitment: asHex(fieldOf(content, 'commitment')),
+        nullifier: asHex(fieldOf(content, 'nullifier')),
+        contractAddress: asHex(fieldOf(content, 'contract')),
+        mtIndex: asString(fieldOf(content, 'mt_index')),
+    };
+}
+
+/**
+ * シリアライズされたレジャーパラメーターをデコードします。
+ * @param raw 16進数でシリアライズされたレジャーパラメーター（0xあり・なしのどちらでも可）
+ * @returns デコードしたレジャーパラメーター
+ */
+export async function decodeLedgerParameters(raw: string): Promise<DecodedLedgerParameters> {
+    const { LedgerParameters } = await loadLedger();
+    const hex = raw.startsWith('0x') ? raw.substring(2) : raw;
+    const parameters = LedgerParameters.deserialize(Buffer.from(hex, 'hex'));
+    const content = parseDebug(parameters.toString(true));
+
+    const feePrices = fieldOf(content, 'fee_prices');
+    const dust = fieldOf(content, 'dust');
+    const limits = fieldOf(content, 'limits');
+    const blockLimits = fieldOf(limits, 'block_limits');
+
+    return {
+        feePrices: {
+            readPrice: asString(fieldOf(feePrices, 'read_price')),
+            computePrice: asString(fieldOf(feePrices, 'compute_price')),
+            blockUsagePrice: asString(fieldOf(feePrices, 'block_usage_price')),
+            writePrice: asString(fieldOf(feePrices, 'write_price')),
+        },
+        dust: {
+            nightDustRatio: asString(fieldOf(dust, 'night_dust_ratio')),
+            generationDecayRate: asString(fieldOf(dust, 'generation_decay_rate')),
+            dustGracePeriod: asString(fieldOf(dust, 'dust_grace_period')),
+        },
+        limits: {
+            transactionByteLimit: asString(fieldOf(limits, 'transaction_byte_limit')),
+            timeToDismissPerByte: asString(fieldOf(limits, 'time_to_dismiss_per_byte')),
+            minTimeToDismiss: asString(fieldOf(limits, 'min_time_to_dismiss')),
+            blockWithdrawalMinimumMultiple: asString(fieldOf(limits, 'block_withdrawal_minimum_multiple')),
+            block: {
+                readTime: asString(fieldOf(blockLimits, 'read_time')),
+                computeTime: asString(fieldOf(blockLimits, 'compute_time')),
+                blockUsage: asString(fieldOf(blockLimits, 'block_usage')),
+                bytesWritten: asString(fieldOf(blockLimits, 'bytes_written')),
+                bytesChurned: asString(fieldOf(blockLimits, 'bytes_churned')),
+            },
+        },
+        globalTtl: asString(fieldOf(content, 'global_ttl')),
+        costDimensionMinRatio: asString(fieldOf(content, 'cost_dimension_min_ratio')),
+        priceAdjustmentAParameter: asString(fieldOf(content, 'price_adjustment_a_parameter')),
+        cardanoToMidnightBridgeFeeBasisPoints: asString(fieldOf(content, 'cardano_to_midnight_bridge_fee_basis_points')),
+        cardanoToMidnightBridgeMinAmount: asString(fieldOf(content, 'c_to_m_bridge_min_amount')),
+        content,
+    };
+}
+
+/**
+ * シリアライズされたMidnightのトランザクションをデコードし、概要を返します。
+ * @param raw 16進数でシリアライズされたトランザクション（0xあり・なしのどちらでも可）
+ * @returns トランザクションの概要
+ */
+export async function decodeMidnightTransaction(raw: string): Promise<DecodedMidnightTransaction> {
+    const { Transaction } = await loadLedger();
+    const hex = raw.startsWith('0x') ? raw.substring(2) : raw;
+    const transaction = Transaction.deserialize('signature', 'proof', 'binding', Buffer.from(hex, 'hex'));
+    const intents = [...(transaction.intents?.entries() ?? [])];
+
+    return {
+        transactionHash: transaction.transactionHash().toLowerCase(),
+        identifiers: transaction.identifiers().map((identifier) => identifier.toLowerCase()),
+        intentSegments: intents.map(([segment]) => segment),
+        contractActions: intents.reduce((sum, [, intent]) => sum + intent.actions.length, 0),
+        hasGuaranteedOffer: transaction.guaranteedOffer !== undefined,
+        fallibleSegments: [...(transaction.fallibleOffer?.keys() ?? [])],
+        isRewardsClaim: transaction.rewards !== undefined,
+    };
+}
+
+/**
+ * シリアライズされたシステムトランザクションをデコードします。
+ * @param raw 16進数でシリアライズされたシステムトランザクション（0xあり・なしのどちらでも可）
+ * @returns デコードしたシステムトランザクション
+ */
+export async function decodeSystemTransaction(raw: string): Promise<DecodedSystemTransaction> {
+    const { SystemTransaction } = await loadLedger();
+    const hex = raw.startsWith('0x') ? raw.substring(2) : raw;
+    const text = SystemTransaction.deserialize(Buffer.from(hex, 'hex')).toString(true);
+    return {
+        type: /^(\w+)/.exec(text)?.[1] ?? 'Unknown',
+        content: parseDebug(text),
+    };
+}
+
+/**
+ * セルの値をJSONで扱える形に変換します。
+ * @param cell セルの値
+ */
+function toContractStateCell(cell: Ledger.AlignedValue): ContractStateCell {
+    return { value: cell.value.map((bytes) => Buffer.from(bytes).toString('hex')), alignment: cell.alignment };
+}
+
+/**
+ * JSONで扱える形のセルの値を元に戻します。
+ * @param cell セルの値
+ */
+function fromContractStateCell(cell: ContractStateCell): Ledger.AlignedValue {
+    return { value: cell.value.map((hex) => new Uint8Array(Buffer.from(hex, 'hex'))), alignment: cell.alignment };
+}
+
+/**
+ * StateValue のエンコード形式をJSONで扱える形に変換します。
+ * @param value エンコードした StateValue
+ */
+function toContractStateValue(value: Ledger.EncodedStateValue): ContractStateValue {
+    switch (value.tag) {
+        case 'null':
+            return { tag: 'null' };
+        case 'cell':
+            return { tag: 'cell', content: toContractStateCell(value.content) };
+        case 'map':
+            return {
+                tag: 'map',
+                content: [...value.content].map(([key, entry]) => [toContractStateCell(key), toContractStateValue(entry)]),
+            };
+        case 'array':
+            return { tag: 'array', content: value.content.map(toContractStateValue) };
+        case 'boundedMerkleTree':
+            return {
+                tag: 'boundedMerkleTree',
+                content: [
+                    value.content[0],
+                    [...value.content[1]].map(([index, [hash]]) => [index.toString(), Buffer.from(hash).toString('hex')]),
+                ],
+            };
+    }
+}
+
+/**
+ * JSONで扱える形の値を StateValue のエンコード形式に戻します。
+ * @param value コントラクトの状態の値
+ */
+function fromContractStateValue(value: ContractStateValue): Ledger.EncodedStateValue {
+    switch (value.tag) {
+        case 'null':
+            return { tag: 'null' };
+        case 'cell':
+            return { tag: 'cell', content: fromContractStateCell(value.content) };
+        case 'map':
+            return {
+                tag: 'map',
+                content: new Map(value.content.map(([key, entry]) => [fromContractStateCell(key), fromContractStateValue(entry)])),
+            };
+        case 'array':
+            return { tag: 'array', content: value.content.map(fromContractStateValue) };
+        case 'boundedMerkleTree':
+            return {
+                tag: 'boundedMerkleTree',
+                content: [
+                    value.content[0],
+                    new Map(value.content[1].map(([index, hash]) => [
+                        BigInt(index),
+                        [new Uint8Array(Buffer.from(hash, 'hex')), undefined],
+                    ])),
+                ],
+            };
+    }
+}
+
+/**
+ * シリアライズされたコントラクトの状態から、データと残高をデコードします。
+ * @param raw 16進数でシリアライズされたコントラクトの状態（0xあり・なしのどちらでも可）
+ * @returns デコードしたデータと残高
+ */
+export async function decodeContractState(raw: string): Promise<DecodedContractState> {
+    const { ContractState } = await loadLedger();
+    const hex = raw.startsWith('0x') ? raw.substring(2) : raw;
+    const state = ContractState.deserialize(Buffer.from(hex, 'hex'));
+    return {
+        data: toContractStateValue(state.data.state.encode()),
+        balance: [...state.balance].map(([tokenType, amount]) => [tokenType, amount.toString()]),
+    };
+}
+
+/**
+ * シリアライズされたコントラクトの状態のデータと残高を置き換えて、シリアライズし直します。
+ * オペレーションとメンテナンス権限は元の状態のままになります。
+ * @param raw 16進数でシリアライズされた元のコントラクトの状態（0xあり・なしのどちらでも可）
+ * @param decoded 置き換えるデータと残高
+ * @returns 16進数でシリアライズされた状態（0xなし）
+ */
+export async function encodeContractState(raw: string, decoded: DecodedContractState): Promise<string> {
+    const { ContractState, ChargedState, StateValue } = await loadLedger();
+    const hex = raw.startsWith('0x') ? raw.substring(2) : raw;
+    const state = ContractState.deserialize(Buffer.from(hex, 'hex'));
+    state.data = new ChargedState(StateValue.decode(fromContractStateValue(decoded.data)));
+    state.balance = new Map(decoded.balance.map(([tokenType, amount]) => [tokenType, BigInt(amount)]));
+    return Buffer.from(state.serialize()).toString('hex');
+}
@@ -0,0 +1,372 @@
+import type { PoolClient } from 'pg';
+import { print } from 'graphql';
+import { connectPostgres, withPgClient } from './database';
+import { DustLedgerEventsDocument, ZswapLedgerEventsDocument } from './graphql/generated';
+import { createSubscriptionClient } from './midnight-indexer';
+
+/**
+ * 購読が切断された場合の再接続間隔（ミリ秒）
+ */
+const RECONNECT_DELAY_MS = Number(process.env.LEDGER_EVENT_STREAM_RECONNECT_DELAY_MS || 5000);
+
+/**
+ * トランザクションに含まれるイベントとの突き合わせを行う間隔（受信したイベント数）
+ */
+const CROSS_CHECK_EVERY = Number(process.env.LEDGER_EVENT_CROSS_CHECK_EVERY || 500);
+
+/**
+ * レジャーイベントの種類
+ */
+export type LedgerEventKind = 'zswap' | 'dust';
+
+/**
+ * 受信したレジャーイベント
+ */
+type StreamedLedgerEvent = {
+    id: number;
+    raw: string;
+    maxId: number;
+    typeName: string | null;
+};
+
+/**
+ * 受信したイベントのIDが連続していない範囲
+ */
+export type LedgerEventGap = {
+    fromId: number;
+    toId: number;
+};
+
+/**
+ * トランザクションに含まれるイベントとの突き合わせの結果
+ */
+export type LedgerEventCheckResult = {
+    matched: number;
+    rawMismatch: number;
+    missingInTransactions: number;
+    missingInStream: number;
+    pending: number;
+};
+
+/**
+ * 受信したレジャーイベントの状況
+ */
+export type LedgerEventStreamStatus = {
+    kind: LedgerEventKind;
+    count: number;
+    minId: number | null;
+    maxId: number | null;
+    upstreamMaxId: number | null;
+    lastReceivedAt: Date | null;
+    gaps: LedgerEventGap[];
+};
+
+/**
+ * レジャーイベントの種類ごとの購読の設定
+ */
+const STREAMS: Record<LedgerEventKind, {
+    query: string;
+    embeddedTable: string;
+    embeddedRawColumn: string;
+    toEvent: (data: any) => StreamedLedgerEvent;
+}> = {
+    zswap: {
+        query: print(ZswapLedgerEventsDocument),
+        embeddedTable: 'tx_zswap_ledger_events',
+        embeddedRawColumn: 'raw',
+        toEvent: (data) => ({
+            id: data.zswapLedgerEvents.id,
+            raw: data.zswapLedgerEvents.raw,
+            maxId: data.zswapLedgerEvents.maxId,
+            typeName: data.zswapLedgerEvents.__typename ?? 'ZswapLedgerEvent',
+        }),
+    },
+    dust: {
+        query: print(DustLedgerEventsDocument),
+        embeddedTable: 'tx_dust_ledger_events',
+        embeddedRawColumn: 'event_raw',
+        toEvent: (data) => ({
+            id: data.dustLedgerEvents.id,
+            raw: data.dustLedgerEvents.raw,
+            maxId: data.dustLedgerEvents.maxId,
+            typeName: data.dustLedgerEvents.__typename ?? null,
+        }),
+    },
+};
+
+/**
+ * 購読を再開するイベントIDを取得します。
+ * 受信済みのイベントがあれば最大のIDの次から、無ければトランザクションに含まれるイベントの最大のIDの次から再開します。
+ * @param client データベースクライアント
+ * @param kind レジャーイベントの種類
+ */
+export async function getLedgerEventResumeId(client: PoolClient, kind: LedgerEventKind): Promise<number> {
+    const result = await client.query(`
+        SELECT COALESCE(
+            (SELECT MAX(event_id) FROM ledger_event_stream WHERE kind = $1),
+            (SELECT MAX(event_id) FROM ${STREAMS[kind].embeddedTable})
+        ) AS event_id
+    `, [kind]);
+    const eventId = result.rows[0]?.event_id;
+    return eventId === null || eventId === undefined ? 0 : Number(eventId) + 1;
+}
+
+/**
+ * 受信したレジャーイベントを保存します。
+ * 既に受信済みで内容が変わった場合は、突き合わせの結果をリセットします。
+ * @param client データベースクライアント
+ * @param kind レジャーイベントの種類
+ * @param event 受信したイベント
+ */
+async function saveStreamedLedgerEvent(client: PoolClient, kind: LedgerEventKind, event: StreamedLedgerEvent): Promise<void> {
+    await client.query(`
+        INSERT INTO ledger_event_stream (kind, event_id, type_name, raw, max_id)
+            VALUES ($1, $2, $3, $4, $5)
+            ON CONFLICT (kind, event_id) DO UPDATE SET
+                type_name = EXCLUDED.type_name,
+                raw = EXCLUDED.raw,
+                max_id = EXCLUDED.max_id,
+                received_at = NOW(),
+                check_status = CASE WHEN ledger_event_stream.raw = EXCLUDED.raw THEN ledger_event_stream.check_status END,
+                checked_at = CASE WHEN ledger_event_stream.raw = EXCLUDED.raw THEN ledger_event_stream.checked_at END
+    `, [kind, event.id, event.typeName, event.raw.toString().toLowerCase().replace(/^0x/, ''), event.maxId]);
+}
+
+/**
+ * 受信したイベントのIDが連続していない範囲を取得します。
+ * @param client データベースクライアント
+ * @param kind レジャーイベントの種類
+ */
+export async function findLedgerEventGaps(client: PoolClient, kind: LedgerEventKind): Promise<LedgerEventGap[]> {
+    const result = await client.query(`
+        SELECT event_id + 1 AS from_id, next_id - 1 AS to_id
+            FROM (
+                SELECT event_id, LEAD(event_id) OVER (ORDER BY event_id) AS next_id
+                    FROM ledger_event_stream
+                    WHERE kind = $1
+            ) s
+            WHERE next_id > event_id + 1
+            ORDER BY from_id
+    `, [kind]);
+    return result.rows.map((row) => ({ fromId: Number(row.from_id), toId: Number(row.to_id) }));
+}
+
+/**
+ * 受信したイベントを、トランザクションに含まれるイベントと event_id で突き合わせます。
+ * トランザクションに含まれるイベントの最大のIDより後のイベントは、ブロックのインポートを待つため未確認のままにします。
+ * @param client データベースクライアント
+ * @param kind レジャーイベントの種類
+ */
+export async function crossCheckLedgerEvents(client: PoolClient, kind: LedgerEventKind): Promise<LedgerEventCheckResult> {
+    const { embeddedTable, embeddedRawColumn } = STREAMS[kind];
+
+    await client.query(`
+        UPDATE ledger_event_stream s
+            SET tx_id = e.tx_id,
+                check_status = CASE
+                    WHEN LOWER(REGEXP_REPLACE(e.${embeddedRawColumn}, '^0x', '')) = s.raw THEN 'matched'
+                    ELSE 'raw_mismatch'
+                END,
+                checked_at = NOW()
+            FROM ${embeddedTable} e
+            WHERE s.kind = $1
+              AND e.event_id = s.event_id
+              AND (s.check_status IS DISTINCT FROM 'matched' OR s.tx_id IS NULL)
+    `, [kind]);
+
+    await client.query(`
+        UPDATE ledger_event_stream s
+            SET tx_id = NULL, check_status = 'missing_in_transactions', checked_at = NOW()
+            WHERE s.kind = $1
+              AND s.check_status IS DISTINCT FROM 'missing_in_transactions'
+              AND s.event_id < (SELECT MAX(event_id) FROM ${embeddedTable})
+              AND NOT EXISTS (SELECT 1 FROM ${embeddedTable} e WHERE e.event_id = s.event_id)
+    `, [kind]);
+
+    const statuses = await client.query(`
+        SELECT check_status, COUNT(*) AS count FROM ledger_event_stream
+            WHERE kind = $1
+            GROUP BY check_status
+    `, [kind]);
+    const countOf = (status: string | null) =>
+        Number(statuses.rows.find((row) => row.check_status === status)?.count ?? 0);
+
+    const missingInStream = await client.query(`
+        SELECT COUNT(*) AS count
+            FROM ${embeddedTable} e
+            WHERE e.event_id BETWEEN
+                    (SELECT MIN(event_id) FROM ledger_event_stream WHERE kind = $1)
+                AND (SELECT MAX(event_id) FROM ledger_event_stream WHERE kind = $1)
+              AND NOT EXISTS (
+                  SELECT 1 FROM ledger_event_stream s WHERE s.kind = $1 AND s.event_id = e.event_id
+              )
+    `, [kind]);
+
+    return {
+        matched: countOf('matched'),
+        rawMismatch: countOf('raw_mismatch'),
+        missingInTransactions: countOf('missing_in_transactions'),
+        missingInStream: Number(missingInStream.rows[0]?.count ?? 0),
+        pending: countOf(null),
+    };
+}
+
+/**
+ * 受信したレジャーイベントの状況を取得します。
+ * @param client データベースクライアント
+ * @param kind レジャーイベントの種類
+ */
+export async function getLedgerEventStreamStatus(
+    client: PoolClient,
+    kind: LedgerEventKind
+): Promise<LedgerEventStreamStatus> {
+    const toId = (value: unknown) => value === null || value === undefined ? null : Number(value);
+    const result = await client.query(`
+        SELECT COUNT(*) AS count, MIN(event_id) AS min_id, MAX(event_id) AS max_event_id, MAX(max_id) AS upstream_max_id,
+               MAX(received_at) AS last_received_at
+            FROM ledger_event_stream
+            WHERE kind = $1
+    `, [kind]);
+    const row = result.rows[0];
+    return {
+        kind,
+        count: Number(row?.count ?? 0),
+        minId: toId(row?.min_id),
+        maxId: toId(row?.max_event_id),
+        upstreamMaxId: toId(row?.upstream_max_id),
+        lastReceivedAt: row?.last_received_at ?? null,
+        gaps: await findLedgerEventGaps(client, kind),
+    };
+}
+
+/**
+ * 上流の zswapLedgerEvents / dustLedgerEvents サブスクリプションを購読し、受信したイベントを保存します。
+ * IDが連続していない場合は警告を出力し、一定数のイベントごとにトランザクションに含まれるイベントと突き合わせます。
+ * @param kind レジャーイベントの種類
+ * @param fromId 開始イベントID
+ * @param untilId このIDのイベントを受信したら終了します（nullの場合は購読が終了するまで続けます）
+ * @param signal 中断された場合は購読を終了します
+ * @returns 受信したイベント数
+ */
+export async function streamLedgerEvents(
+    kind: LedgerEventKind,
+    fromId: number,
+    untilId: number | null = null,
+    signal?: AbortSignal
+): Promise<number> {
+    const { query, toEvent } = STREAMS[kind];
+    const pool = await connectPostgres();
+    const client = await pool.connect();
+    const ws = createSubscriptionClient();
+    const onAbort = () => { ws.dispose(); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let expectedId = fromId;
+    let received = 0;
+    try {
+        for await (const result of ws.iterate({ query, variables: { id: fromId } })) {
+            if (result.errors && result.errors.length > 0) {
+                throw new Error(result.errors.map((error) => error.message).join(', '));
+            }
+            const event = toEvent(result.data);
+
+            if (event.id > expectedId) {
+                console.warn(`[ledger-event-stream] ⚠️ ${kind} event ID gap: ${expectedId}..${event.id - 1}`);
+            }
+            await saveStreamedLedgerEvent(client, kind, event);
+            expectedId = Math.max(expectedId, event.id + 1);
+            received++;
+
+            if (received % CROSS_CHECK_EVERY === 0) {
+                const check = await crossCheckLedgerEvents(client, kind);
+                console.log(
+                    `[ledger-event-stream] 📥 ${kind} event ${event.id.toLocaleString()}/${event.maxId.toLocaleString()} | ` +
+                    `一致: ${check.matched} | 不一致: ${check.rawMismatch} | ` +
+                    `トランザクションに無い: ${check.missingInTransactions} | 購読に無い: ${check.missingInStream}`
+                );
+            }
+            if (untilId !== null && event.id >= untilId) {
+                break;
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        await ws.dispose();
+        client.release();
+    }
+    return received;
+}
+
+/**
+ * 受信したイベントのIDが連続していない範囲を、その範囲から購読し直して埋めます。
+ * @param kind レジャーイベントの種類
+ * @param signal 中断された場合は終了します
+ * @returns 受信したイベント数
+ */
+export async function fillLedgerEventGaps(kind: LedgerEventKind, signal?: AbortSignal): Promise<number> {
+    const gaps = await withPgClient((client) => findLedgerEventGaps(client, kind));
+
+    let received = 0;
+    for (const gap of gaps) {
+        if (signal?.aborted) {
+            break;
+        }
+        console.log(`[ledger-event-stream] 🔁 Refilling ${kind} events ${gap.fromId}..${gap.toId}`);
+        received += await streamLedgerEvents(kind, gap.fromId, gap.toId, signal);
+    }
+    return received;
+}
+
+/**
+ * 指定した時間待機します。中断された場合は直ちに終了します。
+ * @param ms 待機時間（ミリ秒）
+ * @param signal 中断
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', done);
+            resolve();
+        }
+        signal.addEventListener('abort', done, { once: true });
+    });
+}
+
+/**
+ * レジャーイベントの購読を、中断されるまで続けます。
+ * 切断された場合は、保存済みのイベントの最大のIDの次から購読し直します。
+ * @param kind レジャーイベントの種類
+ * @param signal 中断
+ */
+async function followLedgerEvents(kind: LedgerEventKind, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+        try {
+            const fromId = await withPgClient((client) => getLedgerEventResumeId(client, kind));
+            console.log(`[ledger-event-stream] 👂 Subscribing to ${kind} ledger events from ID ${fromId.toLocaleString()}`);
+            await streamLedgerEvents(kind, fromId, null, signal);
+            if (!signal.aborted) {
+                console.warn(`[ledger-event-stream] ⚠️ ${kind} subscription completed`);
+            }
+        } catch (error) {
+            console.error(`[ledger-event-stream] ❌ ${kind} subscription failed:`, error instanceof Error ? error.message : error);
+        }
+
+        if (!signal.aborted) {
+            await withPgClient((client) => crossCheckLedgerEvents(client, kind)).catch((error) => {
+                console.error(`[ledger-event-stream] ❌ Failed to cross-check ${kind} events:`, error);
+            });
+            await delay(RECONNECT_DELAY_MS, signal);
+        }
+    }
+}
+
+/**
+ * 上流のレジャーイベントのサブスクリプションを購読するモードを開始します。中断されるまで終了しません。
+ * @param kinds 購読するレジャーイベントの種類
+ * @param signal 中断
+ */
+export async function startLedgerEventStream(kinds: LedgerEventKind[], signal: AbortSignal): Promise<void> {
+    await Promise.all(kinds.map((kind) => followLedgerEvents(kind, signal)));
+}
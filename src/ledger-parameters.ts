@@ -0,0 +1,411 @@
+import { createHash } from 'node:crypto';
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import { DecodedLedgerParameters, decodeLedgerParameters } from './ledger-event-decoder';
+
+/**
+ * レジャーパラメーターの履歴の更新を直列化するアドバイザリーロックのキー（'mnlp'）
+ */
+const LEDGER_PARAMETERS_LOCK = 0x6d6e6c70;
+
+/**
+ * 同じ値の列のうち、複製する列（ハッシュとデコード結果）
+ */
+const VERSION_VALUE_COLUMNS = `
+    params_hash, raw,
+    read_price, compute_price, block_usage_price, write_price,
+    night_dust_ratio, generation_decay_rate, dust_grace_period_seconds,
+    transaction_byte_limit, global_ttl_seconds, decoded, decode_error
+`;
+
+/**
+ * レジャーパラメーターのバージョン（同じ値が連続して使われたブロックの範囲ごとに1件）
+ * A → B → A と値が戻った場合、A は2件になります。
+ */
+export type LedgerParameterVersion = {
+    id: number;
+    paramsHash: string;
+    firstHeight: number;
+    lastHeight: number;
+    decoded: DecodedLedgerParameters | null;
+    decodeError: string | null;
+};
+
+/**
+ * シリアライズされたレジャーパラメーターのハッシュを返します。
+ * @param raw 16進数でシリアライズされたレジャーパラメーター
+ */
+function hashLedgerParameters(raw: string): string {
+    const hex = (raw.startsWith('0x') ? raw.substring(2) : raw).toLowerCase();
+    return createHash('sha256').update(hex).digest('hex');
+}
+
+/**
+ * 期間の文字列（秒）を数値の文字列に変換します。
+ * @param value 値
+ */
+function toSeconds(value: string | null | undefined): string | null {
+    return value && /^\d+$/.test(value) ? value : null;
+}
+
+/**
+ * 数値の文字列を返します。数値でない場合はnullを返します。
+ * @param value 値
+ */
+function toNumeric(value: string | null | undefined): string | null {
+    return value && /^-?\d+(\.\d+)?$/.test(value) ? value : null;
+}
+
+/**
+ * 行をレジャーパラメーターのバージョンに変換します。
+ * @param row 行
+ */
+function toLedgerParameterVersion(row: any): LedgerParameterVersion {
+    return {
+        id: Number(row.id),
+        paramsHash: row.params_hash,
+        firstHeight: Number(row.first_height),
+        lastHeight: Number(row.last_height),
+        decoded: row.decoded,
+        decodeError: row.decode_error,
+    };
+}
+
+/**
+ * 新しいレジャーパラメーターのバージョンを保存します。
+ * 同じ値のバージョンが既にある場合はデコード結果を複製し、初めて見る値の場合はデコードします。
+ * @param client データベースクライアント
+ * @param paramsHash ハッシュ
+ * @param raw 16進数でシリアライズされたレジャーパラメーター
+ * @param firstHeight 最初のブロック高さ
+ * @param lastHeight 最後のブロック高さ
+ * @returns バージョンID
+ */
+async function insertLedgerParameterVersion(
+    client: PoolClient,
+    paramsHash: string,
+    raw: string,
+    firstHeight: number,
+    lastHeight: number
+): Promise<number> {
+    const copied = await client.query(`
+        INSERT INTO ledger_parameter_versions (${VERSION_VALUE_COLUMNS}, first_height, last_height)
+            SELECT ${VERSION_VALUE_COLUMNS}, $2, $3
+                FROM ledger_parameter_versions
+                WHERE params_hash = $1
+                ORDER BY id
+                LIMIT 1
+            RETURNING id
+    `, [paramsHash, firstHeight, lastHeight]);
+    if (copied.rows[0]) {
+        return Number(copied.rows[0].id);
+    }
+
+    let decoded: DecodedLedgerParameters | null = null;
+    let decodeError: string | null = null;
+    try {
+        decoded = await decodeLedgerParameters(raw);
+    } catch (error) {
+        decodeError = error instanceof Error ? error.message : String(error);
+        console.warn(`[ledger-parameters] ⚠️ Failed to decode ledger parameters at block ${firstHeight}:`, decodeError);
+    }
+
+    const result = await client.query(`
+        INSERT INTO ledger_parameter_versions
+            (params_hash, raw, first_height, last_height,
+             read_price, compute_price, block_usage_price, write_price,
+             night_dust_ratio, generation_decay_rate, dust_grace_period_seconds,
+             transaction_byte_limit, global_ttl_seconds, decoded, decode_error)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+            RETURNING id
+    `, [
+        paramsHash,
+        raw,
+        firstHeight,
+        lastHeight,
+        toNumeric(decoded?.feePrices.readPrice),
+        toNumeric(decoded?.feePrices.computePrice),
+        toNumeric(decoded?.feePrices.blockUsagePrice),
+        toNumeric(decoded?.feePrices.writePrice),
+        toNumeric(decoded?.dust.nightDustRatio),
+        toNumeric(decoded?.dust.generationDecayRate),
+        toSeconds(decoded?.dust.dustGracePeriod),
+        toNumeric(decoded?.limits.transactionByteLimit),
+        toSeconds(decoded?.globalTtl),
+        decoded,
+        decodeError,
+    ]);
+    return Number(result.rows[0].id);
+}
+
+/**
+ * 指定したブロック高さを含むバージョンを取得します。
+ * @param client データベースクライアント
+ * @param height ブロック高さ
+ */
+async function findVersionCovering(
+    client: PoolClient,
+    height: number
+): Promise<{ id: number; params_hash: string; first_height: number; last_height: number } | null> {
+    const result = await client.query(`
+        SELECT id, params_hash, first_height, last_height
+            FROM ledger_parameter_versions
+            WHERE first_height <= $1 AND last_height >= $1
+            ORDER BY id
+            LIMIT 1
+    `, [height]);
+    const row = result.rows[0];
+    return row
+        ? { id: Number(row.id), params_hash: row.params_hash, first_height: Number(row.first_height), last_height: Number(row.last_height) }
+        : null;
+}
+
+/**
+ * バージョンの範囲から指定したブロック高さを取り除きます。
+ * 範囲の途中の場合は、後ろ側を同じ値の新しいバージョンに分けます。
+ * @param client データベースクライアント
+ * @param height ブロック高さ
+ */
+async function detachHeight(client: PoolClient, height: number): Promise<void> {
+    const version = await findVersionCovering(client, height);
+    if (!version) {
+        return;
+    }
+
+    if (version.first_height === height && version.last_height === height) {
+        await client.query('DELETE FROM ledger_parameter_versions WHERE id = $1', [version.id]);
+    } else if (version.first_height === height) {
+        await client.query(
+            'UPDATE ledger_parameter_versions SET first_height = $2, updated_at = NOW() WHERE id = $1',
+            [version.id, height + 1]
+        );
+    } else if (version.last_height === height) {
+        await client.query(
+            'UPDATE ledger_parameter_versions SET last_height = $2, updated_at = NOW() WHERE id = $1',
+            [version.id, height - 1]
+        );
+    } else {
+        await client.query(
+            'UPDATE ledger_parameter_versions SET last_height = $2, updated_at = NOW() WHERE id = $1',
+            [version.id, height - 1]
+        );
+        const rest = await client.query(`
+            INSERT INTO ledger_parameter_versions (${VERSION_VALUE_COLUMNS}, first_height, last_height)
+                SELECT ${VERSION_VALUE_COLUMNS}, $2, $3 FROM ledger_parameter_versions WHERE id = $1
+                RETURNING id
+        `, [version.id, height + 1, version.last_height]);
+        await client.query(
+            'UPDATE blocks SET ledger_parameter_version_id = $1 WHERE height BETWEEN $2 AND $3 AND ledger_parameter_version_id = $4',
+            [rest.rows[0].id, height + 1, version.last_height, version.id]
+        );
+    }
+}
+
+/**
+ * ブロックのレジャーパラメーターを記録します。
+ * 前後の高さのブロックと同じ値の場合はそのバージョンの範囲を広げ（前後の両方と同じ値の場合は1つにまとめ）、
+ * 異なる値の場合は新しいバージョンを作成します。
+ * ブロックは任意の順序（並列のバックフィルなど）で記録されるため、更新はアドバイザリーロックで直列化します。
+ * @param client データベースクライアント
+ * @param blockId ブロックID
+ * @param height ブロック高さ
+ * @param raw 16進数でシリアライズされたレジャーパラメーター
+ * @returns バージョンID
+ */
+export async function recordLedgerParameters(
+    client: PoolClient,
+    blockId: number,
+    height: number,
+    raw: string
+): Promise<number> {
+    const paramsHash = hashLedgerParameters(raw);
+    await client.query('SELECT pg_advisory_xact_lock($1::INT, 0)', [LEDGER_PARAMETERS_LOCK]);
+
+    // 同じ高さのブロックを再インポートした場合
+    const current = await findVersionCovering(client, height);
+    if (current?.params_hash === paramsHash) {
+        await client.query('UPDATE blocks SET ledger_parameter_version_id = $1 WHERE id = $2', [current.id, blockId]);
+        return current.id;
+    }
+    if (current) {
+        await detachHeight(client, height);
+    }
+
+    const neighbors = await client.query(`
+        SELECT id, first_height, last_height
+            FROM ledger_parameter_versions
+            WHERE params_hash = $1 AND (last_height = $2 - 1 OR first_height = $2 + 1)
+    `, [paramsHash, height]);
+    const previous = neighbors.rows.find((row) => Number(row.last_height) === height - 1);
+    const next = neighbors.rows.find((row) => Number(row.first_height) === height + 1);
+
+    let versionId: number;
+    if (previous && next) {
+        versionId = Number(previous.id);
+        await client.query(
+            'UPDATE blocks SET ledger_parameter_version_id = $1 WHERE ledger_parameter_version_id = $2',
+            [versionId, next.id]
+        );
+        await client.query('DELETE FROM ledger_parameter_versions WHERE id = $1', [next.id]);
+        await client.query(
+            'UPDATE ledger_parameter_versions SET last_height = $2, updated_at = NOW() WHERE id = $1',
+            [versionId, next.last_height]
+        );
+    } else if (previous) {
+        versionId = Number(previous.id);
+        await client.query(
+            'UPDATE ledger_parameter_versions SET last_height = $2, updated_at = NOW() WHERE id = $1',
+            [versionId, height]
+        );
+    } else if (next) {
+        versionId = Number(next.id);
+        await client.query(
+            'UPDATE ledger_parameter_versions SET first_height = $2, updated_at = NOW() WHERE id = $1',
+            [versionId, height]
+        );
+    } else {
+        versionId = await insertLedgerParameterVersion(client, paramsHash, raw, height, height);
+    }
+
+    await client.query(
+        'UPDATE blocks SET ledger_parameter_version_id = $1 WHERE id = $2',
+        [versionId, blockId]
+    );
+    return versionId;
+}
+
+/**
+ * 保存したブロックのうち、バージョンが未記録のブロックのレジャーパラメーターを記録します。
+ * 履歴の更新は全体のアドバイザリーロックで直列化するため、ブロックを保存したトランザクションの中で記録すると
+ * バッチのCOMMITまでロックを保持し、並列のバックフィルのワーカーが互いに待つことになります。
+ * そのため、ブロックの保存をCOMMITした後に、トランザクションの外で呼び出してください（記録は短いトランザクションで行います）。
+ * 記録する前にプロセスが停止した場合は rebuildLedgerParameterVersions で作り直せます。
+ * @param client データベースクライアント
+ * @param heights 保存したブロック高さ
+ * @returns 記録したブロック数
+ */
+export async function recordPendingLedgerParameters(client: PoolClient, heights: number[]): Promise<number> {
+    await client.query('BEGIN');
+    try {
+        const blocks = await client.query(`
+            SELECT id, height, ledger_parameters
+                FROM blocks
+                WHERE height = ANY($1::BIGINT[])
+                  AND ledger_parameters IS NOT NULL AND ledger_parameters <> ''
+                  AND ledger_parameter_version_id IS NULL
+                ORDER BY height
+        `, [heights]);
+        for (const row of blocks.rows) {
+            await recordLedgerParameters(client, Number(row.id), Number(row.height), row.ledger_parameters);
+        }
+        await client.query('COMMIT');
+        return blocks.rows.length;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    }
+}
+
+/**
+ * 削除するブロックを、レジャーパラメーターのバージョンの範囲から取り除きます。
+ * チェーン再編成でブロックを削除する前に呼び出してください。
+ * @param client データベースクライアント
+ * @param blockIds 削除するブロックID
+ */
+export async function removeLedgerParameterBlocks(client: PoolClient, blockIds: number[]): Promise<void> {
+    const blocks = await client.query(`
+        SELECT height
+            FROM blocks
+            WHERE id = ANY($1::BIGINT[]) AND ledger_parameter_version_id IS NOT NULL
+            ORDER BY height DESC
+    `, [blockIds]);
+    if (blocks.rows.length === 0) {
+        return;
+    }
+
+    await client.query('SELECT pg_advisory_xact_lock($1::INT, 0)', [LEDGER_PARAMETERS_LOCK]);
+    for (const row of blocks.rows) {
+        await detachHeight(client, Number(row.height));
+    }
+}
+
+/**
+ * 指定したブロック高さで使われていたレジャーパラメーターのバージョンを取得します。
+ * @param client データベースクライアント
+ * @param height ブロック高さ
+ * @returns バージョン。見つからない場合はnullを返します。
+ */
+export async function getLedgerParameterVersionAt(
+    client: PoolClient,
+    height: number
+): Promise<LedgerParameterVersion | null> {
+    const result = await client.query(`
+        SELECT v.id, v.params_hash, v.first_height, v.last_height, v.decoded, v.decode_error
+            FROM blocks b
+            JOIN ledger_parameter_versions v ON v.id = b.ledger_parameter_version_id
+            WHERE b.height = $1
+    `, [height]);
+    return result.rows[0] ? toLedgerParameterVersion(result.rows[0]) : null;
+}
+
+/**
+ * レジャーパラメーターのバージョンの一覧を取得します。
+ * @param client データベースクライアント
+ * @returns バージョン（最初のブロック高さ順）
+ */
+export async function listLedgerParameterVersions(client: PoolClient): Promise<LedgerParameterVersion[]> {
+    const result = await client.query(`
+        SELECT id, params_hash, first_height, last_height, decoded, decode_error
+            FROM ledger_parameter_versions
+            ORDER BY first_height, id
+    `);
+    return result.rows.map(toLedgerParameterVersion);
+}
+
+/**
+ * 保存済みのブロックからレジャーパラメーターのバージョンを作り直します。
+ * @returns 作成したバージョン数
+ */
+export async function rebuildLedgerParameterVersions(): Promise<number> {
+    return withPgClient(async (client) => {
+        await client.query('BEGIN');
+        try {
+            await client.query('UPDATE blocks SET ledger_parameter_version_id = NULL WHERE ledger_parameter_version_id IS NOT NULL');
+            await client.query('DELETE FROM ledger_parameter_versions');
+
+            // 同じ値が連続したブロックの範囲（高さとその値の中での順位の差が等しい範囲）ごとに1件
+            const values = await client.query(`
+                SELECT ledger_parameters, MIN(height) AS first_height, MAX(height) AS last_height
+                    FROM (
+                        SELECT height, ledger_parameters,
+                               height - ROW_NUMBER() OVER (PARTITION BY ledger_parameters ORDER BY height) AS run
+                            FROM blocks
+                            WHERE ledger_parameters IS NOT NULL AND ledger_parameters <> ''
+                    ) AS runs
+                    GROUP BY ledger_parameters, run
+                    ORDER BY MIN(height)
+            `);
+
+            for (const row of values.rows) {
+                const raw: string = row.ledger_parameters;
+                const versionId = await insertLedgerParameterVersion(
+                    client,
+                    hashLedgerParameters(raw),
+                    raw,
+                    Number(row.first_height),
+                    Number(row.last_height)
+                );
+                await client.query(
+                    'UPDATE blocks SET ledger_parameter_version_id = $1 WHERE height BETWEEN $2 AND $3',
+                    [versionId, row.first_height, row.last_height]
+                );
+            }
+
+            await client.query('COMMIT');
+            return values.rows.length;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        }
+    });
+}
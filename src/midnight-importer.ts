@@ -2,23 +2,25 @@ import { connectPostgres, withPgClient } from './database';
 import type { ApiPromise } from '@polkadot/api';
 import type { Error, Header } from '@polkadot/types/interfaces';
 import { PoolClient } from 'pg';
-import { Block, Extrinsic } from './types/chain';
+import { Block, BlockEvent, Extrinsic } from './types/chain';
 import {
     GetBlockByHeightQuery,
     RegularTransaction,
     SystemTransaction,
     UnshieldedUtxo,
     ContractCall,
+    ContractDeploy,
+    ContractUpdate,
     ContractBalance,
 } from './graphql/generated';
 import {
     subscribe,
     getBlockData,
     toDate,
-    getFinalizedBlockHeight,
+    isLegacyFallbackTimestamp,
     getBlockByHeight,
     TOKEN_TYPE,
-    decodeFromMnAddrPreview,
+    decodeFromMnAddr,
     connectToChain,
     getBlockDataByHeight,
     isRegularTransaction,
@@ -28,12 +30,44 @@ import {
     isDustSpendProcessed,
     isParamChange,
     isContractCall,
+    isContractDeploy,
+    isContractUpdate,
     isContractBalance,
     encodeToMnAddr,
 } from './midnight-indexer';
+import { notifyBlockImported } from './notifications';
+import { resolveChainReorg } from './chain-reorg';
+import { enqueueGraphQLRetry, getDueGraphQLRetries, completeGraphQLRetry } from './graphql-retry-queue';
+import { fetchBlock, getLatestSourceHeight, providesBlockData } from './block-source';
+import { NETWORK, verifyGenesisHash } from './network';
+import { recordPendingLedgerParameters } from './ledger-parameters';
+import { recordBlockAuthorship } from './block-authorship';
+import { recordBlockRuntime } from './runtime-versions';
+import { recordAddressActivity } from './address-activity';
+import { recordTransactionTokens, sumTokenTotals } from './tokens';
+import { countContractActions, recordContractActions, refreshContractBalances } from './contracts';
+import { recordContractState } from './contract-states';
+import {
+    DecodedLedgerEvent,
+    decodeLedgerEvent,
+    toDustLedgerEventColumns,
+    toZswapLedgerEventColumns,
+} from './ledger-event-decoder';
 
-// GraphQLブロックインポートのキュー（ブロック高さの配列）
-const pendingGraphQLBlocks: number[] = [];
+// 購読したブロックのインポートを順番に実行するためのキュー
+// （親ブロックとの比較によるチェーン再編成の検出は、ブロックが順番に保存されることが前提）
+let blockImportChain: Promise<void> = Promise.resolve();
+
+
+/**
+ * ブロックのインポート処理をキューに追加し、前の処理が終わってから実行します。
+ * @param task インポート処理
+ */
+function enqueueBlockImport(task: () => Promise<void>): Promise<void> {
+    const run = blockImportChain.then(task);
+    blockImportChain = run.catch(() => undefined);
+    return run;
+}
 
 
 /**
@@ -45,14 +79,31 @@ export async function processBlock(height: number): Promise<void> {
 }
 
 
+/**
+ * ブロックソースのジェネシスブロックが、インデックスするネットワークのものか確認します。
+ * 確認できない場合やネットワークが異なる場合はエラーになります。
+ */
+export async function verifyNetwork(): Promise<void> {
+    const genesis = await fetchBlock(0);
+    const hash = genesis.graphqlBlock?.hash ?? genesis.polkadotBlock?.hash;
+    if (!hash) {
+        throw new Error(`Genesis block of ${NETWORK.name} is not available from block sources`);
+    }
+    await withPgClient((client) => verifyGenesisHash(client, String(hash)));
+}
+
+
 /**
  * インポートを開始します。
+ * 最初にブロックソースがインデックスするネットワークのものか確認します。
  * @param startHeight 開始ブロック高さ
  * @param batchSize バッチサイズ（デフォルト: 10）
  */
 export async function startImporting(startHeight: number = 0, batchSize: number = 10):
     Promise<void> {
 
+    await verifyNetwork();
+
     const pool = await connectPostgres();
     const client = await pool.connect();
     const maxHeight = Number(await getMaxBlockHeight(client));
@@ -61,10 +112,7 @@ export async function startImporting(startHeight: number = 0, batchSize: number
         startHeight = maxHeight + 1;
     }
 
-    // Polkadot APIに接続
-    await connectToChain();
-
-    let height = Number(Math.min(await getFinalizedBlockHeight(), await getMaxBlockHeight(client)));
+    let height = Number(Math.min(await getLatestSourceHeight(), await getMaxBlockHeight(client)));
 
     const startTime = Date.now();
     let processedBlocks = 0;
@@ -105,7 +153,7 @@ export async function startImporting(startHeight: number = 0, batchSize: number
                 `ETA: ${etaMinutes}分${etaSeconds}秒`
             );
 
-            height = Number(Math.min(await getFinalizedBlockHeight(), await getMaxBlockHeight(client)));
+            height = Number(Math.min(await getLatestSourceHeight(), await getMaxBlockHeight(client)));
         }
     }
 
@@ -118,39 +166,51 @@ export async function startImporting(startHeight: number = 0, batchSize: number
     console.log(`📊 総処理時間: ${totalMinutes}分${totalSeconds}秒`);
     console.log(`⚡ 平均速度: ${averageSpeed.toFixed(2)} ブロック/秒`);
 
+    // 新しいブロックの購読はPolkadot RPCが必要
+    if (!providesBlockData('polkadot')) {
+        console.warn('⚠️ Polkadot RPCのブロックソースが設定されていないため、新しいブロックの購読は行いません');
+        return;
+    }
+
     await startMidnightIndex();
 }
 
 
+/**
+ * ブロックをブロックソースから取得して保存します。
+ * トランザクションは呼び出し側で開始し、COMMIT後に recordPendingLedgerParameters でレジャーパラメーターの履歴を記録してください。
+ * @param client データベースクライアント
+ * @param heights 保存するブロック高さの配列
+ */
+export async function importBlocks(client: PoolClient, heights: number[]): Promise<void> {
+    // バッチ内のブロックデータをブロックソースから並列で取得
+    const blockDataArray = await Promise.all(heights.map((height) => fetchBlock(height)));
+
+    // ブロックを順次処理（データベースの整合性を保つため）
+    for (const { height, polkadotBlock, graphqlBlock, missing } of blockDataArray) {
+        console.log(`🔍 Processing block ${height.toString()} ...`);
+        if (polkadotBlock) {
+            await insertBlock(client, polkadotBlock);
+        }
+        if (graphqlBlock) {
+            await insertGraphQLBlock(client, graphqlBlock);
+        } else if (missing.includes('graphql')) {
+            // GraphQLのデータだけ取得できなかった場合は再試行キューに追加
+            await enqueueGraphQLRetry(client, height, `Block ${height} is not available from GraphQL block sources`);
+        }
+    }
+}
+
 /**
  * バッチでブロックを処理します。
  * @param heights 処理するブロック高さの配列
  */
-async function processBatch(heights: number[]): Promise<void> {
+export async function processBatch(heights: number[]): Promise<void> {
     await withPgClient(async (client) => {
         await client.query('BEGIN');
 
         try {
-            // バッチ内のブロックデータを並列で取得
-            const blockDataPromises = heights.map(height => 
-                Promise.all([
-                    getBlockDataByHeight(height),
-                    getBlockByHeight(height)
-                ]).then(([polkadotBlock, graphqlBlock]) => ({
-                    height,
-                    polkadotBlock,
-                    graphqlBlock
-                }))
-            );
-
-            const blockDataArray = await Promise.all(blockDataPromises);
-
-            // ブロックを順次処理（データベースの整合性を保つため）
-            for (const { height, polkadotBlock, graphqlBlock } of blockDataArray) {
-                console.log(`🔍 Processing block ${height.toString()} ...`);
-                await insertBlock(client, polkadotBlock);
-                await insertGraphQLBlock(client, graphqlBlock);
-            }
+            await importBlocks(client, heights);
 
             await client.query('COMMIT');
             console.log(`✅ Batch processed: blocks ${heights[0]} to ${heights[heights.length - 1]} (${heights.length} blocks)`);
@@ -160,6 +220,8 @@ async function processBatch(heights: number[]): Promise<void> {
             console.error(`[midnight-importer] ❌ Error processing batch [${heights[0]} - ${heights[heights.length - 1]}]:`, error);
             throw error;
         }
+
+        await recordPendingLedgerParameters(client, heights);
     });
 }
 
@@ -172,13 +234,13 @@ export async function startMidnightIndex(): Promise<void> {
         
         console.log(`🔍 New block ${header.number.toNumber()}`);
 
-        await importNewBlock(header);
+        await enqueueBlockImport(() => importNewBlock(header));
 
     }, async (header: Header) => {
 
         console.log(`🔍 Finalized block ${header.number.toNumber()}`);
 
-        await importFinalizedBlock(header);
+        await enqueueBlockImport(() => importFinalizedBlock(header));
     });
 }
 
@@ -194,6 +256,12 @@ async function importNewBlock(header: Header): Promise<void> {
         await client.query('BEGIN');
 
         try {
+            // チェーン再編成を検出した場合は破棄したブランチを削除し、正規チェーンを再インポートする
+            const canonicalBlocks = await resolveChainReorg(client, data);
+            for (const block of canonicalBlocks ?? []) {
+                await insertBlock(client, block);
+            }
+
             await insertBlock(client, data);
 
             await client.query('COMMIT');
@@ -217,6 +285,15 @@ async function importFinalizedBlock(header: Header): Promise<void> {
         await client.query('BEGIN');
 
         try {
+            // ファイナライズされたブロックが保存済みのブロックと異なる場合も、チェーン再編成として扱う
+            const canonicalBlocks = await resolveChainReorg(client, data);
+            if (canonicalBlocks) {
+                for (const block of canonicalBlocks) {
+                    await insertBlock(client, block);
+                }
+                await insertBlock(client, data);
+            }
+
             await updateFinalizedBlock(client, data);
 
             await client.query('COMMIT');
@@ -227,46 +304,71 @@ async function importFinalizedBlock(header: Header): Promise<void> {
         }
     });
 
-    // 現在のブロックとキュー内のブロックを処理
-    const blocksToProcess = [blockHeight, ...pendingGraphQLBlocks];
-    pendingGraphQLBlocks.length = 0; // キューをクリア
+    // 現在のブロックと再試行時刻を過ぎたキュー内のブロックを処理
+    const dueHeights = await withPgClient((client) => getDueGraphQLRetries(client));
+    const blocksToProcess = [blockHeight, ...dueHeights.filter((height) => height !== blockHeight)];
 
     for (const height of blocksToProcess) {
         try {
             const graphqlBlock = await getBlockByHeight(height);
-            
-            if (graphqlBlock) {
-                // ブロックが存在する場合はインポート
-                await withPgClient(async (client) => {
-                    await client.query('BEGIN');
 
-                    try {
-                        await insertGraphQLBlock(client, graphqlBlock);
-                        await client.query('COMMIT');
-                        console.log(`✅ GraphQL block ${height} imported successfully`);
-                    }
-                    catch (error) {
-                        await client.query('ROLLBACK');
-                        console.error(`❌ Error importing GraphQL block ${height}:`, error);
-                        throw error;
-                    }
-                });
-            } else {
+            if (!graphqlBlock) {
                 // ブロックが存在しない場合はキューに追加
-                if (!pendingGraphQLBlocks.includes(height)) {
-                    pendingGraphQLBlocks.push(height);
-                }
+                throw new Error(`Block ${height} is not yet available in the GraphQL indexer`);
             }
+
+            await withPgClient(async (client) => {
+                await client.query('BEGIN');
+
+                try {
+                    await insertGraphQLBlock(client, graphqlBlock);
+                    await completeGraphQLRetry(client, height);
+                    await client.query('COMMIT');
+                    console.log(`✅ GraphQL block ${height} imported successfully`);
+                }
+                catch (error) {
+                    await client.query('ROLLBACK');
+                    console.error(`❌ Error importing GraphQL block ${height}:`, error);
+                    throw error;
+                }
+
+                await recordPendingLedgerParameters(client, [height]);
+            });
         } catch (error) {
             // エラーが発生した場合もキューに追加（ネットワークエラーなど）
-            if (!pendingGraphQLBlocks.includes(height)) {
-                pendingGraphQLBlocks.push(height);
-                console.error(`❌ Error fetching GraphQL block ${height}, queued for retry:`, error);
+            try {
+                await withPgClient((client) => enqueueGraphQLRetry(client, height, error));
+                console.warn(`⏳ GraphQL block ${height} queued for retry:`, error instanceof Error ? error.message : error);
+            } catch (queueError) {
+                console.error(`❌ Failed to queue GraphQL block ${height} for retry:`, queueError);
             }
         }
     }
 }
 
+/**
+ * ブロックのタイムスタンプが、親ブロックのタイムスタンプより前でないことを確認します。
+ * 親ブロックが未インポートの場合や、親ブロックに以前の変換の代わりの日時が保存されている場合は確認しません。
+ * @param client データベースクライアント
+ * @param height ブロック高さ
+ * @param timestamp ブロックのタイムスタンプ
+ */
+async function validateBlockTimestamp(client: PoolClient, height: number, timestamp: Date): Promise<void> {
+    if (height === 0) {
+        return;
+    }
+    const result = await client.query('SELECT timestamp FROM blocks WHERE height = $1', [height - 1]);
+    const parent: Date | undefined = result.rows[0]?.timestamp;
+    if (!parent || isLegacyFallbackTimestamp(parent)) {
+        return;
+    }
+    if (timestamp.getTime() < parent.getTime()) {
+        throw new Error(
+            `Block ${height} timestamp ${timestamp.toISOString()} is earlier than parent block timestamp ${parent.toISOString()}`
+        );
+    }
+}
+
 /**
  * 
  * @param client データベースクライアント
@@ -280,6 +382,8 @@ async function insertGraphQLBlock(client: PoolClient, block: GetBlockByHeightQue
     }
 
     const parentHash = (block.height > 0 || block.parent) ? block.parent?.hash : '0'.repeat(64);
+    const timestamp = toDate(block.timestamp, 'milliseconds');
+    await validateBlockTimestamp(client, block.height, timestamp);
 
     const blockResult = await client.query(`
         INSERT INTO blocks
@@ -288,20 +392,21 @@ async function insertGraphQLBlock(client: PoolClient, block: GetBlockByHeightQue
             ON CONFLICT (height) DO UPDATE SET
                 hash = EXCLUDED.hash,
                 parent_hash = EXCLUDED.parent_hash,
-                slot = EXCLUDED.slot,
                 timestamp = EXCLUDED.timestamp,
                 tx_count = EXCLUDED.tx_count,
                 is_finalized = EXCLUDED.is_finalized,
-                author = EXCLUDED.author,
+                author = COALESCE(blocks.author, EXCLUDED.author),
                 protocol_version = EXCLUDED.protocol_version,
-                ledger_parameters = EXCLUDED.ledger_parameters
+                ledger_parameters = EXCLUDED.ledger_parameters,
+                -- レジャーパラメーターの履歴はCOMMIT後に recordPendingLedgerParameters で記録し直す
+                ledger_parameter_version_id = NULL
             RETURNING id
     `, [
         block.hash,
         block.height,
         parentHash,
-        block.height,
-        toDate(block.timestamp),
+        null, // slot はダイジェストから求める
+        timestamp,
         block.transactions.length,
         true,
         block.author,
@@ -320,6 +425,9 @@ async function insertGraphQLBlock(client: PoolClient, block: GetBlockByHeightQue
         const transaction = block.transactions[i];
         await insertTransaction(client, blockId, transaction, i);
     }
+
+    // GraphQLサブスクリプションへ通知（COMMIT時に配信される）
+    await notifyBlockImported(client, block.height);
 }
 
 
@@ -356,22 +464,10 @@ async function insertTransaction(
         estimatedFees = tx.fees.estimatedFees;
     }
 
-    let totalInput = 0;
-    let totalOutput = 0;
-    if (tx.unshieldedSpentOutputs && tx.unshieldedSpentOutputs.length > 0) {
-        for (const output of tx.unshieldedSpentOutputs) {
-            if (output.tokenType === TOKEN_TYPE.NIGHT) {
-                totalInput += Number(output.value);
-            }
-        }
-    }
-    if (tx.unshieldedCreatedOutputs && tx.unshieldedCreatedOutputs.length > 0) {
-        for (const output of tx.unshieldedCreatedOutputs) {
-            if (output.tokenType === TOKEN_TYPE.NIGHT) {
-                totalOutput += Number(output.value);
-            }
-        }
-    }
+    // トークンごとの合計（unshielded_total_input / output はNIGHTの合計）
+    const tokenTotals = sumTokenTotals(tx);
+    const totalInput = (tokenTotals.get(TOKEN_TYPE.NIGHT)?.input ?? 0n).toString();
+    const totalOutput = (tokenTotals.get(TOKEN_TYPE.NIGHT)?.output ?? 0n).toString();
 
     const transactionResult = await client.query(`
         INSERT INTO transactions
@@ -424,7 +520,7 @@ async function insertTransaction(
         tx.block.height,
         tx.block.hash,
         index,
-        toDate(tx.block.timestamp),
+        toDate(tx.block.timestamp, 'milliseconds'),
         false, // TODO: シールドトランザクションかどうか
         tx.protocolVersion,
         tx.id,
@@ -452,11 +548,14 @@ async function insertTransaction(
             await insertTransactionResultSegments(client, tx, id);
         }
 
-        // アンシールド出力
-        await insertUnshieldedOutputs(client, tx, id);
-        await insertUnshieldedInputs(client,tx, id);
+        // アンシールドUTXO
+        await insertUnshieldedUtxos(client, tx);
+        // アドレスごとの履歴と残高
+        await recordAddressActivity(client, id);
+        // トークンごとの合計と供給量
+        await recordTransactionTokens(client, id, tx.block.height, tokenTotals);
         // コントラクトアクション
-        await insertContractActions(client, tx, id);
+        await insertContractActions(client, tx, id, index);
         // ZSwapレジャーイベント
         await insertZSwapLedgerEvents(client, tx, id);
         // DUSTレジャーイベント
@@ -538,7 +637,7 @@ async function insertTransactionResultSegments(
 async function insertOrUpdateAddress(
     client: PoolClient,
     unshielded_address: string,
-    timestamp: number
+    timestamp: Date
 ): Promise<number> {
 
     if (unshielded_address.startsWith('0x') || !unshielded_address.startsWith('mn_')) {
@@ -557,166 +656,163 @@ async function insertOrUpdateAddress(
             RETURNING id
     `, [
         unshielded_address,
-        decodeFromMnAddrPreview(unshielded_address, false),
-        toDate(timestamp),
+        decodeFromMnAddr(unshielded_address, false),
+        timestamp,
     ]);
 
     return addressResult.rows[0]?.id as number;
 }
 
 /**
- * アンシールド出力をインポートします。
+ * トランザクションが作成・消費したアンシールドUTXOをインポートします。
  * @param client データベースクライアント
- * @param tx アンシールド出力を含むトランザクション
- * @param txId トランザクションID
- * @returns アンシールド出力のインデックス
+ * @param tx アンシールドUTXOを含むトランザクション
  */
-async function insertUnshieldedOutputs(
+async function insertUnshieldedUtxos(
     client: PoolClient,
-    tx: RegularTransaction | SystemTransaction,
-    txId: number
-): Promise<number> {
-
-    let index = 0;
-    for (const output of tx.unshieldedSpentOutputs) {
-
-        const outputId = await insertUnshieldedOutput(
-            client,
-            output,
-            'tx_outputs',
-            tx,
-            txId,
-            index++
-        );
+    tx: RegularTransaction | SystemTransaction
+): Promise<void> {
 
+    for (const utxo of tx.unshieldedCreatedOutputs) {
+        await upsertUnshieldedUtxo(client, utxo, tx, 'created');
     }
 
-    return index;
-}
-
-
-async function insertUnshieldedInputs(
-    client: PoolClient,
-    tx: RegularTransaction | SystemTransaction,
-    txId: number
-): Promise<number> {
-
-    let index = 0;
-    for (const output of tx.unshieldedCreatedOutputs) {
-
-        const outputId = await insertUnshieldedOutput(
-            client,
-            output,
-            'tx_inputs',
-            tx,
-            txId,
-            index++
-        );
-
+    for (const utxo of tx.unshieldedSpentOutputs) {
+        await upsertUnshieldedUtxo(client, utxo, tx, 'spent');
     }
-
-    return index;
 }
 
-
-async function insertUnshieldedOutput(
+/**
+ * アンシールドUTXOを（作成したトランザクションのハッシュ, 出力インデックス）をキーに保存します。
+ *
+ * 作成側と消費側のどちらのトランザクションを先にインポートしても同じ行にまとまるように、
+ * 作成・消費トランザクションはハッシュで transactions を引いて ID と高さを解決します。
+ * まだインポートしていないトランザクションはハッシュのみ記録し、後からインポートした側で解決します。
+ *
+ * @param client データベースクライアント
+ * @param utxo アンシールドUTXO
+ * @param tx インポート中のトランザクション
+ * @param side インポート中のトランザクションがUTXOを作成したか消費したか
+ */
+async function upsertUnshieldedUtxo(
     client: PoolClient,
-    io: UnshieldedUtxo,
-    table: 'tx_inputs' | 'tx_outputs',
+    utxo: UnshieldedUtxo,
     tx: RegularTransaction | SystemTransaction,
-    txId: number,
-    index: number
-): Promise<number>
+    side: 'created' | 'spent'
+): Promise<void>
 {
-
-    if (io.owner.startsWith('0x')) {
-        io.owner = encodeToMnAddr(io.owner);
+    let owner = utxo.owner.toString();
+    if (owner.startsWith('0x')) {
+        owner = encodeToMnAddr(owner);
     }
-    io.owner = io.owner.toString().toLowerCase();
+    owner = owner.toLowerCase();
 
     const addressId = await insertOrUpdateAddress(
         client,
-        io.owner,
-        io.ctime ?? tx.block.timestamp
+        owner,
+        utxo.ctime != null ? toDate(utxo.ctime, 'seconds') : toDate(tx.block.timestamp, 'milliseconds')
     );
 
-    const inputResult = await client.query(`
-        INSERT INTO ${table}
-            (tx_id, index, account_addr, value, shielded, address_id, created_at_tx_hash, spent_at_tx_hash, intent_hash, ctime, initial_nonce, registered_for_dust_generation, token_type, spent_at_transaction_id, spent_at_transaction_hash, raw)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
-            ON CONFLICT (tx_id, index) DO UPDATE SET
-                account_addr = EXCLUDED.account_addr,
-                value = EXCLUDED.value,
-                shielded = EXCLUDED.shielded,
+    const createdAtTxHash = side === 'created'
+        ? tx.hash.toString().toLowerCase()
+        : utxo.createdAtTransaction.hash.toString().toLowerCase();
+    const spentAtTxHash = side === 'spent'
+        ? tx.hash.toString().toLowerCase()
+        : utxo.spentAtTransaction?.hash.toString().toLowerCase() ?? null;
+
+    await client.query(`
+        INSERT INTO unshielded_utxos
+            (created_at_tx_hash, output_index, created_at_transaction_id, created_at_height,
+             owner, address_id, token_type, value, intent_hash, ctime, initial_nonce, registered_for_dust_generation,
+             spent_at_transaction_id, spent_at_tx_hash, spent_at_height, raw)
+            SELECT $1::VARCHAR, $2::INT, c.id, c.block_height,
+                   $3, $4, $5, $6, $7, $8, $9, $10,
+                   s.id, $11::VARCHAR, s.block_height, $12
+                FROM (SELECT 1) AS utxo
+                LEFT JOIN transactions c ON c.hash = $1::VARCHAR
+                LEFT JOIN transactions s ON s.hash = $11::VARCHAR
+            ON CONFLICT (created_at_tx_hash, output_index) DO UPDATE SET
+                created_at_transaction_id = COALESCE(EXCLUDED.created_at_transaction_id, unshielded_utxos.created_at_transaction_id),
+                created_at_height = COALESCE(EXCLUDED.created_at_height, unshielded_utxos.created_at_height),
+                owner = EXCLUDED.owner,
                 address_id = EXCLUDED.address_id,
-                created_at_tx_hash = EXCLUDED.created_at_tx_hash,
-                spent_at_tx_hash = EXCLUDED.spent_at_tx_hash,
+                token_type = EXCLUDED.token_type,
+                value = EXCLUDED.value,
                 intent_hash = EXCLUDED.intent_hash,
-                ctime = EXCLUDED.ctime,
+                ctime = COALESCE(EXCLUDED.ctime, unshielded_utxos.ctime),
                 initial_nonce = EXCLUDED.initial_nonce,
                 registered_for_dust_generation = EXCLUDED.registered_for_dust_generation,
-                token_type = EXCLUDED.token_type,
-                spent_at_transaction_id = EXCLUDED.spent_at_transaction_id,
-                spent_at_transaction_hash = EXCLUDED.spent_at_transaction_hash,
-                raw = EXCLUDED.raw
-            RETURNING id
+                spent_at_transaction_id = COALESCE(EXCLUDED.spent_at_transaction_id, unshielded_utxos.spent_at_transaction_id),
+                spent_at_tx_hash = COALESCE(EXCLUDED.spent_at_tx_hash, unshielded_utxos.spent_at_tx_hash),
+                spent_at_height = COALESCE(EXCLUDED.spent_at_height, unshielded_utxos.spent_at_height),
+                raw = EXCLUDED.raw,
+                updated_at = NOW()
         `, [
-            txId,
-            index,
-            io.owner,
-            Number(io.value),
-            false,
+            createdAtTxHash,
+            utxo.outputIndex,
+            owner,
             addressId,
-            io.createdAtTransaction?.hash.toString().toLowerCase(),
-            io.spentAtTransaction?.hash.toString().toLowerCase(),
-            io.intentHash.toString().toLowerCase(),
-            toDate(io.ctime ?? 0),
-            io.initialNonce.toString().toLowerCase(),
-            io.registeredForDustGeneration,
-            io.tokenType.toString().toLowerCase(),
-            io.spentAtTransaction?.id ?? null,
-            io.spentAtTransaction?.hash.toString().toLowerCase() ?? null,
-            JSON.stringify(io)
+            utxo.tokenType.toString().toLowerCase(),
+            utxo.value,
+            utxo.intentHash.toString().toLowerCase(),
+            utxo.ctime != null ? toDate(utxo.ctime, 'seconds') : null,
+            utxo.initialNonce.toString().toLowerCase(),
+            utxo.registeredForDustGeneration,
+            spentAtTxHash,
+            JSON.stringify(utxo)
         ]
     );
-
-    return inputResult.rows[0]?.id as number;
 }
 
 
 
+/**
+ * コントラクトアクション（デプロイ・呼び出し・更新）をインポートし、コントラクトの集計を更新します。
+ * @param client データベースクライアント
+ * @param tx コントラクトアクションを含むトランザクション
+ * @param txId トランザクションID
+ * @param indexInBlock ブロック内のトランザクションのインデックス
+ */
 async function insertContractActions(
     client: PoolClient,
     tx: RegularTransaction | SystemTransaction,
-    txId: number
+    txId: number,
+    indexInBlock: number
 ): Promise<void> {
 
     if (tx.contractActions && tx.contractActions.length > 0) {
-    
+
+        // 再インポートの場合に、記録し直す前のアクション数との差分だけをコントラクトの集計に加える
+        const previousCounts = await countContractActions(client, txId);
         let index = 0;
         for (const action of tx.contractActions) {
 
-            if (!isContractCall(action)) {
+            if (!isContractCall(action) && !isContractDeploy(action) && !isContractUpdate(action)) {
+                index++;
                 continue;
             }
 
             const addressId = await insertOrUpdateAddress(
                 client,
                 action.address,
-                tx.block.timestamp
+                toDate(tx.block.timestamp, 'milliseconds')
             );
 
             const contractActionResult = await client.query(`
                 INSERT INTO tx_contract_actions
-                    (tx_id, index_in_tx, type_name, address, address_id, state, tx_hash, zswap_state, deploy, entry_point)
-                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                    (tx_id, index_in_tx, type_name, address, address_id, state, tx_hash, zswap_state, deploy, entry_point,
+                     block_height, index_in_block)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
                     ON CONFLICT (tx_id, index_in_tx) DO UPDATE SET
+                        type_name = EXCLUDED.type_name,
+                        address = EXCLUDED.address,
                         address_id = EXCLUDED.address_id,
-                        state = EXCLUDED.state,
                         tx_hash = EXCLUDED.tx_hash,
                         zswap_state = EXCLUDED.zswap_state,
                         deploy = EXCLUDED.deploy,
-                        entry_point = EXCLUDED.entry_point
+                        entry_point = EXCLUDED.entry_point,
+                        block_height = EXCLUDED.block_height,
+                        index_in_block = EXCLUDED.index_in_block
                     RETURNING id
                 `, [
                     txId,
@@ -727,25 +823,50 @@ async function insertContractActions(
                     action.state,
                     action.transaction.hash,
                     action.zswapState,
-                    action.deploy,
-                    action.entryPoint
+                    isContractCall(action) ? JSON.stringify(action.deploy) : null,
+                    isContractCall(action) ? action.entryPoint : null,
+                    tx.block.height,
+                    indexInBlock,
                 ]
             );
 
             const contractActionId = contractActionResult.rows[0]?.id as number;
             if (contractActionId) {
+                // 状態は直前のアクションからの差分として保存し直す（既存の行の状態は差分の計算後に置き換える）
+                await recordContractState(client, Number(contractActionId), action.state);
                 await insertContractActionBalances(client, action, contractActionId);
             }
         }
+
+        const addresses = [...new Set(tx.contractActions.map((action) => action.address))];
+        await recordContractActions(client, txId, previousCounts);
+        for (const address of addresses) {
+            await refreshContractBalances(client, address, tx.block.height);
+        }
     }
 }
 
 
-async function insertContractActionBalances(client: PoolClient, action: ContractCall, contractActionId: number): Promise<void> {
-    for (const balance of action.unshieldedBalances) {
-        if (isContractBalance(balance)) {
-            await insertContractActionBalance(client, balance, contractActionId);
-        }
+/**
+ * コントラクトアクション後のトークンごとの残高をインポートします。
+ * 再インポートで無くなったトークンの残高は削除します。
+ * @param client データベースクライアント
+ * @param action コントラクトアクション
+ * @param contractActionId コントラクトアクションID
+ */
+async function insertContractActionBalances(
+    client: PoolClient,
+    action: ContractCall | ContractDeploy | ContractUpdate,
+    contractActionId: number
+): Promise<void> {
+    const balances = action.unshieldedBalances.filter(isContractBalance);
+    await client.query(`
+        DELETE FROM tx_contract_action_balances
+            WHERE tx_contract_action_id = $1 AND NOT (token_type = ANY($2::VARCHAR[]))
+    `, [contractActionId, balances.map((balance) => balance.tokenType.toString().toLowerCase())]);
+
+    for (const balance of balances) {
+        await insertContractActionBalance(client, balance, contractActionId);
     }
 }
 
@@ -754,14 +875,13 @@ async function insertContractActionBalance(client: PoolClient, balance: Contract
         INSERT INTO tx_contract_action_balances
             (tx_contract_action_id, type_name, amount, token_type)
             VALUES ($1, $2, $3, $4)
-            ON CONFLICT (tx_contract_action_id, type_name) DO UPDATE SET
-                amount = EXCLUDED.amount,
-                token_type = EXCLUDED.token_type
+            ON CONFLICT (tx_contract_action_id, token_type) DO UPDATE SET
+                amount = EXCLUDED.amount
         `, [
             contractActionId,
             balance.__typename,
             balance.amount,
-            balance.tokenType
+            balance.tokenType.toString().toLowerCase()
         ]);
 }
 
@@ -799,10 +919,216 @@ async function insertZSwapLedgerEvents(client: PoolClient, tx: RegularTransactio
             event.raw
         ]);
 
+        await writeDecodedZswapLedgerEvent(client, txId, event.id, event.raw);
+    }
+}
+
+
+/**
+ * シリアライズされたレジャーイベントをデコードします。
+ * デコードに失敗してもインポートは続行できるように、エラーを返します。
+ * @param raw 16進数でシリアライズされたイベント
+ */
+async function tryDecodeLedgerEvent(raw: string)
+    : Promise<{ event: DecodedLedgerEvent | null; error: string | null }> {
+
+    try {
+        return { event: await decodeLedgerEvent(raw), error: null };
+    } catch (error) {
+        return { event: null, error: error instanceof Error ? error.message : String(error) };
     }
 }
 
 
+/**
+ * ZSwapレジャーイベントをデコードして型付きカラムに保存します。
+ * @param client データベースクライアント
+ * @param txId トランザクションID
+ * @param eventId イベントID
+ * @param raw 16進数でシリアライズされたイベント
+ */
+async function writeDecodedZswapLedgerEvent(client: PoolClient, txId: number, eventId: number, raw: string)
+    : Promise<boolean> {
+
+    const { event, error } = await tryDecodeLedgerEvent(raw);
+    const columns = event ? toZswapLedgerEventColumns(event) : null;
+
+    await client.query(`
+        UPDATE tx_zswap_ledger_events SET
+            event_type = $3,
+            commitment = $4,
+            nullifier = $5,
+            contract_address = $6,
+            mt_index = $7,
+            decoded = $8,
+            decode_error = $9,
+            decoded_at = NOW()
+            WHERE tx_id = $1 AND event_id = $2
+    `, [
+        txId,
+        eventId,
+        event?.type ?? null,
+        columns?.commitment ?? null,
+        columns?.nullifier ?? null,
+        columns?.contractAddress ?? null,
+        columns?.mtIndex ?? null,
+        event ? JSON.stringify(event.content) : null,
+        error
+    ]);
+
+    return event !== null;
+}
+
+
+/**
+ * DUSTレジャーイベントをデコードして型付きカラムに保存します。
+ * @param client データベースクライアント
+ * @param id DUSTレジャーイベントのID
+ * @param raw 16進数でシリアライズされたイベント
+ */
+async function writeDecodedDustLedgerEvent(client: PoolClient, id: number, raw: string)
+    : Promise<boolean> {
+
+    const { event, error } = await tryDecodeLedgerEvent(raw);
+    const columns = event ? toDustLedgerEventColumns(event) : null;
+
+    await client.query(`
+        UPDATE tx_dust_ledger_events SET
+            owner = $2,
+            output_nonce = COALESCE(output_nonce, $3),
+            initial_value = $4,
+            generation_value = $5,
+            generation_index = $6,
+            backing_night = $7,
+            mt_index = $8,
+            commitment = $9,
+            commitment_index = $10,
+            nullifier = $11,
+            v_fee = $12,
+            dtime = $13,
+            event_time = $14,
+            decoded = $15,
+            decode_error = $16,
+            decoded_at = NOW()
+            WHERE id = $1
+    `, [
+        id,
+        columns?.owner ?? null,
+        columns?.nonce ?? null,
+        columns?.initialValue ?? null,
+        columns?.generationValue ?? null,
+        columns?.generationIndex ?? null,
+        columns?.backingNight ?? null,
+        columns?.mtIndex ?? null,
+        columns?.commitment ?? null,
+        columns?.commitmentIndex ?? null,
+        columns?.nullifier ?? null,
+        columns?.vFee ?? null,
+        columns?.dtime ?? null,
+        columns?.eventTime ?? null,
+        event ? JSON.stringify(event.content) : null,
+        error
+    ]);
+
+    return event !== null;
+}
+
+
+/**
+ * 保存済みのレジャーイベントを再デコードします。
+ * デコーダーを更新した後や、デコードに失敗したイベントをやり直す場合に使用します。
+ * @param target 対象のテーブル（dust / zswap / all）
+ * @param onlyMissing true の場合、未デコードまたはデコードに失敗したイベントのみを対象にします
+ * @param batchSize 1トランザクションで処理する件数
+ * @returns デコードに成功した件数と失敗した件数
+ */
+export async function redecodeLedgerEvents(
+    target: 'dust' | 'zswap' | 'all',
+    onlyMissing: boolean = false,
+    batchSize: number = 500
+): Promise<{ decoded: number; failed: number }> {
+
+    const result = { decoded: 0, failed: 0 };
+    const missingCondition = onlyMissing ? 'AND (decoded_at IS NULL OR decode_error IS NOT NULL)' : '';
+
+    if (target === 'dust' || target === 'all') {
+        let lastId = 0;
+        while (true) {
+            const processed = await withPgClient(async (client) => {
+                const rows = await client.query<{ id: string; event_raw: string }>(`
+                    SELECT id, event_raw FROM tx_dust_ledger_events
+                        WHERE id > $1 ${missingCondition}
+                        ORDER BY id
+                        LIMIT $2
+                `, [lastId, batchSize]);
+
+                await client.query('BEGIN');
+                try {
+                    for (const row of rows.rows) {
+                        if (await writeDecodedDustLedgerEvent(client, Number(row.id), row.event_raw)) {
+                            result.decoded++;
+                        } else {
+                            result.failed++;
+                        }
+                        lastId = Number(row.id);
+                    }
+                    await client.query('COMMIT');
+                } catch (error) {
+                    await client.query('ROLLBACK');
+                    throw error;
+                }
+                return rows.rows.length;
+            });
+
+            if (processed < batchSize) {
+                break;
+            }
+            console.log(`🔄 DUSTレジャーイベントを再デコード中... (ID: ${lastId})`);
+        }
+    }
+
+    if (target === 'zswap' || target === 'all') {
+        let lastTxId = 0;
+        let lastEventId = 0;
+        while (true) {
+            const processed = await withPgClient(async (client) => {
+                const rows = await client.query<{ tx_id: string; event_id: number; raw: string }>(`
+                    SELECT tx_id, event_id, raw FROM tx_zswap_ledger_events
+                        WHERE (tx_id, event_id) > ($1, $2) ${missingCondition}
+                        ORDER BY tx_id, event_id
+                        LIMIT $3
+                `, [lastTxId, lastEventId, batchSize]);
+
+                await client.query('BEGIN');
+                try {
+                    for (const row of rows.rows) {
+                        if (await writeDecodedZswapLedgerEvent(client, Number(row.tx_id), row.event_id, row.raw)) {
+                            result.decoded++;
+                        } else {
+                            result.failed++;
+                        }
+                        lastTxId = Number(row.tx_id);
+                        lastEventId = row.event_id;
+                    }
+                    await client.query('COMMIT');
+                } catch (error) {
+                    await client.query('ROLLBACK');
+                    throw error;
+                }
+                return rows.rows.length;
+            });
+
+            if (processed < batchSize) {
+                break;
+            }
+            console.log(`🔄 ZSwapレジャーイベントを再デコード中... (トランザクションID: ${lastTxId})`);
+        }
+    }
+
+    return result;
+}
+
+
 /**
  * DUSTレジャーイベントをインポートします。
  * @param client データベースクライアント
@@ -828,7 +1154,7 @@ async function insertDustLedgerEvents(client: PoolClient, tx: RegularTransaction
             let outputNonce = isDustInitialUtxo(event)
                 ? event.output?.nonce : null;
 
-            await client.query(`
+            const eventResult = await client.query<{ id: string }>(`
                 INSERT INTO tx_dust_ledger_events
                 (tx_id, index_in_tx, event_id, event_name, event_raw, output_nonce)
                 VALUES ($1, $2, $3, $4, $5, $6)
@@ -837,6 +1163,7 @@ async function insertDustLedgerEvents(client: PoolClient, tx: RegularTransaction
                     event_name = EXCLUDED.event_name,
                     event_raw = EXCLUDED.event_raw,
                     output_nonce = EXCLUDED.output_nonce
+                RETURNING id
             `, [
                 txId,
                 index++,
@@ -845,6 +1172,8 @@ async function insertDustLedgerEvents(client: PoolClient, tx: RegularTransaction
                 event.raw,
                 outputNonce
             ]);
+
+            await writeDecodedDustLedgerEvent(client, Number(eventResult.rows[0].id), event.raw);
         }
         else {
             throw new Error("Unknown event type");
@@ -853,6 +1182,24 @@ async function insertDustLedgerEvents(client: PoolClient, tx: RegularTransaction
 
 }
 
+/**
+ * ブロックのタイムスタンプを求めます。
+ * ランタイムの timestamp.now を取得できなかった場合（blockHashToTimestamp が0を返した場合）は不明として扱い、
+ * ブロックに含まれる timestamp.set の引数を使います。
+ * @param data ブロックデータ
+ * @returns タイムスタンプ。求められない場合はnullを返します。
+ */
+function resolveBlockTimestamp(data: Block): Date | null {
+    if (data.timestamp > 0) {
+        return toDate(data.timestamp, 'milliseconds');
+    }
+    const inherent = data.extrinsics.find((extrinsic) =>
+        extrinsic.method.section === 'timestamp' && extrinsic.method.method === 'set'
+    );
+    const now = Number(inherent?.method.args.now);
+    return now > 0 ? toDate(now, 'milliseconds') : null;
+}
+
 /**
  * ブロックをインポートします。
  * @param client データベースクライアント
@@ -860,14 +1207,19 @@ async function insertDustLedgerEvents(client: PoolClient, tx: RegularTransaction
  */
 async function insertBlock(client: PoolClient, data: Block): Promise<void> {
 
+    const timestamp = resolveBlockTimestamp(data);
+    if (!timestamp) {
+        throw new Error(`Timestamp of block ${data.height} is unknown`);
+    }
+    await validateBlockTimestamp(client, data.height, timestamp);
+
     const blockResult = await client.query(`
         INSERT INTO blocks
-            (hash, height, parent_hash, slot, timestamp, tx_count, state_root, is_finalized, raw)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            (hash, height, parent_hash, timestamp, tx_count, state_root, is_finalized, raw)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
             ON CONFLICT (height) DO UPDATE SET
                 hash = EXCLUDED.hash,
                 parent_hash = EXCLUDED.parent_hash,
-                slot = EXCLUDED.slot,
                 timestamp = EXCLUDED.timestamp,
                 tx_count = EXCLUDED.tx_count,
                 state_root = EXCLUDED.state_root,
@@ -878,8 +1230,7 @@ async function insertBlock(client: PoolClient, data: Block): Promise<void> {
         data.hash,
         data.height,
         data.parentHash,
-        data.height,
-        toDate(data.timestamp),
+        timestamp,
         0, // tx_count
         data.stateRoot,
         data.isFinalized,
@@ -891,19 +1242,30 @@ async function insertBlock(client: PoolClient, data: Block): Promise<void> {
         throw new Error("Block ID is null");
     }
 
-    await insertExtrinsics(client, blockId, data.extrinsics);
+    await recordBlockAuthorship(client, blockId, data.parentHash, data.consensus);
+    // 以前に保存したアーカイブのブロックにはランタイムのバージョンが無い
+    if (data.runtime) {
+        await recordBlockRuntime(client, blockId, data);
+    }
+
+    const extrinsicIds = await insertExtrinsics(client, blockId, data.extrinsics);
+    await insertEvents(client, blockId, data.events, extrinsicIds);
+
+    // GraphQLサブスクリプションへ通知（COMMIT時に配信される）
+    await notifyBlockImported(client, data.height);
 }
 
 
 /**
- * トランザクションをインポートします。
+ * エクストリンジックをインポートします。
  * @param client データベースクライアント
- * @param extrinsics トランザクション
- * @returns トランザクションID
+ * @param blockId ブロックID
+ * @param extrinsics エクストリンジック
+ * @returns ブロック内のインデックスとエクストリンジックIDの対応
  */
-async function insertExtrinsics(client: PoolClient, blockId: number, extrinsics: Extrinsic[]): Promise<number[]> {
+async function insertExtrinsics(client: PoolClient, blockId: number, extrinsics: Extrinsic[]): Promise<Map<number, number>> {
 
-    const extrinsicIds: Array<number> = [];
+    const extrinsicIds = new Map<number, number>();
 
     for (let i = 0; i < extrinsics.length; i++) {
         const extrinsic = extrinsics[i];
@@ -911,15 +1273,17 @@ async function insertExtrinsics(client: PoolClient, blockId: number, extrinsics:
 
         const extrinsicResult = await client.query(`
             INSERT INTO extrinsics
-                (block_id, index_in_block, section, method, signer, args, data, hash)
-                VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                (block_id, index_in_block, section, method, signer, args, data, hash, success, error)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
                 ON CONFLICT (block_id, index_in_block) DO UPDATE SET
                     section = EXCLUDED.section,
                     method = EXCLUDED.method,
                     signer = EXCLUDED.signer,
                     args = EXCLUDED.args,
                     data = EXCLUDED.data,
-                    hash = EXCLUDED.hash
+                    hash = EXCLUDED.hash,
+                    success = EXCLUDED.success,
+                    error = EXCLUDED.error
                 RETURNING id
         `, [
             blockId,
@@ -927,14 +1291,16 @@ async function insertExtrinsics(client: PoolClient, blockId: number, extrinsics:
             extrinsic.method.section,
             extrinsic.method.method,
             extrinsic.signer,
-            { 'args': extrinsic.method.args },
+            { 'args': extrinsic.method.args, 'types': extrinsic.method.argTypes },
             extrinsic.data,
-            extrinsic.hash
+            extrinsic.hash,
+            extrinsic.success,
+            extrinsic.error
         ]);
 
         const extrinsicId = extrinsicResult.rows[0]?.id;
         if (extrinsicId) {
-            extrinsicIds.push(i, extrinsicId);
+            extrinsicIds.set(i, Number(extrinsicId));
         }
     }
 
@@ -942,6 +1308,46 @@ async function insertExtrinsics(client: PoolClient, blockId: number, extrinsics:
 }
 
 
+/**
+ * ランタイムイベントをインポートします。
+ * ApplyExtrinsic フェーズのイベントは、対応するエクストリンジックに紐付けます。
+ * @param client データベースクライアント
+ * @param blockId ブロックID
+ * @param events イベント
+ * @param extrinsicIds ブロック内のインデックスとエクストリンジックIDの対応
+ */
+async function insertEvents(client: PoolClient, blockId: number, events: BlockEvent[], extrinsicIds: Map<number, number>)
+    : Promise<void> {
+
+    for (const event of events) {
+        await client.query(`
+            INSERT INTO events
+                (block_id, extrinsic_id, index_in_block, section, method, data, topics)
+                VALUES ($1, $2, $3, $4, $5, $6, $7)
+                ON CONFLICT (block_id, index_in_block) DO UPDATE SET
+                    extrinsic_id = EXCLUDED.extrinsic_id,
+                    section = EXCLUDED.section,
+                    method = EXCLUDED.method,
+                    data = EXCLUDED.data,
+                    topics = EXCLUDED.topics
+        `, [
+            blockId,
+            event.extrinsicIndex !== null ? extrinsicIds.get(event.extrinsicIndex) ?? null : null,
+            event.index,
+            event.section,
+            event.method,
+            JSON.stringify(event.data),
+            JSON.stringify(event.topics),
+        ]);
+    }
+
+    // 再インポートで減ったイベントを削除
+    await client.query(`
+        DELETE FROM events WHERE block_id = $1 AND index_in_block >= $2
+    `, [blockId, events.length]);
+}
+
+
 /**
  * ファイナライズされたブロックを更新します。
  * @param client データベースクライアント
@@ -1100,6 +1506,8 @@ export async function detectAndImportMissingBlocks(batchSize: number = 10): Prom
                                 console.error(`❌ ブロック ${height} のインポートエラー:`, error);
                                 throw error;
                             }
+
+                            await recordPendingLedgerParameters(client, [height]);
                         });
                     } catch (error) {
                         console.error(`❌ ブロック ${height} のインポートエラー:`, error);
@@ -1,8 +1,12 @@
 import { request } from 'graphql-request';
+import { createClient, type Client } from 'graphql-ws';
+import WebSocket from 'ws';
 import { bech32m } from 'bech32';
 import { ApiPromise, WsProvider } from '@polkadot/api';
+import type { ApiDecoration } from '@polkadot/api/types';
 import type { ProviderInterface } from '@polkadot/rpc-provider/types';
-import type { SignedBlock, Header, BlockHash } from '@polkadot/types/interfaces';
+import type { SignedBlock, Header, BlockHash, EventRecord, DispatchError } from '@polkadot/types/interfaces';
+import type { Vec } from '@polkadot/types-codec';
 import type {
     GetBlockByHeightQuery,
     GetBlockByHeightQueryVariables,
@@ -12,6 +16,8 @@ import type {
     ConnectWalletMutation,
     DisconnectWalletMutationVariables,
     DisconnectWalletMutation,
+    GetDustGenerationStatusQuery,
+    GetDustGenerationStatusQueryVariables,
     UnshieldedUtxo,
     DustGenerationDtimeUpdate,
     DustInitialUtxo,
@@ -25,11 +31,14 @@ import type {
 import {
     GetBlockByHeightDocument,
     ConnectWalletDocument,
-    DisconnectWalletDocument
+    DisconnectWalletDocument,
+    GetDustGenerationStatusDocument
 } from './graphql/generated';
-import { Block, BlockRaw, Extrinsic } from './types/chain';
+import { Block, BlockConsensus, BlockEvent, BlockRaw, BlockRuntime, Extrinsic, ExtrinsicError, PreRuntimeDigest } from './types/chain';
+import { getNetworkProfile, NETWORK, type NetworkName } from './network';
+import { decodeCallArgs } from './extrinsic-args';
 
-const MIDNIGHT_GRAPHQL_URL = process.env.MIDNIGHT_GRAPHQL_URL || 'https://indexer.preview.midnight.network/api/v3/graphql';
+const MIDNIGHT_GRAPHQL_URL = process.env.MIDNIGHT_GRAPHQL_URL || NETWORK.graphqlUrl;
 
 let api: ApiPromise | null = null;
 
@@ -41,12 +50,17 @@ function getWebSocketUrl(): string {
     
     // HTTPエンドポイントと同じパスを使用（多くのGraphQLサーバーでこれが標準）
     // const baseUrl = MIDNIGHT_GRAPHQL_URL.replace(/^https?:\/\//, 'wss://').replace(/^http:\/\//, 'ws://') + '/ws';
-    return 'wss://rpc.preview.midnight.network'; //baseUrl;
-    // return 'wss://indexer.preview.midnight.network/api/v3/graphql/ws';
+    return NETWORK.rpcUrl; //baseUrl;
 }
 
 const MIDNIGHT_GRAPHQL_WS_URL = getWebSocketUrl();
 
+/**
+ * 上流のインデクサーのGraphQLサブスクリプションのエンドポイント
+ */
+const MIDNIGHT_GRAPHQL_SUBSCRIPTION_URL = process.env.MIDNIGHT_GRAPHQL_SUBSCRIPTION_URL
+    || NETWORK.graphqlSubscriptionUrl;
+
 
 /**
  * ブロックを高さから取得します。
@@ -132,7 +146,6 @@ export async function getMaxBlockHeightFromGraphQL(
 
 /**
  * ウォレットを接続します。
- * @deprecated 使用しないでください
  * @param viewingKey ウォレットのビューキー
  * @returns セッションID
  */
@@ -151,7 +164,6 @@ export async function connectWallet(
 
 /**
  * ウォレットを切断します。
- * @deprecated 使用しないでください
  * @param sessionId セッションID
  * @returns 成功時はUint型が返されます
  */
@@ -167,6 +179,36 @@ export async function disconnectWallet(
     return data.disconnect;
 }
 
+/**
+ * 上流のインデクサーのGraphQLサブスクリプションに接続するクライアントを作成します。
+ * 切断された場合の再接続は呼び出し側で行うため、自動では再接続しません。
+ * @returns graphql-ws のクライアント（使用後は dispose してください）
+ */
+export function createSubscriptionClient(): Client {
+    return createClient({
+        url: MIDNIGHT_GRAPHQL_SUBSCRIPTION_URL,
+        webSocketImpl: WebSocket,
+        retryAttempts: 0,
+    });
+}
+
+/**
+ * Cardanoのリワードアドレスごとの DUST 生成状況を取得します。
+ * @param cardanoRewardAddresses Cardanoのリワードアドレス（stake_test1... / stake1...）
+ * @returns リワードアドレスごとの DUST 生成状況
+ */
+export async function getDustGenerationStatus(
+    cardanoRewardAddresses: string[]
+): Promise<GetDustGenerationStatusQuery['dustGenerationStatus']> {
+    const variables: GetDustGenerationStatusQueryVariables = { cardanoRewardAddresses };
+    const data: GetDustGenerationStatusQuery = await request(
+        MIDNIGHT_GRAPHQL_URL,
+        GetDustGenerationStatusDocument,
+        variables
+    );
+    return data.dustGenerationStatus;
+}
+
 /**
  * 通常のトランザクションかどうかを判定します。
  * @param tx トランザクションデータ
@@ -238,39 +280,24 @@ export function isContractBalance(balance: any): balance is ContractBalance {
 
 
 /**
- * 16進数文字列を mn_addr_preview 形式 (Bech32m) にエンコードします。
- * @param hexAddress 16進数エンコードされたアドレス (例: "0x1234...")
- * @returns Bech32m エンコード形式のアドレス (例: "mn_addr_preview1...")
- */
-export function encodeToMnAddrPreview(hexAddress: string): string {
-
-    // 0xプレフィックスを除去
-    const hex = hexAddress.startsWith('0x')
-        ? hexAddress.substring(2)
-        : hexAddress;
-    
-    // 16進数文字列をバイト配列に変換
-    const bytes = Buffer.from(hex, 'hex');
-
-    // Bech32m エンコード
-    // HRP: "mn_addr_preview" (プレビューネットワークのアンシールドアドレス)
-    return bech32m.encode('mn_addr_preview', bech32m.toWords(bytes));
-}
-
-/**
- * mn_addr_preview 形式 (Bech32m) を 16進数文字列にデコードします。
+ * mn_addr 形式 (Bech32m) のアドレスを 16進数文字列にデコードします。
  * @param bech32Address Bech32m エンコード 形式のアドレス
  * @param hexPrefix 16進数エンコードされたアドレスに0xプレフィックスを付与するかどうか
+ * @param network ネットワーク（省略時はインデックスしているネットワーク）
  * @returns 16進数エンコードされたアドレス
  */
-export function decodeFromMnAddrPreview(bech32Address: string, hexPrefix: boolean = true): string {
+export function decodeFromMnAddr(
+    bech32Address: string,
+    hexPrefix: boolean = true,
+    network: NetworkName = NETWORK.name
+): string {
     // Bech32m デコード
-    // HRP: "mn_addr_preview" (プレビューネットワークのアンシールドアドレス)
     const { prefix, words } = bech32m.decode(bech32Address);
 
-    // アドレスプレフィックスが一致しない場合はエラー
-    if (prefix !== 'mn_addr_preview') {
-        throw new Error(`Invalid address prefix: expected 'mn_addr_preview' but got '${prefix}'`);
+    // アドレスプレフィックスがネットワークのHRPと一致しない場合はエラー
+    const hrp = getNetworkProfile(network).addressHrp;
+    if (prefix !== hrp) {
+        throw new Error(`Invalid address prefix: expected '${hrp}' but got '${prefix}'`);
     }
 
     // バイト配列に変換
@@ -282,15 +309,33 @@ export function decodeFromMnAddrPreview(bech32Address: string, hexPrefix: boolea
 }
 
 
+/**
+ * DUSTアドレス (mn_dust_preview1... 等の Bech32m) を DUST 公開鍵の16進数文字列にデコードします。
+ * アドレスのHRPはインデックスしているネットワークのものである必要があります。
+ * @param dustAddress Bech32m エンコード形式の DUST アドレス
+ * @returns 16進数エンコードされた DUST 公開鍵（0xなし・小文字）
+ */
+export function decodeDustAddress(dustAddress: string): string {
+    // DUSTアドレスは通常のBech32の長さ制限（90文字）を超える場合があるため上限を広げる
+    const { prefix, words } = bech32m.decode(dustAddress, 1023);
+
+    if (prefix !== NETWORK.dustAddressHrp) {
+        throw new Error(`Invalid DUST address prefix: expected '${NETWORK.dustAddressHrp}' but got '${prefix}'`);
+    }
+
+    return Buffer.from(bech32m.fromWords(words)).toString('hex');
+}
+
+
 /**
  * 16進数文字列を mn_addr 形式 (Bech32m) にエンコードします。
  * @param hexAddress 16進数エンコードされたアドレス (例: "0x1234...")
- * @param network ネットワーク (例: "preview", "test", "main")
+ * @param network ネットワーク（省略時はインデックスしているネットワーク）
  * @returns Bech32m エンコード形式のアドレス (例: "mn_addr_preview1...")
  */
 export function encodeToMnAddr(
     hexAddress: string,
-    network: 'preview' | 'test' | 'main' = 'preview'
+    network: NetworkName = NETWORK.name
 ): string {
 
     const hex = hexAddress.startsWith('0x')
@@ -299,7 +344,7 @@ export function encodeToMnAddr(
 
     const bytes = Buffer.from(hex, 'hex');
 
-    const hrp = `mn_addr_${network}`;
+    const hrp = getNetworkProfile(network).addressHrp;
 
     return bech32m.encode(hrp, bech32m.toWords(bytes));
 }
@@ -457,16 +502,58 @@ export async function getBlockHashFromHeight(height: number): Promise<BlockHash>
     return await api.rpc.chain.getBlockHash(height);
 }
 
+/**
+ * ブロックハッシュから、そのブロックのランタイムのメタデータを使うAPIを取得します。
+ * 起動時に読み込んだメタデータでは、過去のランタイムのストレージやイベントを正しくデコードできないため、
+ * ブロックのデータを読む場合はこちらを使います。
+ * @param hash ブロックハッシュ（0xあり）
+ */
+async function getApiAt(hash: BlockHash | string): Promise<ApiDecoration<'promise'>> {
+    if (!api || !api.isConnected) {
+        api =await connectToChain();
+    }
+    return await api.at(hash);
+}
+
+/**
+ * ブロックハッシュから、そのブロックのランタイムの型レジストリとバージョンを取得します。
+ * @param hash ブロックハッシュ（0xあり・なしのどちらでも可）
+ */
+async function getBlockRegistry(hash: BlockHash | string) {
+    if (!api || !api.isConnected) {
+        api =await connectToChain();
+    }
+    const blockHash = typeof hash === 'string'
+        ? api.registry.createType<BlockHash>('BlockHash', hash.startsWith('0x') ? hash : `0x${hash}`)
+        : hash;
+    return await api.getBlockRegistry(blockHash.toU8a());
+}
+
 /**
  * ブロックハッシュからブロックを取得します。
+ * エクストリンジックは、そのブロックのランタイムのメタデータでデコードします。
  * @param hash ブロックハッシュ
  * @returns ブロック
  */
-export async function getBlockFromHash(hash: BlockHash): Promise<SignedBlock> {
+export async function getBlockFromHash(hash: BlockHash | string): Promise<SignedBlock> {
+    if (!api || !api.isConnected) {
+        api =await connectToChain();
+    }
+    const { registry } = await getBlockRegistry(hash);
+    const raw = await api.rpc.chain.getBlock.raw(typeof hash === 'string' && !hash.startsWith('0x') ? `0x${hash}` : hash);
+    return registry.createType<SignedBlock>('SignedBlock', raw);
+}
+
+/**
+ * ブロックハッシュからブロックヘッダーを取得します。
+ * @param hash ブロックハッシュ（0xあり・なしのどちらでも可）
+ * @returns ブロックヘッダー
+ */
+export async function getHeaderFromHash(hash: string): Promise<Header> {
     if (!api || !api.isConnected) {
         api =await connectToChain();
     }
-    return await api.rpc.chain.getBlock(hash);
+    return await api.rpc.chain.getHeader(hash.startsWith('0x') ? hash : `0x${hash}`);
 }
 
 /**
@@ -480,7 +567,8 @@ export async function blockHashToTimestamp(hash: BlockHash): Promise<number> {
         api =await connectToChain();
     }
     try {
-        return Number(await api.query.timestamp.now.at(hash));
+        const apiAt = await getApiAt(hash);
+        return Number(await apiAt.query.timestamp.now());
     } catch (error: any) {
         console.error('[midnight-indexer] fatal error', error);
         return 0;
@@ -488,26 +576,220 @@ export async function blockHashToTimestamp(hash: BlockHash): Promise<number> {
 }
 
 /**
- * timestampをDateに変換
- * @param timestamp Unix timestamp (ミリ秒単位)
- * @returns Dateオブジェクト（UTC）
+ * DispatchErrorをエクストリンジックの実行エラーに変換します。
+ * Moduleエラーはメタデータからパレット名とエラー名を解決します。
+ * @param error DispatchError
+ * @returns 実行エラー
  */
-export function toDate(timestamp: number): Date | null {
-    const dt = new Date(timestamp);
-    if (dt.getFullYear() < 2025 || dt.getFullYear() > 2026) {
-        const udt = new Date(timestamp * 1000);
-        if (udt.getFullYear() < 2025 || udt.getFullYear() > 2026) {
-            const ddt = new Date(timestamp / 1000);
-            if (ddt.getFullYear() < 2025 || ddt.getFullYear() > 2026) {
-                console.warn(`[midnight-indexer] 🔍 Invalid timestamp: ${timestamp}, returning default date: 2025-08-05 12:00:00`);
-                return new Date(2025, 8, 5, 12);
-//                throw new Error(`Invalid timestamp: ${timestamp}`);
+function toExtrinsicError(error: DispatchError): ExtrinsicError {
+    let section: string | null = null;
+    let name: string | null = null;
+    let docs: string | null = null;
+    if (error.isModule) {
+        try {
+            const meta = error.registry.findMetaError(error.asModule);
+            section = meta.section;
+            name = meta.name;
+            docs = meta.docs.join(' ');
+        } catch {
+            // メタデータに無いエラーはdetailのみ
+        }
+    }
+    return { type: error.type, section, name, docs, detail: error.toJSON() };
+}
+
+/**
+ * ブロックハッシュからランタイムイベントを取得します。
+ * @param hash ブロックハッシュ
+ * @returns イベントと、ExtrinsicSuccess / ExtrinsicFailed から求めたエクストリンジックごとの実行結果
+ */
+async function getBlockEvents(hash: BlockHash): Promise<{
+    events: BlockEvent[];
+    results: Map<number, { success: boolean; error: ExtrinsicError | null }>;
+}> {
+    const apiAt = await getApiAt(hash);
+    const records = (await apiAt.query.system.events()) as unknown as Vec<EventRecord>;
+
+    const events: BlockEvent[] = [];
+    const results = new Map<number, { success: boolean; error: ExtrinsicError | null }>();
+    records.forEach((record, index) => {
+        const { phase, event, topics } = record;
+        const extrinsicIndex = phase.isApplyExtrinsic ? phase.asApplyExtrinsic.toNumber() : null;
+
+        events.push({
+            index,
+            phase: phase.type,
+            extrinsicIndex,
+            section: event.section,
+            method: event.method,
+            data: event.data.toJSON(),
+            topics: topics.map((topic) => topic.toHex().substring(2).toLowerCase()),
+        });
+
+        if (extrinsicIndex !== null && event.section === 'system') {
+            if (event.method === 'ExtrinsicSuccess') {
+                results.set(extrinsicIndex, { success: true, error: null });
+            } else if (event.method === 'ExtrinsicFailed') {
+                const error = toExtrinsicError(event.data[0] as DispatchError);
+                results.set(extrinsicIndex, { success: false, error });
             }
-            return ddt;
         }
-        return udt;
+    });
+
+    return { events, results };
+}
+
+/**
+ * タイムスタンプの単位
+ * - seconds: UTXOの ctime
+ * - milliseconds: ランタイムの timestamp.now、上流のGraphQLのブロックの timestamp
+ */
+export type TimestampUnit = 'seconds' | 'milliseconds';
+
+/**
+ * 現在時刻より先のタイムスタンプとして許容する誤差（ミリ秒）
+ * これを超える場合は単位の誤りとみなします。
+ */
+const TIMESTAMP_MAX_CLOCK_SKEW_MS = Number(process.env.TIMESTAMP_MAX_CLOCK_SKEW_MS || 600000);
+
+/**
+ * 以前の toDate が、単位を判定できなかったタイムスタンプの代わりに保存していた日時の候補
+ * new Date(2025, 8, 5, 12) は実行したプロセスのローカル時刻の正午のため、
+ * UTC-12:00 から UTC+14:00 まで15分ごとのオフセットでの値を全て候補にします。修復の対象を探すために使います。
+ */
+export const LEGACY_FALLBACK_TIMESTAMPS: Date[] = Array.from(
+    { length: (14 * 60 + 12 * 60) / 15 + 1 },
+    (_, index) => new Date(Date.UTC(2025, 8, 5, 12) - (-12 * 60 + index * 15) * 60 * 1000)
+);
+
+/**
+ * 日時が、以前の toDate が代わりに保存していた日時の候補かどうかを判定します。
+ * @param date 日時
+ */
+export function isLegacyFallbackTimestamp(date: Date): boolean {
+    return LEGACY_FALLBACK_TIMESTAMPS.some((fallback) => fallback.getTime() === date.getTime());
+}
+
+/**
+ * タイムスタンプを、指定した単位でDateに変換します。
+ * @param timestamp Unix timestamp
+ * @param unit タイムスタンプの単位
+ * @returns Dateオブジェクト（UTC）。負の値や、現在時刻より先の値の場合はエラーを投げます。
+ */
+export function toDate(timestamp: number, unit: TimestampUnit): Date {
+    const ms = unit === 'seconds' ? timestamp * 1000 : timestamp;
+    if (!Number.isFinite(ms) || ms < 0) {
+        throw new Error(`Invalid timestamp: ${timestamp} (${unit})`);
+    }
+    if (ms > Date.now() + TIMESTAMP_MAX_CLOCK_SKEW_MS) {
+        throw new Error(`Timestamp ${timestamp} (${unit}) is in the future: ${new Date(ms).toISOString()}`);
+    }
+    return new Date(ms);
+}
+
+/**
+ * ブロックのランタイムのバージョンを取得します。
+ * @param hash ブロックハッシュ（0xあり・なしのどちらでも可）
+ * @returns ランタイムのバージョン
+ */
+export async function getBlockRuntime(hash: BlockHash | string): Promise<BlockRuntime> {
+    if (!api || !api.isConnected) {
+        api =await connectToChain();
+    }
+    const runtimeVersion = await api.rpc.state.getRuntimeVersion(
+        typeof hash === 'string' && !hash.startsWith('0x') ? `0x${hash}` : hash
+    );
+    return {
+        specName: runtimeVersion.specName.toString(),
+        specVersion: runtimeVersion.specVersion.toNumber(),
+        implVersion: runtimeVersion.implVersion.toNumber(),
+        transactionVersion: runtimeVersion.transactionVersion.toNumber(),
+    };
+}
+
+/**
+ * ブロックのランタイムのメタデータを取得します。
+ * @param hash ブロックハッシュ（0xあり・なしのどちらでも可）
+ * @returns メタデータのバージョンと、SCALEエンコードしたメタデータ
+ */
+export async function getRuntimeMetadata(hash: BlockHash | string): Promise<{ version: number; metadata: Buffer }> {
+    const { metadata } = await getBlockRegistry(hash);
+    return { version: metadata.version, metadata: Buffer.from(metadata.toU8a()) };
+}
+
+/**
+ * ブロックダイジェストからプレランタイムログを取り出し、スロット番号を復号します。
+ * - aura: スロット番号（u64 LE）
+ * - babe: PreDigest（種別 u8、オーソリティのインデックス u32 LE、スロット番号 u64 LE、...）
+ * @param digest header.digest.toString() の文字列
+ * @returns プレランタイムログ。含まれない場合や未対応の合意エンジンの場合はnullを返します。
+ */
+export function decodePreRuntimeDigest(digest: string): PreRuntimeDigest | null {
+    let logs: any[];
+    try {
+        logs = JSON.parse(digest)?.logs ?? [];
+    } catch {
+        throw new Error(`Invalid block digest: ${digest}`);
+    }
+
+    for (const log of logs) {
+        const preRuntime = log?.preRuntime ?? log?.PreRuntime;
+        if (!Array.isArray(preRuntime) || preRuntime.length < 2) continue;
+
+        const engine = Buffer.from(String(preRuntime[0]).replace(/^0x/, ''), 'hex').toString('latin1');
+        const payload = Buffer.from(String(preRuntime[1]).replace(/^0x/, ''), 'hex');
+        if (engine === 'aura' && payload.length >= 8) {
+            return { engine, slot: Number(payload.readBigUInt64LE(0)), authorityIndex: null };
+        }
+        if (engine === 'BABE' && payload.length >= 13) {
+            return { engine: 'babe', slot: Number(payload.readBigUInt64LE(5)), authorityIndex: payload.readUInt32LE(1) };
+        }
+    }
+    return null;
+}
+
+/**
+ * 親ブロックの時点の合意エンジンのオーソリティを取得します。
+ * @param engine 合意エンジン（aura / babe）
+ * @param parentHash 親ブロックのハッシュ（0xなし）
+ * @returns オーソリティの公開鍵（0xなし・小文字）。ランタイムにオーソリティのストレージが無い場合は空の配列を返します。
+ */
+async function getAuthorities(engine: string, parentHash: string): Promise<string[]> {
+    const apiAt = await getApiAt(`0x${parentHash}`);
+    const query = apiAt.query[engine]?.authorities;
+    if (!query) {
+        return [];
+    }
+    // babe は (公開鍵, 重み) の組
+    const authorities = (await query()).toJSON() as (string | [string, number])[];
+    return authorities.map((authority) => (Array.isArray(authority) ? authority[0] : authority).substring(2).toLowerCase());
+}
+
+/**
+ * ブロックダイジェストからスロット番号を求め、担当のオーソリティから作成者を導きます。
+ * Auraはスロット番号をオーソリティ数で割った余り、BABEはダイジェストのインデックスが作成者です。
+ * @param digest header.digest.toString() の文字列
+ * @param parentHash 親ブロックのハッシュ（0xなし）
+ * @returns スロットと作成者。プレランタイムログが無い場合（ジェネシスブロックなど）や、
+ *          親ブロックの時点のオーソリティから作成者を求められない場合はnullを返します。
+ */
+export async function getBlockConsensus(digest: string, parentHash: string): Promise<BlockConsensus | null> {
+    const preRuntime = decodePreRuntimeDigest(digest);
+    if (!preRuntime) {
+        return null;
+    }
+
+    const authorities = await getAuthorities(preRuntime.engine, parentHash);
+    const authorityIndex = preRuntime.authorityIndex ?? preRuntime.slot % (authorities.length || 1);
+    const author = authorities[authorityIndex];
+    if (!author) {
+        console.warn(
+            `[midnight-indexer] ⚠️ No ${preRuntime.engine} authority ${authorityIndex} at ${parentHash} ` +
+            `(${authorities.length} authorities)`
+        );
+        return null;
     }
-    return dt;
+    return { engine: preRuntime.engine, slot: preRuntime.slot, authorityIndex, author, authorities };
 }
 
 
@@ -537,15 +819,19 @@ export async function getBlockData(header: Header): Promise<Block> {
         api =await connectToChain();
     }
 
-    const hash = await getBlockHashFromHeight(header.number.toNumber());
+    // フォーク上のブロックも取得できるように、高さではなくヘッダーのハッシュで取得する
+    const hash = api.registry.createType<BlockHash>('BlockHash', header.hash);
 
     const block = await getBlockFromHash(hash);
+    const { events, results } = await getBlockEvents(hash);
+    const runtime = await getBlockRuntime(hash);
 
     const extrinsics: Extrinsic[] = [];
     for (let index = 0; index < block.block.extrinsics.length; index++) {
         const extrinsic = block.block.extrinsics[index];
 
         const method = extrinsic.method;
+        const { args, argTypes } = await decodeCallArgs(method);
         const timestamp = await blockHashToTimestamp(hash);
         const data = {
             index: index,
@@ -557,13 +843,8 @@ export async function getBlockData(header: Header): Promise<Block> {
             method: {
                 section: method.section,
                 method: method.method,
-                args: method.args.map((args: any) => {
-                    try {
-                        return args.ToHuman ? args.ToHuman() : args.toString();
-                    } catch {
-                        return args.toString();
-                    }
-                }),
+                args: args,
+                argTypes: argTypes,
             },
             signer: extrinsic.signer ? extrinsic.signer.toString() : null,
             signature: extrinsic.signature ? extrinsic.signature.toString() : null,
@@ -574,6 +855,8 @@ export async function getBlockData(header: Header): Promise<Block> {
             length: extrinsic.length,
             data: Buffer.from(extrinsic.data).toString('hex'),
             timestamp: timestamp,
+            success: results.get(index)?.success ?? null,
+            error: results.get(index)?.error ?? null,
         };
 
         extrinsics.push(data);
@@ -587,6 +870,9 @@ export async function getBlockData(header: Header): Promise<Block> {
         parentHash = '0'.repeat(64);
     }
 
+    const digest = header.digest.toString();
+    const consensus = header.number.toNumber() > 0 ? await getBlockConsensus(digest, parentHash) : null;
+
     return {
         hash: header.hash.toString().substring(2).toLowerCase(),
         height: header.number.toNumber(),
@@ -595,6 +881,9 @@ export async function getBlockData(header: Header): Promise<Block> {
         timestamp: await blockHashToTimestamp(hash),
         isFinalized: false,
         extrinsics: extrinsics,
+        events: events,
+        consensus: consensus,
+        runtime: runtime,
         raw: {
             blockHash: block.block.hash.toString().substring(2).toLowerCase(),
             blockNumber: header.number.toNumber(),
@@ -605,14 +894,19 @@ export async function getBlockData(header: Header): Promise<Block> {
                 parentHash: parentHash,
                 stateRoot: header.stateRoot.toString().substring(2).toLowerCase(),
                 extrinsicsRoot: header.extrinsicsRoot.toString().substring(2).toLowerCase(),
-                digest: header.digest.toString(),
+                digest: digest,
                 encodedLength: header.encodedLength,
                 isEmpty: header.isEmpty,
                 registry: (header.registry as any).chainSS58 || null,
             },
             extrinsicsCount: extrinsics.length,
-            events: [],
-            eventsCount: 0,
+            events: events.map((event) => ({
+                index: event.index,
+                phase: event.extrinsicIndex !== null ? `${event.phase}(${event.extrinsicIndex})` : event.phase,
+                event: `${event.section}.${event.method}`,
+                topics: event.topics,
+            })),
+            eventsCount: events.length,
             justifications: null,
             encodedLength: block.block.encodedLength,
             isEmpty: block.block.isEmpty,
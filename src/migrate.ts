@@ -3,6 +3,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Pool, PoolClient } from 'pg';
 import { connectPostgres, getPostgresPool, withPgClient } from './database';
+import { NETWORK } from './network';
 
 interface MigrationFile {
   version: string;
@@ -66,17 +67,17 @@ async function ensureMigrationsTable(client: PoolClient): Promise<void> {
   const checkResult = await client.query(`
     SELECT EXISTS (
       SELECT FROM information_schema.tables 
-      WHERE table_schema = 'mn_preview_indexer'
+      WHERE table_schema = $1
       AND table_name = 'schema_migrations'
     )
-  `);
+  `, [NETWORK.schema]);
 
   if (!checkResult.rows[0].exists) {
     console.log('📋 マイグレーション管理テーブルを作成中...');
     await client.query('BEGIN');
     try {
       // search_pathをpublicに設定（トランザクション内でのみ有効）
-      await client.query('SET search_path TO mn_preview_indexer');
+      await client.query(`SET search_path TO ${NETWORK.schema}`);
       
       // テーブルを作成（IF NOT EXISTSを使用しない、エラーは後で処理）
       await client.query(`
@@ -97,10 +98,10 @@ async function ensureMigrationsTable(client: PoolClient): Promise<void> {
       const verifyResult = await client.query(`
         SELECT EXISTS (
           SELECT FROM information_schema.tables 
-          WHERE table_schema = 'mn_preview_indexer'
+          WHERE table_schema = $1
           AND table_name = 'schema_migrations'
         )
-      `);
+      `, [NETWORK.schema]);
       
       if (!verifyResult.rows[0].exists) {
         throw new Error('schema_migrationsテーブルの作成に失敗しました');
@@ -122,7 +123,7 @@ async function ensureMigrationsTable(client: PoolClient): Promise<void> {
         // テーブルは存在するが、マイグレーション記録がない場合は追加（既に存在する場合はスキップ）
         try {
           await client.query(
-            'INSERT INTO mn_preview_indexer.schema_migrations (version, name) VALUES ($1, $2) ON CONFLICT (version) DO NOTHING',
+            `INSERT INTO ${NETWORK.schema}.schema_migrations (version, name) VALUES ($1, $2) ON CONFLICT (version) DO NOTHING`,
             ['0000', 'create_migrations_table']
           );
         } catch (insertError) {
@@ -146,14 +147,15 @@ async function applyMigration(
 
   await client.query('BEGIN');
   try {
-    await client.query('SET search_path TO mn_preview_indexer');
+    await client.query(`SET search_path TO ${NETWORK.schema}`);
     // SQLを実行（複数の文が含まれる場合に対応）
     // より正確な分割方法: セミコロンで終わる文を分割（改行やコメントを考慮）
-    // コメント行を除去
+    // コメント行を除去し、:schema をインデックスしているネットワークのスキーマに置き換える
     const contentWithoutComments = migration.content
       .split('\n')
       .filter(line => !line.trim().startsWith('--'))
-      .join('\n');
+      .join('\n')
+      .replace(/:schema\b/g, NETWORK.schema);
     
     // セミコロンで分割し、空の文を除外
     const statements = contentWithoutComments
@@ -161,18 +163,9 @@ async function applyMigration(
       .map((s) => s.trim())
       .filter((s) => s.length > 0);
 
-    // SET search_pathコマンドを先に実行
-    for (const statement of statements) {
-      const upperStatement = statement.toUpperCase().trim();
-      if (upperStatement.startsWith('SET SEARCH_PATH') || upperStatement.startsWith('SET LOCAL SEARCH_PATH')) {
-        try {
-          await client.query(statement);
-          console.log(`  📍 search_pathを設定: ${statement.substring(0, 80)}...`);
-        } catch (error: any) {
-          console.warn(`  ⚠️  search_pathの設定で警告: ${error.message}`);
-        }
-      }
-    }
+    // ファイル内の SET search_path は実行せず、BEGIN の後に設定したネットワークのスキーマを使用する
+    // （0040 までのマイグレーションは mn_preview_indexer を直接指定しているため）
+    console.log(`  📍 search_pathを設定: ${NETWORK.schema}`);
 
     // CREATE SCHEMAを実行
     for (const statement of statements) {
@@ -213,9 +206,9 @@ async function applyMigration(
 
     // マイグレーションを記録（publicスキーマを明示的に指定）
     // search_pathを一時的にpublicに設定してからINSERT
-    await client.query('SET search_path TO mn_preview_indexer');
+    await client.query(`SET search_path TO ${NETWORK.schema}`);
     await client.query(
-      'INSERT INTO mn_preview_indexer.schema_migrations (version, name) VALUES ($1, $2)',
+      `INSERT INTO ${NETWORK.schema}.schema_migrations (version, name) VALUES ($1, $2)`,
       [migration.version, migration.name]
     );
 
@@ -246,14 +239,16 @@ export async function runMigrations(migrationsDir?: string): Promise<void> {
     }
   }
   console.log(`📂 マイグレーションディレクトリ: ${migrationsPath}`);
+  console.log(`🌐 ネットワーク: ${NETWORK.name} (スキーマ: ${NETWORK.schema})`);
 
   // PostgreSQLに接続
   await connectPostgres();
   const pool = getPostgresPool();
 
   await withPgClient(async (client) => {
-    // search_pathを設定（mn_preview_indexerを優先、publicはマイグレーション管理用）
-    await client.query('SET search_path TO mn_preview_indexer');
+    // ネットワークのスキーマが無ければ作成し、search_pathを設定
+    await client.query(`CREATE SCHEMA IF NOT EXISTS ${NETWORK.schema}`);
+    await client.query(`SET search_path TO ${NETWORK.schema}`);
 
     // マイグレーション管理テーブルを確認・作成
     await ensureMigrationsTable(client);
@@ -0,0 +1,176 @@
+import type { PoolClient } from 'pg';
+
+/**
+ * インデックスするネットワーク
+ */
+export type NetworkName = 'preview' | 'testnet' | 'mainnet';
+
+/**
+ * ネットワークごとの設定
+ */
+export type NetworkProfile = {
+    name: NetworkName;
+    /**
+     * ノードのRPCエンドポイント
+     */
+    rpcUrl: string;
+    /**
+     * 上流のインデクサーのGraphQLエンドポイント
+     */
+    graphqlUrl: string;
+    /**
+     * 上流のインデクサーのGraphQLサブスクリプションのエンドポイント
+     */
+    graphqlSubscriptionUrl: string;
+    /**
+     * アンシールドアドレスのHRP
+     */
+    addressHrp: string;
+    /**
+     * DUSTアドレスのHRP
+     */
+    dustAddressHrp: string;
+    /**
+     * データを保存するスキーマ
+     */
+    schema: string;
+    /**
+     * ジェネシスブロックのハッシュ（0xなし・小文字）
+     * nullの場合は最初のインポート時に記録したハッシュと照合します。
+     */
+    genesisHash: string | null;
+};
+
+/**
+ * ネットワークごとの既定の設定
+ * エンドポイントが確認できていないネットワークはnullにし、環境変数での指定を必須にします。
+ */
+export type NetworkDefaults = Omit<NetworkProfile, 'rpcUrl' | 'graphqlUrl' | 'graphqlSubscriptionUrl'> & {
+    rpcUrl: string | null;
+    graphqlUrl: string | null;
+    graphqlSubscriptionUrl: string | null;
+};
+
+/**
+ * ネットワークごとの既定の設定
+ */
+const NETWORK_PROFILES: Record<NetworkName, NetworkDefaults> = {
+    preview: {
+        name: 'preview',
+        rpcUrl: 'wss://rpc.preview.midnight.network',
+        graphqlUrl: 'https://indexer.preview.midnight.network/api/v3/graphql',
+        graphqlSubscriptionUrl: 'wss://indexer.preview.midnight.network/api/v3/graphql/ws',
+        addressHrp: 'mn_addr_preview',
+        dustAddressHrp: 'mn_dust_preview',
+        schema: 'mn_preview_indexer',
+        genesisHash: null,
+    },
+    testnet: {
+        name: 'testnet',
+        rpcUrl: null,
+        graphqlUrl: null,
+        graphqlSubscriptionUrl: null,
+        addressHrp: 'mn_addr_test',
+        dustAddressHrp: 'mn_dust_test',
+        schema: 'mn_testnet_indexer',
+        genesisHash: null,
+    },
+    mainnet: {
+        name: 'mainnet',
+        rpcUrl: null,
+        graphqlUrl: null,
+        graphqlSubscriptionUrl: null,
+        addressHrp: 'mn_addr',
+        dustAddressHrp: 'mn_dust',
+        schema: 'mn_mainnet_indexer',
+        genesisHash: null,
+    },
+};
+
+/**
+ * エンドポイントを環境変数または既定の設定から取得します。
+ * @param network ネットワーク名
+ * @param envNames エンドポイントを指定する環境変数（先に書いたものを優先）
+ * @param fallback 既定のエンドポイント
+ */
+function resolveEndpoint(network: NetworkName, envNames: string[], fallback: string | null): string {
+    for (const envName of envNames) {
+        const value = process.env[envName]?.trim();
+        if (value) {
+            return value;
+        }
+    }
+    if (!fallback) {
+        throw new Error(`MIDNIGHT_NETWORK=${network} has no default endpoint: set ${envNames.join(' or ')}`);
+    }
+    return fallback;
+}
+
+/**
+ * 環境変数で選択したネットワークの設定を作ります。
+ * スキーマ名とジェネシスハッシュは環境変数で上書きできます。
+ * エンドポイントは環境変数で上書きでき、既定の無いネットワークでは指定が必須です。
+ */
+function resolveNetworkProfile(): NetworkProfile {
+    const name = (process.env.MIDNIGHT_NETWORK || 'preview').trim().toLowerCase();
+    if (!(name in NETWORK_PROFILES)) {
+        throw new Error(`Unknown MIDNIGHT_NETWORK: ${name} (expected ${Object.keys(NETWORK_PROFILES).join(', ')})`);
+    }
+    const profile = NETWORK_PROFILES[name as NetworkName];
+
+    const schema = process.env.MIDNIGHT_DB_SCHEMA?.trim() || profile.schema;
+    // スキーマ名はSQLに埋め込むため識別子として安全なものに限る
+    if (!/^[a-z_][a-z0-9_]*$/.test(schema)) {
+        throw new Error(`Invalid MIDNIGHT_DB_SCHEMA: ${schema}`);
+    }
+
+    const genesisHash = process.env.MIDNIGHT_GENESIS_HASH?.trim();
+    return {
+        ...profile,
+        rpcUrl: resolveEndpoint(profile.name, ['MIDNIGHT_GRAPHQL_WS_URL', 'MIDNIGHT_WS_ENDPOINT'], profile.rpcUrl),
+        graphqlUrl: resolveEndpoint(profile.name, ['MIDNIGHT_GRAPHQL_URL'], profile.graphqlUrl),
+        graphqlSubscriptionUrl: resolveEndpoint(
+            profile.name,
+            ['MIDNIGHT_GRAPHQL_SUBSCRIPTION_URL'],
+            profile.graphqlSubscriptionUrl
+        ),
+        schema,
+        genesisHash: genesisHash ? genesisHash.toLowerCase().replace(/^0x/, '') : profile.genesisHash,
+    };
+}
+
+/**
+ * インデックスするネットワークの設定（環境変数 MIDNIGHT_NETWORK で選択）
+ */
+export const NETWORK: NetworkProfile = resolveNetworkProfile();
+
+/**
+ * ネットワークの設定を取得します。
+ * @param name ネットワーク名
+ */
+export function getNetworkProfile(name: NetworkName): NetworkDefaults {
+    return name === NETWORK.name ? NETWORK : NETWORK_PROFILES[name];
+}
+
+/**
+ * 上流のジェネシスブロックのハッシュが、インデックスするネットワークのものか確認します。
+ * 設定にジェネシスハッシュが無い場合は、最初に確認したハッシュをスキーマに記録して以降の照合に使います。
+ * 別のネットワークのデータを同じスキーマに混ぜないために、インポートを始める前に呼び出します。
+ * @param client データベースクライアント
+ * @param genesisHash 上流のジェネシスブロックのハッシュ
+ */
+export async function verifyGenesisHash(client: PoolClient, genesisHash: string): Promise<void> {
+    const hash = genesisHash.toLowerCase().replace(/^0x/, '');
+    if (NETWORK.genesisHash && NETWORK.genesisHash !== hash) {
+        throw new Error(`Genesis hash mismatch for ${NETWORK.name}: expected ${NETWORK.genesisHash} but upstream has ${hash}`);
+    }
+
+    const result = await client.query(`SELECT value FROM indexer_state WHERE key = 'genesis_hash'`);
+    const recorded: string | undefined = result.rows[0]?.value;
+    if (recorded === undefined) {
+        await client.query(`INSERT INTO indexer_state (key, value) VALUES ('genesis_hash', $1)`, [hash]);
+        console.log(`[network] 🧬 Recorded genesis hash of ${NETWORK.name}: ${hash}`);
+    } else if (recorded !== hash) {
+        throw new Error(`Genesis hash mismatch in schema ${NETWORK.schema}: recorded ${recorded} but upstream has ${hash}`);
+    }
+}
@@ -0,0 +1,173 @@
+import { EventEmitter } from 'node:events';
+import type { PoolClient } from 'pg';
+import { connectPostgres } from './database';
+
+/**
+ * ブロックのインポート完了を通知するチャンネル名
+ */
+const BLOCK_IMPORTED_CHANNEL = 'mn_indexer_block_imported';
+
+/**
+ * LISTEN接続が切断された場合の再接続間隔（ミリ秒）
+ */
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * ブロックのインポート完了通知
+ */
+export type BlockImportedNotification = {
+    height: number;
+};
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+let listenerClient: PoolClient | null = null;
+let listenerStarting: Promise<void> | null = null;
+let reconnectScheduled = false;
+let stopped = false;
+
+/**
+ * ブロックのインポート完了を通知します。
+ * トランザクション内で呼び出した場合、通知はCOMMIT時に配信されます。
+ * @param client データベースクライアント
+ * @param height インポートしたブロック高さ
+ */
+export async function notifyBlockImported(client: PoolClient, height: number): Promise<void> {
+    const payload: BlockImportedNotification = { height };
+    await client.query('SELECT pg_notify($1, $2)', [BLOCK_IMPORTED_CHANNEL, JSON.stringify(payload)]);
+}
+
+/**
+ * ブロックのインポート完了通知の受信を開始します。
+ * 専用の接続でLISTENし、切断された場合は自動的に再接続します。
+ */
+export async function startNotificationListener(): Promise<void> {
+    stopped = false;
+    if (listenerClient) {
+        return;
+    }
+    if (listenerStarting) {
+        return listenerStarting;
+    }
+
+    listenerStarting = (async () => {
+        const pool = await connectPostgres();
+        const client = await pool.connect();
+
+        client.on('notification', (message) => {
+            if (message.channel !== BLOCK_IMPORTED_CHANNEL || !message.payload) {
+                return;
+            }
+            try {
+                emitter.emit('block', JSON.parse(message.payload) as BlockImportedNotification);
+            } catch (error) {
+                console.warn(`[notifications] ⚠️ Invalid notification payload: ${message.payload}`, error);
+            }
+        });
+
+        // 切断時は error が複数回発生することがあるため、最初の1回だけ処理する
+        let failed = false;
+        client.on('error', (error) => {
+            if (failed) {
+                return;
+            }
+            failed = true;
+            console.error('[notifications] ❌ LISTEN connection error:', error);
+            releaseListener(client, true);
+            scheduleReconnect();
+        });
+
+        try {
+            await client.query(`LISTEN ${BLOCK_IMPORTED_CHANNEL}`);
+        } catch (error) {
+            if (!failed) {
+                failed = true;
+                releaseListener(client, true);
+            }
+            throw error;
+        }
+        listenerClient = client;
+        console.log(`[notifications] 👂 Listening on ${BLOCK_IMPORTED_CHANNEL}`);
+    })().finally(() => {
+        listenerStarting = null;
+    });
+
+    return listenerStarting;
+}
+
+/**
+ * 通知の受信を停止します。
+ */
+export async function stopNotificationListener(): Promise<void> {
+    stopped = true;
+    const client = listenerClient;
+    if (!client) {
+        return;
+    }
+    listenerClient = null;
+    try {
+        await client.query(`UNLISTEN ${BLOCK_IMPORTED_CHANNEL}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * LISTEN接続を解放します。
+ * @param client LISTENしていた接続
+ * @param destroy trueの場合は接続をプールに戻さずに破棄します（接続エラーの後など）
+ */
+function releaseListener(client: PoolClient, destroy: boolean = false): void {
+    if (listenerClient === client) {
+        listenerClient = null;
+    }
+    try {
+        client.release(destroy);
+    } catch {
+        // 既に解放済み
+    }
+}
+
+/**
+ * LISTEN接続の再接続を予約します。予約済みの場合は何もしません。
+ */
+function scheduleReconnect(): void {
+    if (stopped || reconnectScheduled) {
+        return;
+    }
+    reconnectScheduled = true;
+    setTimeout(() => {
+        reconnectScheduled = false;
+        if (stopped) {
+            return;
+        }
+        startNotificationListener().catch((error) => {
+            console.error('[notifications] ❌ Failed to reconnect LISTEN connection:', error);
+            scheduleReconnect();
+        });
+    }, RECONNECT_DELAY_MS);
+}
+
+/**
+ * 次のブロックのインポート完了通知を待ちます。
+ * 通知を取りこぼした場合に備えて、タイムアウトした場合も待機を終了します。
+ * @param timeoutMs タイムアウト（ミリ秒）
+ * @param signal 中断された場合も待機を終了します
+ */
+export function waitForBlockImported(timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const done = () => {
+            clearTimeout(timer);
+            emitter.off('block', done);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, timeoutMs);
+        emitter.once('block', done);
+        signal?.addEventListener('abort', done, { once: true });
+        if (signal?.aborted) {
+            done();
+        }
+    });
+}
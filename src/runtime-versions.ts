@@ -0,0 +1,329 @@
+import { createHash } from 'node:crypto';
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import { getBlockRuntime, getRuntimeMetadata } from './midnight-indexer';
+import type { Block, BlockRuntime } from './types/chain';
+
+/**
+ * ランタイムのバージョン（specVersion ごとに1件）
+ */
+export type RuntimeVersion = {
+    specName: string;
+    specVersion: number;
+    implVersion: number;
+    transactionVersion: number;
+    metadataHash: string;
+    metadataVersion: number;
+    firstHeight: number;
+    firstBlockHash: string;
+};
+
+/**
+ * ランタイムのアップグレード
+ */
+export type RuntimeUpgrade = {
+    height: number;
+    blockHash: string;
+    specName: string;
+    fromSpecVersion: number;
+    toSpecVersion: number;
+    fromTransactionVersion: number | null;
+    toTransactionVersion: number;
+    codeUpdatedHeight: number | null;
+};
+
+/**
+ * 保存済みのブロックのバージョンを作り直した結果
+ */
+export type RuntimeVersionRebuildResult = {
+    /**
+     * バージョンを保存したブロック数
+     */
+    blocks: number;
+    /**
+     * ランタイムのバージョンを問い合わせたブロック数
+     */
+    queriedBlocks: number;
+    /**
+     * 記録したアップグレード数
+     */
+    upgrades: number;
+};
+
+/**
+ * 行をランタイムのバージョンに変換します。
+ * @param row 行
+ */
+function toRuntimeVersion(row: any): RuntimeVersion {
+    return {
+        specName: row.spec_name,
+        specVersion: Number(row.spec_version),
+        implVersion: Number(row.impl_version),
+        transactionVersion: Number(row.transaction_version),
+        metadataHash: row.metadata_hash,
+        metadataVersion: Number(row.metadata_version),
+        firstHeight: Number(row.first_height),
+        firstBlockHash: row.first_block_hash,
+    };
+}
+
+/**
+ * 行をランタイムのアップグレードに変換します。
+ * @param row 行
+ */
+function toRuntimeUpgrade(row: any): RuntimeUpgrade {
+    return {
+        height: Number(row.height),
+        blockHash: row.block_hash,
+        specName: row.spec_name,
+        fromSpecVersion: Number(row.from_spec_version),
+        toSpecVersion: Number(row.to_spec_version),
+        fromTransactionVersion: row.from_transaction_version === null ? null : Number(row.from_transaction_version),
+        toTransactionVersion: Number(row.to_transaction_version),
+        codeUpdatedHeight: row.code_updated_height === null ? null : Number(row.code_updated_height),
+    };
+}
+
+/**
+ * 初めてのランタイムのバージョンであれば、そのメタデータとともに保存します。
+ * メタデータは内容のハッシュごとに1件だけ保存します。
+ * @param client データベースクライアント
+ * @param blockHash このバージョンのブロックのハッシュ（0xなし）
+ * @param height ブロック高さ
+ * @param runtime ランタイムのバージョン
+ */
+async function ensureRuntimeVersion(client: PoolClient, blockHash: string, height: number, runtime: BlockRuntime): Promise<void> {
+    const existing = await client.query(
+        'SELECT first_height FROM runtime_versions WHERE spec_name = $1 AND spec_version = $2',
+        [runtime.specName, runtime.specVersion]
+    );
+    if (existing.rows.length > 0) {
+        // 過去のブロックを後からインポートした場合に備え、最初のブロックを更新する
+        // （同時に更新された場合も低い方が残るよう、更新時の値と比較する）
+        if (height < Number(existing.rows[0].first_height)) {
+            await client.query(`
+                UPDATE runtime_versions SET first_height = $3, first_block_hash = $4
+                    WHERE spec_name = $1 AND spec_version = $2 AND first_height > $3
+            `, [runtime.specName, runtime.specVersion, height, blockHash]);
+        }
+        return;
+    }
+
+    const { version, metadata } = await getRuntimeMetadata(blockHash);
+    const metadataHash = createHash('sha256').update(metadata).digest('hex');
+    await client.query(`
+        INSERT INTO runtime_metadata (metadata_hash, metadata, metadata_version)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (metadata_hash) DO NOTHING
+    `, [metadataHash, metadata, version]);
+    await client.query(`
+        INSERT INTO runtime_versions
+            (spec_name, spec_version, impl_version, transaction_version, metadata_hash, first_height, first_block_hash)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            ON CONFLICT (spec_name, spec_version) DO UPDATE SET
+                first_height = LEAST(runtime_versions.first_height, EXCLUDED.first_height),
+                first_block_hash = CASE
+                    WHEN EXCLUDED.first_height < runtime_versions.first_height THEN EXCLUDED.first_block_hash
+                    ELSE runtime_versions.first_block_hash
+                END
+    `, [runtime.specName, runtime.specVersion, runtime.implVersion, runtime.transactionVersion, metadataHash, height, blockHash]);
+    console.log(`[runtime-versions] 🧩 New runtime ${runtime.specName} v${runtime.specVersion} (tx v${runtime.transactionVersion}) at block ${height}`);
+}
+
+/**
+ * 親ブロックと specVersion または transactionVersion が変わったブロックであれば、ランタイムのアップグレードとして記録します。
+ * コードを更新した system.CodeUpdated イベントが親ブロックにあれば、その高さも記録します。
+ * @param client データベースクライアント
+ * @param blockId ブロックID
+ * @returns アップグレードを記録した場合はtrue
+ */
+async function recordRuntimeUpgrade(client: PoolClient, blockId: number): Promise<boolean> {
+    // 同じ高さのブロックが置き換わった場合に備え、以前の記録を消してから記録する
+    await client.query('DELETE FROM runtime_upgrades WHERE block_id = $1', [blockId]);
+    const result = await client.query(`
+        INSERT INTO runtime_upgrades
+            (block_id, height, block_hash, spec_name, from_spec_version, to_spec_version,
+             from_transaction_version, to_transaction_version, code_updated_height)
+            SELECT b.id, b.height, b.hash,
+                   (SELECT v.spec_name FROM runtime_versions v WHERE v.spec_version = b.spec_version ORDER BY v.first_height LIMIT 1),
+                   p.spec_version, b.spec_version,
+                   p.transaction_version, b.transaction_version,
+                   CASE WHEN EXISTS (
+                       SELECT 1 FROM events e
+                           WHERE e.block_id = p.id AND e.section = 'system' AND e.method = 'CodeUpdated'
+                   ) THEN p.height END
+                FROM blocks b
+                JOIN blocks p ON p.hash = b.parent_hash
+                WHERE b.id = $1
+                  AND p.spec_version IS NOT NULL
+                  AND (p.spec_version <> b.spec_version OR p.transaction_version IS DISTINCT FROM b.transaction_version)
+            RETURNING height, from_spec_version, to_spec_version, from_transaction_version, to_transaction_version
+    `, [blockId]);
+    const upgrade = result.rows[0];
+    if (upgrade) {
+        console.log(
+            `[runtime-versions] ⬆️ Runtime upgraded at block ${upgrade.height}: ` +
+            `v${upgrade.from_spec_version} (tx v${upgrade.from_transaction_version ?? '-'}) → ` +
+            `v${upgrade.to_spec_version} (tx v${upgrade.to_transaction_version})`
+        );
+    }
+    return result.rows.length > 0;
+}
+
+/**
+ * ブロックのランタイムのバージョンを保存します。
+ * 初めてのバージョンの場合はメタデータを保存し、親ブロックから変わった場合はアップグレードを記録します。
+ * 子ブロックを先にインポートしていた場合は、子ブロックのアップグレードも記録し直します。
+ * @param client データベースクライアント
+ * @param blockId ブロックID
+ * @param block ブロックデータ
+ */
+export async function recordBlockRuntime(client: PoolClient, blockId: number, block: Block): Promise<void> {
+    const runtime = block.runtime;
+    await client.query(
+        'UPDATE blocks SET spec_version = $2, transaction_version = $3 WHERE id = $1',
+        [blockId, runtime.specVersion, runtime.transactionVersion]
+    );
+    await ensureRuntimeVersion(client, block.hash, block.height, runtime);
+    await recordRuntimeUpgrade(client, blockId);
+
+    const children = await client.query(
+        'SELECT id FROM blocks WHERE parent_hash = $1 AND spec_version IS NOT NULL',
+        [block.hash]
+    );
+    for (const child of children.rows) {
+        await recordRuntimeUpgrade(client, Number(child.id));
+    }
+}
+
+/**
+ * ランタイムのバージョンの一覧を取得します。
+ * @param client データベースクライアント
+ * @returns バージョン（最初のブロック高さ順）
+ */
+export async function listRuntimeVersions(client: PoolClient): Promise<RuntimeVersion[]> {
+    const result = await client.query(`
+        SELECT v.spec_name, v.spec_version, v.impl_version, v.transaction_version,
+               v.metadata_hash, m.metadata_version, v.first_height, v.first_block_hash
+            FROM runtime_versions v
+            JOIN runtime_metadata m ON m.metadata_hash = v.metadata_hash
+            ORDER BY v.first_height, v.spec_version
+    `);
+    return result.rows.map(toRuntimeVersion);
+}
+
+/**
+ * ランタイムのアップグレードの一覧を取得します。
+ * @param client データベースクライアント
+ * @returns アップグレード（ブロック高さ順）
+ */
+export async function listRuntimeUpgrades(client: PoolClient): Promise<RuntimeUpgrade[]> {
+    const result = await client.query(`
+        SELECT height, block_hash, spec_name, from_spec_version, to_spec_version,
+               from_transaction_version, to_transaction_version, code_updated_height
+            FROM runtime_upgrades
+            ORDER BY height
+    `);
+    return result.rows.map(toRuntimeUpgrade);
+}
+
+/**
+ * 範囲内で指定した高さに最も近い、保存済みのブロックを取得します。
+ * @param client データベースクライアント
+ * @param fromHeight 高さの下限
+ * @param toHeight 高さの上限
+ * @param near 目安の高さ
+ */
+async function findBlockNear(
+    client: PoolClient,
+    fromHeight: number,
+    toHeight: number,
+    near: number
+): Promise<{ height: number; hash: string } | null> {
+    const result = await client.query(
+        'SELECT height, hash FROM blocks WHERE height >= $1 AND height <= $2 ORDER BY ABS(height - $3), height LIMIT 1',
+        [fromHeight, toHeight, near]
+    );
+    const row = result.rows[0];
+    return row ? { height: Number(row.height), hash: row.hash } : null;
+}
+
+/**
+ * バージョンが未保存のブロックについて、ランタイムのバージョンを求め直します。
+ * 正規のチェーン上では specVersion は減らないため、範囲の両端のバージョンが同じであれば
+ * 間のブロックもすべて同じとみなし、異なる場合だけ二分して問い合わせます。
+ * 最後に、親ブロックと specVersion または transactionVersion が変わったブロックをアップグレードとして記録し直します。
+ * @returns バージョンを保存したブロック数と、記録したアップグレード数
+ */
+export async function rebuildRuntimeVersions(): Promise<RuntimeVersionRebuildResult> {
+    return withPgClient(async (client) => {
+        const bounds = await client.query(
+            'SELECT MIN(height) AS min_height, MAX(height) AS max_height FROM blocks WHERE spec_version IS NULL'
+        );
+        const result: RuntimeVersionRebuildResult = { blocks: 0, queriedBlocks: 0, upgrades: 0 };
+        if (bounds.rows[0].min_height === null) {
+            return result;
+        }
+
+        const runtimeAt = async (block: { height: number; hash: string }): Promise<BlockRuntime> => {
+            const runtime = await getBlockRuntime(block.hash);
+            await ensureRuntimeVersion(client, block.hash, block.height, runtime);
+            result.queriedBlocks++;
+            return runtime;
+        };
+        const fill = async (fromHeight: number, toHeight: number, runtime: BlockRuntime): Promise<void> => {
+            const updated = await client.query(`
+                UPDATE blocks SET spec_version = $3, transaction_version = $4
+                    WHERE height >= $1 AND height <= $2 AND spec_version IS NULL
+            `, [fromHeight, toHeight, runtime.specVersion, runtime.transactionVersion]);
+            result.blocks += updated.rowCount ?? 0;
+        };
+        const bisect = async (
+            from: { height: number; hash: string; runtime: BlockRuntime },
+            to: { height: number; hash: string; runtime: BlockRuntime }
+        ): Promise<void> => {
+            if (from.runtime.specName === to.runtime.specName
+                && from.runtime.specVersion === to.runtime.specVersion
+                && from.runtime.transactionVersion === to.runtime.transactionVersion) {
+                await fill(from.height, to.height, from.runtime);
+                return;
+            }
+            await fill(from.height, from.height, from.runtime);
+            await fill(to.height, to.height, to.runtime);
+            const middle = await findBlockNear(client, from.height + 1, to.height - 1, Math.floor((from.height + to.height) / 2));
+            if (!middle) {
+                return;
+            }
+            const mid = { ...middle, runtime: await runtimeAt(middle) };
+            await bisect(from, mid);
+            await bisect(mid, to);
+        };
+
+        const minHeight = Number(bounds.rows[0].min_height);
+        const maxHeight = Number(bounds.rows[0].max_height);
+        const first = await findBlockNear(client, minHeight, minHeight, minHeight);
+        const last = await findBlockNear(client, maxHeight, maxHeight, maxHeight);
+        if (!first || !last) {
+            return result;
+        }
+        await bisect(
+            { ...first, runtime: await runtimeAt(first) },
+            { ...last, runtime: await runtimeAt(last) }
+        );
+
+        const changed = await client.query(`
+            SELECT b.id
+                FROM blocks b
+                JOIN blocks p ON p.hash = b.parent_hash
+                WHERE p.spec_version IS NOT NULL AND b.spec_version IS NOT NULL
+                  AND (p.spec_version <> b.spec_version OR p.transaction_version IS DISTINCT FROM b.transaction_version)
+                ORDER BY b.height
+        `);
+        for (const row of changed.rows) {
+            if (await recordRuntimeUpgrade(client, Number(row.id))) {
+                result.upgrades++;
+            }
+        }
+        return result;
+    });
+}
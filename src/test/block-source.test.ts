@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    createStaticBlockSource,
+    fetchBlock,
+    setBlockSources,
+    type BlockSource,
+    type BlockSourceData,
+    type GraphQLBlock,
+} from '../block-source';
+import type { Block } from '../types/chain';
+
+const polkadotBlock = { height: 1, hash: 'aa' } as unknown as Block;
+const graphqlBlock = { height: 1, hash: 'aa' } as unknown as GraphQLBlock;
+
+/**
+ * RPC（polkadot）とGraphQLを別々に提供するソースを作成します。
+ * @param graphqlBlocks GraphQLのソースが返すブロック
+ */
+function createSources(graphqlBlocks: Map<number, BlockSourceData>): BlockSource[] {
+    return [
+        createStaticBlockSource('rpc', new Map([[1, { polkadot: polkadotBlock }]]), ['polkadot']),
+        createStaticBlockSource('graphql', graphqlBlocks, ['graphql']),
+    ];
+}
+
+test('require-all: 全ての種類が揃った場合は両方のデータを返す', async () => {
+    setBlockSources(createSources(new Map([[1, { graphql: graphqlBlock }]])), 'require-all');
+
+    const block = await fetchBlock(1);
+    assert.equal(block.polkadotBlock, polkadotBlock);
+    assert.equal(block.graphqlBlock, graphqlBlock);
+    assert.deepEqual(block.missing, []);
+});
+
+test('require-all: 一部の種類が見つからない場合はエラーになる', async () => {
+    setBlockSources(createSources(new Map()), 'require-all');
+
+    await assert.rejects(fetchBlock(1), /missing graphql/);
+});
+
+test('best-effort: 一部の種類が見つからない場合は取得できたデータだけを返す', async () => {
+    setBlockSources(createSources(new Map()), 'best-effort');
+
+    const block = await fetchBlock(1);
+    assert.equal(block.polkadotBlock, polkadotBlock);
+    assert.equal(block.graphqlBlock, null);
+    assert.deepEqual(block.missing, ['graphql']);
+});
+
+test('best-effort: どの種類も見つからない場合はエラーになる', async () => {
+    setBlockSources(createSources(new Map()), 'best-effort');
+
+    await assert.rejects(fetchBlock(2), /missing polkadot, graphql/);
+});
+
+test('同じ種類のソースが失敗した場合は次のソースを使う', async () => {
+    const failing: BlockSource = {
+        name: 'failing',
+        kinds: ['polkadot', 'graphql'],
+        async fetch() {
+            throw new Error('connection refused');
+        },
+    };
+    const archive = createStaticBlockSource('archive', new Map([[1, { polkadot: polkadotBlock, graphql: graphqlBlock }]]));
+    setBlockSources([failing, archive], 'require-all');
+
+    const block = await fetchBlock(1);
+    assert.equal(block.polkadotBlock, polkadotBlock);
+    assert.equal(block.graphqlBlock, graphqlBlock);
+    assert.deepEqual(block.missing, []);
+});
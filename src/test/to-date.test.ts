@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toDate } from '../midnight-indexer';
+
+test('GraphQLのブロックの timestamp はミリ秒として変換する', () => {
+    assert.equal(toDate(1754395200000, 'milliseconds').toISOString(), '2025-08-05T12:00:00.000Z');
+});
+
+test('UTXOの ctime は秒として変換する', () => {
+    assert.equal(toDate(1754395200, 'seconds').toISOString(), '2025-08-05T12:00:00.000Z');
+});
+
+test('ミリ秒のタイムスタンプを秒として変換すると未来の日時としてエラーになる', () => {
+    assert.throws(() => toDate(1754395200000, 'seconds'), /is in the future/);
+});
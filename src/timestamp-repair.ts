@@ -0,0 +1,171 @@
+import type { PoolClient } from 'pg';
+import { withPgClient } from './database';
+import { fetchBlock } from './block-source';
+import { LEGACY_FALLBACK_TIMESTAMPS, toDate } from './midnight-indexer';
+
+/**
+ * タイムスタンプの修復結果（テーブルごとに、代わりの日時が保存されていた行数）
+ */
+export type TimestampRepairResult = {
+    blocks: number;
+    transactions: number;
+    unshieldedUtxos: number;
+    watchedAddressUtxos: number;
+    addresses: number;
+    /**
+     * 修復できなかったブロックの高さ
+     */
+    unresolvedBlocks: number[];
+    /**
+     * 修復後も親ブロックより前のタイムスタンプを持つブロックの高さ
+     */
+    outOfOrderBlocks: number[];
+};
+
+/**
+ * ブロックの正しいタイムスタンプを求めます。
+ * 保存済みのrawデータ（timestamp.now のミリ秒）を優先し、無い場合はブロックソースから取得し直します。
+ * @param height ブロック高さ
+ * @param raw blocks.raw
+ * @returns タイムスタンプ。求められない場合はnullを返します。
+ */
+async function resolveBlockTimestamp(height: number, raw: any): Promise<Date | null> {
+    if (raw && Number(raw.timestamp) > 0) {
+        return toDate(Number(raw.timestamp), 'milliseconds');
+    }
+    const fetched = await fetchBlock(height);
+    if (fetched.graphqlBlock) {
+        return toDate(fetched.graphqlBlock.timestamp, 'milliseconds');
+    }
+    if (fetched.polkadotBlock) {
+        return toDate(fetched.polkadotBlock.timestamp, 'milliseconds');
+    }
+    return null;
+}
+
+/**
+ * 親ブロックより前のタイムスタンプを持つブロックの高さを取得します。
+ * @param client データベースクライアント
+ */
+async function findOutOfOrderBlocks(client: PoolClient): Promise<number[]> {
+    const result = await client.query(`
+        SELECT b.height
+            FROM blocks b
+            JOIN blocks p ON p.height = b.height - 1
+            WHERE b.timestamp < p.timestamp
+            ORDER BY b.height
+    `);
+    return result.rows.map((row) => Number(row.height));
+}
+
+/**
+ * 代わりの日時が保存されている行数をテーブルごとに数えます。
+ * @param client データベースクライアント
+ * @param fallbacks 代わりの日時の候補
+ */
+async function countFallbackRows(
+    client: PoolClient,
+    fallbacks: Date[]
+): Promise<Omit<TimestampRepairResult, 'unresolvedBlocks' | 'outOfOrderBlocks'>> {
+    const result = await client.query(`
+        SELECT
+            (SELECT COUNT(*) FROM blocks WHERE timestamp = ANY($1::TIMESTAMPTZ[])) AS blocks,
+            (SELECT COUNT(*) FROM transactions WHERE timestamp = ANY($1::TIMESTAMPTZ[])) AS transactions,
+            (SELECT COUNT(*) FROM unshielded_utxos WHERE ctime = ANY($1::TIMESTAMPTZ[])) AS unshielded_utxos,
+            (SELECT COUNT(*) FROM watched_address_utxos WHERE ctime = ANY($1::TIMESTAMPTZ[])) AS watched_address_utxos,
+            (SELECT COUNT(*) FROM addresses
+                WHERE created_at = ANY($1::TIMESTAMPTZ[]) OR updated_at = ANY($1::TIMESTAMPTZ[])) AS addresses
+    `, [fallbacks]);
+    const row = result.rows[0];
+    return {
+        blocks: Number(row.blocks),
+        transactions: Number(row.transactions),
+        unshieldedUtxos: Number(row.unshielded_utxos),
+        watchedAddressUtxos: Number(row.watched_address_utxos),
+        addresses: Number(row.addresses),
+    };
+}
+
+/**
+ * 以前の toDate が単位を判定できずに代わりの日時を保存した行を探し、正しいタイムスタンプに修復します。
+ * ブロックはrawデータかブロックソースから、トランザクションはブロックから、UTXOの ctime はrawデータから、
+ * アドレスの作成・更新日時は最初と最後に現れたブロックから求め直します。
+ * @param dryRun trueの場合は対象の行数を数えるだけで更新しません
+ * @param fallbacks 代わりの日時の候補（省略時は全てのローカル時刻のオフセットでの値）
+ * @returns 修復前に代わりの日時が保存されていた行数と、修復できなかったブロック
+ */
+export async function repairTimestamps(
+    dryRun: boolean = false,
+    fallbacks: Date[] = LEGACY_FALLBACK_TIMESTAMPS
+): Promise<TimestampRepairResult> {
+    const counts = await withPgClient((client) => countFallbackRows(client, fallbacks));
+    if (dryRun) {
+        return {
+            ...counts,
+            unresolvedBlocks: [],
+            outOfOrderBlocks: await withPgClient((client) => findOutOfOrderBlocks(client)),
+        };
+    }
+
+    // ブロックはブロックソースへの問い合わせが必要なため、1ブロックずつ修復する
+    const blockRows = await withPgClient((client) => client.query(
+        'SELECT height, raw FROM blocks WHERE timestamp = ANY($1::TIMESTAMPTZ[]) ORDER BY height',
+        [fallbacks]
+    ));
+    const unresolvedBlocks: number[] = [];
+    for (const row of blockRows.rows) {
+        const height = Number(row.height);
+        try {
+            const timestamp = await resolveBlockTimestamp(height, row.raw);
+            if (!timestamp) {
+                unresolvedBlocks.push(height);
+                continue;
+            }
+            await withPgClient((client) => client.query(
+                'UPDATE blocks SET timestamp = $2 WHERE height = $1',
+                [height, timestamp]
+            ));
+        } catch (error) {
+            console.error(`[timestamp-repair] ❌ Failed to repair timestamp of block ${height}:`, error);
+            unresolvedBlocks.push(height);
+        }
+    }
+
+    return withPgClient(async (client) => {
+        await client.query('BEGIN');
+        try {
+            await client.query(`
+                UPDATE transactions t SET timestamp = b.timestamp
+                    FROM blocks b
+                    WHERE t.block_id = b.id AND t.timestamp = ANY($1::TIMESTAMPTZ[]) AND b.timestamp <> ALL($1::TIMESTAMPTZ[])
+            `, [fallbacks]);
+            await client.query(`
+                UPDATE unshielded_utxos SET ctime = TO_TIMESTAMP((raw->>'ctime')::DOUBLE PRECISION), updated_at = NOW()
+                    WHERE ctime = ANY($1::TIMESTAMPTZ[]) AND raw->>'ctime' ~ '^[0-9]+$'
+            `, [fallbacks]);
+            await client.query(`
+                UPDATE watched_address_utxos w SET ctime = u.ctime
+                    FROM unshielded_utxos u
+                    WHERE w.ctime = ANY($1::TIMESTAMPTZ[])
+                      AND u.created_at_tx_hash = w.created_at_tx_hash AND u.output_index = w.output_index
+                      AND u.ctime <> ALL($1::TIMESTAMPTZ[])
+            `, [fallbacks]);
+            await client.query(`
+                UPDATE addresses a SET
+                    created_at = CASE WHEN a.created_at = ANY($1::TIMESTAMPTZ[]) THEN COALESCE(f.timestamp, a.created_at) ELSE a.created_at END,
+                    updated_at = CASE WHEN a.updated_at = ANY($1::TIMESTAMPTZ[]) THEN COALESCE(l.timestamp, a.updated_at) ELSE a.updated_at END
+                    FROM addresses x
+                    LEFT JOIN blocks f ON f.height = x.first_seen_height
+                    LEFT JOIN blocks l ON l.height = x.last_seen_height
+                    WHERE x.id = a.id AND (a.created_at = ANY($1::TIMESTAMPTZ[]) OR a.updated_at = ANY($1::TIMESTAMPTZ[]))
+            `, [fallbacks]);
+
+            const outOfOrderBlocks = await findOutOfOrderBlocks(client);
+            await client.query('COMMIT');
+            return { ...counts, unresolvedBlocks, outOfOrderBlocks };
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        }
+    });
+}
@@ -0,0 +1,287 @@
+import type { PoolClient } from 'pg';
+import { RegularTransaction, SystemTransaction } from './graphql/generated';
+import { TOKEN_TYPE } from './midnight-indexer';
+
+/**
+ * トークンのメタデータ
+ */
+export type TokenMetadata = {
+    tokenType: string;
+    symbol: string | null;
+    name: string | null;
+    decimals: number;
+};
+
+/**
+ * トークンごとの入力と出力の合計
+ */
+export type TokenTotals = {
+    input: bigint;
+    output: bigint;
+};
+
+/**
+ * トークンごとの供給量のスナップショットの更新に使用するアドバイザリーロックの名前空間（'mnts'）
+ */
+const TOKEN_SUPPLY_LOCK_NAMESPACE = 0x6d6e7473;
+
+/**
+ * 既知のトークン（データベースに接続できない場合も表示に使用します）
+ */
+const KNOWN_TOKENS: Record<string, Omit<TokenMetadata, 'tokenType'>> = {
+    [TOKEN_TYPE.NIGHT]: { symbol: 'NIGHT', name: 'Night', decimals: 6 },
+};
+
+/**
+ * トークンの種類を保存形式（0xなし・小文字）に変換します。
+ * @param tokenType トークンの種類
+ */
+function toStoredTokenType(tokenType: string): string {
+    const lower = tokenType.toString().toLowerCase();
+    return lower.startsWith('0x') ? lower.substring(2) : lower;
+}
+
+/**
+ * 既知のトークンのメタデータを返します。
+ * @param tokenType トークンの種類
+ * @returns メタデータ。既知のトークンでない場合はnullを返します。
+ */
+export function getKnownToken(tokenType: string): TokenMetadata | null {
+    const stored = toStoredTokenType(tokenType);
+    const known = KNOWN_TOKENS[stored];
+    return known ? { tokenType: stored, ...known } : null;
+}
+
+/**
+ * 最小単位の数量を、小数点以下の桁数に合わせて表示用の文字列に変換します。
+ * @param amount 最小単位の数量
+ * @param decimals 小数点以下の桁数
+ * @returns 3桁区切りの文字列（例: 1,234.500000）
+ */
+export function formatTokenAmount(amount: string | bigint | number, decimals: number): string {
+    const value = BigInt(amount);
+    const negative = value < 0n;
+    const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+    const integer = digits.slice(0, digits.length - decimals).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    const fraction = decimals > 0 ? `.${digits.slice(digits.length - decimals)}` : '';
+    return `${negative ? '-' : ''}${integer}${fraction}`;
+}
+
+/**
+ * 数量をトークンのシンボル付きで表示用の文字列に変換します。
+ * メタデータが無いトークンは、最小単位の数量とトークンの種類の先頭を表示します。
+ * @param amount 最小単位の数量
+ * @param tokenType トークンの種類
+ * @param metadata トークンのメタデータ（省略時は既知のトークンから探します）
+ */
+export function formatTokenValue(
+    amount: string | bigint | number,
+    tokenType: string,
+    metadata: TokenMetadata | null = getKnownToken(tokenType)
+): string {
+    if (!metadata || !metadata.symbol) {
+        return `${formatTokenAmount(amount, metadata?.decimals ?? 0)} (${toStoredTokenType(tokenType).substring(0, 8)}…)`;
+    }
+    return `${formatTokenAmount(amount, metadata.decimals)} ${metadata.symbol}`;
+}
+
+/**
+ * トランザクションのアンシールドUTXOを、トークンの種類ごとに集計します。
+ * 入力は消費されたUTXO、出力は作成されたUTXOです。
+ * @param tx トランザクション
+ * @returns トークンの種類ごとの合計
+ */
+export function sumTokenTotals(tx: RegularTransaction | SystemTransaction): Map<string, TokenTotals> {
+    const totals = new Map<string, TokenTotals>();
+    const totalsOf = (tokenType: string) => {
+        const stored = toStoredTokenType(tokenType);
+        let entry = totals.get(stored);
+        if (!entry) {
+            entry = { input: 0n, output: 0n };
+            totals.set(stored, entry);
+        }
+        return entry;
+    };
+
+    for (const utxo of tx.unshieldedSpentOutputs ?? []) {
+        totalsOf(utxo.tokenType).input += BigInt(utxo.value);
+    }
+    for (const utxo of tx.unshieldedCreatedOutputs ?? []) {
+        totalsOf(utxo.tokenType).output += BigInt(utxo.value);
+    }
+    return totals;
+}
+
+/**
+ * トークンのメタデータを取得します。登録されていないトークンは既知のトークンから探します。
+ * @param client データベースクライアント
+ * @param tokenTypes トークンの種類
+ * @returns トークンの種類ごとのメタデータ
+ */
+export async function loadTokenMetadata(client: PoolClient, tokenTypes: string[]): Promise<Map<string, TokenMetadata>> {
+    const stored = [...new Set(tokenTypes.map(toStoredTokenType))];
+    const result = await client.query(`
+        SELECT token_type, symbol, name, decimals FROM tokens WHERE token_type = ANY($1::VARCHAR[])
+    `, [stored]);
+
+    const metadata = new Map<string, TokenMetadata>();
+    for (const tokenType of stored) {
+        const known = getKnownToken(tokenType);
+        if (known) {
+            metadata.set(tokenType, known);
+        }
+    }
+    for (const row of result.rows) {
+        metadata.set(row.token_type, {
+            tokenType: row.token_type,
+            symbol: row.symbol,
+            name: row.name,
+            decimals: Number(row.decimals),
+        });
+    }
+    return metadata;
+}
+
+/**
+ * トークンのメタデータを設定します。
+ * @param client データベースクライアント
+ * @param metadata メタデータ
+ */
+export async function setTokenMetadata(client: PoolClient, metadata: TokenMetadata): Promise<void> {
+    await client.query(`
+        INSERT INTO tokens (token_type, symbol, name, decimals)
+            VALUES ($1, $2, $3, $4)
+            ON CONFLICT (token_type) DO UPDATE SET
+                symbol = EXCLUDED.symbol,
+                name = EXCLUDED.name,
+                decimals = EXCLUDED.decimals,
+                updated_at = NOW()
+    `, [toStoredTokenType(metadata.tokenType), metadata.symbol, metadata.name, metadata.decimals]);
+}
+
+/**
+ * トークンを登録します。既に登録されている場合は、より前のブロックで見つかった時に初出の記録を更新します。
+ * @param client データベースクライアント
+ * @param tokenType トークンの種類
+ * @param height ブロック高さ
+ * @param transactionId トランザクションID
+ */
+async function registerToken(client: PoolClient, tokenType: string, height: number, transactionId: number): Promise<void> {
+    const known = getKnownToken(tokenType);
+    const result = await client.query(`
+        INSERT INTO tokens (token_type, symbol, name, decimals, first_seen_height, first_seen_transaction_id)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            ON CONFLICT (token_type) DO UPDATE SET
+                first_seen_height = EXCLUDED.first_seen_height,
+                first_seen_transaction_id = EXCLUDED.first_seen_transaction_id,
+                updated_at = NOW()
+                WHERE tokens.first_seen_height IS NULL OR tokens.first_seen_height > EXCLUDED.first_seen_height
+            RETURNING (xmax = 0) AS inserted
+    `, [tokenType, known?.symbol ?? null, known?.name ?? null, known?.decimals ?? 0, height, transactionId]);
+
+    if (result.rows[0]?.inserted) {
+        console.log(`[tokens] 🪙 New token type ${tokenType} at block ${height}`);
+    }
+}
+
+/**
+ * トークンの供給量のスナップショットを、トランザクションの終了までロックします。
+ * 並列のバックフィルで同時に更新されないよう、スナップショットを読み書きする前に取得します。
+ * 複数のトランザクションが互いの解放を待たないよう、常にトークンの種類の順に取得します。
+ * @param client トランザクション中の接続
+ * @param tokenTypes トークンの種類
+ */
+async function lockTokenSupplies(client: PoolClient, tokenTypes: string[]): Promise<void> {
+    for (const tokenType of [...new Set(tokenTypes)].sort()) {
+        await client.query('SELECT pg_advisory_xact_lock($1::INT, hashtext($2))', [TOKEN_SUPPLY_LOCK_NAMESPACE, tokenType]);
+    }
+}
+
+/**
+ * トークンの供給量のスナップショットに変化を加えます。
+ * 指定した高さより後のスナップショットにも同じ変化を加えるため、ブロックは高さの順にインポートしなくても構いません。
+ * 同じトークンを更新するインポートが同時に実行されても変化を取りこぼさないよう、
+ * 読み書きの前にアドバイザリーロックで直列化します。
+ * @param client データベースクライアント
+ * @param tokenType トークンの種類
+ * @param height ブロック高さ
+ * @param delta 供給量の変化
+ */
+async function applySupplyDelta(client: PoolClient, tokenType: string, height: number, delta: string): Promise<void> {
+    await lockTokenSupplies(client, [tokenType]);
+    await client.query(`
+        INSERT INTO token_supplies (token_type, block_height, supply)
+            VALUES ($1::VARCHAR, $2::BIGINT, COALESCE((
+                SELECT supply FROM token_supplies
+                    WHERE token_type = $1::VARCHAR AND block_height < $2::BIGINT
+                    ORDER BY block_height DESC
+                    LIMIT 1
+            ), 0) + $3::NUMERIC)
+            ON CONFLICT (token_type, block_height) DO UPDATE SET
+                supply = token_supplies.supply + $3::NUMERIC
+    `, [tokenType, height, delta]);
+
+    await client.query(`
+        UPDATE token_supplies
+            SET supply = supply + $3::NUMERIC
+            WHERE token_type = $1 AND block_height > $2
+    `, [tokenType, height, delta]);
+}
+
+/**
+ * トランザクションのトークンごとの合計を削除し、供給量のスナップショットから変化を取り消します。
+ * @param client データベースクライアント
+ * @param transactionIds トランザクションID
+ */
+export async function removeTransactionTokens(client: PoolClient, transactionIds: number[]): Promise<void> {
+    if (transactionIds.length === 0) {
+        return;
+    }
+
+    const removed = await client.query(`
+        DELETE FROM transaction_token_totals
+            WHERE transaction_id = ANY($1::BIGINT[])
+            RETURNING token_type, block_height, (total_input - total_output)::TEXT AS delta
+    `, [transactionIds]);
+
+    await lockTokenSupplies(client, removed.rows.map((row) => row.token_type));
+    for (const row of removed.rows) {
+        await applySupplyDelta(client, row.token_type, Number(row.block_height), row.delta);
+        await client.query(`
+            DELETE FROM token_supplies s
+                WHERE token_type = $1 AND block_height = $2
+                  AND NOT EXISTS (
+                      SELECT 1 FROM transaction_token_totals
+                          WHERE token_type = s.token_type AND block_height = s.block_height
+                  )
+        `, [row.token_type, row.block_height]);
+    }
+}
+
+/**
+ * トランザクションのトークンごとの入力・出力の合計と、トークンの供給量を記録します。
+ * 初めて見たトークンの種類は自動で登録します。既に記録済みの場合は記録し直します。
+ * @param client データベースクライアント
+ * @param transactionId トランザクションID
+ * @param height ブロック高さ
+ * @param totals トークンの種類ごとの合計
+ */
+export async function recordTransactionTokens(
+    client: PoolClient,
+    transactionId: number,
+    height: number,
+    totals: Map<string, TokenTotals>
+): Promise<void> {
+    // tokens の行より先にロックを取得し、他のトランザクションと逆の順序で待たないようにする
+    await lockTokenSupplies(client, [...totals.keys()]);
+    await removeTransactionTokens(client, [transactionId]);
+
+    for (const [tokenType, { input, output }] of totals) {
+        await registerToken(client, tokenType, height, transactionId);
+        await client.query(`
+            INSERT INTO transaction_token_totals (transaction_id, token_type, block_height, total_input, total_output)
+                VALUES ($1, $2, $3, $4, $5)
+        `, [transactionId, tokenType, height, input.toString(), output.toString()]);
+        await applySupplyDelta(client, tokenType, height, (output - input).toString());
+    }
+}
@@ -7,9 +7,50 @@ export type Block = {
     timestamp: number;
     isFinalized: boolean;
     extrinsics: Extrinsic[];
+    events: BlockEvent[];
+    /** ダイジェストから求めたスロットと作成者。プレランタイムダイジェストが無い場合はnull */
+    consensus: BlockConsensus | null;
+    /** ブロックのランタイムのバージョン */
+    runtime: BlockRuntime;
     raw: BlockRaw;
 };
 
+/**
+ * ブロックのランタイムのバージョン（state_getRuntimeVersion）
+ */
+export type BlockRuntime = {
+    specName: string;
+    specVersion: number;
+    implVersion: number;
+    transactionVersion: number;
+};
+
+/**
+ * ブロックダイジェストのプレランタイムログ
+ */
+export type PreRuntimeDigest = {
+    /** 合意エンジン（aura / babe） */
+    engine: string;
+    /** 合意のスロット番号 */
+    slot: number;
+    /** BABEの場合のオーソリティのインデックス。Auraの場合はnull（スロットから求める） */
+    authorityIndex: number | null;
+};
+
+/**
+ * ブロックのスロットと作成者
+ */
+export type BlockConsensus = {
+    engine: string;
+    slot: number;
+    /** 作成したオーソリティのインデックス */
+    authorityIndex: number;
+    /** 作成したオーソリティの公開鍵（0xなし・小文字） */
+    author: string;
+    /** 親ブロックの時点のオーソリティの公開鍵（0xなし・小文字）。スロットの担当を求めるために使う */
+    authorities: string[];
+};
+
 export type Extrinsic = {
     index: number;
     blockHeight: number;
@@ -20,7 +61,10 @@ export type Extrinsic = {
     method: {
         section: string;
         method: string;
-        args: string[];
+        /** メタデータの引数名ごとの値 */
+        args: Record<string, unknown>;
+        /** メタデータの引数名ごとの型 */
+        argTypes: Record<string, string>;
     };
     signer: string | null;
     signature: string | null;
@@ -31,6 +75,38 @@ export type Extrinsic = {
     length: number;
     data: string;
     timestamp: number;
+    /** ExtrinsicSuccess / ExtrinsicFailed イベントによる実行結果。イベントが無い場合はnull */
+    success: boolean | null;
+    error: ExtrinsicError | null;
+};
+
+/**
+ * エクストリンジックの実行エラー（ExtrinsicFailed の DispatchError）
+ */
+export type ExtrinsicError = {
+    /** DispatchError の種類（Module, BadOrigin など） */
+    type: string;
+    /** Module エラーの場合のパレット名とエラー名 */
+    section: string | null;
+    name: string | null;
+    docs: string | null;
+    /** DispatchError の内容 */
+    detail: unknown;
+};
+
+/**
+ * ランタイムイベント（system.events）
+ */
+export type BlockEvent = {
+    index: number;
+    /** ApplyExtrinsic / Finalization / Initialization */
+    phase: string;
+    /** ApplyExtrinsic の場合のエクストリンジックのインデックス */
+    extrinsicIndex: number | null;
+    section: string;
+    method: string;
+    data: unknown;
+    topics: string[];
 };
 
 /**
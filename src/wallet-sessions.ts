@@ -0,0 +1,294 @@
+import type { PoolClient } from 'pg';
+import { print } from 'graphql';
+import { withPgClient } from './database';
+import { toErrorMessage } from './errors';
+import { ShieldedTransactionsDocument, type ShieldedTransactionsSubscription } from './graphql/generated';
+import { connectWallet, createSubscriptionClient, disconnectWallet } from './midnight-indexer';
+
+/**
+ * セッションが切断・期限切れになった場合に connect し直すまでの間隔（ミリ秒）
+ */
+const WALLET_RECONNECT_DELAY_MS = Number(process.env.WALLET_RECONNECT_DELAY_MS || 5000);
+
+/**
+ * 登録したウォレット（ビューキーは含みません）
+ */
+export type Wallet = {
+    id: number;
+    label: string | null;
+    enabled: boolean;
+    sessionStartedAt: Date | null;
+    sessionCount: number;
+    highestEndIndex: number | null;
+    highestCheckedEndIndex: number | null;
+    highestRelevantEndIndex: number | null;
+    progressAt: Date | null;
+    lastError: string | null;
+    createdAt: Date;
+};
+
+/**
+ * shieldedTransactions サブスクリプションのイベント
+ */
+type ShieldedTransactionsEvent = ShieldedTransactionsSubscription['shieldedTransactions'];
+
+/**
+ * データベースの値を数値に変換します。
+ * @param value 値
+ */
+function toNumberOrNull(value: unknown): number | null {
+    return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * データベースの行をウォレットに変換します。
+ * @param row wallets の行
+ */
+function toWallet(row: any): Wallet {
+    return {
+        id: Number(row.id),
+        label: row.label,
+        enabled: row.enabled,
+        sessionStartedAt: row.session_started_at,
+        sessionCount: Number(row.session_count),
+        highestEndIndex: toNumberOrNull(row.highest_end_index),
+        highestCheckedEndIndex: toNumberOrNull(row.highest_checked_end_index),
+        highestRelevantEndIndex: toNumberOrNull(row.highest_relevant_end_index),
+        progressAt: row.progress_at,
+        lastError: row.last_error,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * ウォレットを登録します。既に登録されている場合はラベルを更新し、同期を再開します。
+ * ビューキーはセッションを connect し直すために暗号化せずに wallets に保存します。
+ * ビューキーからはウォレットのシールドトランザクションを全て復号できるため、データベースへのアクセスを制限してください。
+ * @param client データベースクライアント
+ * @param viewingKey ビューキー
+ * @param label ラベル
+ */
+export async function addWallet(client: PoolClient, viewingKey: string, label: string | null = null): Promise<Wallet> {
+    const key = viewingKey.trim();
+    if (!key) {
+        throw new Error('Viewing key is required');
+    }
+
+    const result = await client.query(`
+        INSERT INTO wallets (viewing_key, label)
+            VALUES ($1, $2)
+            ON CONFLICT (viewing_key) DO UPDATE SET
+                label = COALESCE(EXCLUDED.label, wallets.label),
+                enabled = TRUE,
+                updated_at = NOW()
+            RETURNING *
+    `, [key, label]);
+    return toWallet(result.rows[0]);
+}
+
+/**
+ * ウォレットを削除します。保存済みの関係するトランザクションも削除されます。
+ * 接続中のセッションがある場合は切断します。
+ * @param client データベースクライアント
+ * @param walletId ウォレットID
+ * @returns 削除した場合はtrue
+ */
+export async function removeWallet(client: PoolClient, walletId: number): Promise<boolean> {
+    const result = await client.query('DELETE FROM wallets WHERE id = $1 RETURNING session_id', [walletId]);
+    const sessionId = result.rows[0]?.session_id;
+    if (sessionId) {
+        await disconnectWallet(sessionId).catch((error) => {
+            console.warn(`[wallet-sessions] ⚠️ Failed to disconnect session of wallet ${walletId}:`, toErrorMessage(error));
+        });
+    }
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * ウォレットの一覧を取得します。
+ * @param client データベースクライアント
+ * @param enabledOnly 同期が有効なウォレットのみ取得する場合はtrue
+ */
+export async function listWallets(client: PoolClient, enabledOnly: boolean = false): Promise<Wallet[]> {
+    const result = await client.query(`
+        SELECT * FROM wallets
+            WHERE NOT $1::BOOLEAN OR enabled
+            ORDER BY id
+    `, [enabledOnly]);
+    return result.rows.map(toWallet);
+}
+
+/**
+ * 購読を再開するインデックスを取得します。保存済みの関係するトランザクションの最大の end_index から再開します。
+ * @param client データベースクライアント
+ * @param walletId ウォレットID
+ */
+async function getWalletResumeIndex(client: PoolClient, walletId: number): Promise<number> {
+    const result = await client.query(
+        'SELECT MAX(end_index) AS end_index FROM wallet_relevant_transactions WHERE wallet_id = $1',
+        [walletId]
+    );
+    return toNumberOrNull(result.rows[0]?.end_index) ?? 0;
+}
+
+/**
+ * shieldedTransactions サブスクリプションのイベントを保存します。
+ * @param client データベースクライアント
+ * @param walletId ウォレットID
+ * @param event イベント
+ */
+async function saveShieldedTransactionsEvent(client: PoolClient, walletId: number, event: ShieldedTransactionsEvent): Promise<void> {
+    if (event.__typename === 'RelevantTransaction') {
+        const tx = event.transaction;
+        await client.query(`
+            INSERT INTO wallet_relevant_transactions
+                (wallet_id, upstream_transaction_id, tx_hash, start_index, end_index, collapsed_merkle_tree)
+                VALUES ($1, $2, $3, $4, $5, $6)
+                ON CONFLICT (wallet_id, upstream_transaction_id) DO UPDATE SET
+                    tx_hash = EXCLUDED.tx_hash,
+                    start_index = EXCLUDED.start_index,
+                    end_index = EXCLUDED.end_index,
+                    collapsed_merkle_tree = COALESCE(EXCLUDED.collapsed_merkle_tree, wallet_relevant_transactions.collapsed_merkle_tree)
+        `, [
+            walletId,
+            tx.id,
+            String(tx.hash).toLowerCase().replace(/^0x/, ''),
+            tx.startIndex,
+            tx.endIndex,
+            event.collapsedMerkleTree ? JSON.stringify(event.collapsedMerkleTree) : null,
+        ]);
+    } else if (event.__typename === 'ShieldedTransactionsProgress') {
+        await client.query(`
+            UPDATE wallets SET
+                highest_end_index = $2,
+                highest_checked_end_index = $3,
+                highest_relevant_end_index = $4,
+                progress_at = NOW(),
+                last_error = NULL,
+                updated_at = NOW()
+                WHERE id = $1
+        `, [walletId, event.highestEndIndex, event.highestCheckedEndIndex, event.highestRelevantEndIndex]);
+    }
+}
+
+/**
+ * ウォレットのセッションを1回実行します。
+ * ビューキーで connect し、shieldedTransactions を購読して受信したイベントを保存します。
+ * 購読が終了・失敗した場合はセッションを切断して返ります。
+ * @param walletId ウォレットID
+ * @param signal 中断された場合は購読を終了します
+ * @returns 受信した関係するトランザクション数
+ */
+export async function runWalletSession(walletId: number, signal?: AbortSignal): Promise<number> {
+    const { viewingKey, index } = await withPgClient(async (client) => {
+        const result = await client.query('SELECT viewing_key FROM wallets WHERE id = $1', [walletId]);
+        if (!result.rows[0]) {
+            throw new Error(`Wallet ${walletId} not found`);
+        }
+        return { viewingKey: result.rows[0].viewing_key as string, index: await getWalletResumeIndex(client, walletId) };
+    });
+
+    const sessionId = await connectWallet(viewingKey);
+    await withPgClient((client) => client.query(`
+        UPDATE wallets SET
+            session_id = $2, session_started_at = NOW(), session_count = session_count + 1, updated_at = NOW()
+            WHERE id = $1
+    `, [walletId, sessionId]));
+    console.log(`[wallet-sessions] 🔑 Wallet ${walletId} connected, subscribing from index ${index.toLocaleString()}`);
+
+    const ws = createSubscriptionClient();
+    const onAbort = () => { ws.dispose(); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let relevant = 0;
+    try {
+        const query = print(ShieldedTransactionsDocument);
+        for await (const result of ws.iterate({ query, variables: { sessionId, index } })) {
+            if (result.errors && result.errors.length > 0) {
+                throw new Error(result.errors.map((error) => error.message).join(', '));
+            }
+            const event = (result.data as ShieldedTransactionsSubscription).shieldedTransactions;
+            await withPgClient((client) => saveShieldedTransactionsEvent(client, walletId, event));
+            if (event.__typename === 'RelevantTransaction') {
+                relevant++;
+                console.log(`[wallet-sessions] 🧾 Wallet ${walletId}: relevant transaction ${event.transaction.hash}`);
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        await ws.dispose();
+        await disconnectWallet(sessionId).catch(() => {
+            // 期限切れのセッションは切断できないため無視する
+        });
+        await withPgClient((client) => client.query(
+            'UPDATE wallets SET session_id = NULL, updated_at = NOW() WHERE id = $1 AND session_id = $2',
+            [walletId, sessionId]
+        ));
+    }
+    return relevant;
+}
+
+/**
+ * 指定した時間待機します。中断された場合は直ちに終了します。
+ * @param ms 待機時間（ミリ秒）
+ * @param signal 中断
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', done);
+            resolve();
+        }
+        signal.addEventListener('abort', done, { once: true });
+    });
+}
+
+/**
+ * ウォレットのセッションを、中断されるまで続けます。
+ * セッションが期限切れ・切断された場合は connect し直して購読を再開します。
+ * ウォレットが削除・無効化された場合は終了します。
+ * @param walletId ウォレットID
+ * @param signal 中断
+ */
+async function followWallet(walletId: number, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+        // 削除・無効化されたウォレットは同期を終了する
+        const wallet = await withPgClient((client) => client.query('SELECT enabled FROM wallets WHERE id = $1', [walletId]));
+        if (!wallet.rows[0]?.enabled) {
+            console.log(`[wallet-sessions] ⏹️ Wallet ${walletId} was removed or disabled`);
+            return;
+        }
+
+        try {
+            await runWalletSession(walletId, signal);
+            if (!signal.aborted) {
+                console.warn(`[wallet-sessions] ⚠️ Wallet ${walletId} subscription completed, reconnecting`);
+            }
+        } catch (error) {
+            console.error(`[wallet-sessions] ❌ Wallet ${walletId} session failed:`, toErrorMessage(error));
+            await withPgClient((client) => client.query(
+                'UPDATE wallets SET last_error = $2, updated_at = NOW() WHERE id = $1',
+                [walletId, toErrorMessage(error)]
+            )).catch(() => undefined);
+        }
+
+        if (!signal.aborted) {
+            await delay(WALLET_RECONNECT_DELAY_MS, signal);
+        }
+    }
+}
+
+/**
+ * 同期が有効な全てのウォレットのセッションを開始します。中断されるまで終了しません。
+ * @param signal 中断
+ */
+export async function startWalletSessions(signal: AbortSignal): Promise<void> {
+    const wallets = await withPgClient((client) => listWallets(client, true));
+    if (wallets.length === 0) {
+        console.log('[wallet-sessions] ℹ️ No enabled wallets');
+        return;
+    }
+    await Promise.all(wallets.map((wallet) => followWallet(wallet.id, signal)));
+}
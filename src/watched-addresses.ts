@@ -0,0 +1,409 @@
+import type { PoolClient } from 'pg';
+import { print } from 'graphql';
+import { withPgClient } from './database';
+import { toErrorMessage } from './errors';
+import { parseAddress } from './api-queries';
+import { UnshieldedTransactionsDocument, type UnshieldedTransactionsSubscription } from './graphql/generated';
+import { createSubscriptionClient, toDate } from './midnight-indexer';
+
+/**
+ * 購読が切断された場合の再接続間隔（ミリ秒）
+ */
+const WATCHED_ADDRESS_RECONNECT_DELAY_MS = Number(process.env.WATCHED_ADDRESS_RECONNECT_DELAY_MS || 5000);
+
+/**
+ * 監視するアドレス
+ */
+export type WatchedAddress = {
+    id: number;
+    address: string;
+    label: string | null;
+    enabled: boolean;
+    lastTransactionId: number | null;
+    highestTransactionId: number | null;
+    progressAt: Date | null;
+    lastError: string | null;
+    createdAt: Date;
+};
+
+/**
+ * 上流のビューとインポートしたUTXOの突き合わせの結果
+ * matched: 一致 / pending: どちらかがまだ取り込んでいない / missing_locally: インポートしたUTXOに無い /
+ * missing_upstream: 上流のビューに無い / value_mismatch: トークンか数量が異なる / spent_mismatch: 消費したトランザクションが異なる
+ */
+export type WatchedAddressVerification = {
+    address: string;
+    counts: Record<string, number>;
+    discrepancies: any[];
+};
+
+/**
+ * unshieldedTransactions サブスクリプションのイベント
+ */
+type UnshieldedTransactionsEvent = UnshieldedTransactionsSubscription['unshieldedTransactions'];
+
+/**
+ * unshieldedTransactions サブスクリプションで受信したUTXO
+ */
+type StreamedUtxo = Extract<UnshieldedTransactionsEvent, { __typename?: 'UnshieldedTransaction' }>['createdUtxos'][number];
+
+/**
+ * データベースの値を数値に変換します。
+ * @param value 値
+ */
+function toNumberOrNull(value: unknown): number | null {
+    return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * データベースの行を監視するアドレスに変換します。
+ * @param row watched_addresses の行
+ */
+function toWatchedAddress(row: any): WatchedAddress {
+    return {
+        id: Number(row.id),
+        address: row.address,
+        label: row.label,
+        enabled: row.enabled,
+        lastTransactionId: toNumberOrNull(row.last_transaction_id),
+        highestTransactionId: toNumberOrNull(row.highest_transaction_id),
+        progressAt: row.progress_at,
+        lastError: row.last_error,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * ハッシュを保存形式（0xなし・小文字）に変換します。
+ * @param hash ハッシュ
+ */
+function toStoredHash(hash: unknown): string {
+    return String(hash).toLowerCase().replace(/^0x/, '');
+}
+
+/**
+ * 監視するアドレスを追加します。既に登録されている場合はラベルを更新し、監視を再開します。
+ * @param client データベースクライアント
+ * @param address mn_addr形式または16進数形式のアドレス
+ * @param label ラベル
+ */
+export async function addWatchedAddress(client: PoolClient, address: string, label: string | null = null): Promise<WatchedAddress> {
+    const { bech32 } = parseAddress(address);
+    const result = await client.query(`
+        INSERT INTO watched_addresses (address, label)
+            VALUES ($1, $2)
+            ON CONFLICT (address) DO UPDATE SET
+                label = COALESCE(EXCLUDED.label, watched_addresses.label),
+                enabled = TRUE,
+                updated_at = NOW()
+            RETURNING *
+    `, [bech32, label]);
+    return toWatchedAddress(result.rows[0]);
+}
+
+/**
+ * 監視するアドレスを削除します。保存済みの上流のビューも削除されます。
+ * @param client データベースクライアント
+ * @param address mn_addr形式または16進数形式のアドレス
+ * @returns 削除した場合はtrue
+ */
+export async function removeWatchedAddress(client: PoolClient, address: string): Promise<boolean> {
+    const { bech32 } = parseAddress(address);
+    const result = await client.query('DELETE FROM watched_addresses WHERE address = $1', [bech32]);
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * 監視するアドレスの一覧を取得します。
+ * @param client データベースクライアント
+ * @param enabledOnly 監視が有効なアドレスのみ取得する場合はtrue
+ */
+export async function listWatchedAddresses(client: PoolClient, enabledOnly: boolean = false): Promise<WatchedAddress[]> {
+    const result = await client.query(`
+        SELECT * FROM watched_addresses
+            WHERE NOT $1::BOOLEAN OR enabled
+            ORDER BY id
+    `, [enabledOnly]);
+    return result.rows.map(toWatchedAddress);
+}
+
+/**
+ * 監視するアドレスを取得します。
+ * @param client データベースクライアント
+ * @param address mn_addr形式または16進数形式のアドレス
+ * @returns 監視するアドレス。登録されていない場合はnullを返します。
+ */
+export async function findWatchedAddress(client: PoolClient, address: string): Promise<WatchedAddress | null> {
+    const { bech32 } = parseAddress(address);
+    const result = await client.query('SELECT * FROM watched_addresses WHERE address = $1', [bech32]);
+    return result.rows[0] ? toWatchedAddress(result.rows[0]) : null;
+}
+
+/**
+ * 受信したUTXOを保存します。
+ * @param client データベースクライアント
+ * @param watchedAddressId 監視するアドレスのID
+ * @param transaction UTXOを作成・消費したトランザクション
+ * @param side 作成（created）または消費（spent）
+ * @param utxo UTXO
+ */
+async function saveStreamedUtxo(
+    client: PoolClient,
+    watchedAddressId: number,
+    transaction: { id: number; hash: unknown },
+    side: 'created' | 'spent',
+    utxo: StreamedUtxo
+): Promise<void> {
+    await client.query(`
+        INSERT INTO watched_address_utxos
+            (watched_address_id, upstream_transaction_id, tx_hash, side, created_at_tx_hash, output_index,
+             owner, token_type, value, intent_hash, ctime, initial_nonce, registered_for_dust_generation)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+            ON CONFLICT (watched_address_id, side, created_at_tx_hash, output_index) DO UPDATE SET
+                upstream_transaction_id = EXCLUDED.upstream_transaction_id,
+                tx_hash = EXCLUDED.tx_hash,
+                owner = EXCLUDED.owner,
+                token_type = EXCLUDED.token_type,
+                value = EXCLUDED.value,
+                intent_hash = EXCLUDED.intent_hash,
+                ctime = EXCLUDED.ctime,
+                initial_nonce = EXCLUDED.initial_nonce,
+                registered_for_dust_generation = EXCLUDED.registered_for_dust_generation,
+                received_at = NOW()
+    `, [
+        watchedAddressId,
+        transaction.id,
+        toStoredHash(transaction.hash),
+        side,
+        toStoredHash(utxo.createdAtTransaction.hash),
+        utxo.outputIndex,
+        String(utxo.owner).toLowerCase(),
+        toStoredHash(utxo.tokenType),
+        utxo.value,
+        utxo.intentHash ? toStoredHash(utxo.intentHash) : null,
+        utxo.ctime != null ? toDate(utxo.ctime, 'seconds') : null,
+        utxo.initialNonce ? toStoredHash(utxo.initialNonce) : null,
+        utxo.registeredForDustGeneration,
+    ]);
+}
+
+/**
+ * unshieldedTransactions サブスクリプションのイベントを保存します。
+ * @param client データベースクライアント
+ * @param watchedAddressId 監視するアドレスのID
+ * @param event イベント
+ */
+async function saveUnshieldedTransactionsEvent(
+    client: PoolClient,
+    watchedAddressId: number,
+    event: UnshieldedTransactionsEvent
+): Promise<void> {
+    if (event.__typename === 'UnshieldedTransaction') {
+        await client.query('BEGIN');
+        try {
+            for (const utxo of event.createdUtxos) {
+                await saveStreamedUtxo(client, watchedAddressId, event.transaction, 'created', utxo);
+            }
+            for (const utxo of event.spentUtxos) {
+                await saveStreamedUtxo(client, watchedAddressId, event.transaction, 'spent', utxo);
+            }
+            await client.query(`
+                UPDATE watched_addresses SET
+                    last_transaction_id = GREATEST(COALESCE(last_transaction_id, 0), $2),
+                    updated_at = NOW()
+                    WHERE id = $1
+            `, [watchedAddressId, event.transaction.id]);
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        }
+    } else if (event.__typename === 'UnshieldedTransactionsProgress') {
+        await client.query(`
+            UPDATE watched_addresses SET
+                highest_transaction_id = $2, progress_at = NOW(), last_error = NULL, updated_at = NOW()
+                WHERE id = $1
+        `, [watchedAddressId, event.highestTransactionId]);
+    }
+}
+
+/**
+ * 監視するアドレスの unshieldedTransactions を1回購読します。
+ * 受信済みの最後のトランザクションの次から購読し、購読が終了・失敗した場合に返ります。
+ * @param watchedAddressId 監視するアドレスのID
+ * @param signal 中断された場合は購読を終了します
+ * @returns 受信したトランザクション数
+ */
+export async function consumeWatchedAddress(watchedAddressId: number, signal?: AbortSignal): Promise<number> {
+    const watched = await withPgClient(async (client) => {
+        const result = await client.query('SELECT * FROM watched_addresses WHERE id = $1', [watchedAddressId]);
+        return result.rows[0] ? toWatchedAddress(result.rows[0]) : null;
+    });
+    if (!watched) {
+        throw new Error(`Watched address ${watchedAddressId} not found`);
+    }
+
+    const transactionId = watched.lastTransactionId === null ? 0 : watched.lastTransactionId + 1;
+    console.log(`[watched-addresses] 👂 Subscribing to ${watched.address} from transaction ${transactionId.toLocaleString()}`);
+
+    const ws = createSubscriptionClient();
+    const onAbort = () => { ws.dispose(); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let received = 0;
+    try {
+        const query = print(UnshieldedTransactionsDocument);
+        for await (const result of ws.iterate({ query, variables: { address: watched.address, transactionId } })) {
+            if (result.errors && result.errors.length > 0) {
+                throw new Error(result.errors.map((error) => error.message).join(', '));
+            }
+            const event = (result.data as UnshieldedTransactionsSubscription).unshieldedTransactions;
+            await withPgClient((client) => saveUnshieldedTransactionsEvent(client, watchedAddressId, event));
+            if (event.__typename === 'UnshieldedTransaction') {
+                received++;
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        await ws.dispose();
+    }
+    return received;
+}
+
+/**
+ * 指定した時間待機します。中断された場合は直ちに終了します。
+ * @param ms 待機時間（ミリ秒）
+ * @param signal 中断
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', done);
+            resolve();
+        }
+        signal.addEventListener('abort', done, { once: true });
+    });
+}
+
+/**
+ * 監視するアドレスの購読を、中断されるまで続けます。
+ * 切断された場合は受信済みの最後のトランザクションの次から購読し直し、アドレスが削除・無効化された場合は終了します。
+ * @param watchedAddressId 監視するアドレスのID
+ * @param signal 中断
+ */
+async function followWatchedAddress(watchedAddressId: number, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+        const watched = await withPgClient((client) => client.query(
+            'SELECT enabled FROM watched_addresses WHERE id = $1',
+            [watchedAddressId]
+        ));
+        if (!watched.rows[0]?.enabled) {
+            console.log(`[watched-addresses] ⏹️ Watched address ${watchedAddressId} was removed or disabled`);
+            return;
+        }
+
+        try {
+            await consumeWatchedAddress(watchedAddressId, signal);
+            if (!signal.aborted) {
+                console.warn(`[watched-addresses] ⚠️ Subscription of watched address ${watchedAddressId} completed`);
+            }
+        } catch (error) {
+            console.error(`[watched-addresses] ❌ Subscription of watched address ${watchedAddressId} failed:`, toErrorMessage(error));
+            await withPgClient((client) => client.query(
+                'UPDATE watched_addresses SET last_error = $2, updated_at = NOW() WHERE id = $1',
+                [watchedAddressId, toErrorMessage(error)]
+            )).catch(() => undefined);
+        }
+
+        if (!signal.aborted) {
+            await delay(WATCHED_ADDRESS_RECONNECT_DELAY_MS, signal);
+        }
+    }
+}
+
+/**
+ * 監視が有効な全てのアドレスの購読を開始します。中断されるまで終了しません。
+ * @param signal 中断
+ */
+export async function startWatchedAddressConsumers(signal: AbortSignal): Promise<void> {
+    const watched = await withPgClient((client) => listWatchedAddresses(client, true));
+    if (watched.length === 0) {
+        console.log('[watched-addresses] ℹ️ No enabled watched addresses');
+        return;
+    }
+    await Promise.all(watched.map((entry) => followWatchedAddress(entry.id, signal)));
+}
+
+/**
+ * 保存した上流のビューと、ブロックからインポートした unshielded_utxos を突き合わせます。
+ * どちらかがまだ取り込んでいないトランザクションに関係するUTXOは pending になります。
+ * @param client データベースクライアント
+ * @param watchedAddressId 監視するアドレスのID
+ */
+export async function verifyWatchedAddress(client: PoolClient, watchedAddressId: number): Promise<WatchedAddressVerification> {
+    const watched = await client.query('SELECT address FROM watched_addresses WHERE id = $1', [watchedAddressId]);
+    if (!watched.rows[0]) {
+        throw new Error(`Watched address ${watchedAddressId} not found`);
+    }
+    const address: string = watched.rows[0].address;
+
+    const result = await client.query(`
+        WITH upstream AS (
+            SELECT c.created_at_tx_hash, c.output_index, c.token_type, c.value, s.tx_hash AS spent_tx_hash
+                FROM watched_address_utxos c
+                LEFT JOIN watched_address_utxos s
+                    ON s.watched_address_id = c.watched_address_id AND s.side = 'spent'
+                   AND s.created_at_tx_hash = c.created_at_tx_hash AND s.output_index = c.output_index
+                WHERE c.watched_address_id = $1 AND c.side = 'created'
+        ),
+        local AS (
+            SELECT created_at_tx_hash, output_index, token_type, value, created_at_height,
+                   spent_at_tx_hash, spent_at_height
+                FROM unshielded_utxos
+                WHERE owner = $2
+        ),
+        -- 上流のビューが取り込んだ最後のトランザクションのブロック高さ
+        coverage AS (
+            SELECT MAX(t.block_height) AS height
+                FROM watched_address_utxos w
+                JOIN transactions t ON t.hash = w.tx_hash
+                WHERE w.watched_address_id = $1
+        )
+        SELECT COALESCE(u.created_at_tx_hash, l.created_at_tx_hash) AS created_at_tx_hash,
+               COALESCE(u.output_index, l.output_index) AS output_index,
+               COALESCE(u.token_type, l.token_type) AS token_type,
+               u.value::TEXT AS upstream_value, l.value::TEXT AS local_value,
+               u.spent_tx_hash AS upstream_spent_tx_hash, l.spent_at_tx_hash AS local_spent_tx_hash,
+               CASE
+                   WHEN l.created_at_tx_hash IS NULL THEN
+                       CASE WHEN EXISTS (SELECT 1 FROM transactions t WHERE t.hash = u.created_at_tx_hash)
+                           THEN 'missing_locally' ELSE 'pending' END
+                   WHEN u.created_at_tx_hash IS NULL THEN
+                       CASE WHEN l.created_at_height <= (SELECT height FROM coverage)
+                           THEN 'missing_upstream' ELSE 'pending' END
+                   WHEN u.token_type <> l.token_type OR u.value <> l.value THEN 'value_mismatch'
+                   WHEN u.spent_tx_hash IS NOT DISTINCT FROM l.spent_at_tx_hash THEN 'matched'
+                   WHEN l.spent_at_tx_hash IS NULL
+                        AND NOT EXISTS (SELECT 1 FROM transactions t WHERE t.hash = u.spent_tx_hash) THEN 'pending'
+                   WHEN u.spent_tx_hash IS NULL
+                        AND l.spent_at_height > (SELECT height FROM coverage) THEN 'pending'
+                   ELSE 'spent_mismatch'
+               END AS status
+            FROM upstream u
+            FULL OUTER JOIN local l
+                ON l.created_at_tx_hash = u.created_at_tx_hash AND l.output_index = u.output_index
+            ORDER BY 1, 2
+    `, [watchedAddressId, address]);
+
+    const counts: Record<string, number> = {};
+    for (const row of result.rows) {
+        counts[row.status] = (counts[row.status] ?? 0) + 1;
+    }
+    return {
+        address,
+        counts,
+        discrepancies: result.rows.filter((row) => row.status !== 'matched'),
+    };
+}